@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { getAdminSession } from "@/lib/auth-server";
+import type { AuditAction, AuditedTable } from "@/types/database.types";
+
+const AUDITED_TABLES: AuditedTable[] = [
+  "attendance",
+  "participants",
+  "groups",
+  "users",
+  "committee_members",
+  "site_settings",
+  "leave_requests",
+  "roles",
+  "role_permissions",
+  "role_department_scopes",
+  "departments",
+];
+
+const ACTIONS: AuditAction[] = ["insert", "update", "delete"];
+
+// search_text is left out; it repeats before_data and after_data
+const ENTRY_COLUMNS =
+  "id, table_name, record_id, action, actor_id, actor_username, source, before_data, after_data, changed_fields, created_at";
+
+// List audit log entries, newest first
+// Supports ?table=<table>&action=<action>&actor=<search>&search=<text>
+// &from=<YYYY-MM-DD>&to=<YYYY-MM-DD>&limit=<n>
+export async function GET(request: Request) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const table = searchParams.get("table") as AuditedTable | null;
+  const action = searchParams.get("action") as AuditAction | null;
+  const actor = searchParams.get("actor")?.trim();
+  const search = searchParams.get("search")?.trim().toLowerCase();
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+  const limit = Math.min(Number(searchParams.get("limit")) || 200, 1000);
+
+  let query = supabaseAdmin
+    .from("audit_log")
+    .select(ENTRY_COLUMNS)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (table && AUDITED_TABLES.includes(table)) {
+    query = query.eq("table_name", table);
+  }
+  if (action && ACTIONS.includes(action)) {
+    query = query.eq("action", action);
+  }
+  if (actor) {
+    query = query.ilike("actor_username", `%${actor}%`);
+  }
+  if (search) {
+    // search_text is the lowercased before and after data
+    query = query.like("search_text", `%${search}%`);
+  }
+  // Dates are whole days in Malaysia time, like the attendance dates
+  if (from && /^\d{4}-\d{2}-\d{2}$/.test(from)) {
+    query = query.gte("created_at", `${from}T00:00:00+08:00`);
+  }
+  if (to && /^\d{4}-\d{2}-\d{2}$/.test(to)) {
+    query = query.lte("created_at", `${to}T23:59:59.999+08:00`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("Error fetching audit log:", error);
+    return NextResponse.json(
+      { error: "Failed to load audit log" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ entries: data || [] });
+}
@@ -0,0 +1,147 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import { getAdminSession } from "@/lib/auth-server";
+import { isRosterDepartment } from "@/lib/departments-server";
+import type {
+  CommitteeMemberStatus,
+  Database,
+  Department,
+} from "@/types/database.types";
+
+interface UpdateMemberRequest {
+  name?: string;
+  department?: Department;
+  status?: CommitteeMemberStatus;
+}
+
+// Load the member named by the route's [memberId] param
+async function getMember(memberIdParam: string) {
+  const memberId = Number(memberIdParam);
+  if (!Number.isInteger(memberId)) {
+    return null;
+  }
+
+  const { data: member } = await supabaseAdmin
+    .from("committee_members")
+    .select("id")
+    .eq("id", memberId)
+    .maybeSingle();
+
+  return member;
+}
+
+// Rename a member, move them to another department or change their status
+// Only the fields sent are changed
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ memberId: string }> }
+) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: UpdateMemberRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const updates: Database["public"]["Tables"]["committee_members"]["Update"] =
+    {};
+  if (body.name !== undefined) {
+    const name = body.name.trim();
+    if (!name) {
+      return NextResponse.json({ error: "Name is required" }, { status: 400 });
+    }
+    updates.name = name;
+  }
+  if (body.department !== undefined) {
+    if (!(await isRosterDepartment(body.department))) {
+      return NextResponse.json(
+        { error: "Invalid department" },
+        { status: 400 }
+      );
+    }
+    updates.department = body.department;
+  }
+  if (body.status !== undefined) {
+    if (body.status !== "active" && body.status !== "inactive") {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+    updates.status = body.status;
+  }
+  if (Object.keys(updates).length === 0) {
+    return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+  }
+
+  const member = await getMember((await params).memberId);
+  if (!member) {
+    return NextResponse.json({ error: "Member not found" }, { status: 404 });
+  }
+
+  const { error } = await createAuditedClient(admin, request)
+    .from("committee_members")
+    .update(updates)
+    .eq("id", member.id);
+
+  if (error) {
+    console.error("Failed to update committee member:", error);
+    return NextResponse.json(
+      { error: "Failed to update committee member" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
+
+// Remove a member added by mistake
+// Members with attendance records must be marked inactive instead, since
+// deleting them would delete their attendance history too
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ memberId: string }> }
+) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const member = await getMember((await params).memberId);
+  if (!member) {
+    return NextResponse.json({ error: "Member not found" }, { status: 404 });
+  }
+
+  const { count } = await supabaseAdmin
+    .from("attendance")
+    .select("id", { count: "exact", head: true })
+    .eq("committee_member_id", member.id);
+
+  if (count) {
+    return NextResponse.json(
+      {
+        error:
+          "This member has attendance records. Mark them inactive instead to keep their history.",
+      },
+      { status: 409 }
+    );
+  }
+
+  const { error } = await createAuditedClient(admin, request)
+    .from("committee_members")
+    .delete()
+    .eq("id", member.id);
+
+  if (error) {
+    console.error("Failed to delete committee member:", error);
+    return NextResponse.json(
+      { error: "Failed to delete committee member" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
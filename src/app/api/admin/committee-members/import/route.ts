@@ -0,0 +1,143 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import { getAdminSession } from "@/lib/auth-server";
+import { normalizeName } from "@/lib/committee-links";
+import {
+  MAX_ROSTER_IMPORT_ROWS,
+  type RosterImportPreviewRow,
+  type RosterImportRow,
+} from "@/lib/committee-roster";
+import { getRosterDepartments, resolveDepartment } from "@/lib/departments";
+import { getDepartments } from "@/lib/departments-server";
+import type { CommitteeMemberStatus } from "@/types/database.types";
+
+interface ImportRosterRequest {
+  rows?: RosterImportRow[];
+  // Only validate the rows and return the preview
+  dryRun?: boolean;
+}
+
+// Validate a roster file and, unless dryRun is set, add every valid row.
+// A name already on the roster in the same department is a duplicate
+export async function POST(request: Request) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: ImportRosterRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const rows = body.rows;
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return NextResponse.json({ error: "No rows to import" }, { status: 400 });
+  }
+  if (rows.length > MAX_ROSTER_IMPORT_ROWS) {
+    return NextResponse.json(
+      { error: `Import at most ${MAX_ROSTER_IMPORT_ROWS} members at a time` },
+      { status: 400 }
+    );
+  }
+
+  const [{ data: existingMembers, error: fetchError }, departments] =
+    await Promise.all([
+      supabaseAdmin.from("committee_members").select("name, department"),
+      getDepartments(),
+    ]);
+  const rosterDepartments = getRosterDepartments(departments);
+
+  if (fetchError) {
+    console.error("Failed to load committee members:", fetchError);
+    return NextResponse.json(
+      { error: "Failed to load committee members" },
+      { status: 500 }
+    );
+  }
+
+  const memberKey = (name: string, department: string) =>
+    `${department}:${normalizeName(name)}`;
+  const onRoster = new Set(
+    (existingMembers || []).map((member) =>
+      memberKey(member.name, member.department)
+    )
+  );
+  const seen = new Set<string>();
+
+  const preview: RosterImportPreviewRow[] = rows.map((row) => {
+    const name = String(row.name ?? "").trim();
+    const department = resolveDepartment(
+      String(row.department ?? ""),
+      rosterDepartments
+    );
+    const statusValue = String(row.status ?? "")
+      .trim()
+      .toLowerCase();
+    const errors: string[] = [];
+
+    if (!name) {
+      errors.push("Name is required");
+    }
+    if (!department) {
+      errors.push(`Unknown department "${row.department ?? ""}"`);
+    }
+    if (statusValue && statusValue !== "active" && statusValue !== "inactive") {
+      errors.push(`Unknown status "${row.status}"`);
+    }
+
+    if (name && department) {
+      const key = memberKey(name, department);
+      if (onRoster.has(key)) {
+        errors.push("Already on the roster");
+      } else if (seen.has(key)) {
+        errors.push("Appears more than once in the file");
+      }
+      seen.add(key);
+    }
+
+    return {
+      line: Number(row.line) || 0,
+      name,
+      department,
+      status: (statusValue || "active") as CommitteeMemberStatus,
+      errors,
+    };
+  });
+
+  if (body.dryRun) {
+    return NextResponse.json({ rows: preview });
+  }
+
+  const newMembers = preview.flatMap((row) =>
+    row.errors.length === 0 && row.department
+      ? [{ name: row.name, department: row.department, status: row.status }]
+      : []
+  );
+  if (newMembers.length === 0) {
+    return NextResponse.json(
+      { error: "No valid rows to import" },
+      { status: 400 }
+    );
+  }
+
+  const { error } = await createAuditedClient(admin, request)
+    .from("committee_members")
+    .insert(newMembers);
+
+  if (error) {
+    console.error("Failed to import committee members:", error);
+    return NextResponse.json(
+      { error: "Failed to import committee members" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({
+    imported: newMembers.length,
+    skipped: preview.length - newMembers.length,
+  });
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { createAuditedClient } from "@/lib/audit";
+import { getAdminSession } from "@/lib/auth-server";
+import { isRosterDepartment } from "@/lib/departments-server";
+import type { Department } from "@/types/database.types";
+
+interface CreateMemberRequest {
+  name?: string;
+  department?: Department;
+}
+
+// Add a member to the committee roster
+export async function POST(request: Request) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: CreateMemberRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const name = body.name?.trim();
+  if (!name) {
+    return NextResponse.json({ error: "Name is required" }, { status: 400 });
+  }
+  if (!body.department || !(await isRosterDepartment(body.department))) {
+    return NextResponse.json({ error: "Invalid department" }, { status: 400 });
+  }
+
+  const { data: member, error } = await createAuditedClient(admin, request)
+    .from("committee_members")
+    .insert({ name, department: body.department })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Failed to add committee member:", error);
+    return NextResponse.json(
+      { error: "Failed to add committee member" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ member });
+}
@@ -0,0 +1,169 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { getAdminSession } from "@/lib/auth-server";
+import { createAuditedClient } from "@/lib/audit";
+import {
+  ADMINISTRATOR_DEPARTMENT,
+  DEPARTMENT_COLOR_PATTERN,
+} from "@/lib/departments";
+import type { Database } from "@/types/database.types";
+
+interface UpdateDepartmentRequest {
+  displayName?: string;
+  color?: string;
+  sortOrder?: number;
+}
+
+// Rename, recolour and/or reorder a department. The key cannot change
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ departmentKey: string }> }
+) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { departmentKey } = await params;
+
+  let body: UpdateDepartmentRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const updates: Database["public"]["Tables"]["departments"]["Update"] = {};
+
+  if (body.displayName !== undefined) {
+    const displayName = body.displayName.trim();
+    if (!displayName) {
+      return NextResponse.json(
+        { error: "Display name is required" },
+        { status: 400 }
+      );
+    }
+    updates.display_name = displayName;
+  }
+  if (body.color !== undefined) {
+    const color = body.color.toLowerCase();
+    if (!DEPARTMENT_COLOR_PATTERN.test(color)) {
+      return NextResponse.json({ error: "Invalid colour" }, { status: 400 });
+    }
+    updates.color = color;
+  }
+  if (body.sortOrder !== undefined) {
+    if (!Number.isInteger(body.sortOrder)) {
+      return NextResponse.json(
+        { error: "Invalid sort order" },
+        { status: 400 }
+      );
+    }
+    updates.sort_order = body.sortOrder;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return NextResponse.json({ error: "No changes" }, { status: 400 });
+  }
+
+  const db = createAuditedClient(admin, request);
+  const { data: department, error } = await db
+    .from("departments")
+    .update(updates)
+    .eq("department_key", departmentKey)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to update department:", error);
+    return NextResponse.json(
+      { error: "Failed to update department" },
+      { status: 500 }
+    );
+  }
+
+  if (!department) {
+    return NextResponse.json(
+      { error: "Department not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, department });
+}
+
+// Delete a department that no user or roster member belongs to
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ departmentKey: string }> }
+) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { departmentKey } = await params;
+
+  if (departmentKey === ADMINISTRATOR_DEPARTMENT) {
+    return NextResponse.json(
+      { error: "The administrator department cannot be deleted" },
+      { status: 400 }
+    );
+  }
+
+  const { data: department } = await supabaseAdmin
+    .from("departments")
+    .select("department_key")
+    .eq("department_key", departmentKey)
+    .maybeSingle();
+
+  if (!department) {
+    return NextResponse.json(
+      { error: "Department not found" },
+      { status: 404 }
+    );
+  }
+
+  const [{ count: userCount }, { count: memberCount }] = await Promise.all([
+    supabaseAdmin
+      .from("users")
+      .select("id", { count: "exact", head: true })
+      .eq("department", departmentKey),
+    supabaseAdmin
+      .from("committee_members")
+      .select("id", { count: "exact", head: true })
+      .eq("department", departmentKey),
+  ]);
+
+  if (userCount || memberCount) {
+    return NextResponse.json(
+      {
+        error: `Move this department's ${userCount || 0} user(s) and ${memberCount || 0} roster member(s) to another department first`,
+      },
+      { status: 409 }
+    );
+  }
+
+  // Department access scopes are removed by ON DELETE CASCADE
+  const { error } = await createAuditedClient(admin, request)
+    .from("departments")
+    .delete()
+    .eq("department_key", departmentKey);
+
+  if (error) {
+    // Someone was added to the department since the check above
+    if (error.code === "23503") {
+      return NextResponse.json(
+        { error: "This department is still in use" },
+        { status: 409 }
+      );
+    }
+    console.error("Failed to delete department:", error);
+    return NextResponse.json(
+      { error: "Failed to delete department" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
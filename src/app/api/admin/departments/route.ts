@@ -0,0 +1,145 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { getAdminSession } from "@/lib/auth-server";
+import { createAuditedClient } from "@/lib/audit";
+import {
+  DEFAULT_DEPARTMENT_COLOR,
+  DEPARTMENT_COLOR_PATTERN,
+  DEPARTMENT_KEY_PATTERN,
+} from "@/lib/departments";
+
+interface CreateDepartmentRequest {
+  departmentKey?: string;
+  displayName?: string;
+  color?: string;
+  sortOrder?: number;
+}
+
+// List all departments with the number of users and roster members in each
+export async function GET() {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const [departmentsResult, usersResult, membersResult] = await Promise.all([
+    supabaseAdmin
+      .from("departments")
+      .select("*")
+      .order("sort_order", { ascending: true }),
+    supabaseAdmin.from("users").select("department"),
+    supabaseAdmin.from("committee_members").select("department"),
+  ]);
+
+  const fetchError =
+    departmentsResult.error || usersResult.error || membersResult.error;
+  if (fetchError) {
+    console.error("Error fetching departments:", fetchError);
+    return NextResponse.json(
+      { error: "Failed to load departments" },
+      { status: 500 }
+    );
+  }
+
+  const users = usersResult.data || [];
+  const members = membersResult.data || [];
+
+  const departments = (departmentsResult.data || []).map((department) => ({
+    ...department,
+    userCount: users.filter(
+      (user) => user.department === department.department_key
+    ).length,
+    memberCount: members.filter(
+      (member) => member.department === department.department_key
+    ).length,
+  }));
+
+  return NextResponse.json({ departments });
+}
+
+// Create a new department
+export async function POST(request: Request) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: CreateDepartmentRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const departmentKey = body.departmentKey?.toLowerCase().trim() || "";
+  const displayName = body.displayName?.trim() || "";
+  const color = body.color?.toLowerCase() || DEFAULT_DEPARTMENT_COLOR;
+
+  if (!DEPARTMENT_KEY_PATTERN.test(departmentKey)) {
+    return NextResponse.json(
+      {
+        error:
+          "Department key must start with a letter and contain only lowercase letters, numbers and underscores",
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!displayName) {
+    return NextResponse.json(
+      { error: "Display name is required" },
+      { status: 400 }
+    );
+  }
+
+  if (!DEPARTMENT_COLOR_PATTERN.test(color)) {
+    return NextResponse.json({ error: "Invalid colour" }, { status: 400 });
+  }
+
+  const { data: existing } = await supabaseAdmin
+    .from("departments")
+    .select("department_key")
+    .eq("department_key", departmentKey)
+    .maybeSingle();
+
+  if (existing) {
+    return NextResponse.json(
+      { error: "A department with this key already exists" },
+      { status: 409 }
+    );
+  }
+
+  // Without a sort order, new departments go to the end of the list
+  let sortOrder = body.sortOrder;
+  if (!Number.isInteger(sortOrder)) {
+    const { data: lastDepartment } = await supabaseAdmin
+      .from("departments")
+      .select("sort_order")
+      .order("sort_order", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    sortOrder = (lastDepartment?.sort_order ?? 0) + 1;
+  }
+
+  const db = createAuditedClient(admin, request);
+  const { data: department, error } = await db
+    .from("departments")
+    .insert({
+      department_key: departmentKey,
+      display_name: displayName,
+      color,
+      sort_order: sortOrder,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Failed to create department:", error);
+    return NextResponse.json(
+      { error: "Failed to create department" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true, department });
+}
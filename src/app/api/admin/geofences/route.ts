@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { createAuditedClient } from "@/lib/audit";
+import { getAdminSession } from "@/lib/auth-server";
+import { getGeofenceConfig, saveGeofenceConfig } from "@/lib/attendance-server";
+import { validateGeofenceConfig, type GeofenceConfig } from "@/lib/geofence";
+
+interface UpdateGeofenceRequest {
+  date?: string;
+  // null removes the venues for the date
+  config?: GeofenceConfig | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Get the venue geofences for a date
+export async function GET(request: Request) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const date = new URL(request.url).searchParams.get("date");
+  if (!date || !DATE_PATTERN.test(date)) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  return NextResponse.json({ config: await getGeofenceConfig(date) });
+}
+
+// Set or clear the venue geofences for a date
+// Applies to check-ins from now on; existing records keep their result
+export async function PUT(request: Request) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: UpdateGeofenceRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  if (!body.date || !DATE_PATTERN.test(body.date)) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const db = createAuditedClient(admin, request);
+
+  if (body.config === null) {
+    const saved = await saveGeofenceConfig(body.date, null, db, admin.id);
+    if (!saved) {
+      return NextResponse.json(
+        { error: "Failed to clear venues" },
+        { status: 500 }
+      );
+    }
+    return NextResponse.json({ config: null });
+  }
+
+  const validationError = validateGeofenceConfig(body.config);
+  if (validationError || !body.config) {
+    return NextResponse.json(
+      { error: validationError || "Invalid request" },
+      { status: 400 }
+    );
+  }
+
+  // Keep only the fields each venue type uses
+  const config: GeofenceConfig = {
+    policy: body.config.policy,
+    maxAccuracyMeters: body.config.maxAccuracyMeters,
+    venues: body.config.venues.map((venue) =>
+      venue.type === "circle"
+        ? {
+            type: "circle",
+            name: venue.name.trim(),
+            latitude: venue.latitude,
+            longitude: venue.longitude,
+            radiusMeters: venue.radiusMeters,
+          }
+        : {
+            type: "polygon",
+            name: venue.name.trim(),
+            points: venue.points.map(({ latitude, longitude }) => ({
+              latitude,
+              longitude,
+            })),
+          }
+    ),
+  };
+
+  const saved = await saveGeofenceConfig(body.date, config, db, admin.id);
+  if (!saved) {
+    return NextResponse.json(
+      { error: "Failed to update venues" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ config });
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { getAdminSession } from "@/lib/auth-server";
+import { clearLoginAttempts, logSecurityEvent } from "@/lib/login-throttle";
+
+// Unlock an account by clearing its failed login attempts
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { username } = await params;
+  const normalizedUsername = decodeURIComponent(username).toLowerCase().trim();
+
+  await clearLoginAttempts(normalizedUsername);
+
+  const { data: lockedUser } = await supabaseAdmin
+    .from("users")
+    .select("id")
+    .eq("username", normalizedUsername)
+    .maybeSingle();
+
+  await logSecurityEvent({
+    event_type: "account_unlocked",
+    username: normalizedUsername,
+    user_id: lockedUser?.id ?? null,
+    user_agent: request.headers.get("user-agent"),
+    details: `Unlocked by ${admin.username}`,
+    performed_by: admin.id,
+  });
+
+  return NextResponse.json({ success: true });
+}
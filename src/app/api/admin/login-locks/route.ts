@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { getAdminSession } from "@/lib/auth-server";
+import { getLockedAccounts } from "@/lib/login-throttle";
+
+// List accounts currently locked out after too many failed logins
+export async function GET() {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const locks = await getLockedAccounts();
+  return NextResponse.json({ locks });
+}
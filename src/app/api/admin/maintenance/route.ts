@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { createAuditedClient } from "@/lib/audit";
+import { getAdminSession } from "@/lib/auth-server";
+
+interface UpdateMaintenanceRequest {
+  maintenanceMode?: boolean;
+  maintenanceMessage?: string;
+}
+
+// Turn maintenance mode on or off and/or change the maintenance message
+export async function PUT(request: Request) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: UpdateMaintenanceRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const updates: { setting_key: string; setting_value: string }[] = [];
+  if (typeof body.maintenanceMode === "boolean") {
+    updates.push({
+      setting_key: "maintenance_mode",
+      setting_value: body.maintenanceMode.toString(),
+    });
+  }
+  if (typeof body.maintenanceMessage === "string") {
+    updates.push({
+      setting_key: "maintenance_message",
+      setting_value: body.maintenanceMessage,
+    });
+  }
+
+  if (updates.length === 0) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  for (const update of updates) {
+    const { error } = await createAuditedClient(admin, request)
+      .from("site_settings")
+      .update({ setting_value: update.setting_value, updated_by: admin.id })
+      .eq("setting_key", update.setting_key);
+
+    if (error) {
+      console.error("Failed to update maintenance settings:", error);
+      return NextResponse.json(
+        { error: "Failed to update maintenance settings" },
+        { status: 500 }
+      );
+    }
+  }
+
+  return NextResponse.json({ success: true });
+}
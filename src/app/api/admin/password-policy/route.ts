@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { createAuditedClient } from "@/lib/audit";
+import { getAdminSession } from "@/lib/auth-server";
+import {
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSWORD_LENGTH,
+  parsePasswordPolicy,
+  type PasswordPolicy,
+} from "@/lib/password-policy";
+import { savePasswordPolicy } from "@/lib/passwords";
+
+// Keep the history lookup and rotation period within reason
+const MAX_HISTORY_COUNT = 24;
+const MAX_AGE_DAYS = 365;
+
+// Replace the password policy
+// Applies to passwords set from now on; a shorter maximum age can expire
+// existing passwords straight away
+export async function PUT(request: Request) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: Partial<PasswordPolicy>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const policy = parsePasswordPolicy(JSON.stringify(body));
+
+  if (
+    body.minLength !== policy.minLength ||
+    policy.minLength < MIN_PASSWORD_LENGTH ||
+    policy.minLength > MAX_PASSWORD_LENGTH
+  ) {
+    return NextResponse.json(
+      {
+        error: `Minimum length must be between ${MIN_PASSWORD_LENGTH} and ${MAX_PASSWORD_LENGTH}`,
+      },
+      { status: 400 }
+    );
+  }
+  if (
+    body.historyCount !== policy.historyCount ||
+    policy.historyCount > MAX_HISTORY_COUNT
+  ) {
+    return NextResponse.json(
+      { error: `Password history must be between 0 and ${MAX_HISTORY_COUNT}` },
+      { status: 400 }
+    );
+  }
+  if (
+    body.maxAgeDays !== policy.maxAgeDays ||
+    policy.maxAgeDays > MAX_AGE_DAYS
+  ) {
+    return NextResponse.json(
+      { error: `Maximum age must be between 0 and ${MAX_AGE_DAYS} days` },
+      { status: 400 }
+    );
+  }
+
+  const saved = await savePasswordPolicy(
+    policy,
+    createAuditedClient(admin, request),
+    admin.id
+  );
+  if (!saved) {
+    return NextResponse.json(
+      { error: "Failed to update password policy" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ policy });
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { createAuditedClient } from "@/lib/audit";
+import { getAdminSession } from "@/lib/auth-server";
+import { MAX_GRACE_MINUTES, REPORTING_TIME_PATTERN } from "@/lib/attendance";
+import { saveReportingSchedule } from "@/lib/attendance-server";
+
+interface UpdateReportingTimeRequest {
+  date?: string;
+  // null removes the reporting time for the date
+  reportingTime?: string | null;
+  graceMinutes?: number;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Set or clear the reporting time and grace period for a date
+// Applies to check-ins from now on; existing records keep their status
+export async function PUT(request: Request) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: UpdateReportingTimeRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  if (!body.date || !DATE_PATTERN.test(body.date)) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const db = createAuditedClient(admin, request);
+
+  if (body.reportingTime === null) {
+    const saved = await saveReportingSchedule(body.date, null, db, admin.id);
+    if (!saved) {
+      return NextResponse.json(
+        { error: "Failed to clear reporting time" },
+        { status: 500 }
+      );
+    }
+    return NextResponse.json({ schedule: null });
+  }
+
+  if (
+    typeof body.reportingTime !== "string" ||
+    !REPORTING_TIME_PATTERN.test(body.reportingTime)
+  ) {
+    return NextResponse.json(
+      { error: "Reporting time must be in HH:MM format" },
+      { status: 400 }
+    );
+  }
+
+  const graceMinutes = body.graceMinutes;
+  if (
+    typeof graceMinutes !== "number" ||
+    !Number.isInteger(graceMinutes) ||
+    graceMinutes < 0 ||
+    graceMinutes > MAX_GRACE_MINUTES
+  ) {
+    return NextResponse.json(
+      {
+        error: `Grace period must be between 0 and ${MAX_GRACE_MINUTES} minutes`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const schedule = { reportingTime: body.reportingTime, graceMinutes };
+  const saved = await saveReportingSchedule(body.date, schedule, db, admin.id);
+  if (!saved) {
+    return NextResponse.json(
+      { error: "Failed to update reporting time" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ schedule });
+}
@@ -0,0 +1,261 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { getAdminSession } from "@/lib/auth-server";
+import { createAuditedClient } from "@/lib/audit";
+import { getDepartments } from "@/lib/departments-server";
+import {
+  ADMIN_ROLE,
+  PAGES,
+  SCOPABLE_PAGES,
+  isPermission,
+  type DepartmentScopes,
+  type PageKey,
+  type Permissions,
+} from "@/lib/permissions";
+import { setTwoFactorRequired } from "@/lib/two-factor";
+import type { Department } from "@/types/database.types";
+
+interface UpdateRoleRequest {
+  displayName?: string;
+  permissions?: Partial<Permissions>;
+  // Pages listed here have their departments replaced; an empty or
+  // missing list removes the limit
+  departmentScopes?: DepartmentScopes;
+  // Whether users with this role must sign in with a second factor
+  twoFactorRequired?: boolean;
+}
+
+// Rename a role, change its permission matrix, department scopes and/or
+// 2FA requirement
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ roleKey: string }> }
+) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { roleKey } = await params;
+
+  let body: UpdateRoleRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const { data: role } = await supabaseAdmin
+    .from("roles")
+    .select("role_key")
+    .eq("role_key", roleKey)
+    .maybeSingle();
+
+  if (!role) {
+    return NextResponse.json({ error: "Role not found" }, { status: 404 });
+  }
+
+  // Check the whole request before writing, so nothing is saved when any
+  // part of it is refused
+  let displayName: string | null = null;
+  if (body.displayName !== undefined) {
+    displayName =
+      typeof body.displayName === "string" ? body.displayName.trim() : "";
+    if (!displayName) {
+      return NextResponse.json(
+        { error: "Display name is required" },
+        { status: 400 }
+      );
+    }
+  }
+
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+  if (
+    (body.permissions !== undefined && !isRecord(body.permissions)) ||
+    (body.departmentScopes !== undefined && !isRecord(body.departmentScopes))
+  ) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  // The admin role always keeps full access so nobody locks themselves out
+  if (
+    roleKey === ADMIN_ROLE &&
+    (body.permissions !== undefined || body.departmentScopes !== undefined)
+  ) {
+    return NextResponse.json(
+      { error: "Admin permissions cannot be changed" },
+      { status: 400 }
+    );
+  }
+
+  // Departments to keep per page; pages not in the request are left alone
+  const scopeUpdates: { page: PageKey; departments: Department[] }[] = [];
+  if (body.departmentScopes) {
+    const departmentKeys = (await getDepartments()).map(
+      (department) => department.department_key
+    );
+
+    for (const page of SCOPABLE_PAGES) {
+      if (!Object.hasOwn(body.departmentScopes, page)) continue;
+
+      const requested = body.departmentScopes[page] ?? [];
+      if (!Array.isArray(requested)) {
+        return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+      }
+
+      scopeUpdates.push({
+        page,
+        departments: requested.filter((department): department is Department =>
+          departmentKeys.includes(department)
+        ),
+      });
+    }
+  }
+
+  const db = createAuditedClient(admin, request);
+
+  if (displayName) {
+    const { error } = await db
+      .from("roles")
+      .update({ display_name: displayName })
+      .eq("role_key", roleKey);
+
+    if (error) {
+      console.error("Failed to rename role:", error);
+      return NextResponse.json(
+        { error: "Failed to update role" },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (body.permissions) {
+    const rows = PAGES.filter((page) =>
+      isPermission(body.permissions?.[page.key])
+    ).map((page) => ({
+      role_key: roleKey,
+      page_key: page.key,
+      permission: body.permissions![page.key]!,
+    }));
+
+    const { error } = await db
+      .from("role_permissions")
+      .upsert(rows, { onConflict: "role_key,page_key" });
+
+    if (error) {
+      console.error("Failed to update role permissions:", error);
+      return NextResponse.json(
+        { error: "Failed to update permissions" },
+        { status: 500 }
+      );
+    }
+  }
+
+  for (const { page, departments } of scopeUpdates) {
+    const { error: deleteError } = await db
+      .from("role_department_scopes")
+      .delete()
+      .eq("role_key", roleKey)
+      .eq("page_key", page);
+
+    const { error: insertError } =
+      departments.length > 0
+        ? await db.from("role_department_scopes").insert(
+            departments.map((department) => ({
+              role_key: roleKey,
+              page_key: page,
+              department,
+            }))
+          )
+        : { error: null };
+
+    if (deleteError || insertError) {
+      console.error(
+        "Failed to update department scopes:",
+        deleteError || insertError
+      );
+      return NextResponse.json(
+        { error: "Failed to update department access" },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (typeof body.twoFactorRequired === "boolean") {
+    const saved = await setTwoFactorRequired(
+      roleKey,
+      body.twoFactorRequired,
+      db
+    );
+    if (!saved) {
+      return NextResponse.json(
+        { error: "Failed to update two-factor requirement" },
+        { status: 500 }
+      );
+    }
+  }
+
+  return NextResponse.json({ success: true });
+}
+
+// Delete a role that no user is assigned to
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ roleKey: string }> }
+) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { roleKey } = await params;
+
+  const { data: role } = await supabaseAdmin
+    .from("roles")
+    .select("role_key, is_system")
+    .eq("role_key", roleKey)
+    .maybeSingle();
+
+  if (!role) {
+    return NextResponse.json({ error: "Role not found" }, { status: 404 });
+  }
+
+  if (role.is_system) {
+    return NextResponse.json(
+      { error: "System roles cannot be deleted" },
+      { status: 400 }
+    );
+  }
+
+  const { count } = await supabaseAdmin
+    .from("users")
+    .select("id", { count: "exact", head: true })
+    .eq("role", roleKey);
+
+  if (count) {
+    return NextResponse.json(
+      {
+        error: `${count} user${count > 1 ? "s are" : " is"} still assigned to this role`,
+      },
+      { status: 409 }
+    );
+  }
+
+  // Permission rows are removed by ON DELETE CASCADE
+  const { error } = await createAuditedClient(admin, request)
+    .from("roles")
+    .delete()
+    .eq("role_key", roleKey);
+
+  if (error) {
+    console.error("Failed to delete role:", error);
+    return NextResponse.json(
+      { error: "Failed to delete role" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,170 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { getAdminSession } from "@/lib/auth-server";
+import { createAuditedClient } from "@/lib/audit";
+import {
+  PAGES,
+  ROLE_KEY_PATTERN,
+  buildDepartmentScopes,
+  buildPermissions,
+  isPermission,
+  type Permissions,
+} from "@/lib/permissions";
+import { getTwoFactorRequiredRoles } from "@/lib/two-factor";
+
+interface CreateRoleRequest {
+  roleKey?: string;
+  displayName?: string;
+  permissions?: Partial<Permissions>;
+}
+
+// List all roles with their permission matrix, department scopes,
+// 2FA requirement and number of users
+export async function GET() {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const [
+    rolesResult,
+    permissionsResult,
+    scopesResult,
+    usersResult,
+    twoFactorRoles,
+  ] = await Promise.all([
+    supabaseAdmin
+      .from("roles")
+      .select("*")
+      .order("sort_order", { ascending: true }),
+    supabaseAdmin
+      .from("role_permissions")
+      .select("role_key, page_key, permission"),
+    supabaseAdmin
+      .from("role_department_scopes")
+      .select("role_key, page_key, department"),
+    supabaseAdmin.from("users").select("role"),
+    getTwoFactorRequiredRoles(),
+  ]);
+
+  const fetchError =
+    rolesResult.error || permissionsResult.error || scopesResult.error;
+  if (fetchError) {
+    console.error("Error fetching roles:", fetchError);
+    return NextResponse.json(
+      { error: "Failed to load roles" },
+      { status: 500 }
+    );
+  }
+
+  const permissionRows = permissionsResult.data || [];
+  const scopeRows = scopesResult.data || [];
+  const users = usersResult.data || [];
+
+  const roles = (rolesResult.data || []).map((role) => ({
+    ...role,
+    permissions: buildPermissions(
+      permissionRows.filter((row) => row.role_key === role.role_key)
+    ),
+    departmentScopes: buildDepartmentScopes(
+      scopeRows.filter((row) => row.role_key === role.role_key)
+    ),
+    twoFactorRequired: twoFactorRoles.includes(role.role_key),
+    userCount: users.filter((user) => user.role === role.role_key).length,
+  }));
+
+  return NextResponse.json({ roles });
+}
+
+// Create a new role with an initial permission matrix
+export async function POST(request: Request) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: CreateRoleRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const roleKey = body.roleKey?.toLowerCase().trim() || "";
+  const displayName = body.displayName?.trim() || "";
+
+  if (!ROLE_KEY_PATTERN.test(roleKey)) {
+    return NextResponse.json(
+      {
+        error:
+          "Role key must start with a letter and contain only lowercase letters, numbers and underscores",
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!displayName) {
+    return NextResponse.json(
+      { error: "Display name is required" },
+      { status: 400 }
+    );
+  }
+
+  const { data: existing } = await supabaseAdmin
+    .from("roles")
+    .select("role_key")
+    .eq("role_key", roleKey)
+    .maybeSingle();
+
+  if (existing) {
+    return NextResponse.json(
+      { error: "A role with this key already exists" },
+      { status: 409 }
+    );
+  }
+
+  // New roles go to the end of the list
+  const { data: lastRole } = await supabaseAdmin
+    .from("roles")
+    .select("sort_order")
+    .order("sort_order", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const db = createAuditedClient(admin, request);
+
+  const { error: roleError } = await db.from("roles").insert({
+    role_key: roleKey,
+    display_name: displayName,
+    sort_order: (lastRole?.sort_order ?? 0) + 1,
+  });
+
+  if (roleError) {
+    console.error("Failed to create role:", roleError);
+    return NextResponse.json(
+      { error: "Failed to create role" },
+      { status: 500 }
+    );
+  }
+
+  const { error: permissionsError } = await db.from("role_permissions").insert(
+    PAGES.map((page) => {
+      const permission = body.permissions?.[page.key];
+      return {
+        role_key: roleKey,
+        page_key: page.key,
+        permission: isPermission(permission) ? permission : "none",
+      };
+    })
+  );
+
+  if (permissionsError) {
+    console.error("Failed to create role permissions:", permissionsError);
+    return NextResponse.json(
+      { error: "Role created but permissions could not be saved" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { getAdminSession } from "@/lib/auth-server";
+import type { SecurityEventType } from "@/types/database.types";
+
+const EVENT_TYPES: SecurityEventType[] = [
+  "login_failed",
+  "login_blocked",
+  "account_locked",
+  "account_unlocked",
+  "two_factor_failed",
+  "two_factor_enabled",
+  "two_factor_disabled",
+  "backup_code_used",
+  "view_as_started",
+  "view_as_ended",
+  "view_as_write_blocked",
+  "password_reset_issued",
+  "password_reset_completed",
+];
+
+// List security log entries, newest first
+// Supports ?type=<event type>&username=<search>&limit=<n>
+export async function GET(request: Request) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const type = searchParams.get("type") as SecurityEventType | null;
+  const username = searchParams.get("username")?.trim();
+  const limit = Math.min(Number(searchParams.get("limit")) || 200, 1000);
+
+  let query = supabaseAdmin
+    .from("security_events")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (type && EVENT_TYPES.includes(type)) {
+    query = query.eq("event_type", type);
+  }
+  if (username) {
+    query = query.ilike("username", `%${username}%`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("Error fetching security events:", error);
+    return NextResponse.json(
+      { error: "Failed to load security log" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ events: data || [] });
+}
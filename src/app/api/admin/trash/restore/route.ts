@@ -0,0 +1,140 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import { getAdminSession } from "@/lib/auth-server";
+import type { TrashItemType } from "@/lib/trash";
+
+interface RestoreRequest {
+  type?: TrashItemType;
+  id?: number;
+}
+
+const RESTORED = { deleted_at: null, deleted_by: null };
+
+// Take a user, team or participant back out of the Trash.
+// A team comes back with the participants deleted together with it, and a
+// participant whose team is in the Trash brings the team back
+export async function POST(request: Request) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: RestoreRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const id = body.id;
+  if (typeof id !== "number" || !Number.isInteger(id)) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const db = createAuditedClient(admin, request);
+
+  if (body.type === "user") {
+    const { data: user, error } = await db
+      .from("users")
+      .update(RESTORED)
+      .eq("id", id)
+      .not("deleted_at", "is", null)
+      .is("purged_at", null)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Failed to restore user:", error);
+      return NextResponse.json(
+        { error: "Failed to restore user" },
+        { status: 500 }
+      );
+    }
+    if (!user) {
+      return NextResponse.json(
+        { error: "User is not in the Trash" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  }
+
+  if (body.type === "team") {
+    const { data: team } = await supabaseAdmin
+      .from("groups")
+      .select("id, deleted_at")
+      .eq("id", id)
+      .not("deleted_at", "is", null)
+      .maybeSingle();
+
+    if (!team) {
+      return NextResponse.json(
+        { error: "Team is not in the Trash" },
+        { status: 404 }
+      );
+    }
+
+    const { error: participantsError } = await db
+      .from("participants")
+      .update(RESTORED)
+      .eq("group_id", team.id)
+      .eq("deleted_at", team.deleted_at!);
+
+    const { error } = participantsError
+      ? { error: participantsError }
+      : await db.from("groups").update(RESTORED).eq("id", team.id);
+
+    if (error) {
+      console.error("Failed to restore team:", error);
+      return NextResponse.json(
+        { error: "Failed to restore team" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  }
+
+  if (body.type === "participant") {
+    const { data: participant } = await supabaseAdmin
+      .from("participants")
+      .select("id, group_id")
+      .eq("id", id)
+      .not("deleted_at", "is", null)
+      .maybeSingle();
+
+    if (!participant) {
+      return NextResponse.json(
+        { error: "Participant is not in the Trash" },
+        { status: 404 }
+      );
+    }
+
+    // E.g. the team was removed automatically when its last member was
+    const { error: teamError } = participant.group_id
+      ? await db
+          .from("groups")
+          .update(RESTORED)
+          .eq("id", participant.group_id)
+          .not("deleted_at", "is", null)
+      : { error: null };
+
+    const { error } = teamError
+      ? { error: teamError }
+      : await db.from("participants").update(RESTORED).eq("id", participant.id);
+
+    if (error) {
+      console.error("Failed to restore participant:", error);
+      return NextResponse.json(
+        { error: "Failed to restore participant" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  }
+
+  return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+}
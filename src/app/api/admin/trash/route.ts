@@ -0,0 +1,168 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import { getAdminSession } from "@/lib/auth-server";
+import {
+  MAX_TRASH_RETENTION_DAYS,
+  getTrashRetentionDays,
+  purgeExpiredTrash,
+  saveTrashRetentionDays,
+} from "@/lib/trash";
+
+interface UpdateTrashRequest {
+  retentionDays?: number;
+}
+
+// List everything in the Trash, after purging what has expired.
+// Participants deleted together with their team are listed under the team
+export async function GET() {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  await purgeExpiredTrash();
+
+  const [usersResult, teamsResult, participantsResult, retentionDays] =
+    await Promise.all([
+      supabaseAdmin
+        .from("users")
+        .select("id, name, username, department, role, deleted_at, deleted_by")
+        .not("deleted_at", "is", null)
+        // Purged users stay as anonymous rows but are gone from the Trash
+        .is("purged_at", null)
+        .order("deleted_at", { ascending: false }),
+      supabaseAdmin
+        .from("groups")
+        .select("id, name, deleted_at, deleted_by")
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false }),
+      supabaseAdmin
+        .from("participants")
+        .select("id, name, group_id, deleted_at, deleted_by")
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false }),
+      getTrashRetentionDays(),
+    ]);
+
+  const fetchError =
+    usersResult.error || teamsResult.error || participantsResult.error;
+  if (fetchError) {
+    console.error("Error fetching trash:", fetchError);
+    return NextResponse.json(
+      { error: "Failed to load the Trash" },
+      { status: 500 }
+    );
+  }
+
+  const deletedUsers = usersResult.data || [];
+  const deletedTeams = teamsResult.data || [];
+  const deletedParticipants = participantsResult.data || [];
+
+  // Names of whoever deleted each item, and of the teams that individually
+  // deleted participants were in
+  const deleterIds = [
+    ...new Set(
+      [...deletedUsers, ...deletedTeams, ...deletedParticipants]
+        .map((item) => item.deleted_by)
+        .filter((id): id is number => id !== null)
+    ),
+  ];
+  const groupIds = [
+    ...new Set(
+      deletedParticipants
+        .map((participant) => participant.group_id)
+        .filter((id): id is number => id !== null)
+    ),
+  ];
+  const [{ data: deleters }, { data: groups }] = await Promise.all([
+    deleterIds.length > 0
+      ? supabaseAdmin.from("users").select("id, username").in("id", deleterIds)
+      : Promise.resolve({ data: [] }),
+    groupIds.length > 0
+      ? supabaseAdmin.from("groups").select("id, name").in("id", groupIds)
+      : Promise.resolve({ data: [] }),
+  ]);
+
+  const getDeletedBy = (userId: number | null) =>
+    (deleters || []).find((user) => user.id === userId)?.username ?? null;
+
+  const isDeletedWithTeam = (participant: (typeof deletedParticipants)[0]) =>
+    deletedTeams.some(
+      (team) =>
+        team.id === participant.group_id &&
+        team.deleted_at === participant.deleted_at
+    );
+
+  return NextResponse.json({
+    retentionDays,
+    users: deletedUsers.map(({ deleted_by, ...user }) => ({
+      ...user,
+      deletedBy: getDeletedBy(deleted_by),
+    })),
+    teams: deletedTeams.map(({ deleted_by, ...team }) => ({
+      ...team,
+      deletedBy: getDeletedBy(deleted_by),
+      members: deletedParticipants
+        .filter(
+          (participant) =>
+            participant.group_id === team.id &&
+            participant.deleted_at === team.deleted_at
+        )
+        .map((participant) => participant.name),
+    })),
+    participants: deletedParticipants
+      .filter((participant) => !isDeletedWithTeam(participant))
+      .map(({ deleted_by, ...participant }) => ({
+        ...participant,
+        deletedBy: getDeletedBy(deleted_by),
+        teamName:
+          (groups || []).find((group) => group.id === participant.group_id)
+            ?.name ?? null,
+      })),
+  });
+}
+
+// Change how long deleted items stay in the Trash
+export async function PUT(request: Request) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: UpdateTrashRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const days = body.retentionDays;
+  if (
+    typeof days !== "number" ||
+    !Number.isInteger(days) ||
+    days < 1 ||
+    days > MAX_TRASH_RETENTION_DAYS
+  ) {
+    return NextResponse.json(
+      {
+        error: `Retention must be between 1 and ${MAX_TRASH_RETENTION_DAYS} days`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const saved = await saveTrashRetentionDays(
+    days,
+    createAuditedClient(admin, request),
+    admin.id
+  );
+  if (!saved) {
+    return NextResponse.json(
+      { error: "Failed to update retention period" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
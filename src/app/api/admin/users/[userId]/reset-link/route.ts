@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { getAdminSession } from "@/lib/auth-server";
+import { getClientIp, logSecurityEvent } from "@/lib/login-throttle";
+import { createPasswordResetToken } from "@/lib/password-reset";
+import { getEditableUser } from "@/lib/users";
+
+// Create a single-use password reset link for a user who forgot their
+// password. The link is only shown to the admin, who passes it on
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { target, error: targetError } = await getEditableUser(
+    admin,
+    (await params).userId
+  );
+  if (targetError) return targetError;
+
+  if (target.status !== "active") {
+    return NextResponse.json(
+      { error: "Activate the account before issuing a reset link" },
+      { status: 400 }
+    );
+  }
+
+  const reset = await createPasswordResetToken(target.id, admin.id);
+  if (!reset) {
+    return NextResponse.json(
+      { error: "Failed to create reset link" },
+      { status: 500 }
+    );
+  }
+
+  await logSecurityEvent({
+    event_type: "password_reset_issued",
+    username: target.username,
+    user_id: target.id,
+    ip_address: getClientIp(request),
+    user_agent: request.headers.get("user-agent"),
+    details: `Reset link issued by ${admin.username}`,
+    performed_by: admin.id,
+  });
+
+  const url = new URL("/reset-password", request.url);
+  url.searchParams.set("token", reset.token);
+
+  return NextResponse.json({ url: url.toString(), expiresAt: reset.expiresAt });
+}
@@ -0,0 +1,212 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import { getAdminSession } from "@/lib/auth-server";
+import { isDepartment } from "@/lib/departments-server";
+import { getEditableUser } from "@/lib/users";
+import type {
+  Database,
+  Department,
+  UserRole,
+  UserStatus,
+} from "@/types/database.types";
+
+interface UpdateUserRequest {
+  name?: string;
+  username?: string;
+  department?: Department;
+  role?: UserRole;
+  status?: UserStatus;
+  // Make the user choose a new password at next login
+  mustChangePassword?: boolean;
+  // The user's committee roster entry, or null to unlink
+  committeeMemberId?: number | null;
+}
+
+// Edit a user's details, status, forced password change or committee link
+// Only the fields sent are changed. Role and department changes apply to
+// the user's open sessions straight away; deactivated users lose their
+// sessions on their next request
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: UpdateUserRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const updates: Database["public"]["Tables"]["users"]["Update"] = {};
+  if (body.name !== undefined) {
+    const name = body.name.trim();
+    if (!name) {
+      return NextResponse.json({ error: "Name is required" }, { status: 400 });
+    }
+    updates.name = name;
+  }
+  if (body.username !== undefined) {
+    const username = body.username.toLowerCase().trim();
+    if (username.length < 3) {
+      return NextResponse.json(
+        { error: "Username must be at least 3 characters" },
+        { status: 400 }
+      );
+    }
+    updates.username = username;
+  }
+  if (body.department !== undefined) {
+    if (!(await isDepartment(body.department))) {
+      return NextResponse.json(
+        { error: "Invalid department" },
+        { status: 400 }
+      );
+    }
+    updates.department = body.department;
+  }
+  if (body.role !== undefined) {
+    const { data: role } = await supabaseAdmin
+      .from("roles")
+      .select("role_key")
+      .eq("role_key", body.role)
+      .maybeSingle();
+    if (!role) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+    updates.role = body.role;
+  }
+  if (body.status !== undefined) {
+    if (body.status !== "active" && body.status !== "inactive") {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+    updates.status = body.status;
+  }
+  if (typeof body.mustChangePassword === "boolean") {
+    updates.must_change_password = body.mustChangePassword;
+  }
+  if (body.committeeMemberId !== undefined) {
+    if (body.committeeMemberId !== null) {
+      const { data: member } = await supabaseAdmin
+        .from("committee_members")
+        .select("id")
+        .eq("id", body.committeeMemberId)
+        .maybeSingle();
+      if (!member) {
+        return NextResponse.json(
+          { error: "Committee member not found" },
+          { status: 400 }
+        );
+      }
+    }
+    updates.committee_member_id = body.committeeMemberId;
+  }
+  if (Object.keys(updates).length === 0) {
+    return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+  }
+
+  const { target, error: targetError } = await getEditableUser(
+    admin,
+    (await params).userId
+  );
+  if (targetError) return targetError;
+
+  if (updates.username && updates.username !== target.username) {
+    const { data: existingUser } = await supabaseAdmin
+      .from("users")
+      .select("id")
+      .eq("username", updates.username)
+      .neq("id", target.id)
+      .maybeSingle();
+
+    if (existingUser) {
+      return NextResponse.json(
+        { error: "Username already exists" },
+        { status: 409 }
+      );
+    }
+  }
+
+  if (updates.committee_member_id) {
+    const { data: linkedUser } = await supabaseAdmin
+      .from("users")
+      .select("username")
+      .eq("committee_member_id", updates.committee_member_id)
+      .neq("id", target.id)
+      .maybeSingle();
+
+    if (linkedUser) {
+      return NextResponse.json(
+        {
+          error: `That committee member is already linked to ${linkedUser.username}`,
+        },
+        { status: 409 }
+      );
+    }
+  }
+
+  const { error } = await createAuditedClient(admin, request)
+    .from("users")
+    .update(updates)
+    .eq("id", target.id);
+
+  if (error) {
+    console.error("Failed to update user:", error);
+    return NextResponse.json(
+      { error: "Failed to update user" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
+
+// Move a user account to the Trash and sign it out everywhere
+// Admins can restore it until the Trash is purged
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { target, error: targetError } = await getEditableUser(
+    admin,
+    (await params).userId
+  );
+  if (targetError) return targetError;
+
+  const { error } = await createAuditedClient(admin, request)
+    .from("users")
+    .update({
+      deleted_at: new Date().toISOString(),
+      deleted_by: admin.id,
+    })
+    .eq("id", target.id);
+
+  if (error) {
+    console.error("Failed to delete user:", error);
+    return NextResponse.json(
+      { error: "Failed to delete user" },
+      { status: 500 }
+    );
+  }
+
+  // Deleting the sessions broadcasts session_changed to open tabs
+  const { error: sessionsError } = await supabaseAdmin
+    .from("user_sessions")
+    .delete()
+    .eq("user_id", target.id);
+  if (sessionsError) {
+    console.error("Failed to revoke deleted user's sessions:", sessionsError);
+  }
+
+  return NextResponse.json({ success: true });
+}
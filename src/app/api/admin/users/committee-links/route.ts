@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import { getAdminSession } from "@/lib/auth-server";
+import { findCommitteeMatches } from "@/lib/committee-links";
+
+interface MatchCommitteeRequest {
+  // Only return the suggested links
+  dryRun?: boolean;
+}
+
+// Link unlinked users to the committee roster entry with the same name
+export async function POST(request: Request) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: MatchCommitteeRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const [{ data: users }, { data: members }] = await Promise.all([
+    supabaseAdmin
+      .from("users")
+      .select(
+        "id, name, username, department, role, committee_member_id, deleted_at"
+      ),
+    supabaseAdmin.from("committee_members").select("id, name, department"),
+  ]);
+
+  if (!users || !members) {
+    return NextResponse.json(
+      { error: "Failed to load users and committee members" },
+      { status: 500 }
+    );
+  }
+
+  // Deleted users are never linked, but keep the members they hold
+  const matches = findCommitteeMatches(
+    users.filter((user) => !user.deleted_at || user.committee_member_id),
+    members
+  );
+
+  if (body.dryRun) {
+    return NextResponse.json({ matches });
+  }
+
+  const db = createAuditedClient(admin, request);
+  const results = await Promise.all(
+    matches.map((match) =>
+      db
+        .from("users")
+        .update({ committee_member_id: match.memberId })
+        .eq("id", match.userId)
+        .is("committee_member_id", null)
+    )
+  );
+
+  const failed = results.filter((result) => result.error);
+  if (failed.length > 0) {
+    console.error("Failed to link committee members:", failed[0].error);
+  }
+
+  return NextResponse.json({
+    linked: matches.length - failed.length,
+    failed: failed.length,
+  });
+}
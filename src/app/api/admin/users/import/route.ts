@@ -0,0 +1,208 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import { getAdminSession } from "@/lib/auth-server";
+import { validatePassword } from "@/lib/password-policy";
+import {
+  generatePassword,
+  getPasswordPolicy,
+  hashPassword,
+  recordPasswordHistory,
+} from "@/lib/passwords";
+import { resolveDepartment } from "@/lib/departments";
+import { getDepartments } from "@/lib/departments-server";
+import {
+  MAX_IMPORT_ROWS,
+  resolveRole,
+  type ImportedCredential,
+  type UserImportPreviewRow,
+  type UserImportRow,
+} from "@/lib/user-import";
+
+interface ImportUsersRequest {
+  rows?: UserImportRow[];
+  // Only validate the rows and return the preview
+  dryRun?: boolean;
+}
+
+// Validate an import file and, unless dryRun is set, create an account for
+// every valid row. Rows with errors are skipped. Imported users must
+// choose their own password at first login
+export async function POST(request: Request) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: ImportUsersRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const rows = body.rows;
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return NextResponse.json({ error: "No rows to import" }, { status: 400 });
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return NextResponse.json(
+      { error: `Import at most ${MAX_IMPORT_ROWS} users at a time` },
+      { status: 400 }
+    );
+  }
+
+  const [{ data: roles }, { data: existingUsers }, departments, policy] =
+    await Promise.all([
+      supabaseAdmin.from("roles").select("role_key, display_name"),
+      supabaseAdmin.from("users").select("username"),
+      getDepartments(),
+      getPasswordPolicy(),
+    ]);
+  const takenUsernames = new Set(
+    (existingUsers || []).map((user) => user.username)
+  );
+
+  // Count usernames within the file to flag duplicates on every copy
+  const fileUsernames = new Map<string, number>();
+  rows.forEach((row) => {
+    const username = String(row.username ?? "")
+      .toLowerCase()
+      .trim();
+    fileUsernames.set(username, (fileUsernames.get(username) || 0) + 1);
+  });
+
+  const preview: UserImportPreviewRow[] = rows.map((row) => {
+    const username = String(row.username ?? "")
+      .toLowerCase()
+      .trim();
+    const name = String(row.name ?? "").trim();
+    const password = String(row.password ?? "");
+    const department = resolveDepartment(
+      String(row.department ?? ""),
+      departments
+    );
+    const role = resolveRole(String(row.role ?? ""), roles || []);
+    const errors: string[] = [];
+
+    if (!username) {
+      errors.push("Username is required");
+    } else if (username.length < 3) {
+      errors.push("Username must be at least 3 characters");
+    } else if (/\s/.test(username)) {
+      errors.push("Username cannot contain spaces");
+    } else if (takenUsernames.has(username)) {
+      errors.push("Username already exists");
+    } else if ((fileUsernames.get(username) || 0) > 1) {
+      errors.push("Username appears more than once in the file");
+    }
+
+    if (!name) {
+      errors.push("Name is required");
+    }
+    if (!department) {
+      errors.push(`Unknown department "${row.department ?? ""}"`);
+    }
+    if (!role) {
+      errors.push(`Unknown role "${row.role ?? ""}"`);
+    }
+
+    if (password) {
+      const passwordError = validatePassword(password, policy, {
+        username,
+        name,
+      });
+      if (passwordError) errors.push(passwordError);
+    }
+
+    return {
+      line: Number(row.line) || 0,
+      username,
+      name,
+      department,
+      role,
+      generatePassword: !password,
+      errors,
+    };
+  });
+
+  if (body.dryRun) {
+    return NextResponse.json({ rows: preview });
+  }
+
+  const credentials: ImportedCredential[] = preview.flatMap((row, index) =>
+    row.errors.length === 0 && row.department && row.role
+      ? [
+          {
+            username: row.username,
+            name: row.name,
+            department: row.department,
+            role: row.role,
+            password: row.generatePassword
+              ? generatePassword(policy, {
+                  username: row.username,
+                  name: row.name,
+                })
+              : String(rows[index].password),
+          },
+        ]
+      : []
+  );
+  if (credentials.length === 0) {
+    return NextResponse.json(
+      { error: "No valid rows to import" },
+      { status: 400 }
+    );
+  }
+
+  const passwordHashes = await Promise.all(
+    credentials.map((credential) => hashPassword(credential.password))
+  );
+
+  const db = createAuditedClient(admin, request);
+  const { data: created, error } = await db
+    .from("users")
+    .insert(
+      credentials.map((credential, index) => ({
+        name: credential.name,
+        username: credential.username,
+        password: passwordHashes[index],
+        department: credential.department,
+        role: credential.role,
+        status: "active" as const,
+        must_change_password: true,
+      }))
+    )
+    .select("id, username");
+
+  if (error || !created) {
+    console.error("Failed to import users:", error);
+    return NextResponse.json(
+      {
+        error:
+          error?.code === "23505"
+            ? "A username was taken while importing. Check the file and try again."
+            : "Failed to import users",
+      },
+      { status: error?.code === "23505" ? 409 : 500 }
+    );
+  }
+
+  await Promise.all(
+    created.map((user) =>
+      recordPasswordHistory(
+        user.id,
+        passwordHashes[
+          credentials.findIndex(
+            (credential) => credential.username === user.username
+          )
+        ]
+      )
+    )
+  );
+
+  return NextResponse.json({
+    credentials,
+    skipped: preview.length - credentials.length,
+  });
+}
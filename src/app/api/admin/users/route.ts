@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import { getAdminSession } from "@/lib/auth-server";
+import { isDepartment } from "@/lib/departments-server";
+import { validatePassword } from "@/lib/password-policy";
+import {
+  getPasswordPolicy,
+  hashPassword,
+  recordPasswordHistory,
+} from "@/lib/passwords";
+import type { Department, UserRole } from "@/types/database.types";
+
+interface CreateUserRequest {
+  name?: string;
+  username?: string;
+  password?: string;
+  department?: Department;
+  role?: UserRole;
+  // Make the user choose their own password at first login
+  mustChangePassword?: boolean;
+}
+
+// Create a user account
+export async function POST(request: Request) {
+  const admin = await getAdminSession();
+  if (!admin) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: CreateUserRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const name = body.name?.trim();
+  const username = body.username?.toLowerCase().trim();
+
+  if (!name || !username || !body.password || !body.role) {
+    return NextResponse.json(
+      { error: "All fields are required" },
+      { status: 400 }
+    );
+  }
+
+  if (username.length < 3) {
+    return NextResponse.json(
+      { error: "Username must be at least 3 characters" },
+      { status: 400 }
+    );
+  }
+
+  const passwordError = validatePassword(
+    body.password,
+    await getPasswordPolicy(),
+    { username, name }
+  );
+  if (passwordError) {
+    return NextResponse.json({ error: passwordError }, { status: 400 });
+  }
+
+  if (!body.department || !(await isDepartment(body.department))) {
+    return NextResponse.json({ error: "Invalid department" }, { status: 400 });
+  }
+
+  const { data: existingUser } = await supabaseAdmin
+    .from("users")
+    .select("id, deleted_at")
+    .eq("username", username)
+    .maybeSingle();
+
+  if (existingUser) {
+    return NextResponse.json(
+      {
+        error: existingUser.deleted_at
+          ? "Username belongs to a deleted user. Restore it from the Trash instead"
+          : "Username already exists",
+      },
+      { status: 409 }
+    );
+  }
+
+  const passwordHash = await hashPassword(body.password);
+  const { data: user, error } = await createAuditedClient(admin, request)
+    .from("users")
+    .insert({
+      name,
+      username,
+      password: passwordHash,
+      department: body.department,
+      role: body.role,
+      status: "active",
+      must_change_password: !!body.mustChangePassword,
+    })
+    .select("id, name, username, department, role, status, created_at")
+    .single();
+
+  if (error) {
+    console.error("Failed to create user:", error);
+    // users.role references roles(role_key)
+    if (error.code === "23503") {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: "Failed to create user" },
+      { status: 500 }
+    );
+  }
+
+  await recordPasswordHistory(user.id, passwordHash);
+
+  return NextResponse.json({ user });
+}
@@ -0,0 +1,148 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import {
+  getActiveUser,
+  getSession,
+  isAccountSetupPending,
+} from "@/lib/auth-server";
+import { getClientIp, logSecurityEvent } from "@/lib/login-throttle";
+import { ADMIN_ROLE } from "@/lib/permissions";
+import {
+  describeViewAs,
+  endViewAs,
+  startViewAs,
+  type ViewAsTarget,
+} from "@/lib/view-as";
+
+interface StartViewAsRequest {
+  // Preview a whole role...
+  role?: string;
+  // ...or one specific user (with their role and departments)
+  userId?: number;
+}
+
+// Start a read-only preview of the app as another role or user
+// Replaces any preview already running in this session
+export async function POST(request: Request) {
+  const { user, sessionId, viewAs } = await getSession();
+  if (
+    !user ||
+    user.role !== ADMIN_ROLE ||
+    (await isAccountSetupPending(user))
+  ) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: StartViewAsRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  let target: ViewAsTarget;
+  if (typeof body.userId === "number") {
+    const previewedUser = await getActiveUser(body.userId);
+    if (!previewedUser) {
+      return NextResponse.json(
+        { error: "User not found or inactive" },
+        { status: 404 }
+      );
+    }
+    target = { role: previewedUser.role, user: previewedUser };
+  } else if (typeof body.role === "string") {
+    const { data: role } = await supabaseAdmin
+      .from("roles")
+      .select("role_key")
+      .eq("role_key", body.role)
+      .maybeSingle();
+    if (!role) {
+      return NextResponse.json({ error: "Role not found" }, { status: 404 });
+    }
+    target = { role: role.role_key, user: null };
+  } else {
+    return NextResponse.json(
+      { error: "Choose a role or user to view as" },
+      { status: 400 }
+    );
+  }
+
+  // Admins already see everything; previewing another admin shows nothing new
+  if (target.role === ADMIN_ROLE) {
+    return NextResponse.json(
+      { error: "Admin accounts cannot be previewed" },
+      { status: 400 }
+    );
+  }
+
+  const saved = await startViewAs(
+    sessionId,
+    target.role,
+    target.user?.id ?? null
+  );
+  if (!saved) {
+    return NextResponse.json(
+      { error: "Failed to start preview" },
+      { status: 500 }
+    );
+  }
+
+  if (viewAs) {
+    await logSecurityEvent({
+      event_type: "view_as_ended",
+      username: user.username,
+      user_id: viewAs.user?.id ?? null,
+      details: `Stopped viewing as ${describeViewAs(viewAs)}`,
+      performed_by: user.id,
+    });
+  }
+  await logSecurityEvent({
+    event_type: "view_as_started",
+    username: user.username,
+    user_id: target.user?.id ?? null,
+    ip_address: getClientIp(request),
+    user_agent: request.headers.get("user-agent"),
+    details: `Started viewing as ${describeViewAs(target)}`,
+    performed_by: user.id,
+  });
+
+  return NextResponse.json({ success: true });
+}
+
+// End the preview and return to the admin's own view
+export async function DELETE(request: Request) {
+  const { user, sessionId, viewAs } = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { error: "User not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  if (!viewAs) {
+    return NextResponse.json({ success: true });
+  }
+
+  const cleared = await endViewAs(sessionId);
+  if (!cleared) {
+    return NextResponse.json(
+      { error: "Failed to end preview" },
+      { status: 500 }
+    );
+  }
+
+  const minutes = Math.round(
+    (Date.now() - new Date(viewAs.startedAt).getTime()) / 60000
+  );
+  await logSecurityEvent({
+    event_type: "view_as_ended",
+    username: user.username,
+    user_id: viewAs.user?.id ?? null,
+    ip_address: getClientIp(request),
+    user_agent: request.headers.get("user-agent"),
+    details: `Stopped viewing as ${describeViewAs(viewAs)} after ${minutes} min`,
+    performed_by: user.id,
+  });
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,136 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import { getEditorSession } from "@/lib/auth-server";
+import { isDepartmentInScope } from "@/lib/permissions";
+import { isPresent } from "@/lib/attendance";
+
+interface CheckOutRequest {
+  memberId?: number;
+  date?: string;
+  photoUrl?: string | null;
+  location?: {
+    latitude: number;
+    longitude: number;
+    accuracy: number;
+    address?: string;
+  } | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Check out a committee member who attended on a date
+// Needs the same permission as marking attendance for the member's
+// department, and can only be done once per record
+export async function POST(request: Request) {
+  const editor = await getEditorSession("attendance");
+  if (!editor) {
+    return NextResponse.json(
+      { error: "You do not have permission to mark attendance" },
+      { status: 403 }
+    );
+  }
+  const { user, access } = editor;
+
+  let body: CheckOutRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  if (
+    typeof body.memberId !== "number" ||
+    !body.date ||
+    !DATE_PATTERN.test(body.date)
+  ) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const { data: member } = await supabaseAdmin
+    .from("committee_members")
+    .select("id, department")
+    .eq("id", body.memberId)
+    .maybeSingle();
+
+  if (!member) {
+    return NextResponse.json({ error: "Member not found" }, { status: 404 });
+  }
+
+  if (
+    !isDepartmentInScope(
+      access.departmentScopes,
+      "attendance",
+      member.department
+    )
+  ) {
+    return NextResponse.json(
+      { error: "You can only mark attendance for your own department" },
+      { status: 403 }
+    );
+  }
+
+  const { data: existing } = await supabaseAdmin
+    .from("attendance")
+    .select("id, status, check_in_time, check_out_time")
+    .eq("committee_member_id", member.id)
+    .eq("attendance_date", body.date)
+    .maybeSingle();
+
+  if (!existing || !isPresent(existing.status) || !existing.check_in_time) {
+    return NextResponse.json(
+      { error: "This member has not checked in on this date" },
+      { status: 400 }
+    );
+  }
+
+  if (existing.check_out_time) {
+    return NextResponse.json(
+      { error: "This member has already checked out" },
+      { status: 409 }
+    );
+  }
+
+  const location = body.location;
+  const { data: record, error } = await createAuditedClient(user, request)
+    .from("attendance")
+    .update({
+      check_out_time: new Date().toISOString(),
+      check_out_photo_url: body.photoUrl || null,
+      check_out_latitude: location?.latitude || null,
+      check_out_longitude: location?.longitude || null,
+      check_out_accuracy: location?.accuracy || null,
+      check_out_address: location?.address || null,
+      // enforce_attendance_scope checks this user, not the original marker
+      checked_out_by: user.id,
+    })
+    .eq("id", existing.id)
+    // Two markers checking the same member out at once
+    .is("check_out_time", null)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to check out member:", error);
+    // Raised by the enforce_attendance_scope trigger
+    if (error.code === "42501") {
+      return NextResponse.json(
+        { error: "You do not have permission to mark this member" },
+        { status: 403 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to check out member" },
+      { status: 500 }
+    );
+  }
+
+  if (!record) {
+    return NextResponse.json(
+      { error: "This member has already checked out" },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ record });
+}
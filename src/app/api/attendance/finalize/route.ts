@@ -0,0 +1,153 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import { getEditorSession } from "@/lib/auth-server";
+import {
+  clearDayFinalization,
+  getDayFinalization,
+  saveDayFinalization,
+  updateDayFinalization,
+} from "@/lib/attendance-server";
+
+interface FinalizeDayRequest {
+  date?: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Finalize a date's attendance: every active member still not marked is
+// recorded as absent, and the day notes who finalized it
+// Covers the whole committee, so roles limited to some departments cannot
+// do this
+export async function POST(request: Request) {
+  const editor = await getEditorSession("attendance");
+  if (!editor) {
+    return NextResponse.json(
+      { error: "You do not have permission to mark attendance" },
+      { status: 403 }
+    );
+  }
+  const { user, access } = editor;
+
+  if (access.departmentScopes.attendance) {
+    return NextResponse.json(
+      { error: "Only roles that mark every department can finalize the day" },
+      { status: 403 }
+    );
+  }
+
+  let body: FinalizeDayRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const date = body.date;
+  if (!date || !DATE_PATTERN.test(date)) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const today = new Date().toLocaleDateString("en-CA", {
+    timeZone: "Asia/Kuala_Lumpur",
+  });
+  if (date > today) {
+    return NextResponse.json(
+      { error: "Days can only be finalized once they have started" },
+      { status: 400 }
+    );
+  }
+
+  if (await getDayFinalization(date)) {
+    return NextResponse.json(
+      { error: "This day has already been finalized" },
+      { status: 409 }
+    );
+  }
+
+  const [{ data: members, error: membersError }, { data: marked, error }] =
+    await Promise.all([
+      supabaseAdmin
+        .from("committee_members")
+        .select("id")
+        .eq("status", "active"),
+      supabaseAdmin
+        .from("attendance")
+        .select("committee_member_id")
+        .eq("attendance_date", date),
+    ]);
+
+  if (membersError || error) {
+    console.error("Failed to load attendance:", membersError || error);
+    return NextResponse.json(
+      { error: "Failed to finalize the day" },
+      { status: 500 }
+    );
+  }
+
+  const markedIds = new Set(
+    (marked || []).map((record) => record.committee_member_id)
+  );
+  const unmarked = (members || []).filter(
+    (member) => !markedIds.has(member.id)
+  );
+
+  const db = createAuditedClient(user, request);
+
+  // Claim the day before marking anyone, so a second finalization running
+  // at the same time stops here. The absent count is filled in once the
+  // records are written
+  const finalization = {
+    finalizedAt: new Date().toISOString(),
+    finalizedBy: user.id,
+    finalizedByName: user.name,
+    markedAbsent: 0,
+  };
+  const saved = await saveDayFinalization(date, finalization, db);
+  if (saved === "finalized") {
+    return NextResponse.json(
+      { error: "This day has already been finalized" },
+      { status: 409 }
+    );
+  }
+  if (saved === "failed") {
+    return NextResponse.json(
+      { error: "Failed to finalize the day" },
+      { status: 500 }
+    );
+  }
+
+  if (unmarked.length > 0) {
+    const { data: inserted, error: insertError } = await db
+      .from("attendance")
+      .upsert(
+        unmarked.map((member) => ({
+          committee_member_id: member.id,
+          attendance_date: date,
+          status: "absent" as const,
+          marked_by: user.id,
+        })),
+        {
+          onConflict: "committee_member_id,attendance_date",
+          // Members checked in while this was running keep their record
+          // and are not returned, so they are not counted as absent
+          ignoreDuplicates: true,
+        }
+      )
+      .select("id");
+
+    if (insertError) {
+      console.error("Failed to mark unmarked members absent:", insertError);
+      await clearDayFinalization(date, db);
+      return NextResponse.json(
+        { error: "Failed to finalize the day" },
+        { status: 500 }
+      );
+    }
+
+    finalization.markedAbsent = inserted?.length ?? 0;
+    await updateDayFinalization(date, finalization, db);
+  }
+
+  return NextResponse.json({ finalization });
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { getEditorSession } from "@/lib/auth-server";
+import { isDepartmentInScope } from "@/lib/permissions";
+
+interface PhotoUploadRequest {
+  memberId?: number;
+  date?: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const PHOTO_BUCKET = "attendance-photos";
+
+// Issue a one-time signed upload URL for an attendance photo
+// The bucket no longer accepts uploads with the anon key, so the browser
+// needs one of these for every photo it uploads
+export async function POST(request: Request) {
+  const editor = await getEditorSession("attendance");
+  if (!editor) {
+    return NextResponse.json(
+      { error: "You do not have permission to mark attendance" },
+      { status: 403 }
+    );
+  }
+
+  let body: PhotoUploadRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  if (
+    typeof body.memberId !== "number" ||
+    !body.date ||
+    !DATE_PATTERN.test(body.date)
+  ) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const { data: member } = await supabaseAdmin
+    .from("committee_members")
+    .select("id, department")
+    .eq("id", body.memberId)
+    .maybeSingle();
+
+  if (!member) {
+    return NextResponse.json({ error: "Member not found" }, { status: 404 });
+  }
+
+  if (
+    !isDepartmentInScope(
+      editor.access.departmentScopes,
+      "attendance",
+      member.department
+    )
+  ) {
+    return NextResponse.json(
+      { error: "You can only mark attendance for your own department" },
+      { status: 403 }
+    );
+  }
+
+  // Same layout as before: date/memberId_timestamp.jpg
+  const path = `${body.date}/${member.id}_${Date.now()}.jpg`;
+  const { data, error } = await supabaseAdmin.storage
+    .from(PHOTO_BUCKET)
+    .createSignedUploadUrl(path);
+
+  if (error || !data) {
+    console.error("Failed to create photo upload URL:", error);
+    return NextResponse.json(
+      { error: "Failed to prepare photo upload" },
+      { status: 500 }
+    );
+  }
+
+  const {
+    data: { publicUrl },
+  } = supabaseAdmin.storage.from(PHOTO_BUCKET).getPublicUrl(path);
+
+  return NextResponse.json({ path: data.path, token: data.token, publicUrl });
+}
@@ -0,0 +1,181 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import { getEditorSession } from "@/lib/auth-server";
+import { isDepartmentInScope } from "@/lib/permissions";
+import { getLateAfter } from "@/lib/attendance";
+import {
+  getGeofenceConfig,
+  getReportingSchedule,
+} from "@/lib/attendance-server";
+import {
+  classifyLocation,
+  isCheckInBlocked,
+  type GeofenceResult,
+} from "@/lib/geofence";
+import type { AttendanceStatus } from "@/types/database.types";
+
+interface MarkAttendanceRequest {
+  memberId?: number;
+  date?: string;
+  // "late" is decided here from the date's reporting time and "excused"
+  // only comes from approving a leave request
+  status?: Exclude<AttendanceStatus, "late" | "excused">;
+  photoUrl?: string | null;
+  location?: {
+    latitude: number;
+    longitude: number;
+    accuracy: number;
+    address?: string;
+  } | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Mark attendance for a committee member on a date (insert or update)
+// Checking in today after the reporting time and grace period records the
+// member as late; marking a past date afterwards keeps the status sent,
+// since the time of marking says nothing about when they arrived.
+// Check-ins are classified against the date's venues and refused if its
+// geofence policy says so. The marker's role must have full attendance
+// permission for the member's department; the database trigger checks this
+// again. Finalized dates can still be marked, e.g. a member who turns up
+// after the day was finalized; finalizing only records the members not
+// marked by then as absent
+export async function POST(request: Request) {
+  const editor = await getEditorSession("attendance");
+  if (!editor) {
+    return NextResponse.json(
+      { error: "You do not have permission to mark attendance" },
+      { status: 403 }
+    );
+  }
+  const { user, access } = editor;
+
+  let body: MarkAttendanceRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  if (
+    typeof body.memberId !== "number" ||
+    !body.date ||
+    !DATE_PATTERN.test(body.date) ||
+    (body.status !== "attend" && body.status !== "absent")
+  ) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const { data: member } = await supabaseAdmin
+    .from("committee_members")
+    .select("id, department, status")
+    .eq("id", body.memberId)
+    .maybeSingle();
+
+  if (!member) {
+    return NextResponse.json({ error: "Member not found" }, { status: 404 });
+  }
+
+  if (member.status !== "active") {
+    return NextResponse.json(
+      { error: "This member is inactive and cannot be marked" },
+      { status: 400 }
+    );
+  }
+
+  if (
+    !isDepartmentInScope(
+      access.departmentScopes,
+      "attendance",
+      member.department
+    )
+  ) {
+    return NextResponse.json(
+      { error: "You can only mark attendance for your own department" },
+      { status: 403 }
+    );
+  }
+
+  const location = body.location;
+
+  // Only check-ins are held to the venues; marking absent is not
+  let geofence: GeofenceResult | null = null;
+  if (body.status === "attend") {
+    const geofenceConfig = await getGeofenceConfig(body.date);
+    if (geofenceConfig) {
+      geofence = classifyLocation(geofenceConfig, location || null);
+      if (isCheckInBlocked(geofenceConfig.policy, geofence.status)) {
+        return NextResponse.json(
+          {
+            error:
+              geofence.status === "outside"
+                ? "This location is outside the venue for this date"
+                : "The location is not accurate enough to confirm the member is at the venue. Try again with a clearer GPS signal",
+          },
+          { status: 403 }
+        );
+      }
+    }
+  }
+
+  const checkInTime = body.status === "attend" ? new Date() : null;
+  let status: AttendanceStatus = body.status;
+  const today = new Date().toLocaleDateString("en-CA", {
+    timeZone: "Asia/Kuala_Lumpur",
+  });
+  if (checkInTime && body.date === today) {
+    const schedule = await getReportingSchedule(body.date);
+    if (schedule && checkInTime > getLateAfter(body.date, schedule)) {
+      status = "late";
+    }
+  }
+
+  const { data: record, error } = await createAuditedClient(user, request)
+    .from("attendance")
+    .upsert(
+      {
+        committee_member_id: member.id,
+        attendance_date: body.date,
+        status,
+        photo_url: body.photoUrl || null,
+        latitude: location?.latitude || null,
+        longitude: location?.longitude || null,
+        accuracy: location?.accuracy || null,
+        address: location?.address || null,
+        check_in_time: checkInTime ? checkInTime.toISOString() : null,
+        geofence_status: geofence?.status ?? null,
+        geofence_venue: geofence?.venue ?? null,
+        // Re-marking starts a fresh check-in, so any check-out is cleared
+        check_out_time: null,
+        check_out_photo_url: null,
+        check_out_latitude: null,
+        check_out_longitude: null,
+        check_out_accuracy: null,
+        check_out_address: null,
+        checked_out_by: null,
+        marked_by: user.id,
+      },
+      { onConflict: "committee_member_id,attendance_date" }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Failed to mark attendance:", error);
+    // Raised by the enforce_attendance_scope trigger
+    if (error.code === "42501") {
+      return NextResponse.json(
+        { error: "You do not have permission to mark this member" },
+        { status: 403 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to mark attendance" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ record });
+}
@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import {
+  getRoleAccess,
+  isTwoFactorSetupRequired,
+  startSession,
+  verifyCredentials,
+} from "@/lib/auth-server";
+import {
+  checkLoginAllowed,
+  clearLoginAttempts,
+  getClientIp,
+  logSecurityEvent,
+  recordFailedLogin,
+  throttledResponse,
+} from "@/lib/login-throttle";
+import { isPasswordChangeRequired } from "@/lib/passwords";
+import { startTwoFactorChallenge } from "@/lib/two-factor";
+import type { UserRole } from "@/types/database.types";
+
+interface LoginRequest {
+  username?: string;
+  password?: string;
+  // Optional role the account must have (used by the maintenance admin login)
+  requiredRole?: UserRole;
+}
+
+export async function POST(request: Request) {
+  let body: LoginRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  if (!body.username || !body.password) {
+    return NextResponse.json(
+      { error: "Username and password are required" },
+      { status: 400 }
+    );
+  }
+
+  const username = body.username.toLowerCase().trim();
+  const ipAddress = getClientIp(request);
+  const userAgent = request.headers.get("user-agent");
+
+  try {
+    // Reject attempts during backoff or lockout without checking the password
+    const throttle = await checkLoginAllowed(username);
+    if (!throttle.allowed) {
+      await logSecurityEvent({
+        event_type: "login_blocked",
+        username,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        details: throttle.locked
+          ? "Attempt while account locked"
+          : "Attempt during backoff",
+      });
+      return throttledResponse(throttle);
+    }
+
+    const user = await verifyCredentials(username, body.password);
+    if (!user) {
+      const status = await recordFailedLogin(username, ipAddress, userAgent);
+      if (status.locked) {
+        return throttledResponse(status);
+      }
+      return NextResponse.json(
+        { error: "Invalid username or password" },
+        { status: 401 }
+      );
+    }
+
+    if (body.requiredRole && user.role !== body.requiredRole) {
+      await clearLoginAttempts(username);
+      return NextResponse.json(
+        { error: "Invalid credentials or not an admin account" },
+        { status: 403 }
+      );
+    }
+
+    // Accounts with 2FA finish signing in at /api/auth/login/two-factor.
+    // Failed attempts are only cleared once the code is also correct.
+    if (user.twoFactorEnabled) {
+      const response = NextResponse.json({ twoFactorRequired: true });
+      await startTwoFactorChallenge(response, user.id);
+      return response;
+    }
+
+    await clearLoginAttempts(username);
+
+    // Create a session for this device
+    const response = NextResponse.json({
+      user,
+      ...(await getRoleAccess(user.role)),
+      twoFactorSetupRequired: await isTwoFactorSetupRequired(user),
+      passwordChangeRequired: await isPasswordChangeRequired(user.id),
+    });
+    const started = await startSession(response, user, userAgent);
+    if (!started) {
+      return NextResponse.json(
+        { error: "Failed to start session" },
+        { status: 500 }
+      );
+    }
+
+    return response;
+  } catch (err) {
+    console.error("Login error:", err);
+    return NextResponse.json(
+      { error: "An error occurred. Please try again." },
+      { status: 500 }
+    );
+  }
+}
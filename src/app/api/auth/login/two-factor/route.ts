@@ -0,0 +1,119 @@
+import { NextResponse } from "next/server";
+import { getActiveUser, getRoleAccess, startSession } from "@/lib/auth-server";
+import {
+  checkLoginAllowed,
+  clearLoginAttempts,
+  getClientIp,
+  logSecurityEvent,
+  recordFailedLogin,
+  throttledResponse,
+} from "@/lib/login-throttle";
+import { isPasswordChangeRequired } from "@/lib/passwords";
+import {
+  clearTwoFactorChallenge,
+  countBackupCodes,
+  getTwoFactorChallenge,
+  verifySecondFactor,
+} from "@/lib/two-factor";
+
+interface TwoFactorLoginRequest {
+  code?: string;
+}
+
+// Second login step: check the authenticator or backup code for the
+// user who passed the password step, then start their session
+export async function POST(request: Request) {
+  let body: TwoFactorLoginRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const code = body.code?.trim();
+  if (!code) {
+    return NextResponse.json(
+      { error: "Verification code is required" },
+      { status: 400 }
+    );
+  }
+
+  const userId = await getTwoFactorChallenge();
+  const user = userId ? await getActiveUser(userId) : null;
+  if (!user) {
+    return NextResponse.json(
+      { error: "Verification expired. Please sign in again." },
+      { status: 401 }
+    );
+  }
+
+  const ipAddress = getClientIp(request);
+  const userAgent = request.headers.get("user-agent");
+
+  try {
+    const throttle = await checkLoginAllowed(user.username);
+    if (!throttle.allowed) {
+      await logSecurityEvent({
+        event_type: "login_blocked",
+        username: user.username,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        details: "Verification code attempt while throttled",
+      });
+      return throttledResponse(throttle);
+    }
+
+    const method = await verifySecondFactor(user.id, code);
+    if (!method) {
+      const status = await recordFailedLogin(
+        user.username,
+        ipAddress,
+        userAgent,
+        "two_factor_failed"
+      );
+      if (status.locked) {
+        return throttledResponse(status);
+      }
+      return NextResponse.json(
+        { error: "Invalid verification code" },
+        { status: 401 }
+      );
+    }
+
+    await clearLoginAttempts(user.username);
+
+    if (method === "backup") {
+      const remaining = await countBackupCodes(user.id);
+      await logSecurityEvent({
+        event_type: "backup_code_used",
+        username: user.username,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        details: `${remaining} backup code${remaining === 1 ? "" : "s"} left`,
+      });
+    }
+
+    const response = NextResponse.json({
+      user,
+      ...(await getRoleAccess(user.role)),
+      twoFactorSetupRequired: false,
+      passwordChangeRequired: await isPasswordChangeRequired(user.id),
+    });
+    const started = await startSession(response, user, userAgent);
+    if (!started) {
+      return NextResponse.json(
+        { error: "Failed to start session" },
+        { status: 500 }
+      );
+    }
+
+    clearTwoFactorChallenge(response);
+    return response;
+  } catch (err) {
+    console.error("Two-factor login error:", err);
+    return NextResponse.json(
+      { error: "An error occurred. Please try again." },
+      { status: 500 }
+    );
+  }
+}
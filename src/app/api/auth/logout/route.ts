@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { clearSessionCookie, getSession } from "@/lib/auth-server";
+
+export async function POST() {
+  const { sessionId } = await getSession();
+
+  // Revoke this device's session only; other devices stay logged in
+  if (sessionId) {
+    const { error } = await supabaseAdmin
+      .from("user_sessions")
+      .delete()
+      .eq("id", sessionId);
+
+    if (error) {
+      console.error("Error clearing session:", error);
+    }
+  }
+
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
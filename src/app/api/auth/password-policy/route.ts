@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { getPasswordPolicy } from "@/lib/passwords";
+
+// The current password policy, for the strength meter and form checks
+// Not secret, and needed before login on the reset password page
+export async function GET() {
+  return NextResponse.json({ policy: await getPasswordPolicy() });
+}
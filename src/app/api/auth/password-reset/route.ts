@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import {
+  clearLoginAttempts,
+  getClientIp,
+  logSecurityEvent,
+} from "@/lib/login-throttle";
+import {
+  claimPasswordResetToken,
+  getPasswordResetTarget,
+} from "@/lib/password-reset";
+import { validatePassword } from "@/lib/password-policy";
+import {
+  getPasswordPolicy,
+  isPasswordReused,
+  setUserPassword,
+} from "@/lib/passwords";
+
+interface ResetPasswordRequest {
+  token?: string;
+  newPassword?: string;
+}
+
+const INVALID_LINK_ERROR =
+  "This reset link is invalid or has expired. Ask an admin for a new one.";
+
+// Check a reset link before showing the new password form
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get("token");
+  const target = token ? await getPasswordResetTarget(token) : null;
+  if (!target) {
+    return NextResponse.json({ error: INVALID_LINK_ERROR }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    user: { name: target.user.name, username: target.user.username },
+    expiresAt: target.expiresAt,
+  });
+}
+
+// Set a new password with a reset link
+// The link stops working, any lockout is cleared and every existing
+// session for the account is signed out
+export async function POST(request: Request) {
+  let body: ResetPasswordRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  if (!body.token || !body.newPassword) {
+    return NextResponse.json(
+      { error: "All fields are required" },
+      { status: 400 }
+    );
+  }
+
+  const target = await getPasswordResetTarget(body.token);
+  if (!target) {
+    return NextResponse.json({ error: INVALID_LINK_ERROR }, { status: 404 });
+  }
+  const { user } = target;
+
+  const policy = await getPasswordPolicy();
+  const policyError = validatePassword(body.newPassword, policy, user);
+  if (policyError) {
+    return NextResponse.json({ error: policyError }, { status: 400 });
+  }
+
+  try {
+    if (await isPasswordReused(user.id, body.newPassword, policy)) {
+      return NextResponse.json(
+        {
+          error:
+            policy.historyCount > 0
+              ? `New password must differ from your last ${policy.historyCount} passwords`
+              : "New password must differ from your current password",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!(await claimPasswordResetToken(target.tokenId))) {
+      return NextResponse.json({ error: INVALID_LINK_ERROR }, { status: 404 });
+    }
+
+    // Recorded in the audit log as the user changing their own password
+    const saved = await setUserPassword(
+      createAuditedClient(user, request),
+      user.id,
+      body.newPassword
+    );
+    if (!saved) {
+      return NextResponse.json(
+        { error: "Failed to update password" },
+        { status: 500 }
+      );
+    }
+
+    const { error: sessionsError } = await supabaseAdmin
+      .from("user_sessions")
+      .delete()
+      .eq("user_id", user.id);
+    if (sessionsError) {
+      console.error("Failed to revoke sessions after reset:", sessionsError);
+    }
+
+    await clearLoginAttempts(user.username);
+
+    await logSecurityEvent({
+      event_type: "password_reset_completed",
+      username: user.username,
+      user_id: user.id,
+      ip_address: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+      details: "Password set with a reset link; all sessions signed out",
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Password reset error:", err);
+    return NextResponse.json(
+      { error: "An error occurred while resetting password" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import { createAuditedClient } from "@/lib/audit";
+import { getSession, verifyCredentials } from "@/lib/auth-server";
+import {
+  checkLoginAllowed,
+  clearLoginAttempts,
+  getClientIp,
+  logSecurityEvent,
+  recordFailedLogin,
+  throttledResponse,
+} from "@/lib/login-throttle";
+import { validatePassword } from "@/lib/password-policy";
+import {
+  getPasswordPolicy,
+  isPasswordReused,
+  setUserPassword,
+} from "@/lib/passwords";
+import { viewAsBlockedResponse } from "@/lib/view-as";
+
+interface ChangePasswordRequest {
+  currentPassword?: string;
+  newPassword?: string;
+}
+
+// Change the logged in user's password
+// Checked against the password policy and the user's recent passwords;
+// also clears a forced change. Wrong current passwords count towards the
+// same backoff and lockout as failed logins
+export async function POST(request: Request) {
+  const { user, viewAs } = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { error: "User not authenticated" },
+      { status: 401 }
+    );
+  }
+  if (viewAs) {
+    return viewAsBlockedResponse(user, viewAs, "Password change");
+  }
+
+  let body: ChangePasswordRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  if (!body.currentPassword || !body.newPassword) {
+    return NextResponse.json(
+      { error: "All fields are required" },
+      { status: 400 }
+    );
+  }
+
+  const policy = await getPasswordPolicy();
+  const policyError = validatePassword(body.newPassword, policy, user);
+  if (policyError) {
+    return NextResponse.json({ error: policyError }, { status: 400 });
+  }
+
+  const ipAddress = getClientIp(request);
+  const userAgent = request.headers.get("user-agent");
+
+  try {
+    const throttle = await checkLoginAllowed(user.username);
+    if (!throttle.allowed) {
+      await logSecurityEvent({
+        event_type: "login_blocked",
+        username: user.username,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        details: "Password change attempt while throttled",
+      });
+      return throttledResponse(throttle);
+    }
+
+    // First, verify the current password
+    const verifiedUser = await verifyCredentials(
+      user.username,
+      body.currentPassword
+    );
+    if (!verifiedUser) {
+      const status = await recordFailedLogin(
+        user.username,
+        ipAddress,
+        userAgent
+      );
+      if (status.locked) {
+        return throttledResponse(status);
+      }
+      return NextResponse.json(
+        { error: "Current password is incorrect" },
+        { status: 400 }
+      );
+    }
+
+    await clearLoginAttempts(user.username);
+
+    if (await isPasswordReused(user.id, body.newPassword, policy)) {
+      return NextResponse.json(
+        {
+          error:
+            policy.historyCount > 0
+              ? `New password must differ from your last ${policy.historyCount} passwords`
+              : "New password must differ from your current password",
+        },
+        { status: 400 }
+      );
+    }
+
+    const saved = await setUserPassword(
+      createAuditedClient(user, request),
+      user.id,
+      body.newPassword
+    );
+
+    if (!saved) {
+      return NextResponse.json(
+        { error: "Failed to update password" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Password change error:", err);
+    return NextResponse.json(
+      { error: "An error occurred while changing password" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import {
+  clearSessionCookie,
+  getEffectiveUser,
+  getRoleAccess,
+  getSession,
+  isTwoFactorSetupRequired,
+  refreshSessionCookieRole,
+} from "@/lib/auth-server";
+import { isPasswordChangeRequired } from "@/lib/passwords";
+
+export async function GET() {
+  const { user, payload, reason, viewAs } = await getSession();
+
+  if (!user) {
+    const response = NextResponse.json({ user: null, reason }, { status: 401 });
+    if (reason === "invalidated" || reason === "expired") {
+      clearSessionCookie(response);
+    }
+    return response;
+  }
+
+  // During a view-as preview the browser gets the previewed user and role,
+  // plus who is really logged in
+  const effectiveUser = getEffectiveUser(user, viewAs);
+
+  const response = NextResponse.json({
+    user: effectiveUser,
+    ...(await getRoleAccess(effectiveUser.role)),
+    twoFactorSetupRequired: await isTwoFactorSetupRequired(user),
+    passwordChangeRequired: await isPasswordChangeRequired(user.id),
+    viewAs: viewAs
+      ? {
+          admin: user,
+          isUserPreview: !!viewAs.user,
+          startedAt: viewAs.startedAt,
+        }
+      : null,
+  });
+
+  // An admin changed the user's role since they logged in
+  if (payload.role !== user.role) {
+    await refreshSessionCookieRole(response, payload, user.role);
+  }
+
+  return response;
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { getAdminSession, getSession } from "@/lib/auth-server";
+import { viewAsBlockedResponse } from "@/lib/view-as";
+
+// Revoke a single session (own sessions, or any session for admins)
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { user, viewAs } = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { error: "User not authenticated" },
+      { status: 401 }
+    );
+  }
+  if (viewAs) {
+    return viewAsBlockedResponse(user, viewAs, "Signing out a device");
+  }
+
+  const { id } = await params;
+  const targetSessionId = Number(id);
+  if (!Number.isInteger(targetSessionId)) {
+    return NextResponse.json({ error: "Invalid session" }, { status: 400 });
+  }
+
+  const { data: session } = await supabaseAdmin
+    .from("user_sessions")
+    .select("id, user_id")
+    .eq("id", targetSessionId)
+    .single();
+
+  if (!session) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+
+  // Another user's session needs a full admin session, not just the role
+  if (session.user_id !== user.id && !(await getAdminSession())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { error } = await supabaseAdmin
+    .from("user_sessions")
+    .delete()
+    .eq("id", targetSessionId);
+
+  if (error) {
+    console.error("Error revoking session:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke session" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
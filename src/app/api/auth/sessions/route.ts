@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { getAdminSession, getSession } from "@/lib/auth-server";
+import { viewAsBlockedResponse } from "@/lib/view-as";
+
+/**
+ * Resolve which user's sessions the caller is asking about
+ * Admins may pass ?userId=; everyone else only sees their own sessions
+ * Another user's sessions need a full admin session, so admins still
+ * finishing account setup or previewing with view-as are refused
+ */
+async function getTargetUserId(
+  request: Request,
+  currentUserId: number
+): Promise<number | null> {
+  const userIdParam = new URL(request.url).searchParams.get("userId");
+  if (!userIdParam) return currentUserId;
+
+  const userId = Number(userIdParam);
+  if (!Number.isInteger(userId)) return null;
+  if (userId !== currentUserId && !(await getAdminSession())) return null;
+  return userId;
+}
+
+// List active sessions
+export async function GET(request: Request) {
+  const { user, sessionId } = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { error: "User not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  const targetUserId = await getTargetUserId(request, user.id);
+  if (targetUserId === null) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("user_sessions")
+    .select("id, device_label, user_agent, created_at, last_seen_at")
+    .eq("user_id", targetUserId)
+    .order("last_seen_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to load sessions" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({
+    sessions: (data || []).map((session) => ({
+      ...session,
+      current: session.id === sessionId,
+    })),
+  });
+}
+
+// Revoke every session for a user (admin only when targeting someone else)
+export async function DELETE(request: Request) {
+  const { user, viewAs } = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { error: "User not authenticated" },
+      { status: 401 }
+    );
+  }
+  if (viewAs) {
+    return viewAsBlockedResponse(user, viewAs, "Signing out devices");
+  }
+
+  const targetUserId = await getTargetUserId(request, user.id);
+  if (targetUserId === null) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { error } = await supabaseAdmin
+    .from("user_sessions")
+    .delete()
+    .eq("user_id", targetUserId);
+
+  if (error) {
+    console.error("Error revoking sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke sessions" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { getSession } from "@/lib/auth-server";
+import { viewAsBlockedResponse } from "@/lib/view-as";
+import { generateBackupCodes, verifySecondFactor } from "@/lib/two-factor";
+
+interface RegenerateBackupCodesRequest {
+  code?: string;
+}
+
+// Replace the logged in user's backup codes after checking a current code
+export async function POST(request: Request) {
+  const { user, viewAs } = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { error: "User not authenticated" },
+      { status: 401 }
+    );
+  }
+  if (viewAs) {
+    return viewAsBlockedResponse(user, viewAs, "New backup codes");
+  }
+
+  let body: RegenerateBackupCodesRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  if (!body.code) {
+    return NextResponse.json(
+      { error: "Verification code is required" },
+      { status: 400 }
+    );
+  }
+
+  if (!user.twoFactorEnabled) {
+    return NextResponse.json(
+      { error: "Two-factor authentication is not enabled" },
+      { status: 400 }
+    );
+  }
+
+  if (!(await verifySecondFactor(user.id, body.code.trim()))) {
+    return NextResponse.json(
+      { error: "Invalid verification code" },
+      { status: 400 }
+    );
+  }
+
+  const backupCodes = await generateBackupCodes(user.id);
+  if (!backupCodes) {
+    return NextResponse.json(
+      { error: "Failed to generate backup codes" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ backupCodes });
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import { getSession } from "@/lib/auth-server";
+import { viewAsBlockedResponse } from "@/lib/view-as";
+import { getClientIp, logSecurityEvent } from "@/lib/login-throttle";
+import { generateBackupCodes } from "@/lib/two-factor";
+import { verifyTotp } from "@/lib/totp";
+
+interface EnableTwoFactorRequest {
+  code?: string;
+}
+
+// Finish enrollment: confirm a code for the pending secret, switch 2FA on
+// and return a first set of backup codes
+export async function POST(request: Request) {
+  const { user, viewAs } = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { error: "User not authenticated" },
+      { status: 401 }
+    );
+  }
+  if (viewAs) {
+    return viewAsBlockedResponse(
+      user,
+      viewAs,
+      "Turning on two-factor authentication"
+    );
+  }
+
+  let body: EnableTwoFactorRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  if (!body.code) {
+    return NextResponse.json(
+      { error: "Verification code is required" },
+      { status: 400 }
+    );
+  }
+
+  const { data } = await supabaseAdmin
+    .from("users")
+    .select("totp_pending_secret, totp_enabled")
+    .eq("id", user.id)
+    .single();
+
+  if (data?.totp_enabled) {
+    return NextResponse.json(
+      { error: "Two-factor authentication is already enabled" },
+      { status: 409 }
+    );
+  }
+
+  if (!data?.totp_pending_secret) {
+    return NextResponse.json(
+      { error: "Setup expired. Please start again." },
+      { status: 400 }
+    );
+  }
+
+  const step = verifyTotp(data.totp_pending_secret, body.code);
+  if (step === null) {
+    return NextResponse.json(
+      { error: "Invalid verification code" },
+      { status: 400 }
+    );
+  }
+
+  const { error } = await createAuditedClient(user, request)
+    .from("users")
+    .update({
+      totp_secret: data.totp_pending_secret,
+      totp_pending_secret: null,
+      totp_enabled: true,
+      totp_last_used_step: step,
+    })
+    .eq("id", user.id);
+
+  if (error) {
+    console.error("Failed to enable two-factor authentication:", error);
+    return NextResponse.json(
+      { error: "Failed to enable two-factor authentication" },
+      { status: 500 }
+    );
+  }
+
+  const backupCodes = await generateBackupCodes(user.id);
+
+  await logSecurityEvent({
+    event_type: "two_factor_enabled",
+    username: user.username,
+    ip_address: getClientIp(request),
+    user_agent: request.headers.get("user-agent"),
+  });
+
+  return NextResponse.json({ backupCodes: backupCodes || [] });
+}
@@ -0,0 +1,180 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import { getSession, verifyCredentials } from "@/lib/auth-server";
+import { viewAsBlockedResponse } from "@/lib/view-as";
+import {
+  checkLoginAllowed,
+  clearLoginAttempts,
+  getClientIp,
+  logSecurityEvent,
+  recordFailedLogin,
+  throttledResponse,
+} from "@/lib/login-throttle";
+import {
+  countBackupCodes,
+  isTwoFactorRequired,
+  verifySecondFactor,
+} from "@/lib/two-factor";
+
+interface DisableTwoFactorRequest {
+  password?: string;
+  code?: string;
+}
+
+// Get the logged in user's two-factor status
+export async function GET() {
+  const { user } = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { error: "User not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json({
+    enabled: user.twoFactorEnabled,
+    required: await isTwoFactorRequired(user.role),
+    backupCodesRemaining: user.twoFactorEnabled
+      ? await countBackupCodes(user.id)
+      : 0,
+  });
+}
+
+// Turn off two-factor authentication for the logged in user
+// Needs both the password and a current code, and is refused for roles
+// that must use 2FA. Wrong passwords and codes count towards the same
+// backoff and lockout as failed logins
+export async function DELETE(request: Request) {
+  const { user, viewAs } = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { error: "User not authenticated" },
+      { status: 401 }
+    );
+  }
+  if (viewAs) {
+    return viewAsBlockedResponse(
+      user,
+      viewAs,
+      "Turning off two-factor authentication"
+    );
+  }
+
+  let body: DisableTwoFactorRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  if (!body.password || !body.code) {
+    return NextResponse.json(
+      { error: "Password and verification code are required" },
+      { status: 400 }
+    );
+  }
+
+  if (!user.twoFactorEnabled) {
+    return NextResponse.json(
+      { error: "Two-factor authentication is not enabled" },
+      { status: 400 }
+    );
+  }
+
+  if (await isTwoFactorRequired(user.role)) {
+    return NextResponse.json(
+      { error: "Your role requires two-factor authentication" },
+      { status: 403 }
+    );
+  }
+
+  const ipAddress = getClientIp(request);
+  const userAgent = request.headers.get("user-agent");
+
+  try {
+    const throttle = await checkLoginAllowed(user.username);
+    if (!throttle.allowed) {
+      await logSecurityEvent({
+        event_type: "login_blocked",
+        username: user.username,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        details: "Two-factor disable attempt while throttled",
+      });
+      return throttledResponse(throttle);
+    }
+
+    const verifiedUser = await verifyCredentials(user.username, body.password);
+    if (!verifiedUser) {
+      const status = await recordFailedLogin(
+        user.username,
+        ipAddress,
+        userAgent
+      );
+      if (status.locked) {
+        return throttledResponse(status);
+      }
+      return NextResponse.json(
+        { error: "Password is incorrect" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await verifySecondFactor(user.id, body.code.trim()))) {
+      const status = await recordFailedLogin(
+        user.username,
+        ipAddress,
+        userAgent,
+        "two_factor_failed"
+      );
+      if (status.locked) {
+        return throttledResponse(status);
+      }
+      return NextResponse.json(
+        { error: "Invalid verification code" },
+        { status: 400 }
+      );
+    }
+
+    await clearLoginAttempts(user.username);
+
+    const { error } = await createAuditedClient(user, request)
+      .from("users")
+      .update({
+        totp_secret: null,
+        totp_pending_secret: null,
+        totp_enabled: false,
+        totp_last_used_step: null,
+      })
+      .eq("id", user.id);
+
+    if (error) {
+      console.error("Failed to disable two-factor authentication:", error);
+      return NextResponse.json(
+        { error: "Failed to disable two-factor authentication" },
+        { status: 500 }
+      );
+    }
+
+    await supabaseAdmin
+      .from("user_backup_codes")
+      .delete()
+      .eq("user_id", user.id);
+
+    await logSecurityEvent({
+      event_type: "two_factor_disabled",
+      username: user.username,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Disable two-factor error:", err);
+    return NextResponse.json(
+      { error: "An error occurred. Please try again." },
+      { status: 500 }
+    );
+  }
+}
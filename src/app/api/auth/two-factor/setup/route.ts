@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import QRCode from "qrcode";
+import { createAuditedClient } from "@/lib/audit";
+import { getSession } from "@/lib/auth-server";
+import { viewAsBlockedResponse } from "@/lib/view-as";
+import { buildOtpAuthUrl, generateTotpSecret } from "@/lib/totp";
+
+// Start enrollment: create a pending secret and return it as a QR code
+// The secret only becomes active once /api/auth/two-factor/enable
+// confirms a code from the authenticator app
+export async function POST(request: Request) {
+  const { user, viewAs } = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { error: "User not authenticated" },
+      { status: 401 }
+    );
+  }
+  if (viewAs) {
+    return viewAsBlockedResponse(user, viewAs, "Two-factor setup");
+  }
+
+  if (user.twoFactorEnabled) {
+    return NextResponse.json(
+      { error: "Two-factor authentication is already enabled" },
+      { status: 409 }
+    );
+  }
+
+  const secret = generateTotpSecret();
+
+  const { error } = await createAuditedClient(user, request)
+    .from("users")
+    .update({ totp_pending_secret: secret })
+    .eq("id", user.id);
+
+  if (error) {
+    console.error("Failed to save pending TOTP secret:", error);
+    return NextResponse.json(
+      { error: "Failed to start two-factor setup" },
+      { status: 500 }
+    );
+  }
+
+  const otpauthUrl = buildOtpAuthUrl(secret, user.username);
+  const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 });
+
+  return NextResponse.json({ secret, otpauthUrl, qrCode });
+}
@@ -0,0 +1,302 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import { getEditorSession, getSession } from "@/lib/auth-server";
+import { isDepartmentInScope } from "@/lib/permissions";
+import { isPresent } from "@/lib/attendance";
+import { MAX_LEAVE_NOTE_LENGTH } from "@/lib/leave";
+import {
+  LEAVE_ATTACHMENT_BUCKET,
+  toLeaveRequestViews,
+} from "@/lib/leave-server";
+import { viewAsBlockedResponse } from "@/lib/view-as";
+
+interface ReviewLeaveRequest {
+  action?: "approve" | "reject";
+  note?: string | null;
+}
+
+// Approve or reject a pending leave request
+// Approving records the member as excused on the leave date, so the
+// reviewer also needs permission to mark the member's attendance; the
+// attendance scope trigger checks this again
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ requestId: string }> }
+) {
+  const editor = await getEditorSession("leave");
+  if (!editor) {
+    return NextResponse.json(
+      { error: "You do not have permission to review leave requests" },
+      { status: 403 }
+    );
+  }
+  const { user, access } = editor;
+
+  const requestId = Number((await params).requestId);
+  if (!Number.isInteger(requestId)) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  let body: ReviewLeaveRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  if (body.action !== "approve" && body.action !== "reject") {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const note = typeof body.note === "string" ? body.note.trim() : "";
+  if (note.length > MAX_LEAVE_NOTE_LENGTH) {
+    return NextResponse.json(
+      { error: `Note must be ${MAX_LEAVE_NOTE_LENGTH} characters or fewer` },
+      { status: 400 }
+    );
+  }
+
+  const { data: leaveRequest } = await supabaseAdmin
+    .from("leave_requests")
+    .select("*")
+    .eq("id", requestId)
+    .maybeSingle();
+
+  if (!leaveRequest) {
+    return NextResponse.json(
+      { error: "Leave request not found" },
+      { status: 404 }
+    );
+  }
+
+  const { data: member } = await supabaseAdmin
+    .from("committee_members")
+    .select("id, department")
+    .eq("id", leaveRequest.committee_member_id)
+    .maybeSingle();
+
+  if (!member) {
+    return NextResponse.json({ error: "Member not found" }, { status: 404 });
+  }
+
+  if (
+    !isDepartmentInScope(access.departmentScopes, "leave", member.department)
+  ) {
+    return NextResponse.json(
+      { error: "You can only review leave for your own department" },
+      { status: 403 }
+    );
+  }
+
+  if (leaveRequest.status !== "pending") {
+    return NextResponse.json(
+      { error: "This leave request has already been reviewed" },
+      { status: 409 }
+    );
+  }
+
+  const db = createAuditedClient(user, request);
+
+  if (body.action === "approve") {
+    if (
+      access.permissions.attendance !== "full" ||
+      !isDepartmentInScope(
+        access.departmentScopes,
+        "attendance",
+        member.department
+      )
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "Approving leave marks attendance, so you need permission to mark this member",
+        },
+        { status: 403 }
+      );
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from("attendance")
+      .select("status")
+      .eq("committee_member_id", member.id)
+      .eq("attendance_date", leaveRequest.leave_date)
+      .maybeSingle();
+
+    if (existing && isPresent(existing.status)) {
+      return NextResponse.json(
+        { error: "This member has already checked in on this date" },
+        { status: 409 }
+      );
+    }
+  }
+
+  // Claim the request first, so two reviewers acting on it at once cannot
+  // both go on to write attendance
+  const { data: reviewed, error } = await db
+    .from("leave_requests")
+    .update({
+      status: body.action === "approve" ? "approved" : "rejected",
+      reviewed_by: user.id,
+      reviewed_at: new Date().toISOString(),
+      review_note: note || null,
+    })
+    .eq("id", leaveRequest.id)
+    .eq("status", "pending")
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to review leave request:", error);
+    return NextResponse.json(
+      { error: "Failed to review leave request" },
+      { status: 500 }
+    );
+  }
+
+  if (!reviewed) {
+    return NextResponse.json(
+      { error: "This leave request has already been reviewed" },
+      { status: 409 }
+    );
+  }
+
+  if (body.action === "approve") {
+    const { error: attendanceError } = await db.from("attendance").upsert(
+      {
+        committee_member_id: member.id,
+        attendance_date: leaveRequest.leave_date,
+        status: "excused",
+        photo_url: null,
+        latitude: null,
+        longitude: null,
+        accuracy: null,
+        address: null,
+        check_in_time: null,
+        geofence_status: null,
+        geofence_venue: null,
+        check_out_time: null,
+        check_out_photo_url: null,
+        check_out_latitude: null,
+        check_out_longitude: null,
+        check_out_accuracy: null,
+        check_out_address: null,
+        checked_out_by: null,
+        marked_by: user.id,
+      },
+      { onConflict: "committee_member_id,attendance_date" }
+    );
+
+    if (attendanceError) {
+      console.error("Failed to record excused attendance:", attendanceError);
+
+      // Put the request back so it can be reviewed again
+      const { error: rollbackError } = await db
+        .from("leave_requests")
+        .update({
+          status: "pending",
+          reviewed_by: null,
+          reviewed_at: null,
+          review_note: null,
+        })
+        .eq("id", leaveRequest.id)
+        .eq("status", "approved");
+      if (rollbackError) {
+        console.error("Failed to reset leave request:", rollbackError);
+      }
+
+      // Raised by the enforce_attendance_scope trigger
+      if (attendanceError.code === "42501") {
+        return NextResponse.json(
+          { error: "You do not have permission to mark this member" },
+          { status: 403 }
+        );
+      }
+      return NextResponse.json(
+        { error: "Failed to approve leave request" },
+        { status: 500 }
+      );
+    }
+  }
+
+  const [view] = await toLeaveRequestViews([reviewed]);
+  return NextResponse.json({ request: view });
+}
+
+// Withdraw one of the user's own leave requests before it is reviewed
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ requestId: string }> }
+) {
+  const { user, viewAs } = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { error: "User not authenticated" },
+      { status: 401 }
+    );
+  }
+  if (viewAs) {
+    return viewAsBlockedResponse(user, viewAs, "Withdrawing a leave request");
+  }
+
+  const requestId = Number((await params).requestId);
+  if (!Number.isInteger(requestId)) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const { data: leaveRequest } = await supabaseAdmin
+    .from("leave_requests")
+    .select("id, committee_member_id, status, attachment_path")
+    .eq("id", requestId)
+    .maybeSingle();
+
+  if (
+    !leaveRequest ||
+    leaveRequest.committee_member_id !== user.committeeMemberId
+  ) {
+    return NextResponse.json(
+      { error: "Leave request not found" },
+      { status: 404 }
+    );
+  }
+
+  if (leaveRequest.status !== "pending") {
+    return NextResponse.json(
+      { error: "Only pending leave requests can be withdrawn" },
+      { status: 409 }
+    );
+  }
+
+  const { data: deleted, error } = await createAuditedClient(user, request)
+    .from("leave_requests")
+    .delete()
+    .eq("id", leaveRequest.id)
+    .eq("status", "pending")
+    .select("id");
+
+  if (error) {
+    console.error("Failed to withdraw leave request:", error);
+    return NextResponse.json(
+      { error: "Failed to withdraw leave request" },
+      { status: 500 }
+    );
+  }
+
+  if (!deleted || deleted.length === 0) {
+    return NextResponse.json(
+      { error: "Only pending leave requests can be withdrawn" },
+      { status: 409 }
+    );
+  }
+
+  if (leaveRequest.attachment_path) {
+    const { error: removeError } = await supabaseAdmin.storage
+      .from(LEAVE_ATTACHMENT_BUCKET)
+      .remove([leaveRequest.attachment_path]);
+    if (removeError) {
+      console.error("Failed to remove leave attachment:", removeError);
+    }
+  }
+
+  return NextResponse.json({ success: true });
+}
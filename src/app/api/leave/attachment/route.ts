@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { getRoleAccess, getSession } from "@/lib/auth-server";
+import { LEAVE_ATTACHMENT_TYPES } from "@/lib/leave";
+import { LEAVE_ATTACHMENT_BUCKET } from "@/lib/leave-server";
+import { viewAsBlockedResponse } from "@/lib/view-as";
+
+interface AttachmentUploadRequest {
+  contentType?: string;
+}
+
+// Issue a one-time signed upload URL for a leave request attachment
+// The bucket is private, so this is the only way files get into it
+export async function POST(request: Request) {
+  const { user, viewAs } = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { error: "User not authenticated" },
+      { status: 401 }
+    );
+  }
+  if (viewAs) {
+    return viewAsBlockedResponse(user, viewAs, "Leave attachment upload");
+  }
+
+  const access = await getRoleAccess(user.role);
+  if (access.permissions.leave === "none") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (!user.committeeMemberId) {
+    return NextResponse.json(
+      { error: "Your account is not linked to a committee member" },
+      { status: 400 }
+    );
+  }
+
+  let body: AttachmentUploadRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  // Only the listed types, not keys inherited from Object.prototype
+  const extension =
+    body.contentType && Object.hasOwn(LEAVE_ATTACHMENT_TYPES, body.contentType)
+      ? LEAVE_ATTACHMENT_TYPES[body.contentType]
+      : undefined;
+  if (!extension) {
+    return NextResponse.json(
+      { error: "Attachments must be a JPEG, PNG, WebP or PDF file" },
+      { status: 400 }
+    );
+  }
+
+  // memberId/timestamp.ext, checked again when the request is submitted
+  const path = `${user.committeeMemberId}/${Date.now()}.${extension}`;
+  const { data, error } = await supabaseAdmin.storage
+    .from(LEAVE_ATTACHMENT_BUCKET)
+    .createSignedUploadUrl(path);
+
+  if (error || !data) {
+    console.error("Failed to create leave attachment upload URL:", error);
+    return NextResponse.json(
+      { error: "Failed to prepare attachment upload" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ path: data.path, token: data.token });
+}
@@ -0,0 +1,197 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import { getEffectiveUser, getRoleAccess, getSession } from "@/lib/auth-server";
+import { isDepartmentInScope } from "@/lib/permissions";
+import { MAX_LEAVE_REASON_LENGTH } from "@/lib/leave";
+import { toLeaveRequestViews } from "@/lib/leave-server";
+import { viewAsBlockedResponse } from "@/lib/view-as";
+
+interface SubmitLeaveRequest {
+  date?: string;
+  reason?: string;
+  // Path returned by /api/leave/attachment
+  attachmentPath?: string | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Reviewed requests shown under the approval queue
+const REVIEWED_HISTORY_LIMIT = 50;
+
+// List the user's own leave requests, plus the approval queue and recently
+// reviewed requests for roles with full permission on the Leave page
+export async function GET() {
+  const { user, viewAs } = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { error: "User not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  const effectiveUser = getEffectiveUser(user, viewAs);
+  const access = await getRoleAccess(effectiveUser.role);
+  if (access.permissions.leave === "none") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const memberId = effectiveUser.committeeMemberId;
+  const canReview = access.permissions.leave === "full";
+
+  const [mineResult, pendingResult, reviewedResult] = await Promise.all([
+    memberId
+      ? supabaseAdmin
+          .from("leave_requests")
+          .select("*")
+          .eq("committee_member_id", memberId)
+          .order("leave_date", { ascending: false })
+      : Promise.resolve({ data: [], error: null }),
+    canReview
+      ? supabaseAdmin
+          .from("leave_requests")
+          .select("*")
+          .eq("status", "pending")
+          .order("leave_date", { ascending: true })
+      : Promise.resolve({ data: [], error: null }),
+    canReview
+      ? supabaseAdmin
+          .from("leave_requests")
+          .select("*")
+          .neq("status", "pending")
+          .order("reviewed_at", { ascending: false })
+          .limit(REVIEWED_HISTORY_LIMIT)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  const error = mineResult.error || pendingResult.error || reviewedResult.error;
+  if (error) {
+    console.error("Failed to load leave requests:", error);
+    return NextResponse.json(
+      { error: "Failed to load leave requests" },
+      { status: 500 }
+    );
+  }
+
+  const [mine, pending, reviewed] = await Promise.all([
+    toLeaveRequestViews(mineResult.data || []),
+    toLeaveRequestViews(pendingResult.data || []),
+    toLeaveRequestViews(reviewedResult.data || []),
+  ]);
+
+  // Roles limited to some departments only review those
+  const inScope = (request: { department: string }) =>
+    isDepartmentInScope(access.departmentScopes, "leave", request.department);
+
+  return NextResponse.json({
+    linked: memberId !== null,
+    canReview,
+    mine,
+    pending: pending.filter(inScope),
+    reviewed: reviewed.filter(inScope),
+  });
+}
+
+// Submit a leave request for the logged in user's committee member
+export async function POST(request: Request) {
+  const { user, viewAs } = await getSession();
+  if (!user) {
+    return NextResponse.json(
+      { error: "User not authenticated" },
+      { status: 401 }
+    );
+  }
+  if (viewAs) {
+    return viewAsBlockedResponse(user, viewAs, "Leave request");
+  }
+
+  const access = await getRoleAccess(user.role);
+  if (access.permissions.leave === "none") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (!user.committeeMemberId) {
+    return NextResponse.json(
+      { error: "Your account is not linked to a committee member" },
+      { status: 400 }
+    );
+  }
+
+  let body: SubmitLeaveRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+  if (!body.date || !DATE_PATTERN.test(body.date)) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+  if (!reason) {
+    return NextResponse.json(
+      { error: "Please give a reason for the leave" },
+      { status: 400 }
+    );
+  }
+  if (reason.length > MAX_LEAVE_REASON_LENGTH) {
+    return NextResponse.json(
+      {
+        error: `Reason must be ${MAX_LEAVE_REASON_LENGTH} characters or fewer`,
+      },
+      { status: 400 }
+    );
+  }
+
+  // Attachments are uploaded under the member's own folder
+  const attachmentPath = body.attachmentPath || null;
+  if (
+    attachmentPath &&
+    !attachmentPath.startsWith(`${user.committeeMemberId}/`)
+  ) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const { data: member } = await supabaseAdmin
+    .from("committee_members")
+    .select("id, status")
+    .eq("id", user.committeeMemberId)
+    .maybeSingle();
+
+  if (!member || member.status !== "active") {
+    return NextResponse.json(
+      { error: "Only active committee members can request leave" },
+      { status: 400 }
+    );
+  }
+
+  const { data: leaveRequest, error } = await createAuditedClient(user, request)
+    .from("leave_requests")
+    .insert({
+      committee_member_id: member.id,
+      leave_date: body.date,
+      reason,
+      attachment_path: attachmentPath,
+      requested_by: user.id,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // idx_leave_requests_member_date
+    if (error.code === "23505") {
+      return NextResponse.json(
+        { error: "You already have a leave request for this date" },
+        { status: 409 }
+      );
+    }
+    console.error("Failed to submit leave request:", error);
+    return NextResponse.json(
+      { error: "Failed to submit leave request" },
+      { status: 500 }
+    );
+  }
+
+  const [view] = await toLeaveRequestViews([leaveRequest]);
+  return NextResponse.json({ request: view });
+}
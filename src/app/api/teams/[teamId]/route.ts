@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { createAuditedClient } from "@/lib/audit";
+import { getEditorSession } from "@/lib/auth-server";
+
+// Move a team and all of its participants to the Trash
+// They share one deleted_at, so restoring the team brings them back too
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ teamId: string }> }
+) {
+  const editor = await getEditorSession("teams");
+  if (!editor) {
+    return NextResponse.json(
+      { error: "You do not have permission to manage teams" },
+      { status: 403 }
+    );
+  }
+
+  const teamId = Number((await params).teamId);
+  if (!Number.isInteger(teamId)) {
+    return NextResponse.json({ error: "Invalid team" }, { status: 400 });
+  }
+
+  const db = createAuditedClient(editor.user, request);
+  const deleted = {
+    deleted_at: new Date().toISOString(),
+    deleted_by: editor.user.id,
+  };
+
+  const { error: participantsError } = await db
+    .from("participants")
+    .update(deleted)
+    .eq("group_id", teamId)
+    .is("deleted_at", null);
+
+  if (participantsError) {
+    console.error("Failed to delete team participants:", participantsError);
+    return NextResponse.json(
+      { error: "Failed to delete team" },
+      { status: 500 }
+    );
+  }
+
+  const { error } = await db
+    .from("groups")
+    .update(deleted)
+    .eq("id", teamId)
+    .is("deleted_at", null);
+
+  if (error) {
+    console.error("Failed to delete team:", error);
+    return NextResponse.json(
+      { error: "Failed to delete team" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
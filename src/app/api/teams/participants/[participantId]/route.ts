@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import { getEditorSession } from "@/lib/auth-server";
+
+interface MoveParticipantRequest {
+  groupId?: number;
+}
+
+// Move a participant to another team
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ participantId: string }> }
+) {
+  const editor = await getEditorSession("teams");
+  if (!editor) {
+    return NextResponse.json(
+      { error: "You do not have permission to manage teams" },
+      { status: 403 }
+    );
+  }
+
+  const participantId = Number((await params).participantId);
+
+  let body: MoveParticipantRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  if (!Number.isInteger(participantId) || typeof body.groupId !== "number") {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  // Teams in the Trash cannot take participants
+  const { data: group } = await supabaseAdmin
+    .from("groups")
+    .select("id")
+    .eq("id", body.groupId)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (!group) {
+    return NextResponse.json({ error: "Team not found" }, { status: 404 });
+  }
+
+  // Participants in the Trash cannot be moved, so restoring one puts it
+  // back in the team it was deleted from
+  const { data: moved, error } = await createAuditedClient(editor.user, request)
+    .from("participants")
+    .update({ group_id: body.groupId })
+    .eq("id", participantId)
+    .is("deleted_at", null)
+    .select("id");
+
+  if (error) {
+    console.error("Failed to move participant:", error);
+    return NextResponse.json(
+      { error: "Failed to move participant" },
+      { status: 500 }
+    );
+  }
+
+  if (!moved || moved.length === 0) {
+    return NextResponse.json(
+      { error: "Participant not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
+
+// Move a participant to the Trash
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ participantId: string }> }
+) {
+  const editor = await getEditorSession("teams");
+  if (!editor) {
+    return NextResponse.json(
+      { error: "You do not have permission to manage teams" },
+      { status: 403 }
+    );
+  }
+
+  const participantId = Number((await params).participantId);
+  if (!Number.isInteger(participantId)) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const { error } = await createAuditedClient(editor.user, request)
+    .from("participants")
+    .update({
+      deleted_at: new Date().toISOString(),
+      deleted_by: editor.user.id,
+    })
+    .eq("id", participantId)
+    .is("deleted_at", null);
+
+  if (error) {
+    console.error("Failed to delete participant:", error);
+    return NextResponse.json(
+      { error: "Failed to delete participant" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { createAuditedClient } from "@/lib/audit";
+import { getEditorSession } from "@/lib/auth-server";
+
+interface AddParticipantRequest {
+  name?: string;
+  groupId?: number;
+}
+
+// Register a participant in a team
+export async function POST(request: Request) {
+  const editor = await getEditorSession("teams");
+  if (!editor) {
+    return NextResponse.json(
+      { error: "You do not have permission to manage teams" },
+      { status: 403 }
+    );
+  }
+
+  let body: AddParticipantRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const name = body.name?.trim();
+  if (!name || typeof body.groupId !== "number") {
+    return NextResponse.json(
+      { error: "Name and team are required" },
+      { status: 400 }
+    );
+  }
+
+  // Teams in the Trash cannot take participants
+  const { data: group } = await supabaseAdmin
+    .from("groups")
+    .select("id")
+    .eq("id", body.groupId)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (!group) {
+    return NextResponse.json({ error: "Team not found" }, { status: 404 });
+  }
+
+  const db = createAuditedClient(editor.user, request);
+  const { data: participant, error } = await db
+    .from("participants")
+    .insert({
+      name,
+      group_id: body.groupId,
+      registered_by: editor.user.id,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Failed to add participant:", error);
+    return NextResponse.json(
+      { error: "Failed to add participant" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ participant });
+}
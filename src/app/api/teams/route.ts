@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { createAuditedClient } from "@/lib/audit";
+import { getEditorSession } from "@/lib/auth-server";
+
+interface CreateTeamRequest {
+  name?: string;
+}
+
+// Create a team (group)
+export async function POST(request: Request) {
+  const editor = await getEditorSession("teams");
+  if (!editor) {
+    return NextResponse.json(
+      { error: "You do not have permission to manage teams" },
+      { status: 403 }
+    );
+  }
+
+  let body: CreateTeamRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const name = body.name?.trim();
+  if (!name) {
+    return NextResponse.json(
+      { error: "Team name is required" },
+      { status: 400 }
+    );
+  }
+
+  const { data: team, error } = await createAuditedClient(editor.user, request)
+    .from("groups")
+    .insert({ name })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Failed to create team:", error);
+    return NextResponse.json(
+      { error: "Failed to create team" },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ team });
+}
@@ -0,0 +1,311 @@
+"use client";
+
+import { Fragment, useState, useEffect, useCallback } from "react";
+import type {
+  AuditAction,
+  AuditedTable,
+  AuditLogEntry,
+  Json,
+} from "@/types/database.types";
+
+// The API leaves out the search_text column
+type Entry = Omit<AuditLogEntry, "search_text">;
+
+const TABLE_DISPLAY_NAMES: Record<AuditedTable, string> = {
+  attendance: "Attendance",
+  participants: "Participants",
+  groups: "Teams",
+  users: "Users",
+  committee_members: "Committee Members",
+  site_settings: "Site Settings",
+  leave_requests: "Leave Requests",
+  roles: "Roles",
+  role_permissions: "Role Permissions",
+  role_department_scopes: "Role Department Access",
+  departments: "Departments",
+};
+
+const ACTION_DISPLAY: Record<
+  AuditAction,
+  { label: string; className: string }
+> = {
+  insert: { label: "Created", className: "bg-green-100 text-green-700" },
+  update: { label: "Updated", className: "bg-blue-100 text-blue-700" },
+  delete: { label: "Deleted", className: "bg-red-100 text-red-700" },
+};
+
+// Format date and time for display
+function formatDateTime(dateString: string) {
+  return new Date(dateString).toLocaleString("en-MY", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+// Pick a readable name for the changed row, falling back to its ID
+function describeRecord(entry: Entry) {
+  const row = (entry.after_data || entry.before_data) as Record<
+    string,
+    Json
+  > | null;
+  const label =
+    row?.name ??
+    row?.username ??
+    row?.setting_key ??
+    row?.role_key ??
+    row?.department_key;
+  return typeof label === "string" ? label : `#${entry.record_id ?? "?"}`;
+}
+
+function formatJson(data: Json | null) {
+  return data === null ? "-" : JSON.stringify(data, null, 2);
+}
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [tableFilter, setTableFilter] = useState<string>("all");
+  const [actionFilter, setActionFilter] = useState<string>("all");
+  const [actorSearch, setActorSearch] = useState("");
+  const [textSearch, setTextSearch] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const params = new URLSearchParams();
+      if (tableFilter !== "all") params.set("table", tableFilter);
+      if (actionFilter !== "all") params.set("action", actionFilter);
+      if (actorSearch.trim()) params.set("actor", actorSearch.trim());
+      if (textSearch.trim()) params.set("search", textSearch.trim());
+      if (fromDate) params.set("from", fromDate);
+      if (toDate) params.set("to", toDate);
+
+      const response = await fetch(
+        `/api/admin/audit-log?${params.toString()}`,
+        { cache: "no-store" }
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setEntries(data.entries);
+      setError(null);
+    } catch (err) {
+      console.error("Error fetching audit log:", err);
+      setError("Failed to load audit log. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tableFilter, actionFilter, actorSearch, textSearch, fromDate, toDate]);
+
+  useEffect(() => {
+    // Debounce the search boxes
+    const timeout = setTimeout(fetchEntries, 300);
+    return () => clearTimeout(timeout);
+  }, [fetchEntries]);
+
+  const inputClassName =
+    "px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-gray-900";
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      {/* Header */}
+      <div className="mb-4 md:mb-6">
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">
+          Audit Log
+        </h1>
+        <p className="text-sm md:text-base text-gray-600">
+          Every change to attendance, teams, users, committee members and site
+          settings, with who made it and from which page
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 md:p-6 space-y-3">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <input
+            type="text"
+            value={textSearch}
+            onChange={(e) => setTextSearch(e.target.value)}
+            placeholder="Search changed data..."
+            className={`flex-1 ${inputClassName}`}
+          />
+          <input
+            type="text"
+            value={actorSearch}
+            onChange={(e) => setActorSearch(e.target.value)}
+            placeholder="Changed by..."
+            className={`sm:w-48 ${inputClassName}`}
+          />
+        </div>
+        <div className="flex flex-col sm:flex-row sm:flex-wrap gap-3">
+          <select
+            value={tableFilter}
+            onChange={(e) => setTableFilter(e.target.value)}
+            className={inputClassName}
+          >
+            <option value="all">All Tables</option>
+            {(Object.keys(TABLE_DISPLAY_NAMES) as AuditedTable[]).map(
+              (table) => (
+                <option key={table} value={table}>
+                  {TABLE_DISPLAY_NAMES[table]}
+                </option>
+              )
+            )}
+          </select>
+          <select
+            value={actionFilter}
+            onChange={(e) => setActionFilter(e.target.value)}
+            className={inputClassName}
+          >
+            <option value="all">All Actions</option>
+            {(Object.keys(ACTION_DISPLAY) as AuditAction[]).map((action) => (
+              <option key={action} value={action}>
+                {ACTION_DISPLAY[action].label}
+              </option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className={inputClassName}
+              aria-label="From date"
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className={inputClassName}
+              aria-label="To date"
+            />
+          </div>
+          <button
+            onClick={fetchEntries}
+            className="px-4 py-2 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100 transition-colors text-sm font-medium"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[200px]">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : error ? (
+          <p className="p-6 text-red-600">{error}</p>
+        ) : entries.length === 0 ? (
+          <p className="p-6 text-gray-500">No changes found.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-100">
+                <tr>
+                  <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                    Time
+                  </th>
+                  <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                    Action
+                  </th>
+                  <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                    Record
+                  </th>
+                  <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                    Changed By
+                  </th>
+                  <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                    Source
+                  </th>
+                  <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                    Fields
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {entries.map((entry) => (
+                  <Fragment key={entry.id}>
+                    <tr
+                      onClick={() =>
+                        setExpandedId(expandedId === entry.id ? null : entry.id)
+                      }
+                      className="hover:bg-gray-50 cursor-pointer"
+                    >
+                      <td className="px-4 lg:px-6 py-3 text-sm text-gray-600 whitespace-nowrap">
+                        {formatDateTime(entry.created_at)}
+                      </td>
+                      <td className="px-4 lg:px-6 py-3">
+                        <span
+                          className={`px-3 py-1 rounded-lg text-xs lg:text-sm font-medium whitespace-nowrap ${
+                            ACTION_DISPLAY[entry.action].className
+                          }`}
+                        >
+                          {ACTION_DISPLAY[entry.action].label}
+                        </span>
+                      </td>
+                      <td className="px-4 lg:px-6 py-3 text-sm">
+                        <p className="font-medium text-gray-900">
+                          {describeRecord(entry)}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {TABLE_DISPLAY_NAMES[entry.table_name] ||
+                            entry.table_name}
+                        </p>
+                      </td>
+                      <td className="px-4 lg:px-6 py-3 text-sm font-medium text-gray-900">
+                        {entry.actor_username || (
+                          <span className="text-gray-400">Database</span>
+                        )}
+                      </td>
+                      <td className="px-4 lg:px-6 py-3 text-sm text-gray-600">
+                        {entry.source || "-"}
+                      </td>
+                      <td className="px-4 lg:px-6 py-3 text-sm text-gray-600">
+                        {entry.changed_fields?.join(", ") || "-"}
+                      </td>
+                    </tr>
+                    {expandedId === entry.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={6} className="px-4 lg:px-6 py-4">
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                              <p className="text-xs font-semibold text-gray-600 mb-1">
+                                Before
+                              </p>
+                              <pre className="text-xs text-gray-800 bg-white border border-gray-200 rounded-lg p-3 overflow-x-auto">
+                                {formatJson(entry.before_data)}
+                              </pre>
+                            </div>
+                            <div>
+                              <p className="text-xs font-semibold text-gray-600 mb-1">
+                                After
+                              </p>
+                              <pre className="text-xs text-gray-800 bg-white border border-gray-200 rounded-lg p-3 overflow-x-auto">
+                                {formatJson(entry.after_data)}
+                              </pre>
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,812 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { supabase } from "@/lib/supabase";
+import DepartmentBadge from "@/components/DepartmentBadge";
+import { useDepartments } from "@/context/DepartmentsContext";
+import {
+  getRosterCsvRows,
+  readRosterCsv,
+  type RosterImportPreviewRow,
+  type RosterImportRow,
+} from "@/lib/committee-roster";
+import { downloadCsv, parseCsv, toCsv } from "@/lib/csv";
+import { getRosterDepartments } from "@/lib/departments";
+import type {
+  CommitteeMember,
+  CommitteeMemberStatus,
+  Department,
+} from "@/types/database.types";
+
+// Login account linked to a roster entry
+interface LinkedUser {
+  username: string;
+  committee_member_id: number | null;
+}
+
+export default function CommitteeRosterPage() {
+  const { departments, getDepartmentName } = useDepartments();
+  const rosterDepartments = getRosterDepartments(departments);
+  const [members, setMembers] = useState<CommitteeMember[]>([]);
+  const [linkedUsers, setLinkedUsers] = useState<LinkedUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [search, setSearch] = useState("");
+  const [departmentFilter, setDepartmentFilter] = useState<Department | "all">(
+    "all"
+  );
+  const [statusFilter, setStatusFilter] = useState<
+    CommitteeMemberStatus | "all"
+  >("active");
+
+  // Member being edited, or "new" while adding; null while the modal is closed
+  const [editingMember, setEditingMember] = useState<
+    CommitteeMember | "new" | null
+  >(null);
+  const [memberForm, setMemberForm] = useState<{
+    name: string;
+    department: Department;
+  }>({ name: "", department: "" });
+  const [memberError, setMemberError] = useState<string | null>(null);
+  const [isSavingMember, setIsSavingMember] = useState(false);
+
+  // CSV import: the file's rows, the server's check of them, and the result
+  const [showImport, setShowImport] = useState(false);
+  const [importRows, setImportRows] = useState<RosterImportRow[]>([]);
+  const [importPreview, setImportPreview] = useState<
+    RosterImportPreviewRow[] | null
+  >(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<{
+    imported: number;
+    skipped: number;
+  } | null>(null);
+
+  // Fetch the roster and which members have a login account
+  const fetchMembers = async () => {
+    try {
+      const [membersResult, usersResult] = await Promise.all([
+        supabase
+          .from("committee_members")
+          .select("*")
+          .order("name", { ascending: true }),
+        supabase
+          .from("users")
+          .select("username, committee_member_id")
+          .not("committee_member_id", "is", null),
+      ]);
+
+      if (membersResult.error) throw membersResult.error;
+
+      setMembers(membersResult.data || []);
+      setLinkedUsers(usersResult.data || []);
+      setError(null);
+    } catch (err) {
+      console.error("Error fetching committee members:", err);
+      setError("Failed to load the committee roster. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMembers();
+  }, []);
+
+  const getLinkedUsername = (memberId: number) =>
+    linkedUsers.find((user) => user.committee_member_id === memberId)?.username;
+
+  const openMemberModal = (member: CommitteeMember | "new") => {
+    setEditingMember(member);
+    setMemberForm(
+      member === "new"
+        ? {
+            name: "",
+            department: rosterDepartments[0]?.department_key || "",
+          }
+        : { name: member.name, department: member.department }
+    );
+    setMemberError(null);
+  };
+
+  const handleMemberSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingMember) return;
+
+    if (!memberForm.name.trim()) {
+      setMemberError("Name is required");
+      return;
+    }
+
+    setIsSavingMember(true);
+    setMemberError(null);
+
+    try {
+      const response = await fetch(
+        editingMember === "new"
+          ? "/api/admin/committee-members"
+          : `/api/admin/committee-members/${editingMember.id}`,
+        {
+          method: editingMember === "new" ? "POST" : "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: memberForm.name.trim(),
+            department: memberForm.department,
+          }),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setEditingMember(null);
+      await fetchMembers();
+    } catch (err) {
+      console.error("Error saving committee member:", err);
+      setMemberError(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to save member. Please try again."
+      );
+    } finally {
+      setIsSavingMember(false);
+    }
+  };
+
+  // Members who left are marked inactive so their attendance is kept
+  const toggleMemberStatus = async (member: CommitteeMember) => {
+    const status = member.status === "active" ? "inactive" : "active";
+    if (
+      status === "inactive" &&
+      !confirm(
+        `Mark ${member.name} as inactive? They will no longer appear on the attendance list.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `/api/admin/committee-members/${member.id}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ status }),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setMembers(
+        members.map((m) => (m.id === member.id ? { ...m, status } : m))
+      );
+    } catch (err) {
+      console.error("Error updating member status:", err);
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to update member. Please try again."
+      );
+    }
+  };
+
+  const deleteMember = async (member: CommitteeMember) => {
+    if (!confirm(`Delete ${member.name} from the roster?`)) return;
+
+    try {
+      const response = await fetch(
+        `/api/admin/committee-members/${member.id}`,
+        { method: "DELETE" }
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setMembers(members.filter((m) => m.id !== member.id));
+    } catch (err) {
+      console.error("Error deleting committee member:", err);
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to delete member. Please try again."
+      );
+    }
+  };
+
+  const exportRoster = () => {
+    const date = new Date().toLocaleDateString("en-CA", {
+      timeZone: "Asia/Kuala_Lumpur",
+    });
+    downloadCsv(
+      `committee-roster-${date}.csv`,
+      toCsv(getRosterCsvRows(members))
+    );
+  };
+
+  const downloadImportTemplate = () => {
+    downloadCsv("committee-roster-template.csv", toCsv(getRosterCsvRows([])));
+  };
+
+  const closeImport = () => {
+    setShowImport(false);
+    setImportRows([]);
+    setImportPreview(null);
+    setImportError(null);
+    setImportResult(null);
+  };
+
+  // Read the chosen file and have the server check every row
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setImportPreview(null);
+    setImportError(null);
+    const { rows, error } = readRosterCsv(parseCsv(await file.text()));
+    if (error) {
+      setImportError(error);
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const response = await fetch("/api/admin/committee-members/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rows, dryRun: true }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setImportRows(rows);
+      setImportPreview(data.rows);
+    } catch (err) {
+      console.error("Error checking roster file:", err);
+      setImportError(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to check the file. Please try again."
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Add the valid rows; rows with errors are skipped
+  const confirmImport = async () => {
+    setIsImporting(true);
+    setImportError(null);
+
+    try {
+      const response = await fetch("/api/admin/committee-members/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rows: importRows }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setImportResult({ imported: data.imported, skipped: data.skipped });
+      setImportPreview(null);
+      setImportRows([]);
+      await fetchMembers();
+    } catch (err) {
+      console.error("Error importing committee members:", err);
+      setImportError(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to import members. Please try again."
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const filteredMembers = members.filter(
+    (member) =>
+      (departmentFilter === "all" || member.department === departmentFilter) &&
+      (statusFilter === "all" || member.status === statusFilter) &&
+      member.name.toLowerCase().includes(search.trim().toLowerCase())
+  );
+
+  const stats = {
+    active: members.filter((m) => m.status === "active").length,
+    inactive: members.filter((m) => m.status === "inactive").length,
+    linked: members.filter((m) => getLinkedUsername(m.id)).length,
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[400px] gap-4">
+        <p className="text-red-600">{error}</p>
+        <button
+          onClick={fetchMembers}
+          className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  const readyCount =
+    importPreview?.filter((row) => row.errors.length === 0).length || 0;
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      {/* Header */}
+      <div className="mb-4 md:mb-6">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">
+              Committee Roster
+            </h1>
+            <p className="text-sm md:text-base text-gray-600">
+              Members who appear on the attendance list
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2 md:gap-3">
+            <button
+              onClick={exportRoster}
+              className="bg-white text-gray-700 border border-gray-300 px-4 md:px-6 py-2 md:py-3 rounded-lg hover:bg-gray-50 transition-all font-semibold flex items-center justify-center gap-2 text-sm md:text-base w-full sm:w-auto"
+            >
+              <svg
+                className="w-4 h-4 md:w-5 md:h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+                />
+              </svg>
+              Export CSV
+            </button>
+            <button
+              onClick={() => setShowImport(true)}
+              className="bg-white text-gray-700 border border-gray-300 px-4 md:px-6 py-2 md:py-3 rounded-lg hover:bg-gray-50 transition-all font-semibold flex items-center justify-center gap-2 text-sm md:text-base w-full sm:w-auto"
+            >
+              <svg
+                className="w-4 h-4 md:w-5 md:h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12"
+                />
+              </svg>
+              Import CSV
+            </button>
+            <button
+              onClick={() => openMemberModal("new")}
+              className="bg-indigo-600 text-white px-4 md:px-6 py-2 md:py-3 rounded-lg hover:bg-indigo-700 transition-all font-semibold flex items-center justify-center gap-2 text-sm md:text-base w-full sm:w-auto"
+            >
+              <svg
+                className="w-4 h-4 md:w-5 md:h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 4v16m8-8H4"
+                />
+              </svg>
+              Add Member
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-3 gap-3 md:gap-6">
+        <div className="bg-white rounded-xl p-4 md:p-6 shadow-sm border border-gray-100">
+          <p className="text-xs md:text-sm text-gray-600 mb-1">Active</p>
+          <p className="text-2xl md:text-3xl font-bold text-gray-900">
+            {stats.active}
+          </p>
+        </div>
+        <div className="bg-white rounded-xl p-4 md:p-6 shadow-sm border border-gray-100">
+          <p className="text-xs md:text-sm text-gray-600 mb-1">Inactive</p>
+          <p className="text-2xl md:text-3xl font-bold text-gray-500">
+            {stats.inactive}
+          </p>
+        </div>
+        <div className="bg-white rounded-xl p-4 md:p-6 shadow-sm border border-gray-100">
+          <p className="text-xs md:text-sm text-gray-600 mb-1">
+            With Login Account
+          </p>
+          <p className="text-2xl md:text-3xl font-bold text-indigo-600">
+            {stats.linked}
+          </p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 flex flex-col md:flex-row gap-3">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by name"
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none text-gray-900"
+        />
+        <select
+          value={departmentFilter}
+          onChange={(e) =>
+            setDepartmentFilter(e.target.value as Department | "all")
+          }
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none text-gray-900"
+        >
+          <option value="all">All departments</option>
+          {rosterDepartments.map((department) => (
+            <option
+              key={department.department_key}
+              value={department.department_key}
+            >
+              {department.display_name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={statusFilter}
+          onChange={(e) =>
+            setStatusFilter(e.target.value as CommitteeMemberStatus | "all")
+          }
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none text-gray-900"
+        >
+          <option value="active">Active</option>
+          <option value="inactive">Inactive</option>
+          <option value="all">All statuses</option>
+        </select>
+      </div>
+
+      {/* Members Table */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        {filteredMembers.length === 0 ? (
+          <p className="p-6 text-center text-gray-500">
+            No members match these filters.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-100">
+                <tr>
+                  <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                    Name
+                  </th>
+                  <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                    Department
+                  </th>
+                  <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                    Login
+                  </th>
+                  <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                    Status
+                  </th>
+                  <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {filteredMembers.map((member) => (
+                  <tr
+                    key={member.id}
+                    className="hover:bg-gray-50 transition-colors"
+                  >
+                    <td className="px-4 lg:px-6 py-3 font-semibold text-gray-900">
+                      {member.name}
+                    </td>
+                    <td className="px-4 lg:px-6 py-3">
+                      <DepartmentBadge department={member.department} />
+                    </td>
+                    <td className="px-4 lg:px-6 py-3 text-sm text-gray-600">
+                      {getLinkedUsername(member.id) || "-"}
+                    </td>
+                    <td className="px-4 lg:px-6 py-3">
+                      <span
+                        className={`px-3 py-1 rounded-lg text-sm font-medium ${
+                          member.status === "active"
+                            ? "bg-green-100 text-green-700"
+                            : "bg-gray-100 text-gray-600"
+                        }`}
+                      >
+                        {member.status === "active" ? "Active" : "Inactive"}
+                      </span>
+                    </td>
+                    <td className="px-4 lg:px-6 py-3">
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => openMemberModal(member)}
+                          className="px-3 py-1.5 text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => toggleMemberStatus(member)}
+                          className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors whitespace-nowrap"
+                        >
+                          {member.status === "active"
+                            ? "Mark Inactive"
+                            : "Reactivate"}
+                        </button>
+                        <button
+                          onClick={() => deleteMember(member)}
+                          className="px-3 py-1.5 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Add / Edit Member Modal */}
+      {editingMember && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl max-w-md w-full p-6 md:p-8 max-h-[90vh] overflow-y-auto">
+            <h2 className="text-xl md:text-2xl font-bold text-gray-900 mb-4 md:mb-6">
+              {editingMember === "new" ? "Add Member" : "Edit Member"}
+            </h2>
+
+            <form onSubmit={handleMemberSubmit} className="space-y-4">
+              <div>
+                <label
+                  htmlFor="memberName"
+                  className="block text-sm font-semibold text-gray-700 mb-2"
+                >
+                  Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  id="memberName"
+                  type="text"
+                  value={memberForm.name}
+                  onChange={(e) =>
+                    setMemberForm({ ...memberForm, name: e.target.value })
+                  }
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900"
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="memberDepartment"
+                  className="block text-sm font-semibold text-gray-700 mb-2"
+                >
+                  Department <span className="text-red-500">*</span>
+                </label>
+                <select
+                  id="memberDepartment"
+                  value={memberForm.department}
+                  onChange={(e) =>
+                    setMemberForm({
+                      ...memberForm,
+                      department: e.target.value as Department,
+                    })
+                  }
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900"
+                >
+                  {rosterDepartments.map((department) => (
+                    <option
+                      key={department.department_key}
+                      value={department.department_key}
+                    >
+                      {department.display_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {memberError && (
+                <p className="text-sm text-red-600">{memberError}</p>
+              )}
+
+              <div className="flex gap-4 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setEditingMember(null)}
+                  className="flex-1 px-6 py-3 border-2 border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-all"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSavingMember}
+                  className="flex-1 bg-indigo-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-all disabled:opacity-50"
+                >
+                  {isSavingMember ? "Saving..." : "Save"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Import Roster Modal */}
+      {showImport && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl max-w-3xl w-full p-6 md:p-8 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4 md:mb-6">
+              <h2 className="text-xl md:text-2xl font-bold text-gray-900">
+                Import Roster
+              </h2>
+              <button
+                onClick={closeImport}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+
+            {importError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                {importError}
+              </div>
+            )}
+
+            {importResult ? (
+              <div>
+                <p className="text-sm text-gray-700 mb-4">
+                  {importResult.imported} member
+                  {importResult.imported === 1 ? "" : "s"} added
+                  {importResult.skipped > 0 &&
+                    `, ${importResult.skipped} row${importResult.skipped === 1 ? "" : "s"} skipped`}
+                  .
+                </p>
+                <button
+                  onClick={closeImport}
+                  className="w-full px-4 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-semibold"
+                >
+                  Done
+                </button>
+              </div>
+            ) : importPreview ? (
+              <div>
+                <p className="text-sm text-gray-600 mb-3">
+                  {readyCount} of {importPreview.length} row
+                  {importPreview.length === 1 ? "" : "s"} ready to import. Rows
+                  with errors are skipped.
+                </p>
+                <div className="overflow-x-auto border border-gray-200 rounded-lg mb-4">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-left text-gray-600">
+                      <tr>
+                        <th className="px-3 py-2 font-semibold">Row</th>
+                        <th className="px-3 py-2 font-semibold">Name</th>
+                        <th className="px-3 py-2 font-semibold">Department</th>
+                        <th className="px-3 py-2 font-semibold">Status</th>
+                        <th className="px-3 py-2 font-semibold">Check</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {importPreview.map((row) => (
+                        <tr
+                          key={row.line}
+                          className={row.errors.length > 0 ? "bg-red-50" : ""}
+                        >
+                          <td className="px-3 py-2 text-gray-500">
+                            {row.line}
+                          </td>
+                          <td className="px-3 py-2 text-gray-900">
+                            {row.name}
+                          </td>
+                          <td className="px-3 py-2 text-gray-700">
+                            {row.department
+                              ? getDepartmentName(row.department)
+                              : "-"}
+                          </td>
+                          <td className="px-3 py-2 text-gray-700">
+                            {row.status === "active" ? "Active" : "Inactive"}
+                          </td>
+                          <td className="px-3 py-2">
+                            {row.errors.length > 0 ? (
+                              <ul className="text-red-700 space-y-0.5">
+                                {row.errors.map((rowError) => (
+                                  <li key={rowError}>{rowError}</li>
+                                ))}
+                              </ul>
+                            ) : (
+                              <span className="text-green-700 font-medium">
+                                Ready
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <button
+                    onClick={() => setImportPreview(null)}
+                    disabled={isImporting}
+                    className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-semibold disabled:opacity-50"
+                  >
+                    Choose another file
+                  </button>
+                  <button
+                    onClick={confirmImport}
+                    disabled={isImporting || readyCount === 0}
+                    className="flex-1 px-4 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isImporting
+                      ? "Adding..."
+                      : `Add ${readyCount} member${readyCount === 1 ? "" : "s"}`}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div>
+                <p className="text-sm text-gray-600 mb-4">
+                  Upload a CSV file with the columns{" "}
+                  <span className="font-mono">name, department</span> and
+                  optionally <span className="font-mono">status</span> (active
+                  or inactive). Department accepts the key or the display name.
+                  Names already on the roster in the same department are
+                  skipped. A roster export can be imported again.
+                </p>
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <button
+                    onClick={downloadImportTemplate}
+                    className="px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-semibold"
+                  >
+                    Download template
+                  </button>
+                  <label
+                    className={`flex-1 px-4 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-semibold text-center cursor-pointer ${
+                      isImporting ? "opacity-50 pointer-events-none" : ""
+                    }`}
+                  >
+                    {isImporting ? "Checking..." : "Choose CSV file"}
+                    <input
+                      type="file"
+                      accept=".csv,text/csv"
+                      onChange={handleImportFile}
+                      className="hidden"
+                    />
+                  </label>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
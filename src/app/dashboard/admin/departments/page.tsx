@@ -0,0 +1,447 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useDepartments } from "@/context/DepartmentsContext";
+import {
+  ADMINISTRATOR_DEPARTMENT,
+  DEFAULT_DEPARTMENT_COLOR,
+  DEPARTMENT_KEY_PATTERN,
+} from "@/lib/departments";
+import type { DepartmentRecord } from "@/types/database.types";
+
+interface DepartmentWithCounts extends DepartmentRecord {
+  userCount: number;
+  memberCount: number;
+}
+
+const EMPTY_FORM = {
+  departmentKey: "",
+  displayName: "",
+  color: DEFAULT_DEPARTMENT_COLOR,
+  sortOrder: "",
+};
+
+export default function DepartmentsPage() {
+  const { refreshDepartments } = useDepartments();
+  const [departments, setDepartments] = useState<DepartmentWithCounts[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Department being edited, or "new" while adding; null while the modal is closed
+  const [editingDepartment, setEditingDepartment] = useState<
+    DepartmentWithCounts | "new" | null
+  >(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Fetch departments and how many users and members belong to each
+  const fetchDepartments = async () => {
+    try {
+      const response = await fetch("/api/admin/departments", {
+        cache: "no-store",
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setDepartments(data.departments);
+      setError(null);
+    } catch (err) {
+      console.error("Error fetching departments:", err);
+      setError("Failed to load departments. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDepartments();
+  }, []);
+
+  const openModal = (department: DepartmentWithCounts | "new") => {
+    setEditingDepartment(department);
+    setFormData(
+      department === "new"
+        ? EMPTY_FORM
+        : {
+            departmentKey: department.department_key,
+            displayName: department.display_name,
+            color: department.color,
+            sortOrder: String(department.sort_order),
+          }
+    );
+    setFormError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingDepartment) return;
+
+    const departmentKey = formData.departmentKey.toLowerCase().trim();
+    if (
+      editingDepartment === "new" &&
+      !DEPARTMENT_KEY_PATTERN.test(departmentKey)
+    ) {
+      setFormError(
+        "Department key must start with a letter and contain only lowercase letters, numbers and underscores"
+      );
+      return;
+    }
+    if (!formData.displayName.trim()) {
+      setFormError("Display name is required");
+      return;
+    }
+    // Left empty, new departments go to the end of the list
+    const sortOrder =
+      formData.sortOrder.trim() === "" ? undefined : Number(formData.sortOrder);
+    if (sortOrder !== undefined && !Number.isInteger(sortOrder)) {
+      setFormError("Sort order must be a whole number");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setFormError(null);
+
+    try {
+      const response = await fetch(
+        editingDepartment === "new"
+          ? "/api/admin/departments"
+          : `/api/admin/departments/${encodeURIComponent(
+              editingDepartment.department_key
+            )}`,
+        {
+          method: editingDepartment === "new" ? "POST" : "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            departmentKey:
+              editingDepartment === "new" ? departmentKey : undefined,
+            displayName: formData.displayName.trim(),
+            color: formData.color,
+            sortOrder,
+          }),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setEditingDepartment(null);
+      await Promise.all([fetchDepartments(), refreshDepartments()]);
+    } catch (err) {
+      console.error("Error saving department:", err);
+      setFormError(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to save department. Please try again."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const deleteDepartment = async (department: DepartmentWithCounts) => {
+    if (!confirm(`Delete the "${department.display_name}" department?`)) return;
+
+    try {
+      const response = await fetch(
+        `/api/admin/departments/${encodeURIComponent(department.department_key)}`,
+        { method: "DELETE" }
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setDepartments((prev) =>
+        prev.filter((d) => d.department_key !== department.department_key)
+      );
+      await refreshDepartments();
+    } catch (err) {
+      console.error("Error deleting department:", err);
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to delete department. Please try again."
+      );
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[400px] gap-4">
+        <p className="text-red-600">{error}</p>
+        <button
+          onClick={fetchDepartments}
+          className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      {/* Header */}
+      <div className="mb-4 md:mb-6">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">
+              Departments
+            </h1>
+            <p className="text-sm md:text-base text-gray-600">
+              Departments shown in every dropdown, filter and badge, in this
+              order
+            </p>
+          </div>
+          <button
+            onClick={() => openModal("new")}
+            className="bg-indigo-600 text-white px-4 md:px-6 py-2 md:py-3 rounded-lg hover:bg-indigo-700 transition-all font-semibold flex items-center justify-center gap-2 shadow-lg text-sm md:text-base w-full sm:w-auto"
+          >
+            <svg
+              className="w-4 h-4 md:w-5 md:h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 4v16m8-8H4"
+              />
+            </svg>
+            Add Department
+          </button>
+        </div>
+      </div>
+
+      {/* Departments Table */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                  Department
+                </th>
+                <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                  Key
+                </th>
+                <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                  Users
+                </th>
+                <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                  Roster Members
+                </th>
+                <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                  Order
+                </th>
+                <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {departments.map((department) => {
+                const inUse =
+                  department.userCount > 0 || department.memberCount > 0;
+                return (
+                  <tr
+                    key={department.department_key}
+                    className="hover:bg-gray-50 transition-colors"
+                  >
+                    <td className="px-4 lg:px-6 py-3">
+                      <span
+                        className="px-3 py-1 rounded-lg text-sm font-medium whitespace-nowrap"
+                        style={{
+                          color: department.color,
+                          backgroundColor: `${department.color}26`,
+                        }}
+                      >
+                        {department.display_name}
+                      </span>
+                    </td>
+                    <td className="px-4 lg:px-6 py-3 text-sm text-gray-600 font-mono">
+                      {department.department_key}
+                    </td>
+                    <td className="px-4 lg:px-6 py-3 text-sm text-gray-600">
+                      {department.userCount}
+                    </td>
+                    <td className="px-4 lg:px-6 py-3 text-sm text-gray-600">
+                      {department.memberCount}
+                    </td>
+                    <td className="px-4 lg:px-6 py-3 text-sm text-gray-600">
+                      {department.sort_order}
+                    </td>
+                    <td className="px-4 lg:px-6 py-3">
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => openModal(department)}
+                          className="px-3 py-1.5 text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors"
+                        >
+                          Edit
+                        </button>
+                        {department.department_key !==
+                          ADMINISTRATOR_DEPARTMENT && (
+                          <button
+                            onClick={() => deleteDepartment(department)}
+                            disabled={inUse}
+                            className="px-3 py-1.5 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                            title={
+                              inUse
+                                ? "Move its users and roster members to another department first"
+                                : "Delete department"
+                            }
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Add / Edit Department Modal */}
+      {editingDepartment && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl max-w-md w-full p-6 md:p-8 max-h-[90vh] overflow-y-auto">
+            <h2 className="text-xl md:text-2xl font-bold text-gray-900 mb-4 md:mb-6">
+              {editingDepartment === "new"
+                ? "Add Department"
+                : "Edit Department"}
+            </h2>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label
+                  htmlFor="displayName"
+                  className="block text-sm font-semibold text-gray-700 mb-2"
+                >
+                  Display Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  id="displayName"
+                  value={formData.displayName}
+                  onChange={(e) =>
+                    setFormData({ ...formData, displayName: e.target.value })
+                  }
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900"
+                  placeholder="e.g. Multimedia"
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="departmentKey"
+                  className="block text-sm font-semibold text-gray-700 mb-2"
+                >
+                  Department Key <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  id="departmentKey"
+                  value={formData.departmentKey}
+                  disabled={editingDepartment !== "new"}
+                  onChange={(e) =>
+                    setFormData({ ...formData, departmentKey: e.target.value })
+                  }
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900 disabled:bg-gray-100 disabled:text-gray-500"
+                  placeholder="e.g. multimedia"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Lowercase letters, numbers and underscores. Cannot be changed
+                  later.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label
+                    htmlFor="color"
+                    className="block text-sm font-semibold text-gray-700 mb-2"
+                  >
+                    Colour
+                  </label>
+                  <input
+                    type="color"
+                    id="color"
+                    value={formData.color}
+                    onChange={(e) =>
+                      setFormData({ ...formData, color: e.target.value })
+                    }
+                    className="w-full h-12 p-1 border border-gray-300 rounded-lg cursor-pointer"
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="sortOrder"
+                    className="block text-sm font-semibold text-gray-700 mb-2"
+                  >
+                    Order
+                  </label>
+                  <input
+                    type="number"
+                    id="sortOrder"
+                    step={1}
+                    value={formData.sortOrder}
+                    onChange={(e) =>
+                      setFormData({ ...formData, sortOrder: e.target.value })
+                    }
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900"
+                    placeholder="Last"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <p className="block text-sm font-semibold text-gray-700 mb-2">
+                  Preview
+                </p>
+                <span
+                  className="px-3 py-1 rounded-lg text-sm font-medium whitespace-nowrap"
+                  style={{
+                    color: formData.color,
+                    backgroundColor: `${formData.color}26`,
+                  }}
+                >
+                  {formData.displayName.trim() || "Department"}
+                </span>
+              </div>
+
+              {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+              <div className="flex gap-4 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setEditingDepartment(null)}
+                  className="flex-1 px-6 py-3 border-2 border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-all"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="flex-1 bg-indigo-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-all disabled:opacity-50"
+                >
+                  {isSubmitting ? "Saving..." : "Save"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
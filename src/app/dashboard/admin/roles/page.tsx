@@ -0,0 +1,702 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { useDepartments } from "@/context/DepartmentsContext";
+import {
+  ADMIN_ROLE,
+  PAGES,
+  PERMISSION_LEVELS,
+  ROLE_KEY_PATTERN,
+  SCOPABLE_PAGES,
+  type DepartmentScopes,
+  type PageKey,
+  type Permissions,
+} from "@/lib/permissions";
+import type { Permission, Role } from "@/types/database.types";
+
+interface RoleWithPermissions extends Role {
+  permissions: Permissions;
+  departmentScopes: DepartmentScopes;
+  twoFactorRequired: boolean;
+  userCount: number;
+}
+
+interface RoleDraft {
+  displayName: string;
+  permissions: Permissions;
+  departmentScopes: DepartmentScopes;
+  twoFactorRequired: boolean;
+}
+
+const PERMISSION_DISPLAY: Record<
+  Permission,
+  { label: string; className: string }
+> = {
+  full: { label: "Full", className: "bg-green-50 text-green-700" },
+  view: { label: "View", className: "bg-blue-50 text-blue-700" },
+  none: { label: "None", className: "bg-gray-50 text-gray-500" },
+};
+
+const EMPTY_PERMISSIONS = Object.fromEntries(
+  PAGES.map((page) => [page.key, "none"])
+) as Permissions;
+
+export default function RolesPage() {
+  const { startViewAs } = useAuth();
+  const { departments } = useDepartments();
+  const [roles, setRoles] = useState<RoleWithPermissions[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Unsaved edits keyed by role key
+  const [drafts, setDrafts] = useState<Record<string, RoleDraft>>({});
+  const [savingRole, setSavingRole] = useState<string | null>(null);
+  // Role and page whose department scope is being edited
+  const [scopeEditor, setScopeEditor] = useState<{
+    role: RoleWithPermissions;
+    page: PageKey;
+  } | null>(null);
+
+  const [showModal, setShowModal] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState({
+    roleKey: "",
+    displayName: "",
+    permissions: EMPTY_PERMISSIONS,
+  });
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Fetch roles and the permission matrix
+  const fetchRoles = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch("/api/admin/roles", { cache: "no-store" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setRoles(data.roles);
+      setDrafts({});
+      setError(null);
+    } catch (err) {
+      console.error("Error fetching roles:", err);
+      setError("Failed to load roles. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRoles();
+  }, []);
+
+  const getDraft = (role: RoleWithPermissions): RoleDraft =>
+    drafts[role.role_key] ?? {
+      displayName: role.display_name,
+      permissions: role.permissions,
+      departmentScopes: role.departmentScopes,
+      twoFactorRequired: role.twoFactorRequired,
+    };
+
+  const updateDraft = (
+    role: RoleWithPermissions,
+    changes: Partial<RoleDraft>
+  ) => {
+    setDrafts((prev) => ({
+      ...prev,
+      [role.role_key]: { ...getDraft(role), ...changes },
+    }));
+  };
+
+  const isDirty = (role: RoleWithPermissions) => {
+    const draft = drafts[role.role_key];
+    if (!draft) return false;
+    return (
+      draft.displayName !== role.display_name ||
+      draft.twoFactorRequired !== role.twoFactorRequired ||
+      PAGES.some(
+        (page) => draft.permissions[page.key] !== role.permissions[page.key]
+      ) ||
+      SCOPABLE_PAGES.some(
+        (page) =>
+          [...(draft.departmentScopes[page] || [])].sort().join() !==
+          [...(role.departmentScopes[page] || [])].sort().join()
+      )
+    );
+  };
+
+  const saveRole = async (role: RoleWithPermissions) => {
+    const draft = getDraft(role);
+    if (!draft.displayName.trim()) {
+      alert("Display name is required");
+      return;
+    }
+
+    setSavingRole(role.role_key);
+    try {
+      const response = await fetch(
+        `/api/admin/roles/${encodeURIComponent(role.role_key)}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            displayName: draft.displayName,
+            // Admin permissions are fixed
+            permissions:
+              role.role_key === ADMIN_ROLE ? undefined : draft.permissions,
+            departmentScopes:
+              role.role_key === ADMIN_ROLE
+                ? undefined
+                : Object.fromEntries(
+                    SCOPABLE_PAGES.map((page) => [
+                      page,
+                      draft.departmentScopes[page] || [],
+                    ])
+                  ),
+            twoFactorRequired: draft.twoFactorRequired,
+          }),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setRoles((prev) =>
+        prev.map((r) =>
+          r.role_key === role.role_key
+            ? {
+                ...r,
+                display_name: draft.displayName.trim(),
+                permissions: draft.permissions,
+                departmentScopes: draft.departmentScopes,
+                twoFactorRequired: draft.twoFactorRequired,
+              }
+            : r
+        )
+      );
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[role.role_key];
+        return next;
+      });
+    } catch (err) {
+      console.error("Error saving role:", err);
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to save role. Please try again."
+      );
+    } finally {
+      setSavingRole(null);
+    }
+  };
+
+  const deleteRole = async (role: RoleWithPermissions) => {
+    if (!confirm(`Delete the "${role.display_name}" role?`)) return;
+
+    try {
+      const response = await fetch(
+        `/api/admin/roles/${encodeURIComponent(role.role_key)}`,
+        { method: "DELETE" }
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setRoles((prev) => prev.filter((r) => r.role_key !== role.role_key));
+    } catch (err) {
+      console.error("Error deleting role:", err);
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to delete role. Please try again."
+      );
+    }
+  };
+
+  // Preview the app with this role's saved permissions, read-only
+  const viewAsRole = async (role: RoleWithPermissions) => {
+    const result = await startViewAs({ role: role.role_key });
+    if (!result.success) {
+      alert(result.error || "Failed to start preview. Please try again.");
+    }
+  };
+
+  const handleCreateRole = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const roleKey = formData.roleKey.toLowerCase().trim();
+    if (!ROLE_KEY_PATTERN.test(roleKey)) {
+      setFormError(
+        "Role key must start with a letter and contain only lowercase letters, numbers and underscores"
+      );
+      return;
+    }
+    if (!formData.displayName.trim()) {
+      setFormError("Display name is required");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/admin/roles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...formData, roleKey }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setShowModal(false);
+      setFormData({
+        roleKey: "",
+        displayName: "",
+        permissions: EMPTY_PERMISSIONS,
+      });
+      setFormError(null);
+      fetchRoles();
+    } catch (err) {
+      console.error("Error creating role:", err);
+      setFormError(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to create role. Please try again."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[400px] gap-4">
+        <p className="text-red-600">{error}</p>
+        <button
+          onClick={fetchRoles}
+          className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      {/* Header */}
+      <div className="mb-4 md:mb-6">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">
+              Roles & Permissions
+            </h1>
+            <p className="text-sm md:text-base text-gray-600">
+              Choose what each role can see and edit. Changes apply to
+              logged in users immediately.
+            </p>
+          </div>
+          <button
+            onClick={() => setShowModal(true)}
+            className="bg-indigo-600 text-white px-4 md:px-6 py-2 md:py-3 rounded-lg hover:bg-indigo-700 transition-all font-semibold flex items-center justify-center gap-2 shadow-lg text-sm md:text-base w-full sm:w-auto"
+          >
+            <svg
+              className="w-4 h-4 md:w-5 md:h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 4v16m8-8H4"
+              />
+            </svg>
+            Create Role
+          </button>
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 text-sm text-gray-600 flex flex-wrap gap-4">
+        <span>
+          <span className="font-semibold text-green-700">Full</span> - view
+          and edit
+        </span>
+        <span>
+          <span className="font-semibold text-blue-700">View</span> - read
+          only
+        </span>
+        <span>
+          <span className="font-semibold text-gray-500">None</span> - hidden
+        </span>
+      </div>
+
+      {/* Permission Matrix */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                  Role
+                </th>
+                {PAGES.map((page) => (
+                  <th
+                    key={page.key}
+                    className="px-3 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600 whitespace-nowrap"
+                  >
+                    {page.name}
+                  </th>
+                ))}
+                <th className="px-3 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600 whitespace-nowrap">
+                  Require 2FA
+                </th>
+                <th className="px-4 lg:px-6 py-3 text-right text-xs lg:text-sm font-semibold text-gray-600">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {roles.map((role) => {
+                const draft = getDraft(role);
+                const isAdminRole = role.role_key === ADMIN_ROLE;
+                return (
+                  <tr key={role.role_key} className="hover:bg-gray-50">
+                    <td className="px-4 lg:px-6 py-3 min-w-[200px]">
+                      <input
+                        type="text"
+                        value={draft.displayName}
+                        onChange={(e) =>
+                          updateDraft(role, { displayName: e.target.value })
+                        }
+                        className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-gray-900 text-sm font-medium"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        {role.role_key} · {role.userCount} user
+                        {role.userCount === 1 ? "" : "s"}
+                        {role.is_system && " · System"}
+                      </p>
+                    </td>
+                    {PAGES.map((page) => {
+                      const permission = draft.permissions[page.key];
+                      const scopeCount =
+                        draft.departmentScopes[page.key]?.length ?? 0;
+                      return (
+                        <td key={page.key} className="px-3 py-3">
+                          <select
+                            value={permission}
+                            disabled={isAdminRole}
+                            onChange={(e) =>
+                              updateDraft(role, {
+                                permissions: {
+                                  ...draft.permissions,
+                                  [page.key]: e.target.value as Permission,
+                                },
+                              })
+                            }
+                            className={`px-2 py-1.5 rounded-lg border border-gray-200 text-sm font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:cursor-not-allowed disabled:opacity-70 ${PERMISSION_DISPLAY[permission].className}`}
+                          >
+                            {PERMISSION_LEVELS.map((level) => (
+                              <option key={level} value={level}>
+                                {PERMISSION_DISPLAY[level].label}
+                              </option>
+                            ))}
+                          </select>
+                          {SCOPABLE_PAGES.includes(page.key) &&
+                            permission !== "none" &&
+                            !isAdminRole && (
+                              <button
+                                onClick={() =>
+                                  setScopeEditor({ role, page: page.key })
+                                }
+                                className="block mt-1 text-xs text-indigo-600 hover:underline whitespace-nowrap"
+                              >
+                                {scopeCount > 0
+                                  ? `${scopeCount} department${scopeCount > 1 ? "s" : ""}`
+                                  : "All departments"}
+                              </button>
+                            )}
+                        </td>
+                      );
+                    })}
+                    <td className="px-3 py-3">
+                      <input
+                        type="checkbox"
+                        checked={draft.twoFactorRequired}
+                        onChange={(e) =>
+                          updateDraft(role, {
+                            twoFactorRequired: e.target.checked,
+                          })
+                        }
+                        className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                        title="Users with this role must sign in with an authenticator app"
+                      />
+                    </td>
+                    <td className="px-4 lg:px-6 py-3">
+                      <div className="flex items-center justify-end gap-2">
+                        <button
+                          onClick={() => saveRole(role)}
+                          disabled={!isDirty(role) || savingRole !== null}
+                          className="px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          {savingRole === role.role_key ? "Saving..." : "Save"}
+                        </button>
+                        {role.role_key !== ADMIN_ROLE && (
+                          <button
+                            onClick={() => viewAsRole(role)}
+                            className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+                            title="View as this role (saved permissions)"
+                          >
+                            <svg
+                              className="w-4 h-4"
+                              fill="none"
+                              stroke="currentColor"
+                              viewBox="0 0 24 24"
+                            >
+                              <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                              />
+                              <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+                              />
+                            </svg>
+                          </button>
+                        )}
+                        {!role.is_system && (
+                          <button
+                            onClick={() => deleteRole(role)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Delete role"
+                          >
+                            <svg
+                              className="w-4 h-4"
+                              fill="none"
+                              stroke="currentColor"
+                              viewBox="0 0 24 24"
+                            >
+                              <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                              />
+                            </svg>
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Department Scope Modal */}
+      {scopeEditor && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl max-w-md w-full p-6 md:p-8 max-h-[90vh] overflow-y-auto">
+            <h2 className="text-xl md:text-2xl font-bold text-gray-900 mb-1">
+              Department Access
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+              {getDraft(scopeEditor.role).displayName} ·{" "}
+              {PAGES.find((page) => page.key === scopeEditor.page)?.name}.
+              Leave everything unticked to allow all departments.
+            </p>
+            <div className="space-y-2 mb-6">
+              {departments.map(
+                ({ department_key: dept, display_name: displayName }) => {
+                  const draft = getDraft(scopeEditor.role);
+                  const scope =
+                    draft.departmentScopes[scopeEditor.page] || [];
+                  return (
+                    <label
+                      key={dept}
+                      className="flex items-center gap-3 text-sm text-gray-700"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={scope.includes(dept)}
+                        onChange={(e) =>
+                          updateDraft(scopeEditor.role, {
+                            departmentScopes: {
+                              ...draft.departmentScopes,
+                              [scopeEditor.page]: e.target.checked
+                                ? [...scope, dept]
+                                : scope.filter((d) => d !== dept),
+                            },
+                          })
+                        }
+                        className="w-4 h-4 text-indigo-600 rounded"
+                      />
+                      {displayName}
+                    </label>
+                  );
+                }
+              )}
+            </div>
+            <button
+              onClick={() => setScopeEditor(null)}
+              className="w-full px-6 py-3 bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 transition-all"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Create Role Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl max-w-md w-full p-6 md:p-8 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4 md:mb-6">
+              <h2 className="text-xl md:text-2xl font-bold text-gray-900">
+                Create Role
+              </h2>
+              <button
+                onClick={() => {
+                  setShowModal(false);
+                  setFormError(null);
+                }}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+
+            <form onSubmit={handleCreateRole} className="space-y-4">
+              <div>
+                <label
+                  htmlFor="displayName"
+                  className="block text-sm font-semibold text-gray-700 mb-2"
+                >
+                  Display Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  id="displayName"
+                  value={formData.displayName}
+                  onChange={(e) =>
+                    setFormData({ ...formData, displayName: e.target.value })
+                  }
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900"
+                  placeholder="e.g. Logistics Lead"
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="roleKey"
+                  className="block text-sm font-semibold text-gray-700 mb-2"
+                >
+                  Role Key <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  id="roleKey"
+                  value={formData.roleKey}
+                  onChange={(e) =>
+                    setFormData({ ...formData, roleKey: e.target.value })
+                  }
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900"
+                  placeholder="e.g. logistics_lead"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Lowercase letters, numbers and underscores. Cannot be
+                  changed later.
+                </p>
+              </div>
+
+              <div>
+                <p className="block text-sm font-semibold text-gray-700 mb-2">
+                  Permissions
+                </p>
+                <div className="space-y-2">
+                  {PAGES.map((page) => (
+                    <div
+                      key={page.key}
+                      className="flex items-center justify-between gap-4"
+                    >
+                      <span className="text-sm text-gray-700">
+                        {page.name}
+                      </span>
+                      <select
+                        value={formData.permissions[page.key]}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            permissions: {
+                              ...formData.permissions,
+                              [page.key]: e.target.value as Permission,
+                            },
+                          })
+                        }
+                        className="px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-gray-900 text-sm"
+                      >
+                        {PERMISSION_LEVELS.map((level) => (
+                          <option key={level} value={level}>
+                            {PERMISSION_DISPLAY[level].label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {formError && (
+                <p className="text-sm text-red-600">{formError}</p>
+              )}
+
+              <div className="flex gap-4 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowModal(false);
+                    setFormError(null);
+                  }}
+                  className="flex-1 px-6 py-3 border-2 border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-all"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="flex-1 px-6 py-3 bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSubmitting ? "Creating..." : "Create Role"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
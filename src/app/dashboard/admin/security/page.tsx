@@ -0,0 +1,227 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type {
+  SecurityEvent,
+  SecurityEventType,
+} from "@/types/database.types";
+
+const EVENT_TYPE_DISPLAY: Record<
+  SecurityEventType,
+  { label: string; className: string }
+> = {
+  login_failed: {
+    label: "Failed Login",
+    className: "bg-yellow-100 text-yellow-700",
+  },
+  login_blocked: {
+    label: "Blocked Attempt",
+    className: "bg-orange-100 text-orange-700",
+  },
+  account_locked: {
+    label: "Account Locked",
+    className: "bg-red-100 text-red-700",
+  },
+  account_unlocked: {
+    label: "Account Unlocked",
+    className: "bg-green-100 text-green-700",
+  },
+  two_factor_failed: {
+    label: "Wrong 2FA Code",
+    className: "bg-yellow-100 text-yellow-700",
+  },
+  two_factor_enabled: {
+    label: "2FA Enabled",
+    className: "bg-green-100 text-green-700",
+  },
+  two_factor_disabled: {
+    label: "2FA Disabled",
+    className: "bg-orange-100 text-orange-700",
+  },
+  backup_code_used: {
+    label: "Backup Code Used",
+    className: "bg-blue-100 text-blue-700",
+  },
+  view_as_started: {
+    label: "View As Started",
+    className: "bg-purple-100 text-purple-700",
+  },
+  view_as_ended: {
+    label: "View As Ended",
+    className: "bg-gray-100 text-gray-700",
+  },
+  view_as_write_blocked: {
+    label: "Preview Change Blocked",
+    className: "bg-orange-100 text-orange-700",
+  },
+  password_reset_issued: {
+    label: "Reset Link Issued",
+    className: "bg-blue-100 text-blue-700",
+  },
+  password_reset_completed: {
+    label: "Password Reset",
+    className: "bg-green-100 text-green-700",
+  },
+};
+
+// Format date and time for display
+function formatDateTime(dateString: string) {
+  return new Date(dateString).toLocaleString("en-MY", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+export default function SecurityLogPage() {
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<string>("all");
+  const [usernameSearch, setUsernameSearch] = useState("");
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const params = new URLSearchParams();
+      if (typeFilter !== "all") params.set("type", typeFilter);
+      if (usernameSearch.trim()) params.set("username", usernameSearch.trim());
+
+      const response = await fetch(
+        `/api/admin/security-events?${params.toString()}`,
+        { cache: "no-store" }
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setEvents(data.events);
+      setError(null);
+    } catch (err) {
+      console.error("Error fetching security log:", err);
+      setError("Failed to load security log. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [typeFilter, usernameSearch]);
+
+  useEffect(() => {
+    // Debounce username search
+    const timeout = setTimeout(fetchEvents, 300);
+    return () => clearTimeout(timeout);
+  }, [fetchEvents]);
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      {/* Header */}
+      <div className="mb-4 md:mb-6">
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">
+          Security Log
+        </h1>
+        <p className="text-sm md:text-base text-gray-600">
+          Failed, blocked and locked login attempts, two-factor changes, admin view-as previews and password resets
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 md:p-6 flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          value={usernameSearch}
+          onChange={(e) => setUsernameSearch(e.target.value)}
+          placeholder="Search username..."
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-gray-900"
+        />
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value)}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-gray-900"
+        >
+          <option value="all">All Events</option>
+          {(Object.keys(EVENT_TYPE_DISPLAY) as SecurityEventType[]).map(
+            (type) => (
+              <option key={type} value={type}>
+                {EVENT_TYPE_DISPLAY[type].label}
+              </option>
+            )
+          )}
+        </select>
+        <button
+          onClick={fetchEvents}
+          className="px-4 py-2 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100 transition-colors text-sm font-medium"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {/* Events */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[200px]">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : error ? (
+          <p className="p-6 text-red-600">{error}</p>
+        ) : events.length === 0 ? (
+          <p className="p-6 text-gray-500">No security events found.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-100">
+                <tr>
+                  <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                    Time
+                  </th>
+                  <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                    Event
+                  </th>
+                  <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                    Username
+                  </th>
+                  <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                    IP Address
+                  </th>
+                  <th className="px-4 lg:px-6 py-3 text-left text-xs lg:text-sm font-semibold text-gray-600">
+                    Details
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {events.map((event) => (
+                  <tr key={event.id} className="hover:bg-gray-50">
+                    <td className="px-4 lg:px-6 py-3 text-sm text-gray-600 whitespace-nowrap">
+                      {formatDateTime(event.created_at)}
+                    </td>
+                    <td className="px-4 lg:px-6 py-3">
+                      <span
+                        className={`px-3 py-1 rounded-lg text-xs lg:text-sm font-medium whitespace-nowrap ${
+                          EVENT_TYPE_DISPLAY[event.event_type].className
+                        }`}
+                      >
+                        {EVENT_TYPE_DISPLAY[event.event_type].label}
+                      </span>
+                    </td>
+                    <td className="px-4 lg:px-6 py-3 text-sm font-medium text-gray-900">
+                      {event.username || "-"}
+                    </td>
+                    <td className="px-4 lg:px-6 py-3 text-sm text-gray-600">
+                      {event.ip_address || "-"}
+                    </td>
+                    <td
+                      className="px-4 lg:px-6 py-3 text-sm text-gray-600"
+                      title={event.user_agent || undefined}
+                    >
+                      {event.details || "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import DepartmentBadge from "@/components/DepartmentBadge";
+import type { TrashItemType } from "@/lib/trash";
+import type { Department, UserRole } from "@/types/database.types";
+
+interface DeletedItem {
+  id: number;
+  name: string;
+  deleted_at: string;
+  // Username of whoever deleted it, if their account still exists
+  deletedBy: string | null;
+}
+
+interface DeletedUser extends DeletedItem {
+  username: string;
+  department: Department;
+  role: UserRole;
+}
+
+interface DeletedTeam extends DeletedItem {
+  // Participants deleted together with the team
+  members: string[];
+}
+
+interface DeletedParticipant extends DeletedItem {
+  teamName: string | null;
+}
+
+// Format date and time for display
+function formatDateTime(dateString: string) {
+  return new Date(dateString).toLocaleString("en-MY", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function TrashPage() {
+  const [users, setUsers] = useState<DeletedUser[]>([]);
+  const [teams, setTeams] = useState<DeletedTeam[]>([]);
+  const [participants, setParticipants] = useState<DeletedParticipant[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [retentionInput, setRetentionInput] = useState("30");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Item being restored, as "type:id"
+  const [restoringItem, setRestoringItem] = useState<string | null>(null);
+  const [isSavingRetention, setIsSavingRetention] = useState(false);
+
+  // Fetch the Trash; the server purges expired items first
+  const fetchTrash = async () => {
+    try {
+      const response = await fetch("/api/admin/trash", { cache: "no-store" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setUsers(data.users);
+      setTeams(data.teams);
+      setParticipants(data.participants);
+      setRetentionDays(data.retentionDays);
+      setRetentionInput(String(data.retentionDays));
+      setError(null);
+    } catch (err) {
+      console.error("Error fetching trash:", err);
+      setError("Failed to load the Trash. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  // When an item will be purged for good
+  const getPurgeDate = (item: DeletedItem) =>
+    formatDateTime(
+      new Date(
+        new Date(item.deleted_at).getTime() +
+          retentionDays * 24 * 60 * 60 * 1000
+      ).toISOString()
+    );
+
+  const restoreItem = async (type: TrashItemType, id: number) => {
+    setRestoringItem(`${type}:${id}`);
+    try {
+      const response = await fetch("/api/admin/trash/restore", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type, id }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      await fetchTrash();
+    } catch (err) {
+      console.error("Error restoring item:", err);
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to restore. Please try again."
+      );
+    } finally {
+      setRestoringItem(null);
+    }
+  };
+
+  const saveRetention = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSavingRetention(true);
+    try {
+      const response = await fetch("/api/admin/trash", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ retentionDays: Number(retentionInput) }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      // A shorter period purges older items straight away
+      await fetchTrash();
+    } catch (err) {
+      console.error("Error saving retention period:", err);
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to save retention period. Please try again."
+      );
+    } finally {
+      setIsSavingRetention(false);
+    }
+  };
+
+  const renderRestoreButton = (type: TrashItemType, id: number) => (
+    <button
+      onClick={() => restoreItem(type, id)}
+      disabled={restoringItem !== null}
+      className="px-3 py-1.5 text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+    >
+      {restoringItem === `${type}:${id}` ? "Restoring..." : "Restore"}
+    </button>
+  );
+
+  const renderDeletedInfo = (item: DeletedItem) => (
+    <p className="text-xs text-gray-500 mt-1">
+      Deleted {formatDateTime(item.deleted_at)}
+      {item.deletedBy && ` by ${item.deletedBy}`} · Purged {getPurgeDate(item)}
+    </p>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[400px] gap-4">
+        <p className="text-red-600">{error}</p>
+        <button
+          onClick={fetchTrash}
+          className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      {/* Header */}
+      <div className="mb-4 md:mb-6">
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">
+          Trash
+        </h1>
+        <p className="text-sm md:text-base text-gray-600">
+          Deleted users, teams and participants. Restore them before they are
+          purged for good.
+        </p>
+      </div>
+
+      {/* Retention */}
+      <form
+        onSubmit={saveRetention}
+        className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 flex flex-col sm:flex-row sm:items-center gap-3"
+      >
+        <label
+          htmlFor="retentionDays"
+          className="text-sm font-semibold text-gray-700"
+        >
+          Keep deleted items for
+        </label>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            id="retentionDays"
+            min={1}
+            step={1}
+            value={retentionInput}
+            onChange={(e) => setRetentionInput(e.target.value)}
+            className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none text-gray-900"
+          />
+          <span className="text-sm text-gray-700">days</span>
+        </div>
+        <button
+          type="submit"
+          disabled={
+            isSavingRetention || retentionInput === String(retentionDays)
+          }
+          className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {isSavingRetention ? "Saving..." : "Save"}
+        </button>
+      </form>
+
+      {/* Users */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <h2 className="px-4 lg:px-6 py-3 bg-gray-50 border-b border-gray-100 font-semibold text-gray-900">
+          Users ({users.length})
+        </h2>
+        {users.length === 0 ? (
+          <p className="p-6 text-center text-gray-500">No deleted users.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {users.map((user) => (
+              <li
+                key={user.id}
+                className="px-4 lg:px-6 py-3 flex items-center justify-between gap-4"
+              >
+                <div className="min-w-0">
+                  <p className="font-semibold text-gray-900 truncate">
+                    {user.name}{" "}
+                    <span className="font-normal text-gray-500">
+                      @{user.username}
+                    </span>
+                  </p>
+                  <div className="mt-1">
+                    <DepartmentBadge
+                      department={user.department}
+                      className="px-2 py-0.5 rounded text-xs"
+                    />
+                  </div>
+                  {renderDeletedInfo(user)}
+                </div>
+                {renderRestoreButton("user", user.id)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Teams */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <h2 className="px-4 lg:px-6 py-3 bg-gray-50 border-b border-gray-100 font-semibold text-gray-900">
+          Teams ({teams.length})
+        </h2>
+        {teams.length === 0 ? (
+          <p className="p-6 text-center text-gray-500">No deleted teams.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {teams.map((team) => (
+              <li
+                key={team.id}
+                className="px-4 lg:px-6 py-3 flex items-center justify-between gap-4"
+              >
+                <div className="min-w-0">
+                  <p className="font-semibold text-gray-900">{team.name}</p>
+                  <p className="text-sm text-gray-600">
+                    {team.members.length > 0
+                      ? `${team.members.length} member${team.members.length > 1 ? "s" : ""}: ${team.members.join(", ")}`
+                      : "No members"}
+                  </p>
+                  {renderDeletedInfo(team)}
+                </div>
+                {renderRestoreButton("team", team.id)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Participants */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <h2 className="px-4 lg:px-6 py-3 bg-gray-50 border-b border-gray-100 font-semibold text-gray-900">
+          Participants ({participants.length})
+        </h2>
+        {participants.length === 0 ? (
+          <p className="p-6 text-center text-gray-500">
+            No deleted participants.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {participants.map((participant) => (
+              <li
+                key={participant.id}
+                className="px-4 lg:px-6 py-3 flex items-center justify-between gap-4"
+              >
+                <div className="min-w-0">
+                  <p className="font-semibold text-gray-900">
+                    {participant.name}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {participant.teamName || "No team"}
+                  </p>
+                  {renderDeletedInfo(participant)}
+                </div>
+                {renderRestoreButton("participant", participant.id)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,36 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import bcrypt from "bcryptjs";
 import { supabase } from "@/lib/supabase";
-import type { UserRole, Department, UserStatus } from "@/types/database.types";
+import DepartmentBadge from "@/components/DepartmentBadge";
+import SessionList from "@/components/SessionList";
+import PasswordStrengthMeter, {
+  usePasswordPolicy,
+} from "@/components/PasswordStrengthMeter";
+import { useAuth } from "@/context/AuthContext";
+import { useDepartments } from "@/context/DepartmentsContext";
+import type { CommitteeMatch } from "@/lib/committee-links";
+import { downloadCredentialSlips } from "@/lib/credential-slips";
+import { downloadCsv, parseCsv, toCsv } from "@/lib/csv";
+import {
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSWORD_LENGTH,
+  validatePassword,
+  type PasswordPolicy,
+} from "@/lib/password-policy";
+import {
+  getUserImportTemplate,
+  readUserImportCsv,
+  type ImportedCredential,
+  type UserImportPreviewRow,
+  type UserImportRow,
+} from "@/lib/user-import";
+import type {
+  UserRole,
+  Department,
+  UserStatus,
+  Role,
+} from "@/types/database.types";
 
 interface User {
   id: number;
@@ -13,32 +40,30 @@ interface User {
   role: UserRole;
   created_at: string;
   status: UserStatus;
+  totp_enabled: boolean;
+  must_change_password: boolean;
+  committee_member_id: number | null;
 }
 
-const ROLE_DISPLAY_NAMES: Record<UserRole, string> = {
-  admin: "Admin",
-  chairperson: "Chairperson",
-  protocol: "Protocol",
-  registration_coordinator: "Registration Coordinator",
-  committee: "Committee",
-};
-
-const DEPARTMENT_DISPLAY_NAMES: Record<string, string> = {
-  administrator: "Administrator",
-  pr_communication: "PR & Communication",
-  protocol_ceremonial: "Protocol & Ceremonial",
-  fnb: "F&B",
-  sponsorship_finance: "Sponsorship & Finance",
-  logistics_operations: "Logistics & Operations",
-  technical_it_support: "Technical & IT Support",
-  evaluation_research_documentation: "Evaluation, Research & Documentation",
-  health_safety_welfare: "Health, Safety & Welfare",
-  executive: "Executive",
-  program_activities: "Program & Activities",
-};
+// Committee roster entry a user can be linked to
+interface CommitteeMember {
+  id: number;
+  name: string;
+  department: Department;
+}
 
 export default function UserManagementPage() {
+  const { startViewAs } = useAuth();
+  const { departments, getDepartmentName } = useDepartments();
+  const fetchedPolicy = usePasswordPolicy();
+  // Policy saved from this page, which replaces the one loaded on mount
+  const [savedPolicy, setSavedPolicy] = useState<PasswordPolicy | null>(null);
+  const passwordPolicy = savedPolicy ?? fetchedPolicy;
   const [users, setUsers] = useState<User[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [committeeMembers, setCommitteeMembers] = useState<CommitteeMember[]>(
+    []
+  );
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -51,10 +76,57 @@ export default function UserManagementPage() {
     confirmPassword: "",
     department: "logistics_operations" as Department,
     role: "committee" as UserRole,
+    mustChangePassword: true,
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null);
+  // Locked usernames mapped to when their lockout ends
+  const [lockedAccounts, setLockedAccounts] = useState<Record<string, string>>(
+    {}
+  );
+  // Password policy being edited; null while the modal is closed
+  const [policyForm, setPolicyForm] = useState<PasswordPolicy | null>(null);
+  const [isSavingPolicy, setIsSavingPolicy] = useState(false);
+  const [policyError, setPolicyError] = useState<string | null>(null);
+  // Reset link just created, shown until the admin closes it
+  const [resetLink, setResetLink] = useState<{
+    user: User;
+    url: string;
+    expiresAt: string;
+  } | null>(null);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  // User being edited; null while the edit modal is closed
+  const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [editForm, setEditForm] = useState({
+    name: "",
+    username: "",
+    department: "logistics_operations" as Department,
+    role: "committee" as UserRole,
+    status: "active" as UserStatus,
+    committeeMemberId: null as number | null,
+  });
+  const [editErrors, setEditErrors] = useState<Record<string, string>>({});
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  // CSV import: the file's rows, the server's check of them, and the
+  // credentials of the accounts created (only held until the modal closes)
+  const [showImport, setShowImport] = useState(false);
+  const [importRows, setImportRows] = useState<UserImportRow[]>([]);
+  const [importPreview, setImportPreview] = useState<
+    UserImportPreviewRow[] | null
+  >(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importedCredentials, setImportedCredentials] = useState<
+    ImportedCredential[] | null
+  >(null);
+  const [importSkipped, setImportSkipped] = useState(0);
+  // Suggested roster links; null while the match modal is closed
+  const [committeeMatches, setCommitteeMatches] = useState<
+    CommitteeMatch[] | null
+  >(null);
+  const [isMatching, setIsMatching] = useState(false);
 
   // Fetch users from Supabase
   const fetchUsers = async () => {
@@ -62,7 +134,10 @@ export default function UserManagementPage() {
       setIsLoading(true);
       const { data, error } = await supabase
         .from("users")
-        .select("id, name, username, department, role, status, created_at")
+        .select(
+          "id, name, username, department, role, status, created_at, totp_enabled, must_change_password, committee_member_id"
+        )
+        .is("deleted_at", null)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -77,10 +152,96 @@ export default function UserManagementPage() {
     }
   };
 
+  // Fetch the roles users can be assigned
+  const fetchRoles = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("roles")
+        .select("*")
+        .order("sort_order", { ascending: true });
+
+      if (error) throw error;
+
+      setRoles(data || []);
+    } catch (err) {
+      console.error("Error fetching roles:", err);
+    }
+  };
+
+  // Fetch the committee roster users can be linked to
+  const fetchCommitteeMembers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("committee_members")
+        .select("id, name, department")
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+
+      setCommitteeMembers(data || []);
+    } catch (err) {
+      console.error("Error fetching committee members:", err);
+    }
+  };
+
+  const getRoleDisplayName = (role: UserRole) =>
+    roles.find((r) => r.role_key === role)?.display_name || role;
+
+  // Fetch accounts locked out after too many failed logins
+  const fetchLockedAccounts = async () => {
+    try {
+      const response = await fetch("/api/admin/login-locks", {
+        cache: "no-store",
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      const locks: Record<string, string> = {};
+      data.locks.forEach(
+        (lock: { username: string; lockedUntil: string }) => {
+          locks[lock.username] = lock.lockedUntil;
+        }
+      );
+      setLockedAccounts(locks);
+    } catch (err) {
+      console.error("Error fetching locked accounts:", err);
+    }
+  };
+
   useEffect(() => {
     fetchUsers();
+    fetchRoles();
+    fetchCommitteeMembers();
+    fetchLockedAccounts();
   }, []);
 
+  const unlockUser = async (username: string) => {
+    try {
+      const response = await fetch(
+        `/api/admin/login-locks/${encodeURIComponent(username)}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) throw new Error("Failed to unlock account");
+
+      setLockedAccounts((prev) => {
+        const next = { ...prev };
+        delete next[username];
+        return next;
+      });
+    } catch (err) {
+      console.error("Error unlocking user:", err);
+      alert("Failed to unlock account. Please try again.");
+    }
+  };
+
+  // Preview the app as this user, read-only
+  const viewAsUser = async (userId: number) => {
+    const result = await startViewAs({ userId });
+    if (!result.success) {
+      alert(result.error || "Failed to start preview. Please try again.");
+    }
+  };
+
   const validateForm = async () => {
     const errors: Record<string, string> = {};
 
@@ -107,8 +268,15 @@ export default function UserManagementPage() {
 
     if (!formData.password) {
       errors.password = "Password is required";
-    } else if (formData.password.length < 6) {
-      errors.password = "Password must be at least 6 characters";
+    } else {
+      const passwordError = validatePassword(
+        formData.password,
+        passwordPolicy,
+        { username: formData.username, name: formData.name }
+      );
+      if (passwordError) {
+        errors.password = passwordError;
+      }
     }
 
     if (!formData.confirmPassword) {
@@ -130,20 +298,21 @@ export default function UserManagementPage() {
     setIsSubmitting(true);
 
     try {
-      // Hash the password before storing
-      const hashedPassword = await bcrypt.hash(formData.password, 10);
-
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const { error } = await (supabase.from("users") as any).insert({
-        name: formData.name.trim(),
-        username: formData.username.toLowerCase().trim(),
-        password: hashedPassword,
-        department: formData.department,
-        role: formData.role,
-        status: "active",
+      // The password is hashed on the server
+      const response = await fetch("/api/admin/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: formData.name,
+          username: formData.username,
+          password: formData.password,
+          department: formData.department,
+          role: formData.role,
+          mustChangePassword: formData.mustChangePassword,
+        }),
       });
-
-      if (error) throw error;
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
 
       // Refresh users list
       await fetchUsers();
@@ -156,6 +325,7 @@ export default function UserManagementPage() {
         confirmPassword: "",
         department: "logistics_operations",
         role: "committee",
+        mustChangePassword: true,
       });
       setFormErrors({});
       alert(
@@ -173,16 +343,279 @@ export default function UserManagementPage() {
     }
   };
 
+  const openEditModal = (user: User) => {
+    setEditingUser(user);
+    setEditForm({
+      name: user.name,
+      username: user.username,
+      department: user.department,
+      role: user.role,
+      status: user.status,
+      committeeMemberId: user.committee_member_id,
+    });
+    setEditErrors({});
+  };
+
+  const validateEditForm = async (user: User) => {
+    const errors: Record<string, string> = {};
+
+    if (!editForm.name.trim()) {
+      errors.name = "Name is required";
+    }
+
+    if (!editForm.username.trim()) {
+      errors.username = "Username is required";
+    } else if (editForm.username.length < 3) {
+      errors.username = "Username must be at least 3 characters";
+    } else if (editForm.username !== user.username) {
+      // Check if another user already has this username
+      const { data: existingUser } = await supabase
+        .from("users")
+        .select("id")
+        .eq("username", editForm.username.toLowerCase())
+        .neq("id", user.id)
+        .maybeSingle();
+
+      if (existingUser) {
+        errors.username = "Username already exists";
+      }
+    }
+
+    setEditErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  // Save the fields that changed; a new role applies to the user's open
+  // sessions straight away
+  const handleEditSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingUser) return;
+
+    const isValid = await validateEditForm(editingUser);
+    if (!isValid) return;
+
+    const changes: Partial<typeof editForm> = {};
+    if (editForm.name.trim() !== editingUser.name) {
+      changes.name = editForm.name.trim();
+    }
+    if (editForm.username !== editingUser.username) {
+      changes.username = editForm.username;
+    }
+    if (editForm.department !== editingUser.department) {
+      changes.department = editForm.department;
+    }
+    if (editForm.role !== editingUser.role) {
+      changes.role = editForm.role;
+    }
+    if (editForm.status !== editingUser.status) {
+      changes.status = editForm.status;
+    }
+    if (editForm.committeeMemberId !== editingUser.committee_member_id) {
+      changes.committeeMemberId = editForm.committeeMemberId;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      setEditingUser(null);
+      return;
+    }
+
+    setIsSavingEdit(true);
+
+    try {
+      const response = await fetch(`/api/admin/users/${editingUser.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      const { committeeMemberId, ...fieldChanges } = changes;
+      setUsers(
+        users.map((user) =>
+          user.id === editingUser.id
+            ? {
+                ...user,
+                ...fieldChanges,
+                committee_member_id:
+                  committeeMemberId === undefined
+                    ? user.committee_member_id
+                    : committeeMemberId,
+              }
+            : user
+        )
+      );
+      setEditingUser(null);
+    } catch (err) {
+      console.error("Error updating user:", err);
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to update user. Please try again."
+      );
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
+  const resetImport = () => {
+    setImportRows([]);
+    setImportPreview(null);
+    setImportError(null);
+    setImportedCredentials(null);
+    setImportSkipped(0);
+  };
+
+  const closeImport = () => {
+    if (
+      importedCredentials &&
+      !confirm("The generated passwords will not be shown again. Close anyway?")
+    )
+      return;
+    setShowImport(false);
+    resetImport();
+  };
+
+  const downloadImportTemplate = () => {
+    downloadCsv("user-import-template.csv", toCsv(getUserImportTemplate()));
+  };
+
+  // Read the chosen file and have the server check every row
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    resetImport();
+    const { rows, error } = readUserImportCsv(parseCsv(await file.text()));
+    if (error) {
+      setImportError(error);
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const response = await fetch("/api/admin/users/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rows, dryRun: true }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setImportRows(rows);
+      setImportPreview(data.rows);
+    } catch (err) {
+      console.error("Error checking import file:", err);
+      setImportError(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to check the file. Please try again."
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Create the valid rows; rows with errors are skipped
+  const confirmImport = async () => {
+    setIsImporting(true);
+    setImportError(null);
+
+    try {
+      const response = await fetch("/api/admin/users/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rows: importRows }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setImportedCredentials(data.credentials);
+      setImportSkipped(data.skipped);
+      setImportPreview(null);
+      setImportRows([]);
+      await fetchUsers();
+    } catch (err) {
+      console.error("Error importing users:", err);
+      setImportError(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to import users. Please try again."
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Suggest roster links for unlinked users by name
+  const findCommitteeMatches = async () => {
+    setIsMatching(true);
+
+    try {
+      const response = await fetch("/api/admin/users/committee-links", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dryRun: true }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setCommitteeMatches(data.matches);
+    } catch (err) {
+      console.error("Error matching committee members:", err);
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to match committee members. Please try again."
+      );
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  const confirmCommitteeMatches = async () => {
+    setIsMatching(true);
+
+    try {
+      const response = await fetch("/api/admin/users/committee-links", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      if (data.failed > 0) {
+        alert(
+          `${data.linked} linked, ${data.failed} could not be linked. Please try again.`
+        );
+      }
+      setCommitteeMatches(null);
+      await fetchUsers();
+    } catch (err) {
+      console.error("Error linking committee members:", err);
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to link committee members. Please try again."
+      );
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
   const toggleUserStatus = async (userId: number, currentStatus: string) => {
     const newStatus = currentStatus === "active" ? "inactive" : "active";
 
     try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const { error } = await (supabase.from("users") as any)
-        .update({ status: newStatus })
-        .eq("id", userId);
-
-      if (error) throw error;
+      const response = await fetch(`/api/admin/users/${userId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: newStatus }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
 
       // Update local state
       setUsers(
@@ -192,23 +625,140 @@ export default function UserManagementPage() {
       );
     } catch (err) {
       console.error("Error updating user status:", err);
-      alert("Failed to update user status. Please try again.");
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to update user status. Please try again."
+      );
     }
   };
 
-  const deleteUser = async (userId: number) => {
-    if (!confirm("Are you sure you want to delete this user?")) return;
+  // Make the user choose a new password the next time they sign in
+  const requirePasswordChange = async (user: User) => {
+    if (
+      !confirm(
+        `Require ${user.name} to choose a new password the next time they use the system?`
+      )
+    )
+      return;
 
     try {
-      const { error } = await supabase.from("users").delete().eq("id", userId);
+      const response = await fetch(`/api/admin/users/${user.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mustChangePassword: true }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
 
-      if (error) throw error;
+      setUsers(
+        users.map((u) =>
+          u.id === user.id ? { ...u, must_change_password: true } : u
+        )
+      );
+    } catch (err) {
+      console.error("Error requiring password change:", err);
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to update user. Please try again."
+      );
+    }
+  };
+
+  // Create a single-use link the user can set a new password with
+  const createResetLink = async (user: User) => {
+    if (
+      !confirm(
+        `Create a password reset link for ${user.name}? Any earlier link for this account stops working.`
+      )
+    )
+      return;
+
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/reset-link`, {
+        method: "POST",
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setIsLinkCopied(false);
+      setResetLink({ user, url: data.url, expiresAt: data.expiresAt });
+    } catch (err) {
+      console.error("Error creating reset link:", err);
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to create reset link. Please try again."
+      );
+    }
+  };
+
+  const copyResetLink = async () => {
+    if (!resetLink) return;
+    try {
+      await navigator.clipboard.writeText(resetLink.url);
+      setIsLinkCopied(true);
+    } catch (err) {
+      console.error("Error copying reset link:", err);
+      alert("Copy failed. Select the link and copy it manually.");
+    }
+  };
+
+  const savePasswordPolicy = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!policyForm) return;
+
+    setIsSavingPolicy(true);
+    setPolicyError(null);
+
+    try {
+      const response = await fetch("/api/admin/password-policy", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(policyForm),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setSavedPolicy(data.policy);
+      setPolicyForm(null);
+    } catch (err) {
+      console.error("Error saving password policy:", err);
+      setPolicyError(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to save password policy. Please try again."
+      );
+    } finally {
+      setIsSavingPolicy(false);
+    }
+  };
+
+  const deleteUser = async (userId: number) => {
+    if (
+      !confirm(
+        "Are you sure you want to delete this user? They are signed out and moved to the Trash, where an admin can restore them."
+      )
+    )
+      return;
+
+    try {
+      const response = await fetch(`/api/admin/users/${userId}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
 
       // Update local state
       setUsers(users.filter((user) => user.id !== userId));
     } catch (err) {
       console.error("Error deleting user:", err);
-      alert("Failed to delete user. Please try again.");
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to delete user. Please try again."
+      );
     }
   };
 
@@ -264,43 +814,16 @@ export default function UserManagementPage() {
               Create and manage user accounts with default password
             </p>
           </div>
-          <button
-            onClick={() => setShowModal(true)}
-            className="bg-indigo-600 text-white px-4 md:px-6 py-2 md:py-3 rounded-lg hover:bg-indigo-700 transition-all font-semibold flex items-center justify-center gap-2 shadow-lg text-sm md:text-base w-full sm:w-auto"
-          >
-            <svg
-              className="w-4 h-4 md:w-5 md:h-5"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
+          <div className="flex flex-col sm:flex-row gap-2 md:gap-3">
+            <button
+              onClick={() => {
+                setPolicyError(null);
+                setPolicyForm(passwordPolicy);
+              }}
+              className="bg-white text-gray-700 border border-gray-300 px-4 md:px-6 py-2 md:py-3 rounded-lg hover:bg-gray-50 transition-all font-semibold flex items-center justify-center gap-2 text-sm md:text-base w-full sm:w-auto"
             >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M12 4v16m8-8H4"
-              />
-            </svg>
-            Create Account
-          </button>
-        </div>
-      </div>
-
-      {/* Stats Cards */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-6 mb-4 md:mb-6">
-        <div className="bg-white rounded-xl p-4 md:p-6 shadow-sm border border-gray-100">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-xs md:text-sm text-gray-600 mb-1">
-                Total Users
-              </p>
-              <p className="text-2xl md:text-3xl font-bold text-gray-900">
-                {stats.total}
-              </p>
-            </div>
-            <div className="w-10 h-10 md:w-12 md:h-12 bg-indigo-100 rounded-lg flex items-center justify-center">
               <svg
-                className="w-5 h-5 md:w-6 md:h-6 text-indigo-600"
+                className="w-4 h-4 md:w-5 md:h-5"
                 fill="none"
                 stroke="currentColor"
                 viewBox="0 0 24 24"
@@ -309,26 +832,17 @@ export default function UserManagementPage() {
                   strokeLinecap="round"
                   strokeLinejoin="round"
                   strokeWidth={2}
-                  d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z"
+                  d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
                 />
               </svg>
-            </div>
-          </div>
-        </div>
-
-        <div className="bg-white rounded-xl p-4 md:p-6 shadow-sm border border-gray-100">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-xs md:text-sm text-gray-600 mb-1">
-                Chairpersons
-              </p>
-              <p className="text-2xl md:text-3xl font-bold text-purple-600">
-                {stats.chairpersons}
-              </p>
-            </div>
-            <div className="w-10 h-10 md:w-12 md:h-12 bg-purple-100 rounded-lg flex items-center justify-center">
+              Password Policy
+            </button>
+            <button
+              onClick={() => setShowImport(true)}
+              className="bg-white text-gray-700 border border-gray-300 px-4 md:px-6 py-2 md:py-3 rounded-lg hover:bg-gray-50 transition-all font-semibold flex items-center justify-center gap-2 text-sm md:text-base w-full sm:w-auto"
+            >
               <svg
-                className="w-5 h-5 md:w-6 md:h-6 text-purple-600"
+                className="w-4 h-4 md:w-5 md:h-5"
                 fill="none"
                 stroke="currentColor"
                 viewBox="0 0 24 24"
@@ -337,10 +851,109 @@ export default function UserManagementPage() {
                   strokeLinecap="round"
                   strokeLinejoin="round"
                   strokeWidth={2}
-                  d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z"
+                  d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12"
                 />
               </svg>
-            </div>
+              Import CSV
+            </button>
+            <button
+              onClick={findCommitteeMatches}
+              disabled={isMatching}
+              className="bg-white text-gray-700 border border-gray-300 px-4 md:px-6 py-2 md:py-3 rounded-lg hover:bg-gray-50 transition-all font-semibold flex items-center justify-center gap-2 text-sm md:text-base w-full sm:w-auto disabled:opacity-50"
+            >
+              <svg
+                className="w-4 h-4 md:w-5 md:h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"
+                />
+              </svg>
+              Match Roster
+            </button>
+            <button
+              onClick={() => setShowModal(true)}
+              className="bg-indigo-600 text-white px-4 md:px-6 py-2 md:py-3 rounded-lg hover:bg-indigo-700 transition-all font-semibold flex items-center justify-center gap-2 shadow-lg text-sm md:text-base w-full sm:w-auto"
+            >
+              <svg
+                className="w-4 h-4 md:w-5 md:h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 4v16m8-8H4"
+                />
+              </svg>
+              Create Account
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-6 mb-4 md:mb-6">
+        <div className="bg-white rounded-xl p-4 md:p-6 shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-xs md:text-sm text-gray-600 mb-1">
+                Total Users
+              </p>
+              <p className="text-2xl md:text-3xl font-bold text-gray-900">
+                {stats.total}
+              </p>
+            </div>
+            <div className="w-10 h-10 md:w-12 md:h-12 bg-indigo-100 rounded-lg flex items-center justify-center">
+              <svg
+                className="w-5 h-5 md:w-6 md:h-6 text-indigo-600"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z"
+                />
+              </svg>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl p-4 md:p-6 shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-xs md:text-sm text-gray-600 mb-1">
+                Chairpersons
+              </p>
+              <p className="text-2xl md:text-3xl font-bold text-purple-600">
+                {stats.chairpersons}
+              </p>
+            </div>
+            <div className="w-10 h-10 md:w-12 md:h-12 bg-purple-100 rounded-lg flex items-center justify-center">
+              <svg
+                className="w-5 h-5 md:w-6 md:h-6 text-purple-600"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z"
+                />
+              </svg>
+            </div>
           </div>
         </div>
 
@@ -442,16 +1055,21 @@ export default function UserManagementPage() {
                       <div className="w-10 h-10 bg-gradient-to-br from-indigo-500 to-purple-500 rounded-full flex items-center justify-center text-white font-bold">
                         {user.name.charAt(0)}
                       </div>
-                      <span className="font-semibold text-gray-900">
-                        {user.name}
-                      </span>
+                      <div>
+                        <span className="font-semibold text-gray-900">
+                          {user.name}
+                        </span>
+                        <p className="text-xs text-gray-500">
+                          {user.committee_member_id !== null
+                            ? "On committee roster"
+                            : "Not linked to roster"}
+                        </p>
+                      </div>
                     </div>
                   </td>
                   <td className="px-6 py-4 text-gray-600">{user.username}</td>
                   <td className="px-6 py-4">
-                    <span className="px-3 py-1 rounded-lg text-sm font-medium bg-blue-100 text-blue-700">
-                      {DEPARTMENT_DISPLAY_NAMES[user.department]}
-                    </span>
+                    <DepartmentBadge department={user.department} />
                   </td>
                   <td className="px-6 py-4">
                     <span
@@ -461,8 +1079,16 @@ export default function UserManagementPage() {
                           : "bg-purple-100 text-purple-700"
                       }`}
                     >
-                      {ROLE_DISPLAY_NAMES[user.role]}
+                      {getRoleDisplayName(user.role)}
                     </span>
+                    {user.totp_enabled && (
+                      <span
+                        className="ml-2 px-2 py-1 rounded-lg text-xs font-medium bg-green-100 text-green-700"
+                        title="Two-factor authentication is on"
+                      >
+                        2FA
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 text-gray-600">
                     {formatDate(user.created_at)}
@@ -478,9 +1104,47 @@ export default function UserManagementPage() {
                       {user.status.charAt(0).toUpperCase() +
                         user.status.slice(1)}
                     </span>
+                    {lockedAccounts[user.username] && (
+                      <button
+                        onClick={() => unlockUser(user.username)}
+                        className="ml-2 px-3 py-1 rounded-lg text-sm font-medium bg-red-100 text-red-700 hover:bg-red-200 transition-colors"
+                        title={`Locked until ${new Date(
+                          lockedAccounts[user.username]
+                        ).toLocaleTimeString("en-MY")}. Click to unlock.`}
+                      >
+                        Locked · Unlock
+                      </button>
+                    )}
+                    {user.must_change_password && (
+                      <span
+                        className="ml-2 px-2 py-1 rounded-lg text-xs font-medium bg-amber-100 text-amber-700"
+                        title="Must choose a new password at next login"
+                      >
+                        New password
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4">
                     <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => openEditModal(user)}
+                        className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                        title="Edit user"
+                      >
+                        <svg
+                          className="w-5 h-5 text-gray-600"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                          />
+                        </svg>
+                      </button>
                       <button
                         onClick={() => toggleUserStatus(user.id, user.status)}
                         className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
@@ -520,6 +1184,94 @@ export default function UserManagementPage() {
                           </svg>
                         )}
                       </button>
+                      {user.role !== "admin" && user.status === "active" && (
+                        <button
+                          onClick={() => viewAsUser(user.id)}
+                          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="View as this user"
+                        >
+                          <svg
+                            className="w-5 h-5 text-purple-600"
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                            />
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+                            />
+                          </svg>
+                        </button>
+                      )}
+                      {!user.must_change_password && (
+                        <button
+                          onClick={() => requirePasswordChange(user)}
+                          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="Require password change"
+                        >
+                          <svg
+                            className="w-5 h-5 text-amber-600"
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z"
+                            />
+                          </svg>
+                        </button>
+                      )}
+                      {user.status === "active" && (
+                        <button
+                          onClick={() => createResetLink(user)}
+                          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="Create password reset link"
+                        >
+                          <svg
+                            className="w-5 h-5 text-blue-600"
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"
+                            />
+                          </svg>
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setSessionsUser(user)}
+                        className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                        title="Manage sessions"
+                      >
+                        <svg
+                          className="w-5 h-5 text-indigo-600"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M12 18h.01M8 21h8a2 2 0 002-2V5a2 2 0 00-2-2H8a2 2 0 00-2 2v14a2 2 0 002 2z"
+                          />
+                        </svg>
+                      </button>
                       <button
                         onClick={() => deleteUser(user.id)}
                         className="p-2 hover:bg-red-50 rounded-lg transition-colors"
@@ -531,98 +1283,1001 @@ export default function UserManagementPage() {
                           stroke="currentColor"
                           viewBox="0 0 24 24"
                         >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                          />
-                        </svg>
-                      </button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                          />
+                        </svg>
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Mobile Card View */}
+        <div className="md:hidden divide-y divide-gray-100">
+          {users.map((user) => (
+            <div
+              key={user.id}
+              className="p-4 hover:bg-gray-50 transition-colors"
+            >
+              <div className="flex items-start gap-3 mb-3">
+                <div className="w-10 h-10 bg-gradient-to-br from-indigo-500 to-purple-500 rounded-full flex items-center justify-center text-white font-bold flex-shrink-0">
+                  {user.name.charAt(0)}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-semibold text-gray-900 truncate">
+                    {user.name}
+                  </h3>
+                  <p className="text-sm text-gray-600 truncate">
+                    {user.username}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {user.committee_member_id !== null
+                      ? "On committee roster"
+                      : "Not linked to roster"}
+                  </p>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2 mb-3">
+                <DepartmentBadge
+                  department={user.department}
+                  className="px-2 py-1 rounded text-xs"
+                />
+                <span
+                  className={`px-2 py-1 rounded text-xs font-medium ${
+                    user.role === "admin"
+                      ? "bg-pink-100 text-pink-700"
+                      : "bg-purple-100 text-purple-700"
+                  }`}
+                >
+                  {getRoleDisplayName(user.role)}
+                </span>
+                <span
+                  className={`px-2 py-1 rounded text-xs font-medium ${
+                    user.status === "active"
+                      ? "bg-green-100 text-green-700"
+                      : "bg-gray-100 text-gray-700"
+                  }`}
+                >
+                  {user.status.charAt(0).toUpperCase() + user.status.slice(1)}
+                </span>
+                {lockedAccounts[user.username] && (
+                  <button
+                    onClick={() => unlockUser(user.username)}
+                    className="px-2 py-1 rounded text-xs font-medium bg-red-100 text-red-700 hover:bg-red-200"
+                  >
+                    Locked · Unlock
+                  </button>
+                )}
+                {user.must_change_password && (
+                  <span className="px-2 py-1 rounded text-xs font-medium bg-amber-100 text-amber-700">
+                    New password
+                  </span>
+                )}
+                <span className="px-2 py-1 rounded text-xs text-gray-600 bg-gray-50">
+                  {formatDate(user.created_at)}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => openEditModal(user)}
+                  className="flex-1 p-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors text-sm font-medium flex items-center justify-center gap-2"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => toggleUserStatus(user.id, user.status)}
+                  className="flex-1 p-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors text-sm font-medium flex items-center justify-center gap-2"
+                >
+                  {user.status === "active" ? "Deactivate" : "Activate"}
+                </button>
+                <button
+                  onClick={() => setSessionsUser(user)}
+                  className="flex-1 p-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 rounded-lg transition-colors text-sm font-medium flex items-center justify-center gap-2"
+                >
+                  Sessions
+                </button>
+                {user.role !== "admin" && user.status === "active" && (
+                  <button
+                    onClick={() => viewAsUser(user.id)}
+                    className="flex-1 p-2 bg-purple-50 hover:bg-purple-100 text-purple-700 rounded-lg transition-colors text-sm font-medium flex items-center justify-center gap-2"
+                  >
+                    View As
+                  </button>
+                )}
+                {!user.must_change_password && (
+                  <button
+                    onClick={() => requirePasswordChange(user)}
+                    className="flex-1 p-2 bg-amber-50 hover:bg-amber-100 text-amber-700 rounded-lg transition-colors text-sm font-medium flex items-center justify-center gap-2"
+                  >
+                    New Password
+                  </button>
+                )}
+                {user.status === "active" && (
+                  <button
+                    onClick={() => createResetLink(user)}
+                    className="flex-1 p-2 bg-blue-50 hover:bg-blue-100 text-blue-700 rounded-lg transition-colors text-sm font-medium flex items-center justify-center gap-2"
+                  >
+                    Reset Link
+                  </button>
+                )}
+                <button
+                  onClick={() => deleteUser(user.id)}
+                  className="p-2 bg-red-50 hover:bg-red-100 rounded-lg transition-colors"
+                >
+                  <svg
+                    className="w-5 h-5 text-red-600"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                    />
+                  </svg>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Sessions Modal */}
+      {sessionsUser && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl max-w-lg w-full p-6 md:p-8 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4 md:mb-6">
+              <div>
+                <h2 className="text-xl md:text-2xl font-bold text-gray-900">
+                  Active Sessions
+                </h2>
+                <p className="text-sm text-gray-600">{sessionsUser.name}</p>
+              </div>
+              <button
+                onClick={() => setSessionsUser(null)}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+            <SessionList
+              userId={sessionsUser.id}
+              onCurrentSessionRevoked={() => {
+                window.location.href = "/login";
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Edit User Modal */}
+      {editingUser && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl max-w-md w-full p-6 md:p-8 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4 md:mb-6">
+              <h2 className="text-xl md:text-2xl font-bold text-gray-900">
+                Edit User
+              </h2>
+              <button
+                onClick={() => setEditingUser(null)}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+
+            <form onSubmit={handleEditSubmit} className="space-y-4">
+              {/* Name */}
+              <div>
+                <label
+                  htmlFor="editName"
+                  className="block text-sm font-semibold text-gray-700 mb-2"
+                >
+                  Full Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  id="editName"
+                  value={editForm.name}
+                  onChange={(e) =>
+                    setEditForm({ ...editForm, name: e.target.value })
+                  }
+                  className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900 ${
+                    editErrors.name ? "border-red-500" : "border-gray-300"
+                  }`}
+                />
+                {editErrors.name && (
+                  <p className="text-red-500 text-sm mt-1">{editErrors.name}</p>
+                )}
+              </div>
+
+              {/* Username */}
+              <div>
+                <label
+                  htmlFor="editUsername"
+                  className="block text-sm font-semibold text-gray-700 mb-2"
+                >
+                  Username <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  id="editUsername"
+                  value={editForm.username}
+                  onChange={(e) =>
+                    setEditForm({
+                      ...editForm,
+                      username: e.target.value.toLowerCase().replace(/\s/g, ""),
+                    })
+                  }
+                  className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900 ${
+                    editErrors.username ? "border-red-500" : "border-gray-300"
+                  }`}
+                />
+                {editErrors.username && (
+                  <p className="text-red-500 text-sm mt-1">
+                    {editErrors.username}
+                  </p>
+                )}
+              </div>
+
+              {/* Department */}
+              <div>
+                <label
+                  htmlFor="editDepartment"
+                  className="block text-sm font-semibold text-gray-700 mb-2"
+                >
+                  Department <span className="text-red-500">*</span>
+                </label>
+                <select
+                  id="editDepartment"
+                  value={editForm.department}
+                  onChange={(e) =>
+                    setEditForm({
+                      ...editForm,
+                      department: e.target.value as Department,
+                    })
+                  }
+                  className="w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900 border-gray-300"
+                >
+                  {departments.map((department) => (
+                    <option
+                      key={department.department_key}
+                      value={department.department_key}
+                    >
+                      {department.display_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Role */}
+              <div>
+                <label
+                  htmlFor="editRole"
+                  className="block text-sm font-semibold text-gray-700 mb-2"
+                >
+                  Role <span className="text-red-500">*</span>
+                </label>
+                <select
+                  id="editRole"
+                  value={editForm.role}
+                  onChange={(e) =>
+                    setEditForm({
+                      ...editForm,
+                      role: e.target.value as UserRole,
+                    })
+                  }
+                  className="w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900 border-gray-300"
+                >
+                  {roles.map((role) => (
+                    <option key={role.role_key} value={role.role_key}>
+                      {role.display_name}
+                    </option>
+                  ))}
+                </select>
+                {editForm.role !== editingUser.role && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Takes effect on {editingUser.name}&apos;s open sessions
+                    straight away.
+                  </p>
+                )}
+              </div>
+
+              {/* Status */}
+              <div>
+                <label
+                  htmlFor="editStatus"
+                  className="block text-sm font-semibold text-gray-700 mb-2"
+                >
+                  Status <span className="text-red-500">*</span>
+                </label>
+                <select
+                  id="editStatus"
+                  value={editForm.status}
+                  onChange={(e) =>
+                    setEditForm({
+                      ...editForm,
+                      status: e.target.value as UserStatus,
+                    })
+                  }
+                  className="w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900 border-gray-300"
+                >
+                  <option value="active">Active</option>
+                  <option value="inactive">Inactive</option>
+                </select>
+              </div>
+
+              {/* Committee roster link */}
+              <div>
+                <label
+                  htmlFor="editCommitteeMember"
+                  className="block text-sm font-semibold text-gray-700 mb-2"
+                >
+                  Committee Member
+                </label>
+                <select
+                  id="editCommitteeMember"
+                  value={editForm.committeeMemberId ?? ""}
+                  onChange={(e) =>
+                    setEditForm({
+                      ...editForm,
+                      committeeMemberId: e.target.value
+                        ? Number(e.target.value)
+                        : null,
+                    })
+                  }
+                  className="w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900 border-gray-300"
+                >
+                  <option value="">Not linked</option>
+                  {committeeMembers.map((member) => {
+                    const linkedUser = users.find(
+                      (user) =>
+                        user.committee_member_id === member.id &&
+                        user.id !== editingUser.id
+                    );
+                    return (
+                      <option
+                        key={member.id}
+                        value={member.id}
+                        disabled={!!linkedUser}
+                      >
+                        {member.name} ({getDepartmentName(member.department)})
+                        {linkedUser
+                          ? ` - linked to ${linkedUser.username}`
+                          : ""}
+                      </option>
+                    );
+                  })}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  The roster entry whose attendance this user sees on their
+                  profile
+                </p>
+              </div>
+
+              <div className="flex gap-4 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setEditingUser(null)}
+                  className="flex-1 px-6 py-3 border-2 border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-all"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSavingEdit}
+                  className="flex-1 bg-indigo-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-all disabled:opacity-50"
+                >
+                  {isSavingEdit ? "Saving..." : "Save Changes"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Reset Link Modal */}
+      {resetLink && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl max-w-lg w-full p-6 md:p-8 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4 md:mb-6">
+              <div>
+                <h2 className="text-xl md:text-2xl font-bold text-gray-900">
+                  Password Reset Link
+                </h2>
+                <p className="text-sm text-gray-600">{resetLink.user.name}</p>
+              </div>
+              <button
+                onClick={() => setResetLink(null)}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+
+            <div className="flex gap-2">
+              <input
+                type="text"
+                readOnly
+                value={resetLink.url}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 px-4 py-3 border border-gray-300 rounded-lg bg-gray-50 text-gray-900 text-sm"
+              />
+              <button
+                onClick={copyResetLink}
+                className="px-4 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm font-semibold whitespace-nowrap"
+              >
+                {isLinkCopied ? "Copied" : "Copy"}
+              </button>
+            </div>
+            <p className="text-sm text-gray-600 mt-4">
+              Works once, until{" "}
+              {new Date(resetLink.expiresAt).toLocaleString("en-MY", {
+                day: "numeric",
+                month: "short",
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+              . Send it to {resetLink.user.name} privately. Setting a new
+              password with it signs them out of every device.
+            </p>
+            <p className="text-xs text-gray-500 mt-2">
+              The link is not shown again. Create a new one if it is lost.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Import Users Modal */}
+      {showImport && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl max-w-4xl w-full p-6 md:p-8 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4 md:mb-6">
+              <h2 className="text-xl md:text-2xl font-bold text-gray-900">
+                Import Users
+              </h2>
+              <button
+                onClick={closeImport}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+
+            {importError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                {importError}
+              </div>
+            )}
+
+            {importedCredentials ? (
+              <div>
+                <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                  {importedCredentials.length} account
+                  {importedCredentials.length === 1 ? "" : "s"} created
+                  {importSkipped > 0 &&
+                    `, ${importSkipped} row${importSkipped === 1 ? "" : "s"} skipped`}
+                  . These passwords are not shown again: download the login
+                  slips before closing. Users choose a new password when they
+                  first sign in.
+                </div>
+                <div className="overflow-x-auto border border-gray-200 rounded-lg mb-4">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-left text-gray-600">
+                      <tr>
+                        <th className="px-3 py-2 font-semibold">Name</th>
+                        <th className="px-3 py-2 font-semibold">Username</th>
+                        <th className="px-3 py-2 font-semibold">Password</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {importedCredentials.map((credential) => (
+                        <tr key={credential.username}>
+                          <td className="px-3 py-2 text-gray-900">
+                            {credential.name}
+                          </td>
+                          <td className="px-3 py-2 text-gray-700">
+                            {credential.username}
+                          </td>
+                          <td className="px-3 py-2 font-mono text-gray-900">
+                            {credential.password}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <button
+                    onClick={() =>
+                      downloadCredentialSlips(
+                        importedCredentials,
+                        `${window.location.origin}/login`,
+                        getDepartmentName
+                      )
+                    }
+                    className="flex-1 px-4 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-semibold"
+                  >
+                    Download Login Slips
+                  </button>
+                  <button
+                    onClick={closeImport}
+                    className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-semibold"
+                  >
+                    Done
+                  </button>
+                </div>
+              </div>
+            ) : importPreview ? (
+              <div>
+                {(() => {
+                  const readyCount = importPreview.filter(
+                    (row) => row.errors.length === 0
+                  ).length;
+                  return (
+                    <>
+                      <p className="text-sm text-gray-600 mb-3">
+                        {readyCount} of {importPreview.length} row
+                        {importPreview.length === 1 ? "" : "s"} ready to import.
+                        Rows with errors are skipped.
+                      </p>
+                      <div className="overflow-x-auto border border-gray-200 rounded-lg mb-4">
+                        <table className="w-full text-sm">
+                          <thead className="bg-gray-50 text-left text-gray-600">
+                            <tr>
+                              <th className="px-3 py-2 font-semibold">Row</th>
+                              <th className="px-3 py-2 font-semibold">
+                                Username
+                              </th>
+                              <th className="px-3 py-2 font-semibold">Name</th>
+                              <th className="px-3 py-2 font-semibold">
+                                Department
+                              </th>
+                              <th className="px-3 py-2 font-semibold">Role</th>
+                              <th className="px-3 py-2 font-semibold">
+                                Password
+                              </th>
+                              <th className="px-3 py-2 font-semibold">
+                                Status
+                              </th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-100">
+                            {importPreview.map((row) => (
+                              <tr
+                                key={row.line}
+                                className={
+                                  row.errors.length > 0 ? "bg-red-50" : ""
+                                }
+                              >
+                                <td className="px-3 py-2 text-gray-500">
+                                  {row.line}
+                                </td>
+                                <td className="px-3 py-2 text-gray-900">
+                                  {row.username}
+                                </td>
+                                <td className="px-3 py-2 text-gray-900">
+                                  {row.name}
+                                </td>
+                                <td className="px-3 py-2 text-gray-700">
+                                  {row.department
+                                    ? getDepartmentName(row.department)
+                                    : "-"}
+                                </td>
+                                <td className="px-3 py-2 text-gray-700">
+                                  {row.role
+                                    ? getRoleDisplayName(row.role)
+                                    : "-"}
+                                </td>
+                                <td className="px-3 py-2 text-gray-700">
+                                  {row.generatePassword
+                                    ? "Generated"
+                                    : "Provided"}
+                                </td>
+                                <td className="px-3 py-2">
+                                  {row.errors.length > 0 ? (
+                                    <ul className="text-red-700 space-y-0.5">
+                                      {row.errors.map((error) => (
+                                        <li key={error}>{error}</li>
+                                      ))}
+                                    </ul>
+                                  ) : (
+                                    <span className="text-green-700 font-medium">
+                                      Ready
+                                    </span>
+                                  )}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      <div className="flex flex-col sm:flex-row gap-3">
+                        <button
+                          onClick={resetImport}
+                          disabled={isImporting}
+                          className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-semibold disabled:opacity-50"
+                        >
+                          Choose another file
+                        </button>
+                        <button
+                          onClick={confirmImport}
+                          disabled={isImporting || readyCount === 0}
+                          className="flex-1 px-4 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {isImporting
+                            ? "Creating..."
+                            : `Create ${readyCount} account${readyCount === 1 ? "" : "s"}`}
+                        </button>
+                      </div>
+                    </>
+                  );
+                })()}
+              </div>
+            ) : (
+              <div>
+                <p className="text-sm text-gray-600 mb-2">
+                  Upload a CSV file with the columns{" "}
+                  <span className="font-mono">
+                    username, name, department, role
+                  </span>{" "}
+                  and optionally <span className="font-mono">password</span>.
+                  Department and role accept the key or the display name. A
+                  password is generated for rows without one.
+                </p>
+                <p className="text-sm text-gray-600 mb-4">
+                  Every imported user must choose a new password at first login.
+                </p>
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <button
+                    onClick={downloadImportTemplate}
+                    className="px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-semibold"
+                  >
+                    Download template
+                  </button>
+                  <label
+                    className={`flex-1 px-4 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-semibold text-center cursor-pointer ${
+                      isImporting ? "opacity-50 pointer-events-none" : ""
+                    }`}
+                  >
+                    {isImporting ? "Checking..." : "Choose CSV file"}
+                    <input
+                      type="file"
+                      accept=".csv,text/csv"
+                      onChange={handleImportFile}
+                      className="hidden"
+                    />
+                  </label>
+                </div>
+              </div>
+            )}
+          </div>
         </div>
+      )}
 
-        {/* Mobile Card View */}
-        <div className="md:hidden divide-y divide-gray-100">
-          {users.map((user) => (
-            <div
-              key={user.id}
-              className="p-4 hover:bg-gray-50 transition-colors"
-            >
-              <div className="flex items-start gap-3 mb-3">
-                <div className="w-10 h-10 bg-gradient-to-br from-indigo-500 to-purple-500 rounded-full flex items-center justify-center text-white font-bold flex-shrink-0">
-                  {user.name.charAt(0)}
+      {/* Match Roster Modal */}
+      {committeeMatches && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl max-w-2xl w-full p-6 md:p-8 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4 md:mb-6">
+              <h2 className="text-xl md:text-2xl font-bold text-gray-900">
+                Match Committee Roster
+              </h2>
+              <button
+                onClick={() => setCommitteeMatches(null)}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+
+            {committeeMatches.length === 0 ? (
+              <p className="text-sm text-gray-600">
+                No unlinked users have a name matching exactly one unlinked
+                roster entry. Link the remaining users from Edit User.
+              </p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600 mb-4">
+                  These users have the same name as a roster entry. Names shared
+                  by several entries are left for you to link by hand.
+                </p>
+                <div className="overflow-x-auto border border-gray-200 rounded-lg mb-4">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-left text-gray-600">
+                      <tr>
+                        <th className="px-3 py-2 font-semibold">User</th>
+                        <th className="px-3 py-2 font-semibold">
+                          Roster Entry
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {committeeMatches.map((match) => (
+                        <tr key={match.userId}>
+                          <td className="px-3 py-2">
+                            <p className="text-gray-900">{match.userName}</p>
+                            <p className="text-xs text-gray-500">
+                              {match.username}
+                            </p>
+                          </td>
+                          <td className="px-3 py-2">
+                            <p className="text-gray-900">{match.memberName}</p>
+                            <p className="text-xs text-gray-500">
+                              {getDepartmentName(match.memberDepartment)}
+                            </p>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
                 </div>
-                <div className="flex-1 min-w-0">
-                  <h3 className="font-semibold text-gray-900 truncate">
-                    {user.name}
-                  </h3>
-                  <p className="text-sm text-gray-600 truncate">
-                    {user.username}
-                  </p>
+                <div className="flex gap-4">
+                  <button
+                    onClick={() => setCommitteeMatches(null)}
+                    className="flex-1 px-6 py-3 border-2 border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-all"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={confirmCommitteeMatches}
+                    disabled={isMatching}
+                    className="flex-1 bg-indigo-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-all disabled:opacity-50"
+                  >
+                    {isMatching
+                      ? "Linking..."
+                      : `Link ${committeeMatches.length} user${committeeMatches.length === 1 ? "" : "s"}`}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Password Policy Modal */}
+      {policyForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl max-w-md w-full p-6 md:p-8 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4 md:mb-6">
+              <div>
+                <h2 className="text-xl md:text-2xl font-bold text-gray-900">
+                  Password Policy
+                </h2>
+                <p className="text-sm text-gray-600">
+                  Applies whenever a password is set or changed
+                </p>
+              </div>
+              <button
+                onClick={() => setPolicyForm(null)}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <svg
+                  className="w-6 h-6"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+
+            {policyError && (
+              <div className="mb-4 p-3 rounded-lg bg-red-50 border border-red-200 text-red-700 text-sm">
+                {policyError}
+              </div>
+            )}
+
+            <form onSubmit={savePasswordPolicy} className="space-y-4">
+              <div>
+                <label
+                  htmlFor="policyMinLength"
+                  className="block text-sm font-semibold text-gray-700 mb-2"
+                >
+                  Minimum length
+                </label>
+                <input
+                  type="number"
+                  id="policyMinLength"
+                  min={MIN_PASSWORD_LENGTH}
+                  max={MAX_PASSWORD_LENGTH}
+                  value={policyForm.minLength}
+                  onChange={(e) =>
+                    setPolicyForm({
+                      ...policyForm,
+                      minLength: Number(e.target.value),
+                    })
+                  }
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900"
+                />
+              </div>
+
+              <div>
+                <p className="block text-sm font-semibold text-gray-700 mb-2">
+                  Must contain
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {(
+                    [
+                      ["requireUppercase", "An uppercase letter"],
+                      ["requireLowercase", "A lowercase letter"],
+                      ["requireNumber", "A number"],
+                      ["requireSymbol", "A symbol"],
+                    ] as const
+                  ).map(([key, label]) => (
+                    <label
+                      key={key}
+                      className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={policyForm[key]}
+                        onChange={(e) =>
+                          setPolicyForm({
+                            ...policyForm,
+                            [key]: e.target.checked,
+                          })
+                        }
+                        className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                      />
+                      {label}
+                    </label>
+                  ))}
                 </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Common passwords and passwords containing the user&apos;s name
+                  or username are always rejected.
+                </p>
               </div>
-              <div className="flex flex-wrap gap-2 mb-3">
-                <span className="px-2 py-1 rounded text-xs font-medium bg-blue-100 text-blue-700">
-                  {DEPARTMENT_DISPLAY_NAMES[user.department]}
-                </span>
-                <span
-                  className={`px-2 py-1 rounded text-xs font-medium ${
-                    user.role === "admin"
-                      ? "bg-pink-100 text-pink-700"
-                      : "bg-purple-100 text-purple-700"
-                  }`}
+
+              <div>
+                <label
+                  htmlFor="policyHistoryCount"
+                  className="block text-sm font-semibold text-gray-700 mb-2"
                 >
-                  {ROLE_DISPLAY_NAMES[user.role]}
-                </span>
-                <span
-                  className={`px-2 py-1 rounded text-xs font-medium ${
-                    user.status === "active"
-                      ? "bg-green-100 text-green-700"
-                      : "bg-gray-100 text-gray-700"
-                  }`}
+                  Previous passwords that cannot be reused
+                </label>
+                <input
+                  type="number"
+                  id="policyHistoryCount"
+                  min={0}
+                  max={24}
+                  value={policyForm.historyCount}
+                  onChange={(e) =>
+                    setPolicyForm({
+                      ...policyForm,
+                      historyCount: Number(e.target.value),
+                    })
+                  }
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  0 only stops the current password being set again.
+                </p>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="policyMaxAgeDays"
+                  className="block text-sm font-semibold text-gray-700 mb-2"
                 >
-                  {user.status.charAt(0).toUpperCase() + user.status.slice(1)}
-                </span>
-                <span className="px-2 py-1 rounded text-xs text-gray-600 bg-gray-50">
-                  {formatDate(user.created_at)}
-                </span>
+                  Require a new password every (days)
+                </label>
+                <input
+                  type="number"
+                  id="policyMaxAgeDays"
+                  min={0}
+                  max={365}
+                  value={policyForm.maxAgeDays}
+                  onChange={(e) =>
+                    setPolicyForm({
+                      ...policyForm,
+                      maxAgeDays: Number(e.target.value),
+                    })
+                  }
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  0 turns off forced rotation. Users whose password is older
+                  than this must change it at their next request.
+                </p>
               </div>
-              <div className="flex gap-2">
+
+              <div className="flex gap-4 pt-4">
                 <button
-                  onClick={() => toggleUserStatus(user.id, user.status)}
-                  className="flex-1 p-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors text-sm font-medium flex items-center justify-center gap-2"
+                  type="button"
+                  onClick={() => setPolicyForm(null)}
+                  className="flex-1 px-6 py-3 border-2 border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-all"
                 >
-                  {user.status === "active" ? "Deactivate" : "Activate"}
+                  Cancel
                 </button>
                 <button
-                  onClick={() => deleteUser(user.id)}
-                  className="p-2 bg-red-50 hover:bg-red-100 rounded-lg transition-colors"
+                  type="submit"
+                  disabled={isSavingPolicy}
+                  className="flex-1 bg-indigo-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-all disabled:opacity-50"
                 >
-                  <svg
-                    className="w-5 h-5 text-red-600"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                    />
-                  </svg>
+                  {isSavingPolicy ? "Saving..." : "Save Policy"}
                 </button>
               </div>
-            </div>
-          ))}
+            </form>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Create Account Modal */}
       {showModal && (
@@ -779,6 +2434,12 @@ export default function UserManagementPage() {
                     {formErrors.password}
                   </p>
                 )}
+                <PasswordStrengthMeter
+                  password={formData.password}
+                  policy={passwordPolicy}
+                  username={formData.username}
+                  name={formData.name}
+                />
               </div>
 
               {/* Confirm Password */}
@@ -875,31 +2536,14 @@ export default function UserManagementPage() {
                   }
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900"
                 >
-                  <option value="administrator">Administrator</option>
-                  <option value="pr_communication">PR & Communication</option>
-                  <option value="protocol_ceremonial">
-                    Protocol & Ceremonial
-                  </option>
-                  <option value="fnb">F&B</option>
-                  <option value="sponsorship_finance">
-                    Sponsorship & Finance
-                  </option>
-                  <option value="logistics_operations">
-                    Logistics & Operations
-                  </option>
-                  <option value="technical_it">Technical & IT Support</option>
-                  <option value="evaluation_research_documentation">
-                    Evaluation, Research & Documentation
-                  </option>
-                  <option value="health_safety_welfare">
-                    Health, Safety & Welfare
-                  </option>
-                  <option value="executive">Executive</option>
-                  <option value="program_activities">
-                    Program & Activities
-                  </option>
-                  <option value="media">Media</option>
-                  <option value="documentation">Documentation</option>
+                  {departments.map((department) => (
+                    <option
+                      key={department.department_key}
+                      value={department.department_key}
+                    >
+                      {department.display_name}
+                    </option>
+                  ))}
                 </select>
               </div>
 
@@ -922,16 +2566,35 @@ export default function UserManagementPage() {
                   }
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900"
                 >
-                  <option value="admin">Admin</option>
-                  <option value="chairperson">Chairperson</option>
-                  <option value="protocol">Protocol</option>
-                  <option value="registration_coordinator">
-                    Registration Coordinator
-                  </option>
-                  <option value="committee">Committee</option>
+                  {roles.map((role) => (
+                    <option key={role.role_key} value={role.role_key}>
+                      {role.display_name}
+                    </option>
+                  ))}
                 </select>
               </div>
 
+              {/* Force a password change */}
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.mustChangePassword}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      mustChangePassword: e.target.checked,
+                    })
+                  }
+                  className="mt-1 w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                />
+                <span className="text-sm text-gray-700">
+                  Require a password change at first login
+                  <span className="block text-xs text-gray-500">
+                    The user replaces this password with one only they know.
+                  </span>
+                </span>
+              </label>
+
               <div className="flex gap-4 pt-4">
                 <button
                   type="button"
@@ -0,0 +1,475 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  DEFAULT_MAX_ACCURACY_METERS,
+  GEOFENCE_POLICIES,
+  GEOFENCE_POLICY_LABELS,
+  MAX_ACCURACY_LIMIT_METERS,
+  MAX_VENUES,
+  MAX_VENUE_RADIUS_METERS,
+  MIN_ACCURACY_LIMIT_METERS,
+  MIN_VENUE_RADIUS_METERS,
+  type GeofenceConfig,
+  type GeofencePolicy,
+  type Venue,
+} from "@/lib/geofence";
+
+// A venue being edited; numbers stay as typed until the venues are saved
+interface VenueDraft {
+  type: Venue["type"];
+  name: string;
+  latitude: string;
+  longitude: string;
+  radiusMeters: string;
+  // Polygon corners, one "latitude, longitude" per line
+  points: string;
+}
+
+// Helper function to get current date in Malaysia timezone (UTC+8)
+function getMalaysiaDateString(): string {
+  return new Date().toLocaleDateString("en-CA", {
+    timeZone: "Asia/Kuala_Lumpur",
+  });
+}
+
+function toDraft(venue: Venue): VenueDraft {
+  return venue.type === "circle"
+    ? {
+        type: "circle",
+        name: venue.name,
+        latitude: String(venue.latitude),
+        longitude: String(venue.longitude),
+        radiusMeters: String(venue.radiusMeters),
+        points: "",
+      }
+    : {
+        type: "polygon",
+        name: venue.name,
+        latitude: "",
+        longitude: "",
+        radiusMeters: "",
+        points: venue.points
+          .map((point) => `${point.latitude}, ${point.longitude}`)
+          .join("\n"),
+      };
+}
+
+// The server checks every value, so malformed input is passed on as NaN
+function fromDraft(draft: VenueDraft): Venue {
+  if (draft.type === "circle") {
+    return {
+      type: "circle",
+      name: draft.name,
+      latitude: Number(draft.latitude),
+      longitude: Number(draft.longitude),
+      radiusMeters: Number(draft.radiusMeters),
+    };
+  }
+
+  return {
+    type: "polygon",
+    name: draft.name,
+    points: draft.points
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => {
+        const [latitude, longitude] = line.split(",");
+        return { latitude: Number(latitude), longitude: Number(longitude) };
+      }),
+  };
+}
+
+function createDraft(type: Venue["type"]): VenueDraft {
+  return {
+    type,
+    name: "",
+    latitude: "",
+    longitude: "",
+    radiusMeters: "150",
+    points: "",
+  };
+}
+
+export default function VenuesPage() {
+  const [selectedDate, setSelectedDate] = useState(getMalaysiaDateString());
+  const [savedConfig, setSavedConfig] = useState<GeofenceConfig | null>(null);
+  const [venues, setVenues] = useState<VenueDraft[]>([]);
+  const [policy, setPolicy] = useState<GeofencePolicy>("flag");
+  const [accuracyLimit, setAccuracyLimit] = useState(
+    String(DEFAULT_MAX_ACCURACY_METERS)
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  // Venue whose centre is being filled from this device's location
+  const [locatingIndex, setLocatingIndex] = useState<number | null>(null);
+
+  // Show a saved configuration, or an empty form if the date has none
+  const applyConfig = useCallback((config: GeofenceConfig | null) => {
+    setSavedConfig(config);
+    setVenues(config ? config.venues.map(toDraft) : []);
+    setPolicy(config?.policy ?? "flag");
+    setAccuracyLimit(
+      String(config?.maxAccuracyMeters ?? DEFAULT_MAX_ACCURACY_METERS)
+    );
+  }, []);
+
+  const fetchVenues = useCallback(
+    async (date: string) => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/admin/geofences?date=${date}`, {
+          cache: "no-store",
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+
+        applyConfig(data.config);
+        setError(null);
+      } catch (err) {
+        console.error("Error fetching venues:", err);
+        setError("Failed to load venues. Please try again.");
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [applyConfig]
+  );
+
+  useEffect(() => {
+    fetchVenues(selectedDate);
+  }, [selectedDate, fetchVenues]);
+
+  const updateVenue = (index: number, changes: Partial<VenueDraft>) => {
+    setVenues((prev) =>
+      prev.map((venue, i) => (i === index ? { ...venue, ...changes } : venue))
+    );
+  };
+
+  const fillFromCurrentLocation = (index: number) => {
+    if (!navigator.geolocation) {
+      alert("Geolocation is not supported by your browser");
+      return;
+    }
+
+    setLocatingIndex(index);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        updateVenue(index, {
+          latitude: position.coords.latitude.toFixed(6),
+          longitude: position.coords.longitude.toFixed(6),
+        });
+        setLocatingIndex(null);
+      },
+      (err) => {
+        console.error("Error getting location:", err);
+        alert("Could not get your location. Please enter it by hand.");
+        setLocatingIndex(null);
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  // Save the venues, or clear them (config null) for the selected date
+  const saveVenues = async (clear: boolean) => {
+    if (
+      clear &&
+      !confirm(
+        "Remove every venue for this date? Check-ins will no longer be checked."
+      )
+    ) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/admin/geofences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          date: selectedDate,
+          config: clear
+            ? null
+            : {
+                venues: venues.map(fromDraft),
+                policy,
+                maxAccuracyMeters: Number(accuracyLimit),
+              },
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      applyConfig(data.config);
+    } catch (err) {
+      console.error("Error saving venues:", err);
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to save venues. Please try again."
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      {/* Header */}
+      <div className="mb-4 md:mb-6">
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">
+          Venues
+        </h1>
+        <p className="text-sm md:text-base text-gray-600">
+          Set where members should be when they check in on each event date.
+          Check-ins are marked inside, outside or low-accuracy against these
+          venues.
+        </p>
+      </div>
+
+      {/* Date */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+        <label
+          htmlFor="venueDate"
+          className="text-sm font-semibold text-gray-700"
+        >
+          Event date
+        </label>
+        <input
+          type="date"
+          id="venueDate"
+          value={selectedDate}
+          onChange={(e) => setSelectedDate(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none text-gray-900"
+        />
+        <span className="text-sm text-gray-500">
+          {savedConfig
+            ? `${savedConfig.venues.length} venue${savedConfig.venues.length > 1 ? "s" : ""} set`
+            : "No venues set, so check-ins are not checked"}
+        </span>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : error ? (
+        <div className="flex flex-col items-center justify-center min-h-[200px] gap-4">
+          <p className="text-red-600">{error}</p>
+          <button
+            onClick={() => fetchVenues(selectedDate)}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700"
+          >
+            Try Again
+          </button>
+        </div>
+      ) : (
+        <>
+          {/* Policy */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 lg:p-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="policy"
+                className="block text-sm font-semibold text-gray-700 mb-1"
+              >
+                When a check-in is not inside a venue
+              </label>
+              <select
+                id="policy"
+                value={policy}
+                onChange={(e) => setPolicy(e.target.value as GeofencePolicy)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none text-gray-900"
+              >
+                {GEOFENCE_POLICIES.map((option) => (
+                  <option key={option} value={option}>
+                    {GEOFENCE_POLICY_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                htmlFor="accuracyLimit"
+                className="block text-sm font-semibold text-gray-700 mb-1"
+              >
+                Low accuracy above (metres)
+              </label>
+              <input
+                type="number"
+                id="accuracyLimit"
+                min={MIN_ACCURACY_LIMIT_METERS}
+                max={MAX_ACCURACY_LIMIT_METERS}
+                step={1}
+                value={accuracyLimit}
+                onChange={(e) => setAccuracyLimit(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none text-gray-900"
+              />
+            </div>
+          </div>
+
+          {/* Venues */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+            <h2 className="px-4 lg:px-6 py-3 bg-gray-50 border-b border-gray-100 font-semibold text-gray-900">
+              Venues ({venues.length})
+            </h2>
+            {venues.length === 0 ? (
+              <p className="p-6 text-center text-gray-500">
+                No venues for this date.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {venues.map((venue, index) => (
+                  <li key={index} className="px-4 lg:px-6 py-4 space-y-3">
+                    <div className="flex items-center gap-2">
+                      <span className="px-2 py-0.5 rounded text-xs font-medium bg-indigo-50 text-indigo-700">
+                        {venue.type === "circle" ? "Circle" : "Polygon"}
+                      </span>
+                      <input
+                        type="text"
+                        value={venue.name}
+                        onChange={(e) =>
+                          updateVenue(index, { name: e.target.value })
+                        }
+                        placeholder="Venue name, e.g. Main Hall"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none text-gray-900"
+                      />
+                      <button
+                        onClick={() =>
+                          setVenues((prev) =>
+                            prev.filter((_, i) => i !== index)
+                          )
+                        }
+                        className="px-3 py-2 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    {venue.type === "circle" ? (
+                      <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 sm:items-end">
+                        <div>
+                          <label className="block text-xs font-medium text-gray-900 mb-1">
+                            Latitude
+                          </label>
+                          <input
+                            type="text"
+                            inputMode="decimal"
+                            value={venue.latitude}
+                            onChange={(e) =>
+                              updateVenue(index, { latitude: e.target.value })
+                            }
+                            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none text-gray-900"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-900 mb-1">
+                            Longitude
+                          </label>
+                          <input
+                            type="text"
+                            inputMode="decimal"
+                            value={venue.longitude}
+                            onChange={(e) =>
+                              updateVenue(index, { longitude: e.target.value })
+                            }
+                            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none text-gray-900"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-900 mb-1">
+                            Radius (metres)
+                          </label>
+                          <input
+                            type="number"
+                            min={MIN_VENUE_RADIUS_METERS}
+                            max={MAX_VENUE_RADIUS_METERS}
+                            value={venue.radiusMeters}
+                            onChange={(e) =>
+                              updateVenue(index, {
+                                radiusMeters: e.target.value,
+                              })
+                            }
+                            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none text-gray-900"
+                          />
+                        </div>
+                        <button
+                          onClick={() => fillFromCurrentLocation(index)}
+                          disabled={locatingIndex !== null}
+                          className="px-3 py-2 text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {locatingIndex === index
+                            ? "Locating..."
+                            : "Use my location"}
+                        </button>
+                      </div>
+                    ) : (
+                      <div>
+                        <label className="block text-xs font-medium text-gray-900 mb-1">
+                          Corners, one &quot;latitude, longitude&quot; per line
+                        </label>
+                        <textarea
+                          rows={4}
+                          value={venue.points}
+                          onChange={(e) =>
+                            updateVenue(index, { points: e.target.value })
+                          }
+                          placeholder={
+                            "3.139000, 101.686000\n3.139500, 101.687000\n3.138500, 101.687500"
+                          }
+                          className="w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none text-gray-900"
+                        />
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="px-4 lg:px-6 py-3 border-t border-gray-100 flex flex-wrap gap-2">
+              <button
+                onClick={() =>
+                  setVenues((prev) => [...prev, createDraft("circle")])
+                }
+                disabled={venues.length >= MAX_VENUES}
+                className="px-3 py-1.5 text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add Circle
+              </button>
+              <button
+                onClick={() =>
+                  setVenues((prev) => [...prev, createDraft("polygon")])
+                }
+                disabled={venues.length >= MAX_VENUES}
+                className="px-3 py-1.5 text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add Polygon
+              </button>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => saveVenues(false)}
+              disabled={isSaving || venues.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {isSaving ? "Saving..." : "Save Venues"}
+            </button>
+            {savedConfig && (
+              <button
+                onClick={() => saveVenues(true)}
+                disabled={isSaving}
+                className="px-4 py-2 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Clear Date
+              </button>
+            )}
+            <p className="text-xs text-gray-500">
+              Applies to check-ins from now on.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
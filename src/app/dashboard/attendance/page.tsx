@@ -2,13 +2,22 @@
 
 import { useState, useRef, useEffect } from "react";
 import { useAuth } from "@/context/AuthContext";
+import { useDepartments } from "@/context/DepartmentsContext";
 import {
   useAttendance,
   type MemberAttendance,
   type LocationData,
-  DEPARTMENT_DISPLAY_NAMES,
 } from "@/context/AttendanceContext";
-import type { Department } from "@/types/database.types";
+import {
+  ATTENDANCE_STATUS_LABELS,
+  DEFAULT_GRACE_MINUTES,
+  MAX_GRACE_MINUTES,
+  formatDuration,
+  getOnDutyMinutes,
+  isPresent,
+} from "@/lib/attendance";
+import { describeGeofence } from "@/lib/geofence";
+import type { GeofenceStatus } from "@/types/database.types";
 
 // Helper function to get current date in Malaysia timezone (UTC+8)
 function getMalaysiaDateString(): string {
@@ -17,23 +26,42 @@ function getMalaysiaDateString(): string {
   });
 }
 
+// Check-in location flag colours
+const GEOFENCE_BADGE_CLASSES: Record<GeofenceStatus, string> = {
+  inside: "bg-green-50 text-green-700 border-green-200",
+  outside: "bg-red-50 text-red-700 border-red-200",
+  low_accuracy: "bg-amber-50 text-amber-700 border-amber-200",
+};
+
 // Use MemberAttendance from context
 type CommitteeMember = MemberAttendance;
 
 export default function AttendancePage() {
-  const { user, canEdit } = useAuth();
+  const { user, isAdmin, canEdit, getDepartmentScope } = useAuth();
+  const { departments, getDepartmentName } = useDepartments();
   const canEditAttendance = canEdit("attendance");
+  // Finalizing covers every department, so scoped roles cannot do it
+  const canFinalizeDay =
+    canEditAttendance && getDepartmentScope("attendance") === null;
+  // Departments this user may see, or every department if not limited
+  const departmentOptions =
+    getDepartmentScope("attendance") ??
+    departments.map((department) => department.department_key);
 
   // Use shared attendance context
   const {
     members,
     markAttendance,
+    checkOut,
     stats,
     isLoading,
     error,
     refreshMembers,
     selectedDate,
     setSelectedDate,
+    reportingSchedule,
+    finalization,
+    finalizeDay,
   } = useAttendance();
 
   // Location state - auto-detect on page load
@@ -52,15 +80,23 @@ export default function AttendancePage() {
   const [isCapturing, setIsCapturing] = useState(false);
   const [capturedPhoto, setCapturedPhoto] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState(false);
+  // Whether the camera is capturing a check-out rather than a check-in
+  const [checkOutMode, setCheckOutMode] = useState(false);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [facingMode, setFacingMode] = useState<"user" | "environment">("user");
+  // Reporting time editor (admins only)
+  const [isEditingSchedule, setIsEditingSchedule] = useState(false);
+  const [scheduleTime, setScheduleTime] = useState("");
+  const [scheduleGrace, setScheduleGrace] = useState("");
+  const [isSavingSchedule, setIsSavingSchedule] = useState(false);
+  const [isFinalizing, setIsFinalizing] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   const filteredMembers = members.filter((member) => {
     const matchesSearch =
       member.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      DEPARTMENT_DISPLAY_NAMES[member.department]
+      getDepartmentName(member.department)
         .toLowerCase()
         .includes(searchTerm.toLowerCase());
     const matchesStatus =
@@ -70,6 +106,81 @@ export default function AttendancePage() {
     return matchesSearch && matchesStatus && matchesDepartment;
   });
 
+  // Time the member being viewed was on duty, once checked out
+  const selectedOnDutyMinutes = selectedMember
+    ? getOnDutyMinutes(
+        selectedMember.check_in_time,
+        selectedMember.check_out_time
+      )
+    : null;
+
+  const openScheduleEditor = () => {
+    setScheduleTime(reportingSchedule?.reportingTime || "08:00");
+    setScheduleGrace(
+      String(reportingSchedule?.graceMinutes ?? DEFAULT_GRACE_MINUTES)
+    );
+    setIsEditingSchedule(true);
+  };
+
+  // Save or clear (reportingTime null) the selected date's reporting time
+  const saveSchedule = async (reportingTime: string | null) => {
+    setIsSavingSchedule(true);
+    try {
+      const response = await fetch("/api/admin/reporting-times", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          date: selectedDate,
+          reportingTime,
+          graceMinutes: Number(scheduleGrace),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      await refreshMembers();
+      setIsEditingSchedule(false);
+    } catch (err) {
+      console.error("Error saving reporting time:", err);
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to save reporting time. Please try again."
+      );
+    } finally {
+      setIsSavingSchedule(false);
+    }
+  };
+
+  const finalizeSelectedDay = async () => {
+    const dateLabel = new Date(selectedDate).toLocaleDateString("en-MY", {
+      day: "numeric",
+      month: "long",
+      year: "numeric",
+    });
+    if (
+      !confirm(
+        `Finalize ${dateLabel}? The ${stats.notMarked} member(s) not marked yet will be recorded as absent.`
+      )
+    ) {
+      return;
+    }
+
+    setIsFinalizing(true);
+    try {
+      await finalizeDay();
+    } catch (err) {
+      console.error("Error finalizing day:", err);
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to finalize the day. Please try again."
+      );
+    } finally {
+      setIsFinalizing(false);
+    }
+  };
+
   const startCamera = async (facing: "user" | "environment" = facingMode) => {
     try {
       // Stop any existing stream first
@@ -154,24 +265,34 @@ export default function AttendancePage() {
 
   const confirmAttendance = async () => {
     if (selectedMember) {
+      const location = currentLocation
+        ? {
+            latitude: currentLocation.latitude,
+            longitude: currentLocation.longitude,
+            accuracy: currentLocation.accuracy,
+            address: currentLocation.address,
+          }
+        : undefined;
       try {
-        // Mark attendance with location data and user who marked it
-        await markAttendance(
-          selectedMember.member_id,
-          "attend",
-          capturedPhoto || undefined,
-          currentLocation
-            ? {
-                latitude: currentLocation.latitude,
-                longitude: currentLocation.longitude,
-                accuracy: currentLocation.accuracy,
-                address: currentLocation.address,
-              }
-            : undefined,
-          user?.id
-        );
+        if (checkOutMode) {
+          await checkOut(
+            selectedMember.member_id,
+            capturedPhoto || undefined,
+            location
+          );
+        } else {
+          // Mark attendance with location data and user who marked it
+          await markAttendance(
+            selectedMember.member_id,
+            "attend",
+            capturedPhoto || undefined,
+            location
+          );
+        }
         console.log(
-          "Attendance confirmed for:",
+          checkOutMode
+            ? "Check-out confirmed for:"
+            : "Attendance confirmed for:",
           selectedMember.name,
           "at location:",
           currentLocation,
@@ -180,12 +301,19 @@ export default function AttendancePage() {
         );
       } catch (err) {
         console.error("Error confirming attendance:", err);
-        alert("Failed to confirm attendance. Please try again.");
+        alert(
+          err instanceof Error && err.message
+            ? err.message
+            : checkOutMode
+            ? "Failed to confirm check-out. Please try again."
+            : "Failed to confirm attendance. Please try again."
+        );
       }
     }
     stopCamera();
     setSelectedMember(null);
     setCapturedPhoto(null);
+    setCheckOutMode(false);
   };
 
   const stopCamera = () => {
@@ -207,6 +335,7 @@ export default function AttendancePage() {
     setSelectedMember(null);
     setCapturedPhoto(null);
     setViewMode(false);
+    setCheckOutMode(false);
   };
 
   // Cleanup camera on unmount
@@ -320,6 +449,17 @@ export default function AttendancePage() {
         </div>
       )}
 
+      {/* Department Scope Banner */}
+      {getDepartmentScope("attendance") && (
+        <div className="mb-4 bg-indigo-50 border border-indigo-200 rounded-lg p-4">
+          <p className="text-sm text-indigo-800">
+            <span className="font-semibold">Department Access:</span> You can
+            only see{canEditAttendance && " and mark"} members of{" "}
+            {departmentOptions.map(getDepartmentName).join(", ")}.
+          </p>
+        </div>
+      )}
+
       {/* Location Status Banner */}
       <div
         className={`mb-4 rounded-xl p-3 sm:p-4 border ${
@@ -490,10 +630,128 @@ export default function AttendancePage() {
             </span>
           )}
         </div>
+        {/* Reporting time for the selected date */}
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-gray-600">
+          <span className="font-medium">Reporting time:</span>
+          {reportingSchedule ? (
+            <span className="px-2 py-1 bg-amber-100 text-amber-700 rounded-lg font-semibold">
+              {reportingSchedule.reportingTime}
+              {reportingSchedule.graceMinutes > 0 &&
+                ` + ${reportingSchedule.graceMinutes} min grace`}
+            </span>
+          ) : (
+            <span className="text-gray-500">
+              Not set, so nobody is marked late
+            </span>
+          )}
+          {isAdmin && !isEditingSchedule && (
+            <button
+              onClick={openScheduleEditor}
+              className="text-indigo-600 hover:text-indigo-800 font-medium"
+            >
+              {reportingSchedule ? "Change" : "Set"}
+            </button>
+          )}
+        </div>
+        {isAdmin && isEditingSchedule && (
+          <div className="mt-3 bg-white rounded-lg border border-gray-200 p-3 shadow-sm flex flex-col sm:flex-row sm:items-end gap-3">
+            <div>
+              <label
+                htmlFor="scheduleTime"
+                className="block text-xs font-medium text-gray-900 mb-1"
+              >
+                Reporting time
+              </label>
+              <input
+                type="time"
+                id="scheduleTime"
+                value={scheduleTime}
+                onChange={(e) => setScheduleTime(e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-gray-900"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="scheduleGrace"
+                className="block text-xs font-medium text-gray-900 mb-1"
+              >
+                Grace period (minutes)
+              </label>
+              <input
+                type="number"
+                id="scheduleGrace"
+                min={0}
+                max={MAX_GRACE_MINUTES}
+                step={1}
+                value={scheduleGrace}
+                onChange={(e) => setScheduleGrace(e.target.value)}
+                className="w-28 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-gray-900"
+              />
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => saveSchedule(scheduleTime)}
+                disabled={isSavingSchedule || !scheduleTime}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {isSavingSchedule ? "Saving..." : "Save"}
+              </button>
+              {reportingSchedule && (
+                <button
+                  onClick={() => saveSchedule(null)}
+                  disabled={isSavingSchedule}
+                  className="px-4 py-2 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Clear
+                </button>
+              )}
+              <button
+                onClick={() => setIsEditingSchedule(false)}
+                disabled={isSavingSchedule}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 sm:self-center">
+              Applies to check-ins from now on.
+            </p>
+          </div>
+        )}
+        {/* Whether the selected date has been finalized */}
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-gray-600">
+          <span className="font-medium">Day:</span>
+          {finalization ? (
+            <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded-lg">
+              Finalized by {finalization.finalizedByName} on{" "}
+              {new Date(finalization.finalizedAt).toLocaleString("en-MY", {
+                day: "numeric",
+                month: "short",
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+              {finalization.markedAbsent > 0 &&
+                ` · ${finalization.markedAbsent} marked absent`}
+            </span>
+          ) : (
+            <span className="text-gray-500">
+              Open, unmarked members are not counted as absent yet
+            </span>
+          )}
+          {canFinalizeDay && !finalization && (
+            <button
+              onClick={finalizeSelectedDay}
+              disabled={isFinalizing}
+              className="text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {isFinalizing ? "Finalizing..." : "Finalize Day"}
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Stats Cards */}
-      <div className="grid grid-cols-3 gap-2 sm:gap-3 md:gap-4 mb-6 md:mb-8 overflow-hidden">
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2 sm:gap-3 md:gap-4 mb-6 md:mb-8 overflow-hidden">
         <div className="bg-white rounded-xl p-3 sm:p-4 md:p-6 shadow-sm border border-gray-100 min-w-0">
           <div className="flex items-center justify-between gap-2">
             <div className="min-w-0 flex-1">
@@ -550,6 +808,62 @@ export default function AttendancePage() {
           </div>
         </div>
 
+        <div className="bg-white rounded-xl p-3 sm:p-4 md:p-6 shadow-sm border border-gray-100 min-w-0">
+          <div className="flex items-center justify-between gap-2">
+            <div className="min-w-0 flex-1">
+              <p className="text-[10px] sm:text-xs md:text-sm text-gray-600 mb-1">
+                Late
+              </p>
+              <p className="text-xl sm:text-2xl md:text-3xl font-bold text-amber-600">
+                {stats.late}
+              </p>
+            </div>
+            <div className="w-8 h-8 sm:w-10 sm:h-10 md:w-12 md:h-12 bg-amber-100 rounded-lg flex items-center justify-center flex-shrink-0">
+              <svg
+                className="w-4 h-4 sm:w-5 sm:h-5 md:w-6 md:h-6 text-amber-600"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                />
+              </svg>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl p-3 sm:p-4 md:p-6 shadow-sm border border-gray-100 min-w-0">
+          <div className="flex items-center justify-between gap-2">
+            <div className="min-w-0 flex-1">
+              <p className="text-[10px] sm:text-xs md:text-sm text-gray-600 mb-1">
+                Excused
+              </p>
+              <p className="text-xl sm:text-2xl md:text-3xl font-bold text-blue-600">
+                {stats.excused}
+              </p>
+            </div>
+            <div className="w-8 h-8 sm:w-10 sm:h-10 md:w-12 md:h-12 bg-blue-100 rounded-lg flex items-center justify-center flex-shrink-0">
+              <svg
+                className="w-4 h-4 sm:w-5 sm:h-5 md:w-6 md:h-6 text-blue-600"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+                />
+              </svg>
+            </div>
+          </div>
+        </div>
+
         <div className="bg-white rounded-xl p-3 sm:p-4 md:p-6 shadow-sm border border-gray-100 min-w-0">
           <div className="flex items-center justify-between gap-2">
             <div className="min-w-0 flex-1">
@@ -577,6 +891,34 @@ export default function AttendancePage() {
             </div>
           </div>
         </div>
+
+        <div className="bg-white rounded-xl p-3 sm:p-4 md:p-6 shadow-sm border border-gray-100 min-w-0">
+          <div className="flex items-center justify-between gap-2">
+            <div className="min-w-0 flex-1">
+              <p className="text-[10px] sm:text-xs md:text-sm text-gray-600 mb-1 truncate">
+                Not Marked
+              </p>
+              <p className="text-xl sm:text-2xl md:text-3xl font-bold text-gray-600">
+                {stats.notMarked}
+              </p>
+            </div>
+            <div className="w-8 h-8 sm:w-10 sm:h-10 md:w-12 md:h-12 bg-gray-100 rounded-lg flex items-center justify-center flex-shrink-0">
+              <svg
+                className="w-4 h-4 sm:w-5 sm:h-5 md:w-6 md:h-6 text-gray-600"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                />
+              </svg>
+            </div>
+          </div>
+        </div>
       </div>
 
       {/* Search and Filter Controls */}
@@ -605,13 +947,11 @@ export default function AttendancePage() {
             <option value="all" className="text-gray-900">
               All Departments
             </option>
-            {(Object.keys(DEPARTMENT_DISPLAY_NAMES) as Department[]).map(
-              (dept) => (
-                <option key={dept} value={dept} className="text-gray-900">
-                  {DEPARTMENT_DISPLAY_NAMES[dept]}
-                </option>
-              )
-            )}
+            {departmentOptions.map((dept) => (
+              <option key={dept} value={dept} className="text-gray-900">
+                {getDepartmentName(dept)}
+              </option>
+            ))}
           </select>
         </div>
         <div className="w-full sm:w-auto sm:min-w-[120px]">
@@ -629,9 +969,18 @@ export default function AttendancePage() {
             <option value="attend" className="text-gray-900">
               Attend
             </option>
+            <option value="late" className="text-gray-900">
+              Late
+            </option>
+            <option value="excused" className="text-gray-900">
+              Excused
+            </option>
             <option value="absent" className="text-gray-900">
               Absent
             </option>
+            <option value="not_marked" className="text-gray-900">
+              Not Marked
+            </option>
           </select>
         </div>
       </div>
@@ -664,10 +1013,11 @@ export default function AttendancePage() {
                         {member.name}
                       </h3>
                       <p className="text-xs md:text-sm text-gray-600 truncate">
-                        {DEPARTMENT_DISPLAY_NAMES[member.department]}
+                        {getDepartmentName(member.department)}
+                        {!member.is_active && " · Inactive"}
                       </p>
                       {/* Show location indicator for attended members */}
-                      {member.status === "attend" && member.latitude && (
+                      {isPresent(member.status) && member.latitude && (
                         <p className="text-xs text-green-600 truncate flex items-center gap-1 mt-0.5">
                           <svg
                             className="w-3 h-3 flex-shrink-0"
@@ -690,6 +1040,31 @@ export default function AttendancePage() {
                           </span>
                         </p>
                       )}
+                      {isPresent(member.status) && member.geofence_status && (
+                        <span
+                          className={`inline-block mt-1 px-2 py-0.5 rounded border text-[10px] md:text-xs font-medium ${
+                            GEOFENCE_BADGE_CLASSES[member.geofence_status]
+                          }`}
+                        >
+                          {describeGeofence(
+                            member.geofence_status,
+                            member.geofence_venue
+                          )}
+                        </span>
+                      )}
+                      {isPresent(member.status) && member.check_out_time && (
+                        <p className="text-xs text-gray-500 truncate mt-0.5">
+                          Checked out at{" "}
+                          {new Date(member.check_out_time).toLocaleTimeString(
+                            "en-MY",
+                            {
+                              hour: "2-digit",
+                              minute: "2-digit",
+                              timeZone: "Asia/Kuala_Lumpur",
+                            }
+                          )}
+                        </p>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center gap-2 sm:gap-4 flex-wrap sm:flex-nowrap">
@@ -697,17 +1072,18 @@ export default function AttendancePage() {
                       className={`px-3 py-1.5 md:px-4 md:py-2 rounded-lg font-medium text-xs md:text-sm flex-shrink-0 ${
                         member.status === "attend"
                           ? "bg-green-100 text-green-700"
+                          : member.status === "late"
+                          ? "bg-amber-100 text-amber-700"
+                          : member.status === "excused"
+                          ? "bg-blue-100 text-blue-700"
                           : member.status === "absent"
                           ? "bg-red-100 text-red-700"
                           : "bg-gray-100 text-gray-600"
                       }`}
                     >
-                      {member.status === "absent"
-                        ? "Absent"
-                        : member.status.charAt(0).toUpperCase() +
-                          member.status.slice(1)}
+                      {ATTENDANCE_STATUS_LABELS[member.status]}
                     </span>
-                    {member.status === "attend" && (
+                    {isPresent(member.status) && (
                       <button
                         onClick={() => viewAttendanceDetails(member)}
                         className="bg-gray-600 text-white px-4 py-2 md:px-6 rounded-lg hover:bg-gray-700 transition-colors font-medium flex items-center gap-2 text-xs md:text-sm flex-1 sm:flex-initial justify-center"
@@ -735,11 +1111,47 @@ export default function AttendancePage() {
                         <span className="sm:hidden">View</span>
                       </button>
                     )}
-                    {member.status === "absent" && canEditAttendance && (
+                    {isPresent(member.status) &&
+                      !member.check_out_time &&
+                      member.is_active &&
+                      canEdit("attendance", member.department) && (
                       <button
                         onClick={() => {
                           setSelectedMember(member);
                           setViewMode(false);
+                          setCheckOutMode(true);
+                          startCamera();
+                        }}
+                        className="bg-amber-600 text-white px-4 py-2 md:px-6 rounded-lg hover:bg-amber-700 transition-colors font-medium flex items-center gap-2 text-xs md:text-sm flex-1 sm:flex-initial justify-center"
+                      >
+                        <svg
+                          className="w-4 h-4 md:w-5 md:h-5"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1"
+                          />
+                        </svg>
+                        <span className="hidden sm:inline">Check Out</span>
+                        <span className="sm:hidden">Out</span>
+                      </button>
+                    )}
+                    {/* Members on approved leave can still be checked in if they turn up */}
+                    {(member.status === "not_marked" ||
+                      member.status === "absent" ||
+                      member.status === "excused") &&
+                      member.is_active &&
+                      canEdit("attendance", member.department) && (
+                      <button
+                        onClick={() => {
+                          setSelectedMember(member);
+                          setViewMode(false);
+                          setCheckOutMode(false);
                           startCamera();
                         }}
                         className="bg-indigo-600 text-white px-4 py-2 md:px-6 rounded-lg hover:bg-indigo-700 transition-colors font-medium flex items-center gap-2 text-xs md:text-sm flex-1 sm:flex-initial justify-center"
@@ -782,21 +1194,36 @@ export default function AttendancePage() {
             <div className="flex items-center justify-between p-4 md:p-6 lg:p-8 pb-2 md:pb-4 flex-shrink-0">
               <div className="flex-1 min-w-0 pr-2">
                 <h2 className="text-lg md:text-2xl font-bold text-gray-900 truncate">
-                  {viewMode ? "Attendance Details" : "Photo Verification"}
+                  {viewMode
+                    ? "Attendance Details"
+                    : checkOutMode
+                    ? "Check-out Verification"
+                    : "Photo Verification"}
                 </h2>
                 <p className="text-sm md:text-base text-gray-600 truncate">
                   {selectedMember.name} -{" "}
-                  {DEPARTMENT_DISPLAY_NAMES[selectedMember.department]}
+                  {getDepartmentName(selectedMember.department)}
                 </p>
                 {viewMode && selectedMember.check_in_time && (
                   <p className="text-xs md:text-sm text-gray-500 mt-1">
-                    Attended:{" "}
+                    {selectedMember.status === "late" ? "Late" : "Attended"}:{" "}
                     {new Date(selectedMember.check_in_time).toLocaleString(
                       "en-MY",
                       { timeZone: "Asia/Kuala_Lumpur" }
                     )}
                   </p>
                 )}
+                {viewMode && selectedMember.check_out_time && (
+                  <p className="text-xs md:text-sm text-gray-500">
+                    Checked out:{" "}
+                    {new Date(selectedMember.check_out_time).toLocaleString(
+                      "en-MY",
+                      { timeZone: "Asia/Kuala_Lumpur" }
+                    )}
+                    {selectedOnDutyMinutes !== null &&
+                      ` · On duty ${formatDuration(selectedOnDutyMinutes)}`}
+                  </p>
+                )}
                 {/* Show current location when marking attendance */}
                 {!viewMode && currentLocation && (
                   <div className="mt-2 flex items-center gap-2 text-xs text-green-600">
@@ -931,6 +1358,18 @@ export default function AttendancePage() {
                       <span>Lng: {selectedMember.longitude?.toFixed(6)}</span>
                       <span>Accuracy: ± {selectedMember.accuracy}m</span>
                     </div>
+                    {selectedMember.geofence_status && (
+                      <span
+                        className={`inline-block mt-2 px-2 py-0.5 rounded border text-xs font-medium ${
+                          GEOFENCE_BADGE_CLASSES[selectedMember.geofence_status]
+                        }`}
+                      >
+                        {describeGeofence(
+                          selectedMember.geofence_status,
+                          selectedMember.geofence_venue
+                        )}
+                      </span>
+                    )}
                   </div>
                   <a
                     href={`https://www.google.com/maps?q=${selectedMember.latitude},${selectedMember.longitude}`}
@@ -944,6 +1383,71 @@ export default function AttendancePage() {
               </div>
             )}
 
+            {/* Check-out Details for View Mode */}
+            {viewMode && selectedMember.check_out_time && (
+              <div className="mx-4 md:mx-6 lg:mx-8 mb-4 md:mb-6 bg-gradient-to-r from-amber-50 to-orange-50 rounded-xl p-4 border border-amber-200">
+                <div className="flex items-start gap-3">
+                  {selectedMember.check_out_photo_url ? (
+                    <img
+                      src={selectedMember.check_out_photo_url}
+                      alt={`${selectedMember.name} check-out`}
+                      className="w-16 h-16 rounded-lg object-cover border-2 border-amber-200 flex-shrink-0"
+                    />
+                  ) : (
+                    <div className="w-10 h-10 bg-amber-100 rounded-full flex items-center justify-center flex-shrink-0">
+                      <svg
+                        className="w-5 h-5 text-amber-600"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1"
+                        />
+                      </svg>
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <h4 className="text-sm font-semibold text-amber-800 mb-1">
+                      Check-out Location
+                    </h4>
+                    <p className="text-sm text-amber-700 truncate">
+                      {selectedMember.check_out_address ||
+                        (selectedMember.check_out_latitude
+                          ? "Location recorded"
+                          : "No location recorded")}
+                    </p>
+                    {selectedMember.check_out_latitude && (
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-amber-600">
+                        <span>
+                          Lat: {selectedMember.check_out_latitude.toFixed(6)}
+                        </span>
+                        <span>
+                          Lng: {selectedMember.check_out_longitude?.toFixed(6)}
+                        </span>
+                        <span>
+                          Accuracy: ± {selectedMember.check_out_accuracy}m
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                  {selectedMember.check_out_latitude && (
+                    <a
+                      href={`https://www.google.com/maps?q=${selectedMember.check_out_latitude},${selectedMember.check_out_longitude}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="px-3 py-1.5 bg-amber-600 text-white text-xs font-medium rounded-lg hover:bg-amber-700 transition-colors flex-shrink-0"
+                    >
+                      View Map
+                    </a>
+                  )}
+                </div>
+              </div>
+            )}
+
             <div className="flex gap-4 p-4 md:p-6 lg:p-8 pt-4 mt-auto flex-shrink-0 bg-white">
               {viewMode ? (
                 <button
@@ -1005,7 +1509,7 @@ export default function AttendancePage() {
                         d="M5 13l4 4L19 7"
                       />
                     </svg>
-                    Confirm Attendance
+                    {checkOutMode ? "Confirm Check-out" : "Confirm Attendance"}
                   </button>
                 </>
               )}
@@ -1,9 +1,13 @@
 "use client";
 
 import SideNav from "@/components/SideNav";
+import TwoFactorSetup from "@/components/TwoFactorSetup";
+import ChangePasswordForm from "@/components/ChangePasswordForm";
 import { useAuth } from "@/context/AuthContext";
 import { AttendanceProvider } from "@/context/AttendanceContext";
-import { useRouter } from "next/navigation";
+import { DepartmentsProvider } from "@/context/DepartmentsContext";
+import { PAGES } from "@/lib/permissions";
+import { usePathname, useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
 
 export default function DashboardLayout({
@@ -11,9 +15,24 @@ export default function DashboardLayout({
 }: {
   children: React.ReactNode;
 }) {
-  const { user, isLoading, sessionInvalidated, logout } = useAuth();
+  const {
+    user,
+    isLoading,
+    sessionInvalidated,
+    sessionExpired,
+    logout,
+    canView,
+    twoFactorSetupRequired,
+    passwordChangeRequired,
+    refreshSession,
+    roleName,
+    viewAs,
+    stopViewAs,
+  } = useAuth();
   const router = useRouter();
+  const pathname = usePathname();
   const [showSessionModal, setShowSessionModal] = useState(false);
+  const [isExitingViewAs, setIsExitingViewAs] = useState(false);
 
   // Handle session invalidation
   useEffect(() => {
@@ -23,16 +42,27 @@ export default function DashboardLayout({
   }, [sessionInvalidated]);
 
   useEffect(() => {
-    if (!isLoading && !user && !sessionInvalidated) {
+    if (!isLoading && !user && !sessionInvalidated && !sessionExpired) {
       router.push("/login");
     }
-  }, [user, isLoading, router, sessionInvalidated]);
+  }, [user, isLoading, router, sessionInvalidated, sessionExpired]);
 
   const handleSessionModalClose = () => {
     setShowSessionModal(false);
     router.push("/login");
   };
 
+  // Return to the admin's own view, back where the preview was started
+  const handleExitViewAs = async () => {
+    setIsExitingViewAs(true);
+    const returnTo = viewAs?.isUserPreview
+      ? "/dashboard/admin/users"
+      : "/dashboard/admin/roles";
+    await stopViewAs();
+    setIsExitingViewAs(false);
+    router.push(returnTo);
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
@@ -41,7 +71,53 @@ export default function DashboardLayout({
     );
   }
 
-  // Show session expired modal
+  // Show session timed out screen
+  if (sessionExpired && !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+        <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 md:p-8 text-center">
+          {/* Clock Icon */}
+          <div className="w-16 h-16 bg-indigo-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <svg
+              className="w-8 h-8 text-indigo-600"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+              />
+            </svg>
+          </div>
+
+          {/* Title */}
+          <h2 className="text-xl md:text-2xl font-bold text-gray-900 mb-2">
+            Session Expired
+          </h2>
+
+          {/* Message */}
+          <p className="text-gray-600 mb-6">
+            For your security, you have been signed out because your session was
+            inactive for too long or reached its maximum duration. Please log in
+            again to continue.
+          </p>
+
+          {/* Button */}
+          <button
+            onClick={() => router.push("/login")}
+            className="w-full px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-semibold"
+          >
+            Log In Again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Show session ended modal
   if (showSessionModal) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
@@ -70,8 +146,9 @@ export default function DashboardLayout({
 
           {/* Message */}
           <p className="text-gray-600 mb-6">
-            Your session has been ended because your account was logged in from
-            another device or browser.
+            Your session has been ended because it was signed out from another
+            device, revoked by an administrator, or your account was
+            deactivated.
           </p>
 
           {/* Info Box */}
@@ -93,8 +170,9 @@ export default function DashboardLayout({
               <div className="text-sm text-orange-800">
                 <p className="font-semibold mb-1">Security Notice</p>
                 <p>
-                  Only one active session is allowed per account. If this
-                  wasn&apos;t you, please change your password immediately.
+                  You can review the devices signed in to your account on your
+                  profile page. If this wasn&apos;t you, please change your
+                  password immediately.
                 </p>
               </div>
             </div>
@@ -116,14 +194,103 @@ export default function DashboardLayout({
     return null;
   }
 
-  return (
-    <AttendanceProvider>
-      <div className="flex min-h-screen bg-gray-50">
-        <SideNav userRole={user.role} />
-        <main className="flex-1 ml-0 md:ml-64 transition-all duration-300 overflow-x-hidden">
-          <div className="pt-14 md:pt-0 p-2 sm:p-4 md:p-6 lg:p-8 max-w-full">{children}</div>
-        </main>
+  // The user's role requires 2FA; nothing else is available until it's set up
+  if (twoFactorSetupRequired) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+        <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 md:p-8">
+          <h2 className="text-xl md:text-2xl font-bold text-gray-900 mb-2 text-center">
+            Set Up Two-Factor Authentication
+          </h2>
+          <p className="text-gray-600 mb-6 text-center">
+            Your role requires two-factor authentication. Set it up to continue.
+          </p>
+          <TwoFactorSetup onEnabled={refreshSession} />
+          <button
+            onClick={logout}
+            className="w-full mt-4 text-sm text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            Log Out
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // An admin asked for a new password, or the current one has expired
+  if (passwordChangeRequired) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+        <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 md:p-8">
+          <h2 className="text-xl md:text-2xl font-bold text-gray-900 mb-2 text-center">
+            Choose a New Password
+          </h2>
+          <p className="text-gray-600 mb-6 text-center">
+            Your password needs to be changed before you can continue.
+          </p>
+          <ChangePasswordForm onChanged={refreshSession} />
+          <button
+            onClick={logout}
+            className="w-full mt-4 text-sm text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            Log Out
+          </button>
+        </div>
       </div>
-    </AttendanceProvider>
+    );
+  }
+
+  // Pages the user's role has no permission for
+  const currentPage = PAGES.find((page) => page.href === pathname);
+  const isRestricted = currentPage ? !canView(currentPage.key) : false;
+
+  return (
+    <DepartmentsProvider>
+      <AttendanceProvider>
+        <div className="flex min-h-screen bg-gray-50">
+          <SideNav userRole={user.role} />
+          <main className="flex-1 ml-0 md:ml-64 transition-all duration-300 overflow-x-hidden">
+            <div className="pt-14 md:pt-0 p-2 sm:p-4 md:p-6 lg:p-8 max-w-full">
+              {/* Shown on every page until the admin exits the preview */}
+              {viewAs && (
+                <div className="mb-4 md:mb-6 bg-purple-600 text-white rounded-xl shadow-sm px-4 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <div className="text-sm">
+                    <p className="font-semibold">
+                      Viewing as{" "}
+                      {viewAs.isUserPreview
+                        ? `${user.name} (${roleName})`
+                        : roleName}
+                    </p>
+                    <p className="text-purple-100">
+                      Read-only preview. Changes are disabled and this preview
+                      is recorded in the security log.
+                    </p>
+                  </div>
+                  <button
+                    onClick={handleExitViewAs}
+                    disabled={isExitingViewAs}
+                    className="px-4 py-2 bg-white text-purple-700 rounded-lg hover:bg-purple-50 transition-colors text-sm font-semibold whitespace-nowrap disabled:opacity-50"
+                  >
+                    {isExitingViewAs ? "Exiting..." : "Exit Preview"}
+                  </button>
+                </div>
+              )}
+              {isRestricted ? (
+                <div className="flex flex-col items-center justify-center min-h-[400px] text-center gap-2">
+                  <h2 className="text-xl md:text-2xl font-bold text-gray-900">
+                    Access Restricted
+                  </h2>
+                  <p className="text-gray-600">
+                    Your role does not have access to this page.
+                  </p>
+                </div>
+              ) : (
+                children
+              )}
+            </div>
+          </main>
+        </div>
+      </AttendanceProvider>
+    </DepartmentsProvider>
   );
 }
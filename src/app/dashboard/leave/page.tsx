@@ -0,0 +1,510 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useAuth } from "@/context/AuthContext";
+import DepartmentBadge from "@/components/DepartmentBadge";
+import { uploadLeaveAttachment } from "@/lib/storage";
+import {
+  LEAVE_ATTACHMENT_TYPES,
+  MAX_LEAVE_ATTACHMENT_SIZE,
+  MAX_LEAVE_NOTE_LENGTH,
+  MAX_LEAVE_REASON_LENGTH,
+  type LeaveRequestView,
+} from "@/lib/leave";
+import type { LeaveRequestStatus } from "@/types/database.types";
+
+const STATUS_BADGE_CLASSES: Record<LeaveRequestStatus, string> = {
+  pending: "bg-amber-100 text-amber-700",
+  approved: "bg-green-100 text-green-700",
+  rejected: "bg-red-100 text-red-700",
+};
+
+// Helper function to get current date in Malaysia timezone (UTC+8)
+function getMalaysiaDateString(): string {
+  return new Date().toLocaleDateString("en-CA", {
+    timeZone: "Asia/Kuala_Lumpur",
+  });
+}
+
+// Format a leave date for display
+function formatDate(dateString: string) {
+  return new Date(`${dateString}T00:00:00`).toLocaleDateString("en-MY", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+// Format date and time for display
+function formatDateTime(dateString: string) {
+  return new Date(dateString).toLocaleString("en-MY", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function LeavePage() {
+  const { canEdit } = useAuth();
+  const [linked, setLinked] = useState(false);
+  const [canReview, setCanReview] = useState(false);
+  const [mine, setMine] = useState<LeaveRequestView[]>([]);
+  const [pending, setPending] = useState<LeaveRequestView[]>([]);
+  const [reviewed, setReviewed] = useState<LeaveRequestView[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [leaveDate, setLeaveDate] = useState(getMalaysiaDateString());
+  const [reason, setReason] = useState("");
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Resets the file input after a request is submitted
+  const [attachmentInputKey, setAttachmentInputKey] = useState(0);
+
+  // Review notes typed in the queue, by request ID
+  const [reviewNotes, setReviewNotes] = useState<Record<number, string>>({});
+  // Request being approved, rejected or withdrawn
+  const [actingOn, setActingOn] = useState<number | null>(null);
+
+  const fetchLeave = async () => {
+    try {
+      const response = await fetch("/api/leave", { cache: "no-store" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setLinked(data.linked);
+      setCanReview(data.canReview);
+      setMine(data.mine);
+      setPending(data.pending);
+      setReviewed(data.reviewed);
+      setError(null);
+    } catch (err) {
+      console.error("Error fetching leave requests:", err);
+      setError("Failed to load leave requests. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchLeave();
+  }, []);
+
+  const handleAttachmentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    setFormError(null);
+    if (file && !LEAVE_ATTACHMENT_TYPES[file.type]) {
+      setFormError("Attachments must be a JPEG, PNG, WebP or PDF file");
+      setAttachment(null);
+      return;
+    }
+    if (file && file.size > MAX_LEAVE_ATTACHMENT_SIZE) {
+      setFormError("Attachments must be 5MB or smaller");
+      setAttachment(null);
+      return;
+    }
+    setAttachment(file);
+  };
+
+  const submitRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    if (!reason.trim()) {
+      setFormError("Please give a reason for the leave");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      let attachmentPath: string | null = null;
+      if (attachment) {
+        attachmentPath = await uploadLeaveAttachment(attachment);
+        if (!attachmentPath) {
+          throw new Error("Failed to upload the attachment. Please try again.");
+        }
+      }
+
+      const response = await fetch("/api/leave", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date: leaveDate, reason, attachmentPath }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setReason("");
+      setAttachment(null);
+      setAttachmentInputKey((key) => key + 1);
+      await fetchLeave();
+    } catch (err) {
+      console.error("Error submitting leave request:", err);
+      setFormError(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to submit leave request. Please try again."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const reviewRequest = async (
+    request: LeaveRequestView,
+    action: "approve" | "reject"
+  ) => {
+    setActingOn(request.id);
+    try {
+      const response = await fetch(`/api/leave/${request.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          note: reviewNotes[request.id] || null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      await fetchLeave();
+    } catch (err) {
+      console.error("Error reviewing leave request:", err);
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to review leave request. Please try again."
+      );
+    } finally {
+      setActingOn(null);
+    }
+  };
+
+  const withdrawRequest = async (request: LeaveRequestView) => {
+    if (
+      !confirm(
+        `Withdraw your leave request for ${formatDate(request.leaveDate)}?`
+      )
+    ) {
+      return;
+    }
+
+    setActingOn(request.id);
+    try {
+      const response = await fetch(`/api/leave/${request.id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      await fetchLeave();
+    } catch (err) {
+      console.error("Error withdrawing leave request:", err);
+      alert(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to withdraw leave request. Please try again."
+      );
+    } finally {
+      setActingOn(null);
+    }
+  };
+
+  const renderStatusBadge = (status: LeaveRequestStatus) => (
+    <span
+      className={`px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap ${STATUS_BADGE_CLASSES[status]}`}
+    >
+      {status.charAt(0).toUpperCase() + status.slice(1)}
+    </span>
+  );
+
+  const renderAttachmentLink = (request: LeaveRequestView) =>
+    request.attachmentUrl && (
+      <a
+        href={request.attachmentUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+      >
+        View attachment
+      </a>
+    );
+
+  const renderReviewInfo = (request: LeaveRequestView) =>
+    request.reviewedAt && (
+      <p className="text-xs text-gray-500 mt-1">
+        {request.status === "approved" ? "Approved" : "Rejected"}{" "}
+        {formatDateTime(request.reviewedAt)}
+        {request.reviewedByName && ` by ${request.reviewedByName}`}
+        {request.reviewNote && ` · "${request.reviewNote}"`}
+      </p>
+    );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[400px] gap-4">
+        <p className="text-red-600">{error}</p>
+        <button
+          onClick={fetchLeave}
+          className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      {/* Header */}
+      <div className="mb-4 md:mb-6">
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">
+          Leave Requests
+        </h1>
+        <p className="text-sm md:text-base text-gray-600">
+          Ask for leave on a date you cannot attend. Approved leave shows as
+          excused in attendance instead of absent.
+        </p>
+      </div>
+
+      {/* Request Leave */}
+      {linked ? (
+        <form
+          onSubmit={submitRequest}
+          className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 lg:p-6 space-y-4"
+        >
+          <h2 className="text-lg font-semibold text-gray-900">Request Leave</h2>
+          <div>
+            <label
+              htmlFor="leaveDate"
+              className="block text-sm font-semibold text-gray-700 mb-1"
+            >
+              Date
+            </label>
+            <input
+              type="date"
+              id="leaveDate"
+              required
+              value={leaveDate}
+              onChange={(e) => setLeaveDate(e.target.value)}
+              className="w-full sm:w-auto px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none text-gray-900"
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="reason"
+              className="block text-sm font-semibold text-gray-700 mb-1"
+            >
+              Reason
+            </label>
+            <textarea
+              id="reason"
+              required
+              rows={3}
+              maxLength={MAX_LEAVE_REASON_LENGTH}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Medical appointment, class clash"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none text-gray-900"
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="attachment"
+              className="block text-sm font-semibold text-gray-700 mb-1"
+            >
+              Attachment (optional)
+            </label>
+            <input
+              key={attachmentInputKey}
+              type="file"
+              id="attachment"
+              accept={Object.keys(LEAVE_ATTACHMENT_TYPES).join(",")}
+              onChange={handleAttachmentChange}
+              className="block w-full text-sm text-gray-700 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-indigo-50 file:text-indigo-600 file:font-medium hover:file:bg-indigo-100"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              A medical certificate or timetable. JPEG, PNG, WebP or PDF up to
+              5MB.
+            </p>
+          </div>
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? "Submitting..." : "Submit Request"}
+          </button>
+        </form>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 lg:p-6">
+          <p className="text-sm text-gray-600">
+            Your account is not linked to a committee member, so you cannot
+            request leave. Ask an admin to link it on the User Management page.
+          </p>
+        </div>
+      )}
+
+      {/* My Requests */}
+      {linked && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <h2 className="px-4 lg:px-6 py-3 bg-gray-50 border-b border-gray-100 font-semibold text-gray-900">
+            My Requests ({mine.length})
+          </h2>
+          {mine.length === 0 ? (
+            <p className="p-6 text-center text-gray-500">
+              You have not requested any leave.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {mine.map((request) => (
+                <li
+                  key={request.id}
+                  className="px-4 lg:px-6 py-3 flex items-start justify-between gap-4"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className="font-semibold text-gray-900">
+                        {formatDate(request.leaveDate)}
+                      </p>
+                      {renderStatusBadge(request.status)}
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1 break-words">
+                      {request.reason}
+                    </p>
+                    {renderAttachmentLink(request)}
+                    {renderReviewInfo(request)}
+                  </div>
+                  {request.status === "pending" && (
+                    <button
+                      onClick={() => withdrawRequest(request)}
+                      disabled={actingOn !== null}
+                      className="px-3 py-1.5 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                    >
+                      {actingOn === request.id ? "Withdrawing..." : "Withdraw"}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Approval Queue */}
+      {canReview && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <h2 className="px-4 lg:px-6 py-3 bg-gray-50 border-b border-gray-100 font-semibold text-gray-900">
+            Approval Queue ({pending.length})
+          </h2>
+          {pending.length === 0 ? (
+            <p className="p-6 text-center text-gray-500">
+              No leave requests waiting for review.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {pending.map((request) => (
+                <li key={request.id} className="px-4 lg:px-6 py-4 space-y-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className="font-semibold text-gray-900">
+                        {request.memberName}
+                      </p>
+                      <DepartmentBadge
+                        department={request.department}
+                        className="px-2 py-0.5 rounded text-xs"
+                      />
+                    </div>
+                    <p className="text-sm font-medium text-gray-700 mt-1">
+                      {formatDate(request.leaveDate)}
+                    </p>
+                    <p className="text-sm text-gray-600 mt-1 break-words">
+                      {request.reason}
+                    </p>
+                    {renderAttachmentLink(request)}
+                    <p className="text-xs text-gray-500 mt-1">
+                      Requested {formatDateTime(request.createdAt)}
+                    </p>
+                  </div>
+                  {canEdit("leave", request.department) && (
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <input
+                        type="text"
+                        maxLength={MAX_LEAVE_NOTE_LENGTH}
+                        value={reviewNotes[request.id] || ""}
+                        onChange={(e) =>
+                          setReviewNotes((notes) => ({
+                            ...notes,
+                            [request.id]: e.target.value,
+                          }))
+                        }
+                        placeholder="Note to the member (optional)"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none text-sm text-gray-900"
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => reviewRequest(request, "approve")}
+                          disabled={actingOn !== null}
+                          className="flex-1 sm:flex-initial px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => reviewRequest(request, "reject")}
+                          disabled={actingOn !== null}
+                          className="flex-1 sm:flex-initial px-4 py-2 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Reject
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Recently Reviewed */}
+      {canReview && reviewed.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <h2 className="px-4 lg:px-6 py-3 bg-gray-50 border-b border-gray-100 font-semibold text-gray-900">
+            Recently Reviewed
+          </h2>
+          <ul className="divide-y divide-gray-100">
+            {reviewed.map((request) => (
+              <li key={request.id} className="px-4 lg:px-6 py-3">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <p className="font-semibold text-gray-900">
+                    {request.memberName}
+                  </p>
+                  <span className="text-sm text-gray-600">
+                    {formatDate(request.leaveDate)}
+                  </span>
+                  {renderStatusBadge(request.status)}
+                </div>
+                <p className="text-sm text-gray-600 mt-1 break-words">
+                  {request.reason}
+                </p>
+                {renderReviewInfo(request)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -17,7 +17,9 @@ interface Activity {
 interface Stats {
   totalParticipants: number;
   totalTeams: number;
+  // Includes committeeLate, who checked in after the reporting time
   committeePresent: number;
+  committeeLate: number;
   committeeTotal: number;
   attendanceRate: number;
 }
@@ -37,11 +39,12 @@ function getRelativeTime(date: Date): string {
 }
 
 export default function DashboardPage() {
-  const { user, canEdit } = useAuth();
+  const { user, isAdmin } = useAuth();
   const [stats, setStats] = useState<Stats>({
     totalParticipants: 0,
     totalTeams: 0,
     committeePresent: 0,
+    committeeLate: 0,
     committeeTotal: 0,
     attendanceRate: 0,
   });
@@ -55,17 +58,20 @@ export default function DashboardPage() {
       // Fetch participants count
       const { count: participantsCount } = await supabase
         .from("participants")
-        .select("*", { count: "exact", head: true });
+        .select("*", { count: "exact", head: true })
+        .is("deleted_at", null);
 
       // Fetch teams count
       const { count: teamsCount } = await supabase
         .from("groups")
-        .select("*", { count: "exact", head: true });
+        .select("*", { count: "exact", head: true })
+        .is("deleted_at", null);
 
-      // Fetch committee members count
+      // Fetch active committee members count
       const { count: committeeTotal } = await supabase
         .from("committee_members")
-        .select("*", { count: "exact", head: true });
+        .select("*", { count: "exact", head: true })
+        .eq("status", "active");
 
       // Fetch today's attendance
       const today = new Date().toISOString().split("T")[0];
@@ -73,9 +79,11 @@ export default function DashboardPage() {
         .from("attendance")
         .select("*")
         .eq("attendance_date", today)
-        .eq("status", "attend");
+        .in("status", ["attend", "late"]);
 
       const committeePresent = todayAttendance?.length || 0;
+      const committeeLate =
+        todayAttendance?.filter((a) => a.status === "late").length || 0;
       const attendanceRate = committeeTotal
         ? Math.round((committeePresent / committeeTotal) * 100)
         : 0;
@@ -84,6 +92,7 @@ export default function DashboardPage() {
         totalParticipants: participantsCount || 0,
         totalTeams: teamsCount || 0,
         committeePresent,
+        committeeLate,
         committeeTotal: committeeTotal || 0,
         attendanceRate,
       });
@@ -103,6 +112,7 @@ export default function DashboardPage() {
           groups (name)
         `
         )
+        .is("deleted_at", null)
         .order("created_at", { ascending: false })
         .limit(5)) as {
         data:
@@ -158,7 +168,7 @@ export default function DashboardPage() {
             committee_members (name)
           `
         )
-        .eq("status", "attend")
+        .in("status", ["attend", "late"])
         .order("created_at", { ascending: false })
         .limit(5)) as {
         data:
@@ -192,7 +202,9 @@ export default function DashboardPage() {
           activities.push({
             id: `att-${a.id}`,
             type: "attendance",
-            message: `${memberName} marked as present`,
+            message: `${memberName} marked as ${
+              a.status === "late" ? "late" : "present"
+            }`,
             time: getRelativeTime(timestamp),
             timestamp,
             markedBy: markedByName,
@@ -303,7 +315,10 @@ export default function DashboardPage() {
             created_at: string;
             marked_by: number | null;
           };
-          if (newAttendance.status === "attend") {
+          if (
+            newAttendance.status === "attend" ||
+            newAttendance.status === "late"
+          ) {
             // Fetch the committee member name
             const { data: member } = await supabase
               .from("committee_members")
@@ -327,7 +342,9 @@ export default function DashboardPage() {
               {
                 id: `att-${newAttendance.id}-${Date.now()}`,
                 type: "attendance",
-                message: `${member?.name || "Someone"} marked as present`,
+                message: `${member?.name || "Someone"} marked as ${
+                  newAttendance.status === "late" ? "late" : "present"
+                }`,
                 time: getRelativeTime(timestamp),
                 timestamp,
                 markedBy: markedByName,
@@ -337,6 +354,8 @@ export default function DashboardPage() {
             setStats((prev) => ({
               ...prev,
               committeePresent: prev.committeePresent + 1,
+              committeeLate:
+                prev.committeeLate + (newAttendance.status === "late" ? 1 : 0),
               attendanceRate: prev.committeeTotal
                 ? Math.round(
                     ((prev.committeePresent + 1) / prev.committeeTotal) * 100
@@ -472,7 +491,12 @@ export default function DashboardPage() {
               ? "..."
               : `${stats.committeePresent}/${stats.committeeTotal}`}
           </p>
-          <p className="text-sm md:text-base text-pink-100">Committee Attend</p>
+          <p className="text-sm md:text-base text-pink-100">
+            Committee Attend
+            {!loading &&
+              stats.committeeLate > 0 &&
+              ` (${stats.committeeLate} late)`}
+          </p>
         </div>
 
         <div className="bg-gradient-to-br from-green-500 to-green-600 rounded-xl p-4 md:p-6 text-white shadow-lg">
@@ -751,7 +775,7 @@ export default function DashboardPage() {
             </div>
 
             {/* Admin Quick Actions */}
-            {canEdit("userManagement") && (
+            {isAdmin && (
               <div className="mt-6 pt-6 border-t border-gray-100">
                 <h3 className="text-sm font-semibold text-gray-700 mb-4 flex items-center gap-2">
                   <svg
@@ -1,164 +1,15 @@
 "use client";
 
-import { useState } from "react";
-import { useAuth, getRoleDisplayName } from "@/context/AuthContext";
-import { supabase } from "@/lib/supabase";
-import bcrypt from "bcryptjs";
-import type { Department } from "@/types/database.types";
-
-// Helper function to format department name for display
-function getDepartmentDisplayName(department: Department): string {
-  const displayNames: Record<Department, string> = {
-    administrator: "Administrator",
-    pr_communication: "PR & Communication",
-    protocol_ceremonial: "Protocol & Ceremonial",
-    fnb: "Food & Beverage",
-    sponsorship_finance: "Sponsorship & Finance",
-    logistics_operations: "Logistics & Operations",
-    technical_it_support: "Technical & IT Support",
-    evaluation_research_documentation: "Evaluation, Research & Documentation",
-    health_safety_welfare: "Health, Safety & Welfare",
-    executive: "Executive",
-    program_activities: "Program & Activities",
-  };
-  return displayNames[department] || department;
-}
+import { useAuth } from "@/context/AuthContext";
+import { useDepartments } from "@/context/DepartmentsContext";
+import ChangePasswordForm from "@/components/ChangePasswordForm";
+import MyAttendance from "@/components/MyAttendance";
+import SessionList from "@/components/SessionList";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
 
 export default function ProfilePage() {
-  const { user } = useAuth();
-
-  const [passwordForm, setPasswordForm] = useState({
-    currentPassword: "",
-    newPassword: "",
-    confirmPassword: "",
-  });
-
-  const [isChangingPassword, setIsChangingPassword] = useState(false);
-  const [message, setMessage] = useState<{
-    type: "success" | "error";
-    text: string;
-  } | null>(null);
-
-  const handlePasswordChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setPasswordForm((prev) => ({
-      ...prev,
-      [name]: value,
-    }));
-  };
-
-  const handlePasswordSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setMessage(null);
-
-    if (
-      !passwordForm.currentPassword ||
-      !passwordForm.newPassword ||
-      !passwordForm.confirmPassword
-    ) {
-      setMessage({
-        type: "error",
-        text: "All fields are required",
-      });
-      return;
-    }
-
-    if (passwordForm.newPassword !== passwordForm.confirmPassword) {
-      setMessage({
-        type: "error",
-        text: "New passwords do not match",
-      });
-      return;
-    }
-
-    if (passwordForm.newPassword.length < 6) {
-      setMessage({
-        type: "error",
-        text: "New password must be at least 6 characters",
-      });
-      return;
-    }
-
-    if (!user) {
-      setMessage({
-        type: "error",
-        text: "User not authenticated",
-      });
-      return;
-    }
-
-    setIsChangingPassword(true);
-
-    try {
-      // First, verify the current password
-      const { data: userData, error: fetchError } = await supabase
-        .from("users")
-        .select("password")
-        .eq("id", user.id)
-        .single();
-
-      if (fetchError || !userData) {
-        setMessage({
-          type: "error",
-          text: "Failed to verify current password",
-        });
-        return;
-      }
-
-      const isValidPassword = await bcrypt.compare(
-        passwordForm.currentPassword,
-        userData.password
-      );
-
-      if (!isValidPassword) {
-        setMessage({
-          type: "error",
-          text: "Current password is incorrect",
-        });
-        return;
-      }
-
-      // Hash the new password
-      const hashedPassword = await bcrypt.hash(passwordForm.newPassword, 10);
-
-      // Update password in database
-      const { error: updateError } = await supabase
-        .from("users")
-        .update({ password: hashedPassword })
-        .eq("id", user.id);
-
-      if (updateError) {
-        setMessage({
-          type: "error",
-          text: "Failed to update password",
-        });
-        return;
-      }
-
-      setMessage({
-        type: "success",
-        text: "Password changed successfully!",
-      });
-
-      setPasswordForm({
-        currentPassword: "",
-        newPassword: "",
-        confirmPassword: "",
-      });
-
-      setTimeout(() => {
-        setMessage(null);
-      }, 3000);
-    } catch (err) {
-      console.error("Password change error:", err);
-      setMessage({
-        type: "error",
-        text: "An error occurred while changing password",
-      });
-    } finally {
-      setIsChangingPassword(false);
-    }
-  };
+  const { user, roleName, logout, refreshSession, viewAs } = useAuth();
+  const { getDepartmentName } = useDepartments();
 
   if (!user) {
     return (
@@ -217,13 +68,13 @@ export default function ProfilePage() {
               <div>
                 <p className="text-sm text-gray-600 mb-1">Department</p>
                 <p className="text-gray-900 font-medium">
-                  {getDepartmentDisplayName(user.department)}
+                  {getDepartmentName(user.department)}
                 </p>
               </div>
               <div>
                 <p className="text-sm text-gray-600 mb-1">Role</p>
                 <span className="inline-block bg-indigo-100 text-indigo-700 px-3 py-1 rounded-lg text-sm font-medium">
-                  {getRoleDisplayName(user.role)}
+                  {roleName || user.role}
                 </span>
               </div>
             </div>
@@ -231,104 +82,68 @@ export default function ProfilePage() {
         </div>
       </div>
 
-      {/* Change Password Card */}
+      {/* My Attendance Card */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-        <h3 className="text-xl font-bold text-gray-900 mb-6">
-          Change Password
-        </h3>
-
-        {message && (
-          <div
-            className={`mb-6 p-4 rounded-lg ${
-              message.type === "success"
-                ? "bg-green-50 border border-green-200 text-green-700"
-                : "bg-red-50 border border-red-200 text-red-700"
-            }`}
-          >
-            {message.text}
-          </div>
+        <h3 className="text-xl font-bold text-gray-900 mb-2">My Attendance</h3>
+        {user.committeeMemberId ? (
+          <>
+            <p className="text-sm text-gray-600 mb-6">
+              Your attendance on every event day recorded so far.
+            </p>
+            <MyAttendance memberId={user.committeeMemberId} />
+          </>
+        ) : (
+          <p className="text-sm text-gray-600">
+            Your account is not linked to the committee roster yet. Ask an admin
+            to link it from User Management.
+          </p>
         )}
+      </div>
 
-        <form onSubmit={handlePasswordSubmit} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Current Password
-            </label>
-            <input
-              type="password"
-              name="currentPassword"
-              value={passwordForm.currentPassword}
-              onChange={handlePasswordChange}
-              disabled={isChangingPassword}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-gray-900 disabled:bg-gray-100 disabled:cursor-not-allowed"
-              placeholder="Enter your current password"
-            />
+      {/* Account security acts on the admin's own account, not the preview */}
+      {viewAs ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <p className="text-sm text-gray-600">
+            Password, two-factor and session settings are hidden during a
+            view-as preview.
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Change Password Card */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <h3 className="text-xl font-bold text-gray-900 mb-6">
+              Change Password
+            </h3>
+
+            <ChangePasswordForm onChanged={refreshSession} />
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              New Password
-            </label>
-            <input
-              type="password"
-              name="newPassword"
-              value={passwordForm.newPassword}
-              onChange={handlePasswordChange}
-              disabled={isChangingPassword}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-gray-900 disabled:bg-gray-100 disabled:cursor-not-allowed"
-              placeholder="Enter your new password"
-            />
+          {/* Two-Factor Authentication Card */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <h3 className="text-xl font-bold text-gray-900 mb-2">
+              Two-Factor Authentication
+            </h3>
+            <p className="text-sm text-gray-600 mb-6">
+              Require a code from your phone in addition to your password when
+              signing in.
+            </p>
+            <TwoFactorSettings onChange={refreshSession} />
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Confirm New Password
-            </label>
-            <input
-              type="password"
-              name="confirmPassword"
-              value={passwordForm.confirmPassword}
-              onChange={handlePasswordChange}
-              disabled={isChangingPassword}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-gray-900 disabled:bg-gray-100 disabled:cursor-not-allowed"
-              placeholder="Confirm your new password"
-            />
+          {/* Active Sessions Card */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <h3 className="text-xl font-bold text-gray-900 mb-2">
+              Active Sessions
+            </h3>
+            <p className="text-sm text-gray-600 mb-6">
+              Devices currently signed in to your account. Revoke any session
+              you don&apos;t recognise.
+            </p>
+            <SessionList onCurrentSessionRevoked={logout} />
           </div>
-
-          <button
-            type="submit"
-            disabled={isChangingPassword}
-            className="w-full bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-colors mt-6 disabled:bg-indigo-400 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-          >
-            {isChangingPassword ? (
-              <>
-                <svg
-                  className="w-5 h-5 animate-spin"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                >
-                  <circle
-                    className="opacity-25"
-                    cx="12"
-                    cy="12"
-                    r="10"
-                    stroke="currentColor"
-                    strokeWidth="4"
-                  />
-                  <path
-                    className="opacity-75"
-                    fill="currentColor"
-                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                  />
-                </svg>
-                Changing Password...
-              </>
-            ) : (
-              "Change Password"
-            )}
-          </button>
-        </form>
-      </div>
+        </>
+      )}
     </div>
   );
 }
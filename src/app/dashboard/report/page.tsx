@@ -4,15 +4,58 @@ import { useState, useRef } from "react";
 import {
   useAttendance,
   type MemberAttendance,
-  DEPARTMENT_DISPLAY_NAMES,
 } from "@/context/AttendanceContext";
-import type { Department } from "@/types/database.types";
+import { useAuth } from "@/context/AuthContext";
+import { useDepartments } from "@/context/DepartmentsContext";
+import {
+  ATTENDANCE_STATUS_LABELS,
+  formatDuration,
+  getOnDutyMinutes,
+  isPresent,
+  type MemberAttendanceStatus,
+} from "@/lib/attendance";
+import { describeGeofence } from "@/lib/geofence";
+import type { GeofenceStatus } from "@/types/database.types";
+
+// Status badge colours on screen
+const STATUS_BADGE_CLASSES: Record<MemberAttendanceStatus, string> = {
+  attend: "bg-green-100 text-green-700",
+  late: "bg-amber-100 text-amber-700",
+  excused: "bg-blue-100 text-blue-700",
+  absent: "bg-red-100 text-red-700",
+  not_marked: "bg-gray-100 text-gray-600",
+};
+
+// Check-in location flag colours on screen
+const GEOFENCE_TEXT_CLASSES: Record<GeofenceStatus, string> = {
+  inside: "text-green-600",
+  outside: "text-red-600",
+  low_accuracy: "text-amber-600",
+};
+
+// Status badge colours on the printed cards, which use inline styles
+const STATUS_PRINT_COLORS: Record<
+  MemberAttendanceStatus,
+  { background: string; text: string; border: string }
+> = {
+  attend: { background: "#dcfce7", text: "#166534", border: "#86efac" },
+  late: { background: "#fef3c7", text: "#92400e", border: "#fcd34d" },
+  excused: { background: "#dbeafe", text: "#1e40af", border: "#93c5fd" },
+  absent: { background: "#fee2e2", text: "#dc2626", border: "#fca5a5" },
+  not_marked: { background: "#f3f4f6", text: "#4b5563", border: "#d1d5db" },
+};
 
 export default function ReportPage() {
   const printRef = useRef<HTMLDivElement>(null);
   const [filterStatus, setFilterStatus] = useState<string>("all");
   const [filterDepartment, setFilterDepartment] = useState<string>("all");
   const [searchTerm, setSearchTerm] = useState("");
+  const { getDepartmentScope } = useAuth();
+  const { departments, getDepartmentName } = useDepartments();
+  // Roles limited to some departments only report on those
+  const departmentOptions =
+    getDepartmentScope("attendance") ??
+    departments.map((department) => department.department_key);
 
   // Use shared attendance context - same data as attendance page
   const {
@@ -33,8 +76,38 @@ export default function ReportPage() {
     return matchesSearch && matchesStatus && matchesDepartment;
   });
 
+  // Late members were present, so they count towards the rate
   const attendanceRate =
-    stats.total > 0 ? Math.round((stats.attend / stats.total) * 100) : 0;
+    stats.total > 0
+      ? Math.round(((stats.attend + stats.late) / stats.total) * 100)
+      : 0;
+
+  const getRecordOnDutyMinutes = (record: MemberAttendance) =>
+    getOnDutyMinutes(record.check_in_time, record.check_out_time);
+
+  // On-duty time per department for the filtered members; members still
+  // checked in are counted separately as they have no duration yet
+  const departmentOnDuty = departmentOptions
+    .map((department) => {
+      const attended = filteredData.filter(
+        (record) => record.department === department && isPresent(record.status)
+      );
+      const durations = attended
+        .map(getRecordOnDutyMinutes)
+        .filter((minutes): minutes is number => minutes !== null);
+      const totalMinutes = durations.reduce((sum, minutes) => sum + minutes, 0);
+      return {
+        department,
+        checkedOut: durations.length,
+        stillOnDuty: attended.filter((record) => !record.check_out_time).length,
+        totalMinutes,
+        averageMinutes:
+          durations.length > 0
+            ? Math.round(totalMinutes / durations.length)
+            : null,
+      };
+    })
+    .filter((row) => row.checkedOut > 0 || row.stillOnDuty > 0);
 
   const handleExportPDF = () => {
     window.print();
@@ -295,13 +368,11 @@ export default function ReportPage() {
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-gray-900"
             >
               <option value="all">All Departments</option>
-              {(Object.keys(DEPARTMENT_DISPLAY_NAMES) as Department[]).map(
-                (dept) => (
-                  <option key={dept} value={dept}>
-                    {DEPARTMENT_DISPLAY_NAMES[dept]}
-                  </option>
-                )
-              )}
+              {departmentOptions.map((dept) => (
+                <option key={dept} value={dept}>
+                  {getDepartmentName(dept)}
+                </option>
+              ))}
             </select>
           </div>
           <div>
@@ -315,7 +386,10 @@ export default function ReportPage() {
             >
               <option value="all">All Status</option>
               <option value="attend">Attend</option>
+              <option value="late">Late</option>
+              <option value="excused">Excused</option>
               <option value="absent">Absent</option>
+              <option value="not_marked">Not Marked</option>
             </select>
           </div>
         </div>
@@ -407,21 +481,16 @@ export default function ReportPage() {
                                 fontWeight: "700",
                                 letterSpacing: "0.5px",
                                 backgroundColor:
-                                  record.status === "attend"
-                                    ? "#dcfce7"
-                                    : "#fee2e2",
-                                color:
-                                  record.status === "attend"
-                                    ? "#166534"
-                                    : "#dc2626",
+                                  STATUS_PRINT_COLORS[record.status].background,
+                                color: STATUS_PRINT_COLORS[record.status].text,
                                 border: `1.5px solid ${
-                                  record.status === "attend"
-                                    ? "#86efac"
-                                    : "#fca5a5"
+                                  STATUS_PRINT_COLORS[record.status].border
                                 }`,
                               }}
                             >
-                              {record.status.toUpperCase()}
+                              {ATTENDANCE_STATUS_LABELS[
+                                record.status
+                              ].toUpperCase()}
                             </span>
                           </div>
 
@@ -533,8 +602,39 @@ export default function ReportPage() {
                                 fontWeight: "500",
                               }}
                             >
-                              {DEPARTMENT_DISPLAY_NAMES[record.department]}
+                              {getDepartmentName(record.department)}
                             </p>
+                            {getRecordOnDutyMinutes(record) !== null && (
+                              <p
+                                style={{
+                                  fontSize: "10px",
+                                  color: "#374151",
+                                  marginTop: "2px",
+                                }}
+                              >
+                                On duty{" "}
+                                {formatDuration(
+                                  getRecordOnDutyMinutes(record)!
+                                )}
+                              </p>
+                            )}
+                            {/* Only flagged check-ins are called out in print */}
+                            {record.geofence_status &&
+                              record.geofence_status !== "inside" && (
+                                <p
+                                  style={{
+                                    fontSize: "10px",
+                                    color: "#dc2626",
+                                    fontWeight: "600",
+                                    marginTop: "2px",
+                                  }}
+                                >
+                                  {describeGeofence(
+                                    record.geofence_status,
+                                    record.geofence_venue
+                                  )}
+                                </p>
+                              )}
                           </div>
                         </div>
                       ))}
@@ -544,6 +644,105 @@ export default function ReportPage() {
             )}
           </div>
 
+          {/* Screen-Only Status Summary */}
+          <div className="screen-only grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3 mb-6">
+            <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+              <p className="text-xs text-gray-600 mb-1">Attend</p>
+              <p className="text-2xl font-bold text-green-600">
+                {stats.attend}
+              </p>
+            </div>
+            <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+              <p className="text-xs text-gray-600 mb-1">Late</p>
+              <p className="text-2xl font-bold text-amber-600">{stats.late}</p>
+            </div>
+            <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+              <p className="text-xs text-gray-600 mb-1">Excused</p>
+              <p className="text-2xl font-bold text-blue-600">
+                {stats.excused}
+              </p>
+            </div>
+            <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+              <p className="text-xs text-gray-600 mb-1">Absent</p>
+              <p className="text-2xl font-bold text-red-600">{stats.absent}</p>
+            </div>
+            <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+              <p className="text-xs text-gray-600 mb-1">Not Marked</p>
+              <p className="text-2xl font-bold text-gray-600">
+                {stats.notMarked}
+              </p>
+            </div>
+            <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+              <p className="text-xs text-gray-600 mb-1">Attendance Rate</p>
+              <p className="text-2xl font-bold text-indigo-600">
+                {attendanceRate}%
+              </p>
+            </div>
+          </div>
+
+          {/* Screen-Only On-duty Summary by Department */}
+          <div className="screen-only bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden mb-6">
+            <div className="p-4 border-b border-gray-100">
+              <h2 className="text-lg font-bold text-gray-900">
+                On-duty Hours by Department
+              </h2>
+            </div>
+            {departmentOnDuty.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500">
+                No members have checked in on this date.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b border-gray-100">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600">
+                        Department
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600">
+                        Checked Out
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600">
+                        Still On Duty
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600">
+                        Total On Duty
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600">
+                        Average
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {departmentOnDuty.map((row) => (
+                      <tr key={row.department} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                          {getDepartmentName(row.department)}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {row.checkedOut}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {row.stillOnDuty}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900 font-semibold">
+                          {formatDuration(row.totalMinutes)}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {row.averageMinutes !== null ? (
+                            formatDuration(row.averageMinutes)
+                          ) : (
+                            <span className="text-gray-400">-</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
           {/* Screen-Only Table View */}
           <div className="screen-only bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
             <div className="p-4 border-b border-gray-100">
@@ -575,6 +774,12 @@ export default function ReportPage() {
                     <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600">
                       Check-in Time
                     </th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600">
+                      Check-out Time
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600">
+                      On Duty
+                    </th>
                     <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600">
                       Location
                     </th>
@@ -632,18 +837,15 @@ export default function ReportPage() {
                         </div>
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-600">
-                        {DEPARTMENT_DISPLAY_NAMES[record.department]}
+                        {getDepartmentName(record.department)}
                       </td>
                       <td className="px-4 py-3">
                         <span
                           className={`px-2 py-1 rounded text-xs font-medium ${
-                            record.status === "attend"
-                              ? "bg-green-100 text-green-700"
-                              : "bg-red-100 text-red-700"
+                            STATUS_BADGE_CLASSES[record.status]
                           }`}
                         >
-                          {record.status.charAt(0).toUpperCase() +
-                            record.status.slice(1)}
+                          {ATTENDANCE_STATUS_LABELS[record.status]}
                         </span>
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-600">
@@ -660,6 +862,31 @@ export default function ReportPage() {
                           <span className="text-gray-400">-</span>
                         )}
                       </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {record.check_out_time ? (
+                          <div>
+                            <div>
+                              {formatDateTime(record.check_out_time).date}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {formatDateTime(record.check_out_time).time}
+                            </div>
+                          </div>
+                        ) : isPresent(record.status) ? (
+                          <span className="text-xs text-amber-600">
+                            On duty
+                          </span>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        {getRecordOnDutyMinutes(record) !== null ? (
+                          formatDuration(getRecordOnDutyMinutes(record)!)
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                      </td>
                       <td className="px-4 py-3 text-sm">
                         {record.address ? (
                           <div>
@@ -671,7 +898,30 @@ export default function ReportPage() {
                                 ± {record.accuracy}m accuracy
                               </div>
                             )}
+                            {record.geofence_status && (
+                              <div
+                                className={`text-xs font-medium ${
+                                  GEOFENCE_TEXT_CLASSES[record.geofence_status]
+                                }`}
+                              >
+                                {describeGeofence(
+                                  record.geofence_status,
+                                  record.geofence_venue
+                                )}
+                              </div>
+                            )}
                           </div>
+                        ) : record.geofence_status ? (
+                          <span
+                            className={`text-xs font-medium ${
+                              GEOFENCE_TEXT_CLASSES[record.geofence_status]
+                            }`}
+                          >
+                            {describeGeofence(
+                              record.geofence_status,
+                              record.geofence_venue
+                            )}
+                          </span>
                         ) : (
                           <span className="text-gray-400">-</span>
                         )}
@@ -718,18 +968,15 @@ export default function ReportPage() {
                         </h3>
                       </div>
                       <p className="text-sm text-gray-600">
-                        {DEPARTMENT_DISPLAY_NAMES[record.department]}
+                        {getDepartmentName(record.department)}
                       </p>
                     </div>
                     <span
                       className={`px-2 py-1 rounded text-xs font-medium flex-shrink-0 ${
-                        record.status === "attend"
-                          ? "bg-green-100 text-green-700"
-                          : "bg-red-100 text-red-700"
+                        STATUS_BADGE_CLASSES[record.status]
                       }`}
                     >
-                      {record.status.charAt(0).toUpperCase() +
-                        record.status.slice(1)}
+                      {ATTENDANCE_STATUS_LABELS[record.status]}
                     </span>
                   </div>
 
@@ -752,8 +999,17 @@ export default function ReportPage() {
                         <span>
                           {formatDateTime(record.check_in_time).date}{" "}
                           {formatDateTime(record.check_in_time).time}
+                          {record.check_out_time &&
+                            ` – ${formatDateTime(record.check_out_time).time}`}
                         </span>
                       </div>
+                      {getRecordOnDutyMinutes(record) !== null ? (
+                        <span className="font-medium text-gray-900">
+                          {formatDuration(getRecordOnDutyMinutes(record)!)}
+                        </span>
+                      ) : (
+                        <span className="text-xs text-amber-600">On duty</span>
+                      )}
                     </div>
                   )}
 
@@ -775,6 +1031,18 @@ export default function ReportPage() {
                       <span className="truncate">{record.address}</span>
                     </div>
                   )}
+                  {record.geofence_status && (
+                    <p
+                      className={`text-xs font-medium mt-1 ${
+                        GEOFENCE_TEXT_CLASSES[record.geofence_status]
+                      }`}
+                    >
+                      {describeGeofence(
+                        record.geofence_status,
+                        record.geofence_venue
+                      )}
+                    </p>
+                  )}
                 </div>
               ))}
             </div>
@@ -3,6 +3,10 @@
 import { useState, useEffect, useCallback } from "react";
 import { useAuth } from "@/context/AuthContext";
 import { supabase } from "@/lib/supabase";
+import type {
+  Group,
+  Participant as ParticipantRow,
+} from "@/types/database.types";
 
 /**
  * Team Assignment Rules:
@@ -36,8 +40,20 @@ interface Team {
 const MAX_MEMBERS_PER_TEAM = 5;
 const DEFAULT_TEAMS = 6;
 
+// Create a team through the server, which checks the teams permission
+async function createTeam(name: string): Promise<Group> {
+  const response = await fetch("/api/teams", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name }),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error);
+  return data.team;
+}
+
 export default function TeamsPage() {
-  const { user, canEdit } = useAuth();
+  const { canEdit } = useAuth();
   const canEditTeams = canEdit("teams");
 
   const [teams, setTeams] = useState<Team[]>([]);
@@ -83,6 +99,7 @@ export default function TeamsPage() {
       const { data: groupsData, error: groupsError } = await supabase
         .from("groups")
         .select("*")
+        .is("deleted_at", null)
         .order("id", { ascending: true });
 
       if (groupsError) throw groupsError;
@@ -92,6 +109,7 @@ export default function TeamsPage() {
         await supabase
           .from("participants")
           .select("*")
+          .is("deleted_at", null)
           .order("registered_at", { ascending: true });
 
       if (participantsError) throw participantsError;
@@ -164,22 +182,24 @@ export default function TeamsPage() {
       );
       const willTeamBeEmpty = currentTeam?.members.length === 1;
 
-      const { error } = await supabase
-        .from("participants")
-        .delete()
-        .eq("id", deleteParticipantConfirm.participant.id);
-
-      if (error) throw error;
+      const response = await fetch(
+        `/api/teams/participants/${deleteParticipantConfirm.participant.id}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) throw new Error((await response.json()).error);
 
       // If team will be empty, auto-delete it from database
       if (willTeamBeEmpty) {
-        const { error: deleteGroupError } = await supabase
-          .from("groups")
-          .delete()
-          .eq("id", deleteParticipantConfirm.teamId);
+        const deleteGroupResponse = await fetch(
+          `/api/teams/${deleteParticipantConfirm.teamId}`,
+          { method: "DELETE" }
+        );
 
-        if (deleteGroupError) {
-          console.error("Error auto-deleting empty team:", deleteGroupError);
+        if (!deleteGroupResponse.ok) {
+          console.error(
+            "Error auto-deleting empty team:",
+            (await deleteGroupResponse.json()).error
+          );
         }
       }
 
@@ -222,21 +242,11 @@ export default function TeamsPage() {
     setIsDeletingTeam(true);
 
     try {
-      // First, delete all participants in this team
-      const { error: participantsError } = await supabase
-        .from("participants")
-        .delete()
-        .eq("group_id", deleteTeamConfirm.id);
-
-      if (participantsError) throw participantsError;
-
-      // Then delete the team/group
-      const { error: groupError } = await supabase
-        .from("groups")
-        .delete()
-        .eq("id", deleteTeamConfirm.id);
-
-      if (groupError) throw groupError;
+      // Deletes the team and all participants in it
+      const response = await fetch(`/api/teams/${deleteTeamConfirm.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw new Error((await response.json()).error);
 
       // Update local state
       const deletedMembersCount = deleteTeamConfirm.members.length;
@@ -265,12 +275,15 @@ export default function TeamsPage() {
 
     try {
       // Update participant's group_id in Supabase
-      const { error } = await supabase
-        .from("participants")
-        .update({ group_id: toTeamId })
-        .eq("id", selectedParticipant.participant.id);
-
-      if (error) throw error;
+      const response = await fetch(
+        `/api/teams/participants/${selectedParticipant.participant.id}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ groupId: toTeamId }),
+        }
+      );
+      if (!response.ok) throw new Error((await response.json()).error);
 
       // Check if source team will be empty after move
       const sourceTeamMembersCount = fromTeam?.members.length || 0;
@@ -278,13 +291,16 @@ export default function TeamsPage() {
 
       // If source team will be empty, delete it from database
       if (willSourceTeamBeEmpty && fromTeam) {
-        const { error: deleteGroupError } = await supabase
-          .from("groups")
-          .delete()
-          .eq("id", selectedParticipant.fromTeamId);
+        const deleteGroupResponse = await fetch(
+          `/api/teams/${selectedParticipant.fromTeamId}`,
+          { method: "DELETE" }
+        );
 
-        if (deleteGroupError) {
-          console.error("Error auto-deleting empty team:", deleteGroupError);
+        if (!deleteGroupResponse.ok) {
+          console.error(
+            "Error auto-deleting empty team:",
+            (await deleteGroupResponse.json()).error
+          );
         }
       }
 
@@ -342,13 +358,7 @@ export default function TeamsPage() {
       const newTeamName = `Team ${teams.length + 1}`;
 
       // Insert new group into Supabase
-      const { data, error } = await supabase
-        .from("groups")
-        .insert({ name: newTeamName })
-        .select()
-        .single();
-
-      if (error) throw error;
+      const data = await createTeam(newTeamName);
 
       // Update local state
       setTeams([
@@ -384,13 +394,7 @@ export default function TeamsPage() {
         // Need to create a new team first
         const newTeamName = `Team ${teams.length + 1}`;
 
-        const { data: newGroupData, error: groupError } = await supabase
-          .from("groups")
-          .insert({ name: newTeamName })
-          .select()
-          .single();
-
-        if (groupError) throw groupError;
+        const newGroupData = await createTeam(newTeamName);
 
         assignedTeamId = newGroupData.id;
         assignedTeamName = newGroupData.name;
@@ -410,21 +414,16 @@ export default function TeamsPage() {
         assignedTeamName = randomTeam.name;
       }
 
-      // Insert participant into Supabase
-      console.log("Registering participant with user ID:", user?.id);
-      const { data: participantData, error: participantError } = await supabase
-        .from("participants")
-        .insert({
-          name: name,
-          group_id: assignedTeamId,
-          registered_by: user?.id || null,
-        })
-        .select()
-        .single();
-
-      console.log("Participant registered:", participantData);
+      // Insert participant into Supabase (registered_by is set on the server)
+      const response = await fetch("/api/teams/participants", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, groupId: assignedTeamId }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
 
-      if (participantError) throw participantError;
+      const participantData = result.participant as ParticipantRow;
 
       const newParticipant: Participant = {
         id: participantData.id,
@@ -1327,7 +1326,7 @@ export default function TeamsPage() {
               <span className="font-semibold text-gray-900">
                 {deleteParticipantConfirm.participant.name}
               </span>
-              ? This action cannot be undone.
+              ? An admin can restore them from the Trash.
             </p>
 
             {/* Buttons */}
@@ -1408,7 +1407,7 @@ export default function TeamsPage() {
               <span className="font-semibold text-gray-900">
                 {deleteTeamConfirm.name}
               </span>
-              ?
+              ? An admin can restore it from the Trash.
             </p>
             {deleteTeamConfirm.members.length > 0 && (
               <p className="text-red-600 text-sm mb-6">
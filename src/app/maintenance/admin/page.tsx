@@ -3,7 +3,6 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
-import bcrypt from "bcryptjs";
 import { supabase } from "@/lib/supabase";
 
 export default function MaintenanceAdminPage() {
@@ -18,6 +17,9 @@ export default function MaintenanceAdminPage() {
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
+  // Second step for admins with two-factor authentication
+  const [needsCode, setNeedsCode] = useState(false);
+  const [code, setCode] = useState("");
 
   // Maintenance settings
   const [isMaintenanceMode, setIsMaintenanceMode] = useState(false);
@@ -26,15 +28,19 @@ export default function MaintenanceAdminPage() {
 
   // Check if already logged in as admin
   useEffect(() => {
-    const checkAuth = () => {
+    const checkAuth = async () => {
       try {
-        const storedUser = localStorage.getItem("funlish_user");
-        if (storedUser) {
-          const user = JSON.parse(storedUser);
-          if (user.role === "admin") {
-            setIsAuthenticated(true);
-            fetchMaintenanceSettings();
-          }
+        const response = await fetch("/api/auth/session", {
+          cache: "no-store",
+        });
+        const data = await response.json();
+        if (
+          data.user?.role === "admin" &&
+          !data.twoFactorSetupRequired &&
+          !data.passwordChangeRequired
+        ) {
+          setIsAuthenticated(true);
+          fetchMaintenanceSettings();
         }
       } catch (err) {
         console.error("Error checking auth:", err);
@@ -95,58 +101,24 @@ export default function MaintenanceAdminPage() {
     setIsLoading(true);
 
     try {
-      // Query for admin user
-      const { data, error } = await supabase
-        .from("users")
-        .select("id, username, password, name, department, role, status")
-        .eq("username", username.toLowerCase().trim())
-        .eq("role", "admin")
-        .eq("status", "active")
-        .single();
-
-      if (error || !data) {
-        setError("Invalid credentials or not an admin account");
-        setIsLoading(false);
+      // Credentials are verified and the session cookie is set on the server
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          username: username.toLowerCase().trim(),
+          password,
+          requiredRole: "admin",
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok && data.twoFactorRequired) {
+        setNeedsCode(true);
         return;
       }
 
-      // Verify password
-      const isValidPassword = await bcrypt.compare(password, data.password);
-      if (!isValidPassword) {
-        setError("Invalid credentials");
-        setIsLoading(false);
-        return;
-      }
-
-      // Generate session token
-      const timestamp = Date.now().toString(36);
-      const randomPart = Math.random().toString(36).substring(2, 15);
-      const randomPart2 = Math.random().toString(36).substring(2, 15);
-      const sessionToken = `${timestamp}-${randomPart}-${randomPart2}`;
-
-      // Update session token in database
-      await supabase
-        .from("users")
-        .update({
-          session_token: sessionToken,
-          session_updated_at: new Date().toISOString(),
-        })
-        .eq("id", data.id);
-
-      // Save user to localStorage (same format as AuthContext)
-      const userSession = {
-        id: data.id,
-        username: data.username,
-        name: data.name,
-        department: data.department,
-        role: data.role,
-        sessionToken: sessionToken,
-      };
-      localStorage.setItem("funlish_user", JSON.stringify(userSession));
-
-      // Admin authenticated
-      setIsAuthenticated(true);
-      await fetchMaintenanceSettings();
+      await completeLogin(data, response.ok);
     } catch (err) {
       console.error("Login error:", err);
       setError("An error occurred. Please try again.");
@@ -155,6 +127,66 @@ export default function MaintenanceAdminPage() {
     }
   };
 
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const response = await fetch("/api/auth/login/two-factor", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+
+      setCode("");
+      await completeLogin(data, response.ok);
+    } catch (err) {
+      console.error("Two-factor login error:", err);
+      setError("An error occurred. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle the response that should contain the signed in admin
+  const completeLogin = async (
+    data: {
+      user?: { role: string } | null;
+      error?: string;
+      twoFactorSetupRequired?: boolean;
+      passwordChangeRequired?: boolean;
+    },
+    ok: boolean
+  ) => {
+    if (!ok || !data.user) {
+      setError(data.error || "Invalid credentials or not an admin account");
+      return;
+    }
+
+    setNeedsCode(false);
+
+    // Admins must enroll in 2FA from the dashboard before using this page
+    if (data.twoFactorSetupRequired) {
+      setError(
+        "Two-factor authentication must be set up first. Go to the dashboard to set it up."
+      );
+      return;
+    }
+
+    if (data.passwordChangeRequired) {
+      setError(
+        "Your password must be changed first. Go to the dashboard to change it."
+      );
+      return;
+    }
+
+    // Admin authenticated
+    setIsAuthenticated(true);
+    await fetchMaintenanceSettings();
+  };
+
   const handleToggleMaintenance = async () => {
     setIsSaving(true);
     setError("");
@@ -163,12 +195,13 @@ export default function MaintenanceAdminPage() {
     try {
       const newValue = !isMaintenanceMode;
 
-      const { error } = await supabase
-        .from("site_settings")
-        .update({ setting_value: newValue.toString() })
-        .eq("setting_key", "maintenance_mode");
+      const response = await fetch("/api/admin/maintenance", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ maintenanceMode: newValue }),
+      });
 
-      if (error) {
+      if (!response.ok) {
         setError("Failed to update maintenance mode");
         return;
       }
@@ -193,12 +226,13 @@ export default function MaintenanceAdminPage() {
     setSuccess("");
 
     try {
-      const { error } = await supabase
-        .from("site_settings")
-        .update({ setting_value: maintenanceMessage })
-        .eq("setting_key", "maintenance_message");
+      const response = await fetch("/api/admin/maintenance", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ maintenanceMessage }),
+      });
 
-      if (error) {
+      if (!response.ok) {
         setError("Failed to update maintenance message");
         return;
       }
@@ -213,7 +247,7 @@ export default function MaintenanceAdminPage() {
   };
 
   const handleGoToDashboard = () => {
-    // Use window.location to force full page reload so AuthContext re-reads from localStorage
+    // Use window.location to force full page reload so AuthContext re-reads the session
     window.location.href = "/dashboard";
   };
 
@@ -257,62 +291,151 @@ export default function MaintenanceAdminPage() {
               </div>
             )}
 
-            <form onSubmit={handleLogin} className="space-y-4">
-              <div>
-                <label
-                  htmlFor="username"
-                  className="block text-sm font-semibold text-gray-700 mb-2"
-                >
-                  Admin Username
-                </label>
-                <input
-                  type="text"
-                  id="username"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900"
-                  placeholder="Enter admin username"
-                  required
-                />
-              </div>
+            {needsCode ? (
+              <form onSubmit={handleVerifyCode} className="space-y-4">
+                <div>
+                  <label
+                    htmlFor="code"
+                    className="block text-sm font-semibold text-gray-700 mb-2"
+                  >
+                    Verification Code
+                  </label>
+                  <input
+                    type="text"
+                    id="code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900 text-center tracking-widest"
+                    placeholder="123456"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    required
+                  />
+                  <p className="mt-2 text-sm text-gray-500">
+                    Enter the code from your authenticator app or a backup code.
+                  </p>
+                </div>
 
-              <div>
-                <label
-                  htmlFor="password"
-                  className="block text-sm font-semibold text-gray-700 mb-2"
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className="w-full bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  {isLoading ? (
+                    <>
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                      Verifying...
+                    </>
+                  ) : (
+                    "Verify"
+                  )}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setNeedsCode(false);
+                    setCode("");
+                    setPassword("");
+                    setError("");
+                  }}
+                  className="w-full text-sm text-gray-500 hover:text-gray-700 transition-colors"
                 >
-                  Password
-                </label>
-                <div className="relative">
+                  Use a different account
+                </button>
+              </form>
+            ) : (
+              <form onSubmit={handleLogin} className="space-y-4">
+                <div>
+                  <label
+                    htmlFor="username"
+                    className="block text-sm font-semibold text-gray-700 mb-2"
+                  >
+                    Admin Username
+                  </label>
                   <input
-                    type={showPassword ? "text" : "password"}
-                    id="password"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    className="w-full px-4 py-3 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900"
-                    placeholder="Enter password"
+                    type="text"
+                    id="username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900"
+                    placeholder="Enter admin username"
                     required
                   />
-                  <button
-                    type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 p-1 text-gray-500 hover:text-gray-700"
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="password"
+                    className="block text-sm font-semibold text-gray-700 mb-2"
                   >
-                    {showPassword ? (
-                      <svg
-                        className="w-5 h-5"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21"
-                        />
-                      </svg>
-                    ) : (
+                    Password
+                  </label>
+                  <div className="relative">
+                    <input
+                      type={showPassword ? "text" : "password"}
+                      id="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="w-full px-4 py-3 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none text-gray-900"
+                      placeholder="Enter password"
+                      required
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 p-1 text-gray-500 hover:text-gray-700"
+                    >
+                      {showPassword ? (
+                        <svg
+                          className="w-5 h-5"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21"
+                          />
+                        </svg>
+                      ) : (
+                        <svg
+                          className="w-5 h-5"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                          />
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+                          />
+                        </svg>
+                      )}
+                    </button>
+                  </div>
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className="w-full bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  {isLoading ? (
+                    <>
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                      Authenticating...
+                    </>
+                  ) : (
+                    <>
                       <svg
                         className="w-5 h-5"
                         fill="none"
@@ -323,50 +446,15 @@ export default function MaintenanceAdminPage() {
                           strokeLinecap="round"
                           strokeLinejoin="round"
                           strokeWidth={2}
-                          d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
-                        />
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+                          d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
                         />
                       </svg>
-                    )}
-                  </button>
-                </div>
-              </div>
-
-              <button
-                type="submit"
-                disabled={isLoading}
-                className="w-full bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-              >
-                {isLoading ? (
-                  <>
-                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                    Authenticating...
-                  </>
-                ) : (
-                  <>
-                    <svg
-                      className="w-5 h-5"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
-                      />
-                    </svg>
-                    Login as Admin
-                  </>
-                )}
-              </button>
-            </form>
+                      Login as Admin
+                    </>
+                  )}
+                </button>
+              </form>
+            )}
 
             <div className="mt-6 text-center">
               <button
@@ -0,0 +1,238 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
+import PasswordStrengthMeter, {
+  usePasswordPolicy,
+} from "@/components/PasswordStrengthMeter";
+import { validatePassword } from "@/lib/password-policy";
+
+// Account the reset link belongs to
+interface ResetTarget {
+  name: string;
+  username: string;
+}
+
+function ResetPasswordForm() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const policy = usePasswordPolicy();
+
+  const [target, setTarget] = useState<ResetTarget | null>(null);
+  const [isChecking, setIsChecking] = useState(true);
+  const [linkError, setLinkError] = useState("");
+  const [formData, setFormData] = useState({
+    newPassword: "",
+    confirmPassword: "",
+  });
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+
+  // Check the link before asking for a new password
+  useEffect(() => {
+    const checkToken = async () => {
+      try {
+        const response = await fetch(
+          `/api/auth/password-reset?token=${encodeURIComponent(token)}`,
+          { cache: "no-store" }
+        );
+        const data = await response.json();
+        if (!response.ok) {
+          setLinkError(data.error || "This reset link is not valid.");
+          return;
+        }
+        setTarget(data.user);
+      } catch (err) {
+        console.error("Error checking reset link:", err);
+        setLinkError("Failed to check the reset link. Please try again.");
+      } finally {
+        setIsChecking(false);
+      }
+    };
+
+    checkToken();
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (formData.newPassword !== formData.confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    const policyError = validatePassword(formData.newPassword, policy, {
+      username: target?.username,
+      name: target?.name,
+    });
+    if (policyError) {
+      setError(policyError);
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/auth/password-reset", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, newPassword: formData.newPassword }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to reset password");
+        return;
+      }
+
+      setIsDone(true);
+    } catch (err) {
+      console.error("Password reset error:", err);
+      setError("An error occurred while resetting password");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isChecking) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (isDone || !target) {
+    return (
+      <div className="text-center space-y-6">
+        {isDone ? (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm">
+            Your password has been reset and every device was signed out. Sign
+            in with your new password.
+          </div>
+        ) : (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm">
+            {linkError}
+          </div>
+        )}
+        <Link
+          href="/login"
+          className="block w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-2.5 sm:py-3 rounded-lg text-sm sm:text-base font-semibold hover:from-indigo-700 hover:to-purple-700 transition-all shadow-lg"
+        >
+          Go to Sign In
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 sm:space-y-6">
+      <p className="text-sm text-gray-600 text-center">
+        Choose a new password for{" "}
+        <span className="font-semibold text-gray-900">{target.name}</span> (
+        {target.username}).
+      </p>
+
+      <div>
+        <label
+          htmlFor="newPassword"
+          className="block text-xs sm:text-sm font-semibold text-gray-800 mb-2"
+        >
+          New Password
+        </label>
+        <input
+          type="password"
+          id="newPassword"
+          required
+          autoFocus
+          autoComplete="new-password"
+          value={formData.newPassword}
+          onChange={(e) =>
+            setFormData({ ...formData, newPassword: e.target.value })
+          }
+          className="w-full px-4 py-3 bg-white border-2 border-gray-400 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all outline-none text-gray-900"
+          placeholder="Enter your new password"
+        />
+        <PasswordStrengthMeter
+          password={formData.newPassword}
+          policy={policy}
+          username={target.username}
+          name={target.name}
+        />
+      </div>
+
+      <div>
+        <label
+          htmlFor="confirmPassword"
+          className="block text-xs sm:text-sm font-semibold text-gray-800 mb-2"
+        >
+          Confirm New Password
+        </label>
+        <input
+          type="password"
+          id="confirmPassword"
+          required
+          autoComplete="new-password"
+          value={formData.confirmPassword}
+          onChange={(e) =>
+            setFormData({ ...formData, confirmPassword: e.target.value })
+          }
+          className="w-full px-4 py-3 bg-white border-2 border-gray-400 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all outline-none text-gray-900"
+          placeholder="Confirm your new password"
+        />
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm text-center">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-2.5 sm:py-3 rounded-lg text-sm sm:text-base font-semibold hover:from-indigo-700 hover:to-purple-700 transition-all shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSubmitting ? "Resetting..." : "Reset Password"}
+      </button>
+    </form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 sm:p-6 md:p-8 bg-gradient-to-br from-indigo-600 to-purple-700">
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-2xl p-6 sm:p-8">
+        <div className="text-center mb-6 sm:mb-8">
+          <div className="flex items-center justify-center mb-3 sm:mb-4">
+            <Image
+              src="/Pictures/funlish-logo.svg"
+              alt="Funlish Logo"
+              width={80}
+              height={80}
+              className="h-16 sm:h-20 w-auto"
+            />
+          </div>
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-900">
+            Reset Password
+          </h1>
+        </div>
+
+        {/* useSearchParams needs a Suspense boundary */}
+        <Suspense
+          fallback={
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-600"></div>
+            </div>
+          }
+        >
+          <ResetPasswordForm />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { useState } from "react";
+import { useAuth } from "@/context/AuthContext";
+import PasswordStrengthMeter, {
+  usePasswordPolicy,
+} from "@/components/PasswordStrengthMeter";
+import { validatePassword } from "@/lib/password-policy";
+
+interface ChangePasswordFormProps {
+  // Called after the password was changed
+  onChanged?: () => void;
+}
+
+// Current password, new password and confirmation, with the strength meter
+// Used on the profile page and when a password change is required
+export default function ChangePasswordForm({
+  onChanged,
+}: ChangePasswordFormProps) {
+  const { user } = useAuth();
+  const policy = usePasswordPolicy();
+
+  const [passwordForm, setPasswordForm] = useState({
+    currentPassword: "",
+    newPassword: "",
+    confirmPassword: "",
+  });
+
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [message, setMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+
+  const handlePasswordChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setPasswordForm((prev) => ({
+      ...prev,
+      [name]: value,
+    }));
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+
+    if (
+      !passwordForm.currentPassword ||
+      !passwordForm.newPassword ||
+      !passwordForm.confirmPassword
+    ) {
+      setMessage({
+        type: "error",
+        text: "All fields are required",
+      });
+      return;
+    }
+
+    if (passwordForm.newPassword !== passwordForm.confirmPassword) {
+      setMessage({
+        type: "error",
+        text: "New passwords do not match",
+      });
+      return;
+    }
+
+    if (!user) {
+      setMessage({
+        type: "error",
+        text: "User not authenticated",
+      });
+      return;
+    }
+
+    const policyError = validatePassword(passwordForm.newPassword, policy, {
+      username: user.username,
+      name: user.name,
+    });
+    if (policyError) {
+      setMessage({ type: "error", text: policyError });
+      return;
+    }
+
+    setIsChangingPassword(true);
+
+    try {
+      // Current password is verified, the policy and password history
+      // checked and the new one hashed on the server
+      const response = await fetch("/api/auth/password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          currentPassword: passwordForm.currentPassword,
+          newPassword: passwordForm.newPassword,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage({
+          type: "error",
+          text: data.error || "Failed to update password",
+        });
+        return;
+      }
+
+      setMessage({
+        type: "success",
+        text: "Password changed successfully!",
+      });
+
+      setPasswordForm({
+        currentPassword: "",
+        newPassword: "",
+        confirmPassword: "",
+      });
+
+      setTimeout(() => {
+        setMessage(null);
+      }, 3000);
+
+      onChanged?.();
+    } catch (err) {
+      console.error("Password change error:", err);
+      setMessage({
+        type: "error",
+        text: "An error occurred while changing password",
+      });
+    } finally {
+      setIsChangingPassword(false);
+    }
+  };
+
+  return (
+    <>
+      {message && (
+        <div
+          className={`mb-6 p-4 rounded-lg ${
+            message.type === "success"
+              ? "bg-green-50 border border-green-200 text-green-700"
+              : "bg-red-50 border border-red-200 text-red-700"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <form onSubmit={handlePasswordSubmit} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Current Password
+          </label>
+          <input
+            type="password"
+            name="currentPassword"
+            value={passwordForm.currentPassword}
+            onChange={handlePasswordChange}
+            disabled={isChangingPassword}
+            autoComplete="current-password"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-gray-900 disabled:bg-gray-100 disabled:cursor-not-allowed"
+            placeholder="Enter your current password"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            New Password
+          </label>
+          <input
+            type="password"
+            name="newPassword"
+            value={passwordForm.newPassword}
+            onChange={handlePasswordChange}
+            disabled={isChangingPassword}
+            autoComplete="new-password"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-gray-900 disabled:bg-gray-100 disabled:cursor-not-allowed"
+            placeholder="Enter your new password"
+          />
+          <PasswordStrengthMeter
+            password={passwordForm.newPassword}
+            policy={policy}
+            username={user?.username}
+            name={user?.name}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Confirm New Password
+          </label>
+          <input
+            type="password"
+            name="confirmPassword"
+            value={passwordForm.confirmPassword}
+            onChange={handlePasswordChange}
+            disabled={isChangingPassword}
+            autoComplete="new-password"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-gray-900 disabled:bg-gray-100 disabled:cursor-not-allowed"
+            placeholder="Confirm your new password"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={isChangingPassword}
+          className="w-full bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-colors mt-6 disabled:bg-indigo-400 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          {isChangingPassword ? (
+            <>
+              <svg
+                className="w-5 h-5 animate-spin"
+                fill="none"
+                viewBox="0 0 24 24"
+              >
+                <circle
+                  className="opacity-25"
+                  cx="12"
+                  cy="12"
+                  r="10"
+                  stroke="currentColor"
+                  strokeWidth="4"
+                />
+                <path
+                  className="opacity-75"
+                  fill="currentColor"
+                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                />
+              </svg>
+              Changing Password...
+            </>
+          ) : (
+            "Change Password"
+          )}
+        </button>
+      </form>
+    </>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { useDepartments } from "@/context/DepartmentsContext";
+import type { Department } from "@/types/database.types";
+
+interface DepartmentBadgeProps {
+  department: Department;
+  // Size and shape classes; the colours come from the department
+  className?: string;
+}
+
+// Department name tinted with the department's colour
+export default function DepartmentBadge({
+  department,
+  className = "px-3 py-1 rounded-lg text-sm",
+}: DepartmentBadgeProps) {
+  const { getDepartmentName, getDepartmentColor } = useDepartments();
+  const color = getDepartmentColor(department);
+
+  return (
+    <span
+      className={`${className} font-medium whitespace-nowrap`}
+      // Hex colour with a 15% alpha suffix for the background
+      style={{ color, backgroundColor: `${color}26` }}
+    >
+      {getDepartmentName(department)}
+    </span>
+  );
+}
@@ -27,7 +27,8 @@ export default function MaintenanceGuard({ children }: MaintenanceGuardProps) {
         pathname === "/maintenance" ||
         pathname === "/maintenance/admin" ||
         pathname === "/login" ||
-        pathname === "/register"
+        pathname === "/register" ||
+        pathname === "/reset-password"
       ) {
         setIsChecking(false);
         setHasChecked(true);
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/lib/supabase";
+import { ATTENDANCE_STATUS_LABELS, isPresent } from "@/lib/attendance";
+import type { AttendanceStatus } from "@/types/database.types";
+
+interface AttendanceEntry {
+  id: number;
+  attendance_date: string;
+  status: AttendanceStatus;
+  check_in_time: string | null;
+  check_out_time: string | null;
+}
+
+interface MyAttendanceProps {
+  // The user's linked committee roster entry
+  memberId: number;
+}
+
+// Status badge colours
+const STATUS_BADGE_CLASSES: Record<AttendanceStatus, string> = {
+  attend: "bg-green-100 text-green-700",
+  late: "bg-amber-100 text-amber-700",
+  excused: "bg-blue-100 text-blue-700",
+  absent: "bg-red-100 text-red-700",
+};
+
+// Format a date for display
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString("en-MY", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+// Format a check-in or check-out time for display
+function formatTime(dateString: string) {
+  return new Date(dateString).toLocaleTimeString("en-MY", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function MyAttendance({ memberId }: MyAttendanceProps) {
+  const [records, setRecords] = useState<AttendanceEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAttendance = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("attendance")
+        .select("id, attendance_date, status, check_in_time, check_out_time")
+        .eq("committee_member_id", memberId)
+        .order("attendance_date", { ascending: false });
+
+      if (error) throw error;
+
+      setRecords(data || []);
+      setError(null);
+    } catch (err) {
+      console.error("Error fetching attendance:", err);
+      setError("Failed to load attendance");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [memberId]);
+
+  useEffect(() => {
+    fetchAttendance();
+  }, [fetchAttendance]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (records.length === 0) {
+    return <p className="text-sm text-gray-500">No attendance recorded yet.</p>;
+  }
+
+  const attended = records.filter((record) => isPresent(record.status));
+  const late = attended.filter((record) => record.status === "late");
+  const excused = records.filter((record) => record.status === "excused");
+  const absent = records.filter((record) => record.status === "absent");
+  // Approved leave is neither attended nor missed, so it is left out of
+  // the rate
+  const countedDays = records.length - excused.length;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <div className="p-4 rounded-lg bg-green-50 border border-green-100">
+          <p className="text-xs text-green-700 mb-1">Attended</p>
+          <p className="text-2xl font-bold text-green-700">{attended.length}</p>
+          {late.length > 0 && (
+            <p className="text-xs text-amber-700">{late.length} late</p>
+          )}
+        </div>
+        <div className="p-4 rounded-lg bg-red-50 border border-red-100">
+          <p className="text-xs text-red-700 mb-1">Absent</p>
+          <p className="text-2xl font-bold text-red-700">{absent.length}</p>
+        </div>
+        <div className="p-4 rounded-lg bg-blue-50 border border-blue-100">
+          <p className="text-xs text-blue-700 mb-1">Excused</p>
+          <p className="text-2xl font-bold text-blue-700">{excused.length}</p>
+        </div>
+        <div className="p-4 rounded-lg bg-indigo-50 border border-indigo-100">
+          <p className="text-xs text-indigo-700 mb-1">Rate</p>
+          <p className="text-2xl font-bold text-indigo-700">
+            {countedDays > 0
+              ? `${Math.round((attended.length / countedDays) * 100)}%`
+              : "-"}
+          </p>
+        </div>
+      </div>
+
+      <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+        {records.map((record) => (
+          <div
+            key={record.id}
+            className="flex items-center justify-between gap-4 px-4 py-3"
+          >
+            <div>
+              <p className="font-medium text-gray-900">
+                {formatDate(record.attendance_date)}
+              </p>
+              {isPresent(record.status) && record.check_in_time && (
+                <p className="text-xs text-gray-500">
+                  Checked in at {formatTime(record.check_in_time)}
+                  {record.check_out_time &&
+                    ` · out at ${formatTime(record.check_out_time)}`}
+                </p>
+              )}
+            </div>
+            <span
+              className={`px-2 py-0.5 rounded text-xs font-medium ${
+                STATUS_BADGE_CLASSES[record.status]
+              }`}
+            >
+              {ATTENDANCE_STATUS_LABELS[record.status]}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  getPasswordRequirements,
+  getPasswordStrength,
+  type PasswordContext,
+  type PasswordPolicy,
+} from "@/lib/password-policy";
+
+const STRENGTH_DISPLAY = [
+  {
+    label: "Very weak",
+    barClassName: "bg-red-500",
+    textClassName: "text-red-600",
+  },
+  {
+    label: "Weak",
+    barClassName: "bg-orange-500",
+    textClassName: "text-orange-600",
+  },
+  {
+    label: "Fair",
+    barClassName: "bg-yellow-500",
+    textClassName: "text-yellow-600",
+  },
+  {
+    label: "Good",
+    barClassName: "bg-lime-500",
+    textClassName: "text-lime-600",
+  },
+  {
+    label: "Strong",
+    barClassName: "bg-green-600",
+    textClassName: "text-green-700",
+  },
+];
+
+/**
+ * Load the password policy from the server
+ * Starts with the defaults so forms can render straight away
+ */
+export function usePasswordPolicy(): PasswordPolicy {
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+
+  useEffect(() => {
+    const fetchPolicy = async () => {
+      try {
+        const response = await fetch("/api/auth/password-policy", {
+          cache: "no-store",
+        });
+        const data = await response.json();
+        if (response.ok && data.policy) {
+          setPolicy(data.policy);
+        }
+      } catch (err) {
+        console.error("Error fetching password policy:", err);
+      }
+    };
+
+    fetchPolicy();
+  }, []);
+
+  return policy;
+}
+
+interface PasswordStrengthMeterProps extends PasswordContext {
+  password: string;
+  policy: PasswordPolicy;
+}
+
+// Live strength bar and policy checklist shown under a new password field
+export default function PasswordStrengthMeter({
+  password,
+  policy,
+  username,
+  name,
+}: PasswordStrengthMeterProps) {
+  if (!password) return null;
+
+  const requirements = getPasswordRequirements(password, policy, {
+    username,
+    name,
+  });
+  const meetsPolicy = requirements.every((requirement) => requirement.met);
+  // A password that breaks the policy never shows as better than weak
+  const strength = meetsPolicy
+    ? getPasswordStrength(password)
+    : Math.min(getPasswordStrength(password), 1);
+  const display = STRENGTH_DISPLAY[strength];
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex items-center gap-3">
+        <div className="flex-1 grid grid-cols-4 gap-1">
+          {[1, 2, 3, 4].map((segment) => (
+            <div
+              key={segment}
+              className={`h-1.5 rounded-full ${
+                strength >= segment ? display.barClassName : "bg-gray-200"
+              }`}
+            />
+          ))}
+        </div>
+        <span className={`text-xs font-medium ${display.textClassName}`}>
+          {display.label}
+        </span>
+      </div>
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1">
+        {requirements.map((requirement) => (
+          <li
+            key={requirement.key}
+            className={`text-xs flex items-center gap-1.5 ${
+              requirement.met ? "text-green-700" : "text-gray-500"
+            }`}
+          >
+            <svg
+              className="w-3.5 h-3.5 flex-shrink-0"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              aria-hidden="true"
+            >
+              {requirement.met ? (
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M5 13l4 4L19 7"
+                />
+              ) : (
+                <circle cx="12" cy="12" r="8" strokeWidth={2} />
+              )}
+            </svg>
+            {requirement.label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+export interface ActiveSession {
+  id: number;
+  device_label: string | null;
+  user_agent: string | null;
+  created_at: string;
+  last_seen_at: string;
+  current: boolean;
+}
+
+interface SessionListProps {
+  // User whose sessions to show (admins only). Defaults to the current user.
+  userId?: number;
+  // Called after the caller's own current session is revoked
+  onCurrentSessionRevoked?: () => void;
+}
+
+// Format date and time for display
+function formatDateTime(dateString: string) {
+  return new Date(dateString).toLocaleString("en-MY", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function SessionList({
+  userId,
+  onCurrentSessionRevoked,
+}: SessionListProps) {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<number | "all" | null>(null);
+
+  const query = userId ? `?userId=${userId}` : "";
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/auth/sessions${query}`, {
+        cache: "no-store",
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setSessions(data.sessions);
+      setError(null);
+    } catch (err) {
+      console.error("Error fetching sessions:", err);
+      setError("Failed to load sessions");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const revokeSession = async (session: ActiveSession) => {
+    if (
+      session.current &&
+      !confirm("This will log you out of this device. Continue?")
+    ) {
+      return;
+    }
+
+    setRevokingId(session.id);
+    try {
+      const response = await fetch(`/api/auth/sessions/${session.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw new Error("Failed to revoke session");
+
+      if (session.current) {
+        onCurrentSessionRevoked?.();
+        return;
+      }
+
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+    } catch (err) {
+      console.error("Error revoking session:", err);
+      alert("Failed to revoke session. Please try again.");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const revokeAllSessions = async () => {
+    if (!confirm("Sign out of all devices?")) return;
+
+    setRevokingId("all");
+    try {
+      const response = await fetch(`/api/auth/sessions${query}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw new Error("Failed to revoke sessions");
+
+      if (sessions.some((s) => s.current)) {
+        onCurrentSessionRevoked?.();
+        return;
+      }
+
+      setSessions([]);
+    } catch (err) {
+      console.error("Error revoking sessions:", err);
+      alert("Failed to revoke sessions. Please try again.");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (sessions.length === 0) {
+    return <p className="text-sm text-gray-500">No active sessions.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {sessions.map((session) => (
+        <div
+          key={session.id}
+          className="flex items-start justify-between gap-4 p-4 rounded-lg border border-gray-200 bg-gray-50"
+        >
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 flex-wrap">
+              <p className="font-semibold text-gray-900">
+                {session.device_label || "Unknown device"}
+              </p>
+              {session.current && (
+                <span className="px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-700">
+                  This device
+                </span>
+              )}
+            </div>
+            {session.user_agent && (
+              <p
+                className="text-xs text-gray-500 truncate"
+                title={session.user_agent}
+              >
+                {session.user_agent}
+              </p>
+            )}
+            <p className="text-xs text-gray-600 mt-1">
+              Signed in {formatDateTime(session.created_at)} · Last active{" "}
+              {formatDateTime(session.last_seen_at)}
+            </p>
+          </div>
+          <button
+            onClick={() => revokeSession(session)}
+            disabled={revokingId !== null}
+            className="px-3 py-1.5 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {revokingId === session.id ? "Revoking..." : "Revoke"}
+          </button>
+        </div>
+      ))}
+
+      {sessions.length > 1 && (
+        <button
+          onClick={revokeAllSessions}
+          disabled={revokingId !== null}
+          className="w-full px-4 py-2 text-sm font-semibold text-red-600 border-2 border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {revokingId === "all" ? "Signing out..." : "Sign out of all devices"}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,8 @@ import Link from "next/link";
 import Image from "next/image";
 import { usePathname } from "next/navigation";
 import { useState, useEffect, ReactNode, useCallback } from "react";
-import { useAuth, getRoleDisplayName, UserRole } from "@/context/AuthContext";
+import { useAuth, UserRole } from "@/context/AuthContext";
+import type { PageKey } from "@/lib/permissions";
 
 // Malaysian Time Clock Component
 function MalaysianClock({
@@ -203,6 +204,8 @@ interface NavItem {
   name: string;
   href: string;
   icon: ReactNode;
+  // Permission page that controls whether the item is shown
+  page?: PageKey;
   adminOnly?: boolean;
 }
 
@@ -212,7 +215,7 @@ interface SideNavProps {
 
 export default function SideNav({ userRole = "committee" }: SideNavProps) {
   const pathname = usePathname();
-  const { user, logout, isAdmin } = useAuth();
+  const { user, roleName, logout, isAdmin, canView } = useAuth();
   const [isCollapsed, setIsCollapsed] = useState(true);
   const [isMobile, setIsMobile] = useState(false);
 
@@ -243,6 +246,7 @@ export default function SideNav({ userRole = "committee" }: SideNavProps) {
   const navItems: NavItem[] = [
     {
       name: "Dashboard",
+      page: "dashboard",
       href: "/dashboard",
       icon: (
         <svg
@@ -262,6 +266,7 @@ export default function SideNav({ userRole = "committee" }: SideNavProps) {
     },
     {
       name: "Attendance",
+      page: "attendance",
       href: "/dashboard/attendance",
       icon: (
         <svg
@@ -279,8 +284,29 @@ export default function SideNav({ userRole = "committee" }: SideNavProps) {
         </svg>
       ),
     },
+    {
+      name: "Leave Requests",
+      page: "leave",
+      href: "/dashboard/leave",
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+          />
+        </svg>
+      ),
+    },
     {
       name: "Registration & Team",
+      page: "teams",
       href: "/dashboard/teams",
       icon: (
         <svg
@@ -340,6 +366,152 @@ export default function SideNav({ userRole = "committee" }: SideNavProps) {
       ),
       adminOnly: true,
     },
+    {
+      name: "Committee Roster",
+      href: "/dashboard/admin/committee",
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z"
+          />
+        </svg>
+      ),
+      adminOnly: true,
+    },
+    {
+      name: "Departments",
+      href: "/dashboard/admin/departments",
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4"
+          />
+        </svg>
+      ),
+      adminOnly: true,
+    },
+    {
+      name: "Venues",
+      href: "/dashboard/admin/venues",
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z"
+          />
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"
+          />
+        </svg>
+      ),
+      adminOnly: true,
+    },
+    {
+      name: "Roles & Permissions",
+      href: "/dashboard/admin/roles",
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z"
+          />
+        </svg>
+      ),
+      adminOnly: true,
+    },
+    {
+      name: "Security Log",
+      href: "/dashboard/admin/security",
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.040A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
+          />
+        </svg>
+      ),
+      adminOnly: true,
+    },
+    {
+      name: "Audit Log",
+      href: "/dashboard/admin/audit",
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01"
+          />
+        </svg>
+      ),
+      adminOnly: true,
+    },
+    {
+      name: "Trash",
+      href: "/dashboard/admin/trash",
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+          />
+        </svg>
+      ),
+      adminOnly: true,
+    },
     {
       name: "Maintenance Mode",
       href: "/maintenance/admin",
@@ -368,7 +540,9 @@ export default function SideNav({ userRole = "committee" }: SideNavProps) {
     },
   ];
 
-  const allNavItems = isAdmin ? [...navItems, ...adminItems] : navItems;
+  const allNavItems = (isAdmin ? [...navItems, ...adminItems] : navItems).filter(
+    (item) => !item.page || canView(item.page)
+  );
 
   return (
     <>
@@ -511,7 +685,7 @@ export default function SideNav({ userRole = "committee" }: SideNavProps) {
                   {user?.name || "User"}
                 </p>
                 <p className="text-xs text-gray-500 truncate">
-                  {user?.role ? getRoleDisplayName(user.role) : "View profile"}
+                  {roleName || "View profile"}
                 </p>
               </div>
             )}
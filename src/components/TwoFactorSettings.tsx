@@ -0,0 +1,268 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import TwoFactorSetup, { BackupCodes } from "@/components/TwoFactorSetup";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  backupCodesRemaining: number;
+}
+
+interface TwoFactorSettingsProps {
+  // Called after 2FA is turned on or off so the session can be reloaded
+  onChange?: () => void;
+}
+
+// What the user is currently doing in the card
+type Action = "idle" | "regenerating" | "disabling";
+
+export default function TwoFactorSettings({
+  onChange,
+}: TwoFactorSettingsProps) {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [action, setAction] = useState<Action>("idle");
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [newBackupCodes, setNewBackupCodes] = useState<string[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch("/api/auth/two-factor", {
+        cache: "no-store",
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setStatus(data);
+    } catch (err) {
+      console.error("Error fetching two-factor status:", err);
+      setError("Failed to load two-factor status");
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const resetAction = () => {
+    setAction("idle");
+    setCode("");
+    setPassword("");
+    setError(null);
+  };
+
+  const handleEnabled = () => {
+    resetAction();
+    fetchStatus();
+    onChange?.();
+  };
+
+  const regenerateCodes = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/auth/two-factor/backup-codes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setNewBackupCodes(data.backupCodes);
+      resetAction();
+      fetchStatus();
+    } catch (err) {
+      console.error("Error regenerating backup codes:", err);
+      setError(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to generate backup codes"
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const disableTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/auth/two-factor", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password, code }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      resetAction();
+      setNewBackupCodes(null);
+      fetchStatus();
+      onChange?.();
+    } catch (err) {
+      console.error("Error disabling two-factor authentication:", err);
+      setError(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to disable two-factor authentication"
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (!status) {
+    return error ? (
+      <p className="text-sm text-red-600">{error}</p>
+    ) : (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (!status.enabled) {
+    return (
+      <div className="space-y-4">
+        {status.required && (
+          <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg text-orange-800 text-sm">
+            Your role requires two-factor authentication.
+          </div>
+        )}
+        <TwoFactorSetup onEnabled={handleEnabled} />
+      </div>
+    );
+  }
+
+  const codeInput = (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Authenticator or Backup Code
+      </label>
+      <input
+        type="text"
+        autoComplete="one-time-code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        disabled={isWorking}
+        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-gray-900 disabled:bg-gray-100"
+        placeholder="123456"
+        required
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <span className="inline-block bg-green-100 text-green-700 px-3 py-1 rounded-lg text-sm font-medium">
+            On
+          </span>
+          <p className="text-sm text-gray-600 mt-2">
+            {status.backupCodesRemaining} backup code
+            {status.backupCodesRemaining === 1 ? "" : "s"} remaining
+          </p>
+        </div>
+        {action === "idle" && (
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setAction("regenerating")}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+            >
+              New Backup Codes
+            </button>
+            {!status.required && (
+              <button
+                type="button"
+                onClick={() => setAction("disabling")}
+                className="px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors text-sm font-medium"
+              >
+                Turn Off
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {newBackupCodes && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            Your old backup codes no longer work. Save these new ones somewhere
+            safe.
+          </p>
+          <BackupCodes codes={newBackupCodes} />
+        </div>
+      )}
+
+      {action === "regenerating" && (
+        <form onSubmit={regenerateCodes} className="space-y-4">
+          {codeInput}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={resetAction}
+              disabled={isWorking}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isWorking}
+              className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-medium disabled:bg-indigo-400"
+            >
+              {isWorking ? "Generating..." : "Generate"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {action === "disabling" && (
+        <form onSubmit={disableTwoFactor} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Password
+            </label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={isWorking}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-gray-900 disabled:bg-gray-100"
+              placeholder="Enter your password"
+              required
+            />
+          </div>
+          {codeInput}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={resetAction}
+              disabled={isWorking}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isWorking}
+              className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium disabled:bg-red-400"
+            >
+              {isWorking ? "Turning Off..." : "Turn Off"}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
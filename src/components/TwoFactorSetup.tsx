@@ -0,0 +1,261 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+
+interface TwoFactorSetupProps {
+  // Called once the user has confirmed a code and saved their backup codes
+  onEnabled?: () => void;
+  // Shows a cancel button while enrolling
+  onCancel?: () => void;
+}
+
+interface SetupDetails {
+  secret: string;
+  qrCode: string;
+}
+
+// Open the backup codes in a new window and print them
+function printBackupCodes(codes: string[]) {
+  const printWindow = window.open("", "_blank", "width=400,height=600");
+  if (!printWindow) return;
+
+  printWindow.document.write(`
+    <html>
+      <head><title>Funlish backup codes</title></head>
+      <body style="font-family: sans-serif; padding: 24px;">
+        <h2>Funlish backup codes</h2>
+        <p>Each code can be used once to sign in without your authenticator app.</p>
+        <pre style="font-size: 18px; line-height: 1.8;">${codes.join("\n")}</pre>
+      </body>
+    </html>
+  `);
+  printWindow.document.close();
+  printWindow.print();
+}
+
+/**
+ * List of one-time backup codes with copy and print actions
+ */
+export function BackupCodes({ codes }: { codes: string[] }) {
+  const [copied, setCopied] = useState(false);
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      alert("Failed to copy. Please write the codes down instead.");
+    }
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 gap-2 bg-gray-50 border border-gray-200 rounded-lg p-4 font-mono text-sm text-gray-900">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-3">
+        <button
+          type="button"
+          onClick={copyCodes}
+          className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+        >
+          {copied ? "Copied!" : "Copy"}
+        </button>
+        <button
+          type="button"
+          onClick={() => printBackupCodes(codes)}
+          className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+        >
+          Print
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Authenticator app enrollment: QR code, confirm a code, then show the
+ * backup codes once
+ */
+export default function TwoFactorSetup({
+  onEnabled,
+  onCancel,
+}: TwoFactorSetupProps) {
+  const [setup, setSetup] = useState<SetupDetails | null>(null);
+  const [code, setCode] = useState("");
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startSetup = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/auth/two-factor/setup", {
+        method: "POST",
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setSetup({ secret: data.secret, qrCode: data.qrCode });
+    } catch (err) {
+      console.error("Error starting two-factor setup:", err);
+      setError(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to start setup"
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const confirmCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/auth/two-factor/enable", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setBackupCodes(data.backupCodes);
+    } catch (err) {
+      console.error("Error enabling two-factor authentication:", err);
+      setError(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to enable two-factor authentication"
+      );
+      setCode("");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Step 3: show the backup codes once
+  if (backupCodes) {
+    return (
+      <div className="space-y-4">
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm">
+          Two-factor authentication is now on.
+        </div>
+        <p className="text-sm text-gray-600">
+          Save these backup codes somewhere safe. Each one can be used once if
+          you lose access to your authenticator app. They will not be shown
+          again.
+        </p>
+        <BackupCodes codes={backupCodes} />
+        <button
+          type="button"
+          onClick={onEnabled}
+          className="w-full bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-colors"
+        >
+          I&apos;ve Saved My Codes
+        </button>
+      </div>
+    );
+  }
+
+  // Step 2: scan the QR code and confirm a code
+  if (setup) {
+    return (
+      <form onSubmit={confirmCode} className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Scan this QR code with an authenticator app such as Google
+          Authenticator, Microsoft Authenticator or Authy.
+        </p>
+        <div className="flex justify-center">
+          {/* A data URL, so there is nothing to optimize */}
+          <Image
+            src={setup.qrCode}
+            alt="Two-factor authentication QR code"
+            width={192}
+            height={192}
+            unoptimized
+            className="w-48 h-48 border border-gray-200 rounded-lg"
+          />
+        </div>
+        <div>
+          <p className="text-xs text-gray-500 mb-1">
+            Can&apos;t scan? Enter this key manually:
+          </p>
+          <p className="font-mono text-sm text-gray-900 bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 break-all">
+            {setup.secret}
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Code from the app
+          </label>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            disabled={isWorking}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-gray-900 text-center tracking-widest disabled:bg-gray-100"
+            placeholder="123456"
+            required
+          />
+        </div>
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+        <div className="flex gap-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isWorking}
+              className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-semibold"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={isWorking}
+            className="flex-1 bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-colors disabled:bg-indigo-400 disabled:cursor-not-allowed"
+          >
+            {isWorking ? "Verifying..." : "Turn On"}
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  // Step 1: explain and start
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Protect your account with a 6-digit code from an authenticator app each
+        time you sign in.
+      </p>
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={startSetup}
+        disabled={isWorking}
+        className="w-full bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-colors disabled:bg-indigo-400 disabled:cursor-not-allowed"
+      >
+        {isWorking ? "Starting..." : "Set Up Two-Factor Authentication"}
+      </button>
+    </div>
+  );
+}
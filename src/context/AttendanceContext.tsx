@@ -2,6 +2,7 @@
 
 import {
   createContext,
+  useCallback,
   useContext,
   useState,
   useEffect,
@@ -9,7 +10,22 @@ import {
 } from "react";
 import { supabase } from "@/lib/supabase";
 import { uploadAttendancePhoto, isBase64Image } from "@/lib/storage";
-import type { Department } from "@/types/database.types";
+import {
+  getFinalizationKey,
+  getReportingScheduleKey,
+  parseDayFinalization,
+  parseReportingSchedule,
+  type DayFinalization,
+  type MemberAttendanceStatus,
+  type ReportingSchedule,
+} from "@/lib/attendance";
+import { useAuth } from "@/context/AuthContext";
+import type {
+  AttendanceStatus,
+  CommitteeMemberStatus,
+  Department,
+  GeofenceStatus,
+} from "@/types/database.types";
 
 export interface LocationData {
   latitude: number;
@@ -24,6 +40,7 @@ export interface CommitteeMember {
   id: number;
   name: string;
   department: Department;
+  status: CommitteeMemberStatus;
   created_at: string;
 }
 
@@ -32,13 +49,21 @@ export interface AttendanceRecord {
   id: number;
   committee_member_id: number;
   attendance_date: string;
-  status: "attend" | "absent";
+  status: AttendanceStatus;
   photo_url: string | null;
   latitude: number | null;
   longitude: number | null;
   accuracy: number | null;
   address: string | null;
   check_in_time: string | null;
+  geofence_status: GeofenceStatus | null;
+  geofence_venue: string | null;
+  check_out_time: string | null;
+  check_out_photo_url: string | null;
+  check_out_latitude: number | null;
+  check_out_longitude: number | null;
+  check_out_accuracy: number | null;
+  check_out_address: string | null;
   marked_by?: number | null;
   created_at: string;
   updated_at: string;
@@ -49,51 +74,61 @@ export interface MemberAttendance {
   member_id: number;
   name: string;
   department: Department;
+  // Inactive members only appear on dates they have a record for
+  is_active: boolean;
   // Attendance data (null if no record exists for this date)
   attendance_id: number | null;
   attendance_date: string;
-  status: "attend" | "absent"; // not_marked = no record yet
+  status: MemberAttendanceStatus; // not_marked = no record yet
   photo_url: string | null;
   latitude: number | null;
   longitude: number | null;
   accuracy: number | null;
   address: string | null;
   check_in_time: string | null;
+  // Check-in location against the date's venues (null if none are set)
+  geofence_status: GeofenceStatus | null;
+  geofence_venue: string | null;
+  // Check-out data (null until the member is checked out)
+  check_out_time: string | null;
+  check_out_photo_url: string | null;
+  check_out_latitude: number | null;
+  check_out_longitude: number | null;
+  check_out_accuracy: number | null;
+  check_out_address: string | null;
 }
 
-// Department display names
-export const DEPARTMENT_DISPLAY_NAMES: Record<Department, string> = {
-  administrator: "Administrator",
-  evaluation_research_documentation: "Evaluation, Research & Documentation",
-  executive: "Executive",
-  fnb: "F&B",
-  health_safety_welfare: "Health, Safety & Welfare",
-  logistics_operations: "Logistics & Operations",
-  pr_communication: "PR & Communication",
-  program_activities: "Program & Activities",
-  protocol_ceremonial: "Protocol & Ceremonial",
-  sponsorship_finance: "Sponsorship & Finance",
-  technical_it_support: "Technical & IT Support",
-};
-
 interface AttendanceContextType {
   members: MemberAttendance[];
   selectedDate: string;
   setSelectedDate: (date: string) => void;
+  // Reporting time for the selected date, or null if none is set
+  reportingSchedule: ReportingSchedule | null;
+  // Who finalized the selected date, or null if it is still open
+  finalization: DayFinalization | null;
   markAttendance: (
     memberId: number,
     status: "attend" | "absent",
     photoUrl?: string,
-    location?: LocationData,
-    userId?: number
+    location?: LocationData
   ) => Promise<void>;
+  checkOut: (
+    memberId: number,
+    photoUrl?: string,
+    location?: LocationData
+  ) => Promise<void>;
+  // Record every member still not marked on the selected date as absent
+  finalizeDay: () => Promise<void>;
   refreshMembers: () => Promise<void>;
   isLoading: boolean;
   error: string | null;
   stats: {
     total: number;
     attend: number;
+    late: number;
+    excused: number;
     absent: number;
+    notMarked: number;
   };
 }
 
@@ -109,9 +144,15 @@ function getMalaysiaDateString(): string {
 }
 
 export function AttendanceProvider({ children }: { children: ReactNode }) {
+  const { canView, canEdit } = useAuth();
   const [members, setMembers] = useState<MemberAttendance[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reportingSchedule, setReportingSchedule] =
+    useState<ReportingSchedule | null>(null);
+  const [finalization, setFinalization] = useState<DayFinalization | null>(
+    null
+  );
 
   // Track selected date (default to today in Malaysia timezone)
   const [selectedDate, setSelectedDate] = useState<string>(
@@ -150,26 +191,39 @@ export function AttendanceProvider({ children }: { children: ReactNode }) {
         attendanceMap.set(record.committee_member_id, record);
       });
 
-      // Combine committee members with their attendance
-      const combined: MemberAttendance[] = (committeeMembers || []).map(
-        (member: CommitteeMember) => {
+      // Combine committee members with their attendance; members who left
+      // are only kept for dates they were marked on
+      const combined: MemberAttendance[] = (committeeMembers || [])
+        .filter(
+          (member: CommitteeMember) =>
+            member.status === "active" || attendanceMap.has(member.id)
+        )
+        .map((member: CommitteeMember) => {
           const attendance = attendanceMap.get(member.id);
           return {
             member_id: member.id,
             name: member.name,
             department: member.department,
+            is_active: member.status === "active",
             attendance_id: attendance?.id || null,
             attendance_date: targetDate,
-            status: attendance ? attendance.status : "absent",
+            status: attendance ? attendance.status : "not_marked",
             photo_url: attendance?.photo_url || null,
             latitude: attendance?.latitude || null,
             longitude: attendance?.longitude || null,
             accuracy: attendance?.accuracy || null,
             address: attendance?.address || null,
             check_in_time: attendance?.check_in_time || null,
+            geofence_status: attendance?.geofence_status || null,
+            geofence_venue: attendance?.geofence_venue || null,
+            check_out_time: attendance?.check_out_time || null,
+            check_out_photo_url: attendance?.check_out_photo_url || null,
+            check_out_latitude: attendance?.check_out_latitude || null,
+            check_out_longitude: attendance?.check_out_longitude || null,
+            check_out_accuracy: attendance?.check_out_accuracy || null,
+            check_out_address: attendance?.check_out_address || null,
           };
-        }
-      );
+        });
 
       setMembers(combined);
     } catch (err) {
@@ -195,108 +249,197 @@ export function AttendanceProvider({ children }: { children: ReactNode }) {
     return () => clearInterval(refreshInterval);
   }, [selectedDate]);
 
+  // Fetch the date's reporting time and whether it has been finalized
+  // These rarely change, so they are not part of the 2-second refresh
+  const fetchDaySettings = useCallback(async (date: string) => {
+    const scheduleKey = getReportingScheduleKey(date);
+    const finalizationKey = getFinalizationKey(date);
+
+    const { data, error } = await supabase
+      .from("site_settings")
+      .select("setting_key, setting_value")
+      .in("setting_key", [scheduleKey, finalizationKey]);
+
+    if (error) {
+      console.error("Error fetching day settings:", error);
+      return;
+    }
+
+    const getValue = (key: string) =>
+      data?.find((setting) => setting.setting_key === key)?.setting_value;
+    setReportingSchedule(parseReportingSchedule(getValue(scheduleKey)));
+    setFinalization(parseDayFinalization(getValue(finalizationKey)));
+  }, []);
+
+  // Load them when the date changes and follow changes made elsewhere
+  useEffect(() => {
+    fetchDaySettings(selectedDate);
+
+    const channel = supabase
+      .channel("attendance-day-settings")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "site_settings" },
+        () => {
+          fetchDaySettings(selectedDate);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [selectedDate, fetchDaySettings]);
+
+  // Update local state with a record saved by the server
+  const applyRecord = (record: AttendanceRecord) => {
+    setMembers((prev) =>
+      prev.map((m) =>
+        m.member_id === record.committee_member_id
+          ? {
+              ...m,
+              attendance_id: record.id,
+              status: record.status,
+              photo_url: record.photo_url,
+              latitude: record.latitude,
+              longitude: record.longitude,
+              accuracy: record.accuracy,
+              address: record.address,
+              check_in_time: record.check_in_time,
+              geofence_status: record.geofence_status,
+              geofence_venue: record.geofence_venue,
+              check_out_time: record.check_out_time,
+              check_out_photo_url: record.check_out_photo_url,
+              check_out_latitude: record.check_out_latitude,
+              check_out_longitude: record.check_out_longitude,
+              check_out_accuracy: record.check_out_accuracy,
+              check_out_address: record.check_out_address,
+            }
+          : m
+      )
+    );
+  };
+
   // Mark attendance for a member (INSERT or UPDATE)
+  // Writes go through the server, which checks the department scope again
   const markAttendance = async (
     memberId: number,
     status: "attend" | "absent",
     photoUrl?: string,
-    location?: LocationData,
-    userId?: number
+    location?: LocationData
   ) => {
     try {
       // Find the member
       const member = members.find((m) => m.member_id === memberId);
       if (!member) throw new Error("Member not found");
 
+      if (!canEdit("attendance", member.department)) {
+        throw new Error(
+          "You can only mark attendance for your own department"
+        );
+      }
+
       // Handle photo upload if base64
       let finalPhotoUrl = photoUrl || null;
       if (photoUrl && isBase64Image(photoUrl)) {
         finalPhotoUrl = await uploadAttendancePhoto(
           photoUrl,
-          memberId.toString(),
+          memberId,
           selectedDate
         );
       }
 
-      // Prepare attendance data
-      const attendanceData = {
-        committee_member_id: memberId,
-        attendance_date: selectedDate,
-        status,
-        photo_url: finalPhotoUrl,
-        latitude: location?.latitude || null,
-        longitude: location?.longitude || null,
-        accuracy: location?.accuracy || null,
-        address: location?.address || null,
-        check_in_time: status === "attend" ? new Date().toISOString() : null,
-        marked_by: userId || null,
-      };
-
-      if (member.attendance_id) {
-        // UPDATE existing record
-        const { error: updateError } = await supabase
-          .from("attendance")
-          .update(attendanceData)
-          .eq("id", member.attendance_id);
-
-        if (updateError) throw updateError;
-
-        // Update local state
-        setMembers((prev) =>
-          prev.map((m) =>
-            m.member_id === memberId
-              ? {
-                  ...m,
-                  status,
-                  photo_url: finalPhotoUrl,
-                  latitude: location?.latitude || null,
-                  longitude: location?.longitude || null,
-                  accuracy: location?.accuracy || null,
-                  address: location?.address || null,
-                  check_in_time:
-                    status === "attend" ? new Date().toISOString() : null,
-                }
-              : m
-          )
+      const response = await fetch("/api/attendance", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          memberId,
+          date: selectedDate,
+          status,
+          photoUrl: finalPhotoUrl,
+          location: location || null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      applyRecord(data.record as AttendanceRecord);
+    } catch (err) {
+      console.error("Error marking attendance:", err);
+      throw err;
+    }
+  };
+
+  // Check out a member who attended, with their own photo and location
+  const checkOut = async (
+    memberId: number,
+    photoUrl?: string,
+    location?: LocationData
+  ) => {
+    try {
+      const member = members.find((m) => m.member_id === memberId);
+      if (!member) throw new Error("Member not found");
+
+      if (!canEdit("attendance", member.department)) {
+        throw new Error(
+          "You can only mark attendance for your own department"
         );
-      } else {
-        // INSERT new record
-        const { data: newRecord, error: insertError } = await supabase
-          .from("attendance")
-          .insert(attendanceData)
-          .select()
-          .single();
-
-        if (insertError) throw insertError;
-
-        // Update local state with the new attendance_id
-        setMembers((prev) =>
-          prev.map((m) =>
-            m.member_id === memberId
-              ? {
-                  ...m,
-                  attendance_id: newRecord.id,
-                  status,
-                  photo_url: finalPhotoUrl,
-                  latitude: location?.latitude || null,
-                  longitude: location?.longitude || null,
-                  accuracy: location?.accuracy || null,
-                  address: location?.address || null,
-                  check_in_time:
-                    status === "attend" ? new Date().toISOString() : null,
-                }
-              : m
-          )
+      }
+
+      let finalPhotoUrl = photoUrl || null;
+      if (photoUrl && isBase64Image(photoUrl)) {
+        finalPhotoUrl = await uploadAttendancePhoto(
+          photoUrl,
+          memberId,
+          selectedDate
         );
       }
+
+      const response = await fetch("/api/attendance/check-out", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          memberId,
+          date: selectedDate,
+          photoUrl: finalPhotoUrl,
+          location: location || null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      applyRecord(data.record as AttendanceRecord);
     } catch (err) {
-      console.error("Error marking attendance:", err);
+      console.error("Error checking out:", err);
+      throw err;
+    }
+  };
+
+  const finalizeDay = async () => {
+    try {
+      const response = await fetch("/api/attendance/finalize", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date: selectedDate }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      await Promise.all([
+        fetchMembers(selectedDate, false),
+        fetchDaySettings(selectedDate),
+      ]);
+    } catch (err) {
+      console.error("Error finalizing day:", err);
       throw err;
     }
   };
 
   const refreshMembers = async () => {
-    await fetchMembers(selectedDate);
+    await Promise.all([
+      fetchMembers(selectedDate),
+      fetchDaySettings(selectedDate),
+    ]);
   };
 
   // Handle date change
@@ -304,19 +447,33 @@ export function AttendanceProvider({ children }: { children: ReactNode }) {
     setSelectedDate(date);
   };
 
+  // Only members in departments the user's role can view
+  const visibleMembers = members.filter((m) =>
+    canView("attendance", m.department)
+  );
+
+  // Inactive members are left out of the day's totals
+  const activeMembers = visibleMembers.filter((m) => m.is_active);
   const stats = {
-    total: members.length,
-    attend: members.filter((m) => m.status === "attend").length,
-    absent: members.filter((m) => m.status === "absent").length,
+    total: activeMembers.length,
+    attend: activeMembers.filter((m) => m.status === "attend").length,
+    late: activeMembers.filter((m) => m.status === "late").length,
+    excused: activeMembers.filter((m) => m.status === "excused").length,
+    absent: activeMembers.filter((m) => m.status === "absent").length,
+    notMarked: activeMembers.filter((m) => m.status === "not_marked").length,
   };
 
   return (
     <AttendanceContext.Provider
       value={{
-        members,
+        members: visibleMembers,
         selectedDate,
         setSelectedDate: handleSetSelectedDate,
+        reportingSchedule,
+        finalization,
         markAttendance,
+        checkOut,
+        finalizeDay,
         refreshMembers,
         isLoading,
         error,
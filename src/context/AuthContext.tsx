@@ -10,16 +10,17 @@ import {
   ReactNode,
 } from "react";
 import { useRouter } from "next/navigation";
-import bcrypt from "bcryptjs";
+import type { RealtimeChannel } from "@supabase/supabase-js";
 import { supabase } from "@/lib/supabase";
-import type { Department } from "@/types/database.types";
+import {
+  isDepartmentInScope,
+  type DepartmentScopes,
+  type PageKey,
+  type Permissions,
+} from "@/lib/permissions";
+import type { Department, UserRole } from "@/types/database.types";
 
-export type UserRole =
-  | "admin"
-  | "chairperson"
-  | "protocol"
-  | "registration_coordinator"
-  | "committee";
+export type { UserRole, Permission } from "@/types/database.types";
 
 interface User {
   id: number;
@@ -27,179 +28,236 @@ interface User {
   name: string;
   department: Department;
   role: UserRole;
-  sessionToken?: string;
+  twoFactorEnabled: boolean;
+  committeeMemberId: number | null;
+}
+
+// Display name, page permissions and department scopes of the user's role
+interface RoleAccess {
+  roleName: string;
+  permissions: Permissions;
+  departmentScopes: DepartmentScopes;
 }
 
-// Generate a unique session token
-function generateSessionToken(): string {
-  const timestamp = Date.now().toString(36);
-  const randomPart = Math.random().toString(36).substring(2, 15);
-  const randomPart2 = Math.random().toString(36).substring(2, 15);
-  return `${timestamp}-${randomPart}-${randomPart2}`;
+// Set while an admin is previewing the app as another role or user
+interface ViewAs {
+  // The admin who is really logged in
+  admin: User;
+  // True when previewing a specific user rather than a whole role
+  isUserPreview: boolean;
+  startedAt: string;
 }
 
-// Permission types for pages
-export type Permission = "full" | "view" | "none";
+// What an admin can preview: a whole role, or one user
+export type ViewAsTarget = { role: UserRole } | { userId: number };
 
-interface Permissions {
-  dashboard: Permission;
-  attendance: Permission;
-  teams: Permission;
-  profile: Permission;
-  userManagement: Permission;
+// Response from the session and login route handlers
+interface SessionResponse extends Partial<RoleAccess> {
+  // The previewed user during a view-as preview
+  user: User | null;
+  reason?: "unauthenticated" | "invalidated" | "expired";
+  error?: string;
+  // The password was correct but a verification code is still needed
+  twoFactorRequired?: boolean;
+  // The user's role requires 2FA and they have not set it up yet
+  twoFactorSetupRequired?: boolean;
+  // An admin asked for a new password, or the current one has expired
+  passwordChangeRequired?: boolean;
+  viewAs?: ViewAs | null;
 }
 
-// Role-based permissions configuration
-const ROLE_PERMISSIONS: Record<UserRole, Permissions> = {
-  admin: {
-    dashboard: "full",
-    attendance: "full",
-    teams: "full",
-    profile: "full",
-    userManagement: "full",
-  },
-  chairperson: {
-    dashboard: "full",
-    attendance: "full",
-    teams: "full",
-    profile: "full",
-    userManagement: "none",
-  },
-  protocol: {
-    dashboard: "full",
-    attendance: "full",
-    teams: "full",
-    profile: "full",
-    userManagement: "none",
-  },
-  registration_coordinator: {
-    dashboard: "full",
-    attendance: "view",
-    teams: "full",
-    profile: "full",
-    userManagement: "none",
-  },
-  committee: {
-    dashboard: "full",
-    attendance: "view",
-    teams: "view",
-    profile: "full",
-    userManagement: "none",
-  },
-};
+// Result of a login attempt
+export interface LoginResult {
+  success: boolean;
+  error?: string;
+  // Call verifyTwoFactor with the user's code to finish signing in
+  twoFactorRequired?: boolean;
+}
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
-  login: (username: string, password: string) => Promise<boolean>;
+  login: (username: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (code: string) => Promise<LoginResult>;
+  refreshSession: () => Promise<void>;
   logout: () => void;
   isAdmin: boolean;
+  roleName: string | null;
   permissions: Permissions | null;
-  canEdit: (page: keyof Permissions) => boolean;
-  canView: (page: keyof Permissions) => boolean;
+  canEdit: (page: PageKey, department?: Department) => boolean;
+  canView: (page: PageKey, department?: Department) => boolean;
+  getDepartmentScope: (page: PageKey) => Department[] | null;
   sessionInvalidated: boolean;
+  sessionExpired: boolean;
+  twoFactorSetupRequired: boolean;
+  passwordChangeRequired: boolean;
+  // Read-only preview; canEdit is false for every page while set
+  viewAs: ViewAs | null;
+  startViewAs: (target: ViewAsTarget) => Promise<LoginResult>;
+  stopViewAs: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Session validation interval (check every 10 seconds)
-const SESSION_CHECK_INTERVAL = 10000;
+// Fallback session validation interval (check every 5 minutes)
+// Invalidation is normally pushed over the user's realtime channel
+const SESSION_CHECK_INTERVAL = 5 * 60 * 1000;
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [roleAccess, setRoleAccess] = useState<RoleAccess | null>(null);
+  const [twoFactorSetupRequired, setTwoFactorSetupRequired] = useState(false);
+  const [passwordChangeRequired, setPasswordChangeRequired] = useState(false);
+  const [viewAs, setViewAs] = useState<ViewAs | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [sessionInvalidated, setSessionInvalidated] = useState(false);
+  const [sessionExpired, setSessionExpired] = useState(false);
   const sessionCheckRef = useRef<NodeJS.Timeout | null>(null);
+  const sessionChannelRef = useRef<RealtimeChannel | null>(null);
+  // Role whose permission changes the realtime channel is listening for
+  const sessionRoleRef = useRef<UserRole | null>(null);
   const router = useRouter();
 
-  // Validate session against database
-  const validateSession = useCallback(
-    async (userId: number, sessionToken: string): Promise<boolean> => {
-      try {
-        const { data, error } = await supabase
-          .from("users")
-          .select("session_token, status")
-          .eq("id", userId)
-          .single();
-
-        if (error || !data) {
-          return false;
-        }
-
-        // Check if user is still active and session token matches
-        if (data.status !== "active" || data.session_token !== sessionToken) {
-          return false;
-        }
-
-        return true;
-      } catch {
-        return false;
-      }
-    },
-    []
-  );
+  // Validate the session cookie on the server
+  const validateSession = useCallback(async (): Promise<SessionResponse> => {
+    try {
+      const response = await fetch("/api/auth/session", {
+        cache: "no-store",
+      });
+      return (await response.json()) as SessionResponse;
+    } catch {
+      // Network errors should not log the user out
+      return { user: null, reason: undefined };
+    }
+  }, []);
 
-  // Handle session invalidation (logout due to another login)
-  const handleSessionInvalidated = useCallback(() => {
-    setSessionInvalidated(true);
-    setUser(null);
-    localStorage.removeItem("funlish_user");
+  // Store the user and their role's permissions from a session response
+  const applySession = useCallback((session: SessionResponse) => {
+    setUser(session.user);
+    setRoleAccess(
+      session.user && session.roleName && session.permissions
+        ? {
+            roleName: session.roleName,
+            permissions: session.permissions,
+            departmentScopes: session.departmentScopes || {},
+          }
+        : null
+    );
+    setTwoFactorSetupRequired(
+      !!session.user && !!session.twoFactorSetupRequired
+    );
+    setPasswordChangeRequired(
+      !!session.user && !!session.passwordChangeRequired
+    );
+    setViewAs((session.user && session.viewAs) || null);
+  }, []);
 
-    // Clear the interval
+  // Stop polling and unsubscribe from session change events
+  const stopSessionValidation = useCallback(() => {
     if (sessionCheckRef.current) {
       clearInterval(sessionCheckRef.current);
       sessionCheckRef.current = null;
     }
+    if (sessionChannelRef.current) {
+      supabase.removeChannel(sessionChannelRef.current);
+      sessionChannelRef.current = null;
+    }
+    sessionRoleRef.current = null;
   }, []);
 
-  // Start session validation polling
-  const startSessionValidation = useCallback(
-    (userId: number, sessionToken: string) => {
-      // Clear any existing interval
-      if (sessionCheckRef.current) {
-        clearInterval(sessionCheckRef.current);
+  // Handle session invalidation (revoked elsewhere) or expiry (timed out)
+  const handleSessionInvalidated = useCallback(
+    (expired: boolean) => {
+      if (expired) {
+        setSessionExpired(true);
+      } else {
+        setSessionInvalidated(true);
       }
+      applySession({ user: null });
+      stopSessionValidation();
+    },
+    [applySession, stopSessionValidation]
+  );
 
-      // Set up periodic session validation
-      sessionCheckRef.current = setInterval(async () => {
-        const isValid = await validateSession(userId, sessionToken);
-        if (!isValid) {
-          handleSessionInvalidated();
+  // Start listening for session invalidation
+  const startSessionValidation = useCallback(
+    (userId: number, role: UserRole) => {
+      stopSessionValidation();
+      sessionRoleRef.current = role;
+
+      const checkSession = async () => {
+        const session = await validateSession();
+        if (session.reason) {
+          handleSessionInvalidated(session.reason === "expired");
+        } else if (session.user) {
+          // Pick up permission changes made since the last check
+          applySession(session);
         }
-      }, SESSION_CHECK_INTERVAL);
+      };
+
+      // The database broadcasts on this channel whenever one of the user's
+      // sessions is revoked or the account is edited or deactivated. The message is
+      // only a hint; the server decides whether this session is still valid.
+      sessionChannelRef.current = supabase
+        .channel(`user-sessions:${userId}`)
+        .on("broadcast", { event: "session_changed" }, () => {
+          checkSession();
+        })
+        // An admin changed what this role can access
+        .on(
+          "postgres_changes",
+          {
+            event: "*",
+            schema: "public",
+            table: "role_permissions",
+            filter: `role_key=eq.${role}`,
+          },
+          () => {
+            checkSession();
+          }
+        )
+        .on(
+          "postgres_changes",
+          {
+            event: "*",
+            schema: "public",
+            table: "role_department_scopes",
+            filter: `role_key=eq.${role}`,
+          },
+          () => {
+            checkSession();
+          }
+        )
+        .subscribe();
+
+      // Slow fallback in case a realtime message is missed
+      sessionCheckRef.current = setInterval(
+        checkSession,
+        SESSION_CHECK_INTERVAL
+      );
     },
-    [validateSession, handleSessionInvalidated]
+    [
+      validateSession,
+      applySession,
+      handleSessionInvalidated,
+      stopSessionValidation,
+    ]
   );
 
   // Check for existing session on mount
   useEffect(() => {
     const checkExistingSession = async () => {
-      const storedUser = localStorage.getItem("funlish_user");
-      if (storedUser) {
-        try {
-          const parsedUser = JSON.parse(storedUser) as User;
-
-          // Validate the session token
-          if (parsedUser.sessionToken) {
-            const isValid = await validateSession(
-              parsedUser.id,
-              parsedUser.sessionToken
-            );
-            if (isValid) {
-              setUser(parsedUser);
-              startSessionValidation(parsedUser.id, parsedUser.sessionToken);
-            } else {
-              // Session is invalid, clear storage
-              localStorage.removeItem("funlish_user");
-              setSessionInvalidated(true);
-            }
-          } else {
-            // Old session without token, need to re-login
-            localStorage.removeItem("funlish_user");
-          }
-        } catch {
-          localStorage.removeItem("funlish_user");
-        }
+      const session = await validateSession();
+      if (session.user) {
+        applySession(session);
+        startSessionValidation(
+          session.viewAs?.admin.id ?? session.user.id,
+          session.user.role
+        );
+      } else if (session.reason === "invalidated") {
+        setSessionInvalidated(true);
+      } else if (session.reason === "expired") {
+        setSessionExpired(true);
       }
       setIsLoading(false);
     };
@@ -207,134 +265,214 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     checkExistingSession();
 
     // Cleanup on unmount
-    return () => {
-      if (sessionCheckRef.current) {
-        clearInterval(sessionCheckRef.current);
-      }
-    };
-  }, [validateSession, startSessionValidation]);
+    return stopSessionValidation;
+  }, [
+    validateSession,
+    applySession,
+    startSessionValidation,
+    stopSessionValidation,
+  ]);
+
+  // An admin changed the user's role; listen for the new role's
+  // permission changes instead
+  useEffect(() => {
+    if (
+      user &&
+      sessionRoleRef.current &&
+      sessionRoleRef.current !== user.role
+    ) {
+      startSessionValidation(viewAs?.admin.id ?? user.id, user.role);
+    }
+  }, [user, viewAs, startSessionValidation]);
+
+  // Store a successful login response and start watching the session
+  const completeLogin = async (response: Response): Promise<LoginResult> => {
+    const data = (await response.json()) as SessionResponse;
+
+    if (response.ok && data.twoFactorRequired) {
+      return { success: false, twoFactorRequired: true };
+    }
+
+    if (!response.ok || !data.user) {
+      console.error("Login error:", data.error || "Login failed");
+      return {
+        success: false,
+        error: data.error || "Invalid username or password",
+      };
+    }
+
+    applySession(data);
+
+    // Start session validation
+    startSessionValidation(data.user.id, data.user.role);
+
+    return { success: true };
+  };
 
   const login = async (
     username: string,
     password: string
-  ): Promise<boolean> => {
+  ): Promise<LoginResult> => {
     try {
       // Reset session invalidated state
       setSessionInvalidated(false);
+      setSessionExpired(false);
+
+      // Credentials are verified and the session cookie is set on the server
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      return await completeLogin(response);
+    } catch (err) {
+      console.error("Login error:", err);
+      return {
+        success: false,
+        error: "An error occurred. Please try again.",
+      };
+    }
+  };
 
-      // Query Supabase for user with matching username
-      const { data, error } = await supabase
-        .from("users")
-        .select("id, username, password, name, department, role, status")
-        .eq("username", username)
-        .eq("status", "active")
-        .single();
-
-      if (error || !data) {
-        console.error("Login error:", error?.message || "User not found");
-        return false;
-      }
-
-      // Verify password using bcrypt
-      const isValidPassword = await bcrypt.compare(password, data.password);
-      if (!isValidPassword) {
-        console.error("Login error: Invalid password");
-        return false;
-      }
+  // Second login step for accounts with two-factor authentication
+  const verifyTwoFactor = async (code: string): Promise<LoginResult> => {
+    try {
+      const response = await fetch("/api/auth/login/two-factor", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      return await completeLogin(response);
+    } catch (err) {
+      console.error("Two-factor login error:", err);
+      return {
+        success: false,
+        error: "An error occurred. Please try again.",
+      };
+    }
+  };
 
-      // Generate new session token (this invalidates any previous session)
-      const newSessionToken = generateSessionToken();
+  // Reload the user from the server, e.g. after enrolling in 2FA
+  const refreshSession = async () => {
+    const session = await validateSession();
+    if (session.user) {
+      applySession(session);
+    }
+  };
 
-      // Update session token in database
-      const { error: updateError } = await supabase
-        .from("users")
-        .update({
-          session_token: newSessionToken,
-          session_updated_at: new Date().toISOString(),
-        })
-        .eq("id", data.id);
+  // Start or end a view-as preview, then reload what the browser sees
+  // The realtime filters follow the previewed role
+  const reloadViewAs = async () => {
+    const session = await validateSession();
+    if (session.user) {
+      applySession(session);
+      startSessionValidation(
+        session.viewAs?.admin.id ?? session.user.id,
+        session.user.role
+      );
+    }
+  };
 
-      if (updateError) {
-        console.error("Failed to update session token:", updateError);
-        return false;
+  const startViewAs = async (target: ViewAsTarget): Promise<LoginResult> => {
+    try {
+      const response = await fetch("/api/admin/view-as", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(target),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        return {
+          success: false,
+          error: data.error || "Failed to start preview",
+        };
       }
 
-      // Create user object without password but with session token
-      const loggedInUser: User = {
-        id: data.id,
-        username: data.username,
-        name: data.name,
-        department: data.department,
-        role: data.role as UserRole,
-        sessionToken: newSessionToken,
+      await reloadViewAs();
+      router.push("/dashboard");
+      return { success: true };
+    } catch (err) {
+      console.error("Error starting preview:", err);
+      return {
+        success: false,
+        error: "An error occurred. Please try again.",
       };
+    }
+  };
 
-      setUser(loggedInUser);
-      localStorage.setItem("funlish_user", JSON.stringify(loggedInUser));
-
-      // Start session validation
-      startSessionValidation(data.id, newSessionToken);
-
-      return true;
+  const stopViewAs = async () => {
+    try {
+      await fetch("/api/admin/view-as", { method: "DELETE" });
     } catch (err) {
-      console.error("Login error:", err);
-      return false;
+      console.error("Error ending preview:", err);
     }
+    await reloadViewAs();
   };
 
   const logout = async () => {
-    // Clear session token in database
-    if (user?.id) {
-      try {
-        await supabase
-          .from("users")
-          .update({
-            session_token: null,
-            session_updated_at: null,
-          })
-          .eq("id", user.id);
-      } catch (err) {
-        console.error("Error clearing session:", err);
-      }
-    }
+    // Stop listening first so our own revocation isn't reported as a kick-out
+    stopSessionValidation();
 
-    // Clear interval
-    if (sessionCheckRef.current) {
-      clearInterval(sessionCheckRef.current);
-      sessionCheckRef.current = null;
+    // Clear session token in database and remove the cookie
+    try {
+      await fetch("/api/auth/logout", { method: "POST" });
+    } catch (err) {
+      console.error("Error clearing session:", err);
     }
 
-    setUser(null);
+    applySession({ user: null });
     setSessionInvalidated(false);
-    localStorage.removeItem("funlish_user");
+    setSessionExpired(false);
     router.push("/login");
   };
 
   const isAdmin = user?.role === "admin";
-  const permissions = user ? ROLE_PERMISSIONS[user.role] : null;
+  const permissions = roleAccess?.permissions ?? null;
 
-  const canEdit = (page: keyof Permissions): boolean => {
-    if (!permissions) return false;
-    return permissions[page] === "full";
+  // Without a department, checks the page as a whole
+  const isInScope = (page: PageKey, department?: Department): boolean =>
+    !department ||
+    isDepartmentInScope(roleAccess?.departmentScopes || {}, page, department);
+
+  const canEdit = (page: PageKey, department?: Department): boolean => {
+    if (!permissions || viewAs) return false;
+    return permissions[page] === "full" && isInScope(page, department);
   };
 
-  const canView = (page: keyof Permissions): boolean => {
+  const canView = (page: PageKey, department?: Department): boolean => {
     if (!permissions) return false;
-    return permissions[page] === "full" || permissions[page] === "view";
+    return (
+      (permissions[page] === "full" || permissions[page] === "view") &&
+      isInScope(page, department)
+    );
   };
 
+  // Departments the user is limited to on a page, or null for all
+  const getDepartmentScope = (page: PageKey): Department[] | null =>
+    roleAccess?.departmentScopes[page] ?? null;
+
   return (
     <AuthContext.Provider
       value={{
         user,
         isLoading,
         login,
+        verifyTwoFactor,
+        refreshSession,
         logout,
         isAdmin,
+        roleName: roleAccess?.roleName ?? null,
         permissions,
         canEdit,
         canView,
+        getDepartmentScope,
         sessionInvalidated,
+        sessionExpired,
+        twoFactorSetupRequired,
+        passwordChangeRequired,
+        viewAs,
+        startViewAs,
+        stopViewAs,
       }}
     >
       {children}
@@ -349,15 +487,3 @@ export function useAuth() {
   }
   return context;
 }
-
-// Helper function to get role display name
-export function getRoleDisplayName(role: UserRole): string {
-  const displayNames: Record<UserRole, string> = {
-    admin: "Admin",
-    chairperson: "Chairperson",
-    protocol: "Protocol",
-    registration_coordinator: "Registration Coordinator",
-    committee: "Committee",
-  };
-  return displayNames[role];
-}
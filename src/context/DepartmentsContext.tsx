@@ -0,0 +1,99 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from "react";
+import { supabase } from "@/lib/supabase";
+import { DEFAULT_DEPARTMENT_COLOR } from "@/lib/departments";
+import type { Department, DepartmentRecord } from "@/types/database.types";
+
+interface DepartmentsContextType {
+  // Every department in display order
+  departments: DepartmentRecord[];
+  getDepartmentName: (department: Department) => string;
+  getDepartmentColor: (department: Department) => string;
+  refreshDepartments: () => Promise<void>;
+  isLoading: boolean;
+}
+
+const DepartmentsContext = createContext<DepartmentsContextType | undefined>(
+  undefined
+);
+
+export function DepartmentsProvider({ children }: { children: ReactNode }) {
+  const [departments, setDepartments] = useState<DepartmentRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchDepartments = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("departments")
+        .select("*")
+        .order("sort_order", { ascending: true });
+
+      if (error) throw error;
+
+      setDepartments(data || []);
+    } catch (err) {
+      console.error("Error fetching departments:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Load once and follow changes made from the departments editor
+  useEffect(() => {
+    fetchDepartments();
+
+    const channel = supabase
+      .channel("departments")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "departments" },
+        () => {
+          fetchDepartments();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchDepartments]);
+
+  // Unknown keys (e.g. while loading) fall back to the key itself
+  const getDepartmentName = (department: Department) =>
+    departments.find((d) => d.department_key === department)?.display_name ||
+    department;
+
+  const getDepartmentColor = (department: Department) =>
+    departments.find((d) => d.department_key === department)?.color ||
+    DEFAULT_DEPARTMENT_COLOR;
+
+  return (
+    <DepartmentsContext.Provider
+      value={{
+        departments,
+        getDepartmentName,
+        getDepartmentColor,
+        refreshDepartments: fetchDepartments,
+        isLoading,
+      }}
+    >
+      {children}
+    </DepartmentsContext.Provider>
+  );
+}
+
+export function useDepartments() {
+  const context = useContext(DepartmentsContext);
+  if (context === undefined) {
+    throw new Error("useDepartments must be used within a DepartmentsProvider");
+  }
+  return context;
+}
@@ -79,16 +79,15 @@ export function MaintenanceProvider({ children }: { children: ReactNode }) {
     try {
       const newValue = !isMaintenanceMode;
 
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const { error } = await (supabase.from("site_settings") as any)
-        .update({
-          setting_value: newValue.toString(),
-          updated_by: user.id,
-        })
-        .eq("setting_key", "maintenance_mode");
-
-      if (error) {
-        console.error("Error toggling maintenance mode:", error);
+      const response = await fetch("/api/admin/maintenance", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ maintenanceMode: newValue }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        console.error("Error toggling maintenance mode:", data.error);
         return false;
       }
 
@@ -109,16 +108,15 @@ export function MaintenanceProvider({ children }: { children: ReactNode }) {
       }
 
       try {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const { error } = await (supabase.from("site_settings") as any)
-          .update({
-            setting_value: message,
-            updated_by: user.id,
-          })
-          .eq("setting_key", "maintenance_message");
-
-        if (error) {
-          console.error("Error updating maintenance message:", error);
+        const response = await fetch("/api/admin/maintenance", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ maintenanceMessage: message }),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          console.error("Error updating maintenance message:", data.error);
           return false;
         }
 
@@ -0,0 +1,207 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import {
+  getFinalizationKey,
+  getReportingScheduleKey,
+  parseDayFinalization,
+  parseReportingSchedule,
+  type DayFinalization,
+  type ReportingSchedule,
+} from "@/lib/attendance";
+import {
+  getGeofenceKey,
+  parseGeofenceConfig,
+  type GeofenceConfig,
+} from "@/lib/geofence";
+import type { Database } from "@/types/database.types";
+
+/**
+ * Get the reporting schedule for a date
+ * Configured by the reporting_time:<date> row in site_settings
+ * @returns null if no reporting time is set, so nobody is late
+ */
+export async function getReportingSchedule(
+  date: string
+): Promise<ReportingSchedule | null> {
+  const { data } = await supabaseAdmin
+    .from("site_settings")
+    .select("setting_value")
+    .eq("setting_key", getReportingScheduleKey(date))
+    .maybeSingle();
+
+  return parseReportingSchedule(data?.setting_value);
+}
+
+/**
+ * Save or clear the reporting schedule for a date
+ * @param schedule - null removes the reporting time for the date
+ * @param db - Client to write with, e.g. from createAuditedClient()
+ * @param updatedBy - Admin making the change
+ * @returns Whether the setting was saved
+ */
+export async function saveReportingSchedule(
+  date: string,
+  schedule: ReportingSchedule | null,
+  db: SupabaseClient<Database>,
+  updatedBy: number
+): Promise<boolean> {
+  const settingKey = getReportingScheduleKey(date);
+  const { error } = schedule
+    ? await db.from("site_settings").upsert(
+        {
+          setting_key: settingKey,
+          setting_value: JSON.stringify(schedule),
+          updated_by: updatedBy,
+        },
+        { onConflict: "setting_key" }
+      )
+    : await db.from("site_settings").delete().eq("setting_key", settingKey);
+
+  if (error) {
+    console.error(`Failed to update ${settingKey}:`, error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Get who finalized a date's attendance
+ * @returns null if the day has not been finalized
+ */
+export async function getDayFinalization(
+  date: string
+): Promise<DayFinalization | null> {
+  const { data } = await supabaseAdmin
+    .from("site_settings")
+    .select("setting_value")
+    .eq("setting_key", getFinalizationKey(date))
+    .maybeSingle();
+
+  return parseDayFinalization(data?.setting_value);
+}
+
+/**
+ * Record that a date's attendance was finalized
+ * Inserts the setting, so only one of two finalizations running at once
+ * succeeds
+ * @param db - Client to write with, e.g. from createAuditedClient()
+ * @returns "finalized" if the date was already finalized, "failed" on any
+ * other error
+ */
+export async function saveDayFinalization(
+  date: string,
+  finalization: DayFinalization,
+  db: SupabaseClient<Database>
+): Promise<"saved" | "finalized" | "failed"> {
+  const settingKey = getFinalizationKey(date);
+  const { error } = await db.from("site_settings").insert({
+    setting_key: settingKey,
+    setting_value: JSON.stringify(finalization),
+    updated_by: finalization.finalizedBy,
+  });
+
+  // setting_key is unique
+  if (error?.code === "23505") {
+    return "finalized";
+  }
+
+  if (error) {
+    console.error(`Failed to update ${settingKey}:`, error);
+    return "failed";
+  }
+
+  return "saved";
+}
+
+/**
+ * Update a saved finalization, e.g. with the final absent count
+ * @param db - Client to write with, e.g. from createAuditedClient()
+ * @returns Whether the setting was saved
+ */
+export async function updateDayFinalization(
+  date: string,
+  finalization: DayFinalization,
+  db: SupabaseClient<Database>
+): Promise<boolean> {
+  const settingKey = getFinalizationKey(date);
+  const { error } = await db
+    .from("site_settings")
+    .update({ setting_value: JSON.stringify(finalization) })
+    .eq("setting_key", settingKey);
+
+  if (error) {
+    console.error(`Failed to update ${settingKey}:`, error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Remove a date's finalization, e.g. when finishing it failed
+ * @param db - Client to write with, e.g. from createAuditedClient()
+ */
+export async function clearDayFinalization(
+  date: string,
+  db: SupabaseClient<Database>
+): Promise<void> {
+  const settingKey = getFinalizationKey(date);
+  const { error } = await db
+    .from("site_settings")
+    .delete()
+    .eq("setting_key", settingKey);
+
+  if (error) {
+    console.error(`Failed to update ${settingKey}:`, error);
+  }
+}
+
+/**
+ * Get the venue geofences for a date
+ * @returns null if no venues are set, so check-ins are not checked
+ */
+export async function getGeofenceConfig(
+  date: string
+): Promise<GeofenceConfig | null> {
+  const { data } = await supabaseAdmin
+    .from("site_settings")
+    .select("setting_value")
+    .eq("setting_key", getGeofenceKey(date))
+    .maybeSingle();
+
+  return parseGeofenceConfig(data?.setting_value);
+}
+
+/**
+ * Save or clear the venue geofences for a date
+ * @param config - null removes the date's venues
+ * @param db - Client to write with, e.g. from createAuditedClient()
+ * @param updatedBy - Admin making the change
+ * @returns Whether the setting was saved
+ */
+export async function saveGeofenceConfig(
+  date: string,
+  config: GeofenceConfig | null,
+  db: SupabaseClient<Database>,
+  updatedBy: number
+): Promise<boolean> {
+  const settingKey = getGeofenceKey(date);
+  const { error } = config
+    ? await db.from("site_settings").upsert(
+        {
+          setting_key: settingKey,
+          setting_value: JSON.stringify(config),
+          updated_by: updatedBy,
+        },
+        { onConflict: "setting_key" }
+      )
+    : await db.from("site_settings").delete().eq("setting_key", settingKey);
+
+  if (error) {
+    console.error(`Failed to update ${settingKey}:`, error);
+    return false;
+  }
+
+  return true;
+}
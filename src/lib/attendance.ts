@@ -0,0 +1,155 @@
+import type { AttendanceStatus } from "@/types/database.types";
+
+// A member's status on a date as shown in the app; "not_marked" means there
+// is no attendance record yet, which finalizing the day turns into absent
+export type MemberAttendanceStatus = AttendanceStatus | "not_marked";
+
+export const ATTENDANCE_STATUS_LABELS: Record<MemberAttendanceStatus, string> =
+  {
+    attend: "Attend",
+    late: "Late",
+    excused: "Excused",
+    absent: "Absent",
+    not_marked: "Not Marked",
+  };
+
+// When members are due on a date; checking in after reportingTime plus
+// graceMinutes records the member as late
+export interface ReportingSchedule {
+  // Malaysia time (UTC+8), e.g. "08:00"
+  reportingTime: string;
+  graceMinutes: number;
+}
+
+export const DEFAULT_GRACE_MINUTES = 15;
+
+export const MAX_GRACE_MINUTES = 240;
+
+// 24-hour "HH:MM"
+export const REPORTING_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * site_settings key holding the reporting schedule for a date
+ * @example "reporting_time:2025-01-31"
+ */
+export function getReportingScheduleKey(date: string): string {
+  return `reporting_time:${date}`;
+}
+
+/**
+ * Parse a reporting schedule stored in site_settings
+ * @returns null if the value is missing or malformed
+ */
+export function parseReportingSchedule(
+  value: string | null | undefined
+): ReportingSchedule | null {
+  if (!value) return null;
+
+  try {
+    const parsed = JSON.parse(value) as Partial<ReportingSchedule>;
+    if (
+      typeof parsed.reportingTime !== "string" ||
+      !REPORTING_TIME_PATTERN.test(parsed.reportingTime)
+    ) {
+      return null;
+    }
+    return {
+      reportingTime: parsed.reportingTime,
+      graceMinutes:
+        typeof parsed.graceMinutes === "number" &&
+        Number.isInteger(parsed.graceMinutes) &&
+        parsed.graceMinutes >= 0
+          ? parsed.graceMinutes
+          : DEFAULT_GRACE_MINUTES,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Who closed off a date's attendance, stored when the day is finalized
+export interface DayFinalization {
+  finalizedAt: string;
+  finalizedBy: number;
+  finalizedByName: string;
+  // Unmarked members recorded as absent
+  markedAbsent: number;
+}
+
+/**
+ * site_settings key recording that a date's attendance was finalized
+ * @example "attendance_finalized:2025-01-31"
+ */
+export function getFinalizationKey(date: string): string {
+  return `attendance_finalized:${date}`;
+}
+
+/**
+ * Parse a day finalization stored in site_settings
+ * @returns null if the day has not been finalized or the value is malformed
+ */
+export function parseDayFinalization(
+  value: string | null | undefined
+): DayFinalization | null {
+  if (!value) return null;
+
+  try {
+    const parsed = JSON.parse(value) as Partial<DayFinalization>;
+    if (
+      typeof parsed.finalizedAt !== "string" ||
+      typeof parsed.finalizedBy !== "number" ||
+      typeof parsed.finalizedByName !== "string"
+    ) {
+      return null;
+    }
+    return {
+      finalizedAt: parsed.finalizedAt,
+      finalizedBy: parsed.finalizedBy,
+      finalizedByName: parsed.finalizedByName,
+      markedAbsent:
+        typeof parsed.markedAbsent === "number" ? parsed.markedAbsent : 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The last moment a member can check in on a date without being late
+ */
+export function getLateAfter(date: string, schedule: ReportingSchedule): Date {
+  const reportingAt = new Date(`${date}T${schedule.reportingTime}:00+08:00`);
+  return new Date(reportingAt.getTime() + schedule.graceMinutes * 60000);
+}
+
+/**
+ * Whether a check-in counts as present, on time or not
+ */
+export function isPresent(status: MemberAttendanceStatus): boolean {
+  return status === "attend" || status === "late";
+}
+
+/**
+ * Minutes a member was on duty, from check-in to check-out
+ * @returns null until the member has both checked in and checked out
+ */
+export function getOnDutyMinutes(
+  checkInTime: string | null,
+  checkOutTime: string | null
+): number | null {
+  if (!checkInTime || !checkOutTime) return null;
+
+  const minutes = Math.round(
+    (new Date(checkOutTime).getTime() - new Date(checkInTime).getTime()) / 60000
+  );
+  return minutes >= 0 ? minutes : null;
+}
+
+/**
+ * Format a number of minutes as hours and minutes, e.g. "7h 05m"
+ */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `${hours}h ${String(rest).padStart(2, "0")}m`;
+}
@@ -0,0 +1,52 @@
+import { createClient } from "@supabase/supabase-js";
+import type { SessionUser } from "@/lib/auth-server";
+import type { Database } from "@/types/database.types";
+
+// Server-only, like supabase-admin.ts
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+/**
+ * Work out which page a change was made from
+ * Uses the Referer when it is one of our pages, otherwise the API path
+ */
+export function getAuditSource(request: Request): string {
+  const requestUrl = new URL(request.url);
+  const referer = request.headers.get("referer");
+
+  if (referer) {
+    try {
+      const refererUrl = new URL(referer);
+      if (refererUrl.origin === requestUrl.origin) {
+        return refererUrl.pathname;
+      }
+    } catch {
+      // Ignore malformed Referer headers
+    }
+  }
+
+  return requestUrl.pathname;
+}
+
+/**
+ * Create a service role client whose writes are attributed to a user
+ * The write_audit_log() trigger reads these headers to fill in the actor
+ * and source page of each audit_log entry
+ * @param actor - Logged in user making the change
+ * @param request - Incoming request, used to find the source page
+ */
+export function createAuditedClient(actor: SessionUser, request: Request) {
+  return createClient<Database>(supabaseUrl, supabaseServiceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+    global: {
+      headers: {
+        "x-audit-actor-id": String(actor.id),
+        "x-audit-actor": actor.username,
+        "x-audit-source": getAuditSource(request),
+      },
+    },
+  });
+}
@@ -0,0 +1,614 @@
+import { cookies } from "next/headers";
+import type { NextResponse } from "next/server";
+import bcrypt from "bcryptjs";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import {
+  SESSION_COOKIE_NAME,
+  signSession,
+  verifySession,
+  type SessionPayload,
+} from "@/lib/session";
+import {
+  ADMIN_ROLE,
+  buildDepartmentScopes,
+  buildPermissions,
+  type DepartmentScopes,
+  type PageKey,
+  type Permissions,
+} from "@/lib/permissions";
+import { isPasswordChangeRequired } from "@/lib/passwords";
+import { isTwoFactorRequired } from "@/lib/two-factor";
+import { recordViewAsWriteBlocked } from "@/lib/view-as";
+import type { Department, UserRole } from "@/types/database.types";
+
+// User shape returned to the browser (never includes password or token)
+export interface SessionUser {
+  id: number;
+  username: string;
+  name: string;
+  department: Department;
+  role: UserRole;
+  twoFactorEnabled: boolean;
+  // The user's committee roster entry, if an admin has linked one
+  committeeMemberId: number | null;
+}
+
+// Columns needed to build a SessionUser
+const SESSION_USER_COLUMNS =
+  "id, username, name, department, role, status, totp_enabled, committee_member_id";
+
+// Why a session lookup failed
+// - unauthenticated: no cookie, or the cookie is not ours
+// - invalidated: the session was revoked or the account deactivated
+// - expired: the session passed its absolute lifetime or idle timeout
+export type SessionFailureReason =
+  "unauthenticated" | "invalidated" | "expired";
+
+// Session lifetime configuration from site_settings
+export interface SessionSettings {
+  absoluteLifetimeMs: number;
+  idleTimeoutMs: number;
+}
+
+// What the user's role is allowed to do, sent to the browser with the user
+export interface RoleAccess {
+  roleName: string;
+  permissions: Permissions;
+  departmentScopes: DepartmentScopes;
+}
+
+// A logged in user whose role may edit a page, with their role's access
+export interface EditorSession {
+  user: SessionUser;
+  access: RoleAccess;
+}
+
+// An admin previewing the app as another role or user (read-only)
+export interface ViewAs {
+  role: UserRole;
+  // Set when previewing a specific user rather than a whole role
+  user: SessionUser | null;
+  startedAt: string;
+}
+
+export type SessionResult =
+  | {
+      user: SessionUser;
+      payload: SessionPayload;
+      sessionId: number;
+      viewAs: ViewAs | null;
+      reason?: undefined;
+    }
+  | {
+      user: null;
+      payload: null;
+      sessionId: null;
+      viewAs: null;
+      reason: SessionFailureReason;
+    };
+
+// Fallback session limits if site_settings has no max_sessions_per_role row
+const DEFAULT_MAX_SESSIONS: Record<UserRole, number> = {
+  admin: 3,
+  chairperson: 2,
+  protocol: 2,
+  registration_coordinator: 2,
+  committee: 1,
+};
+
+// Session limit for roles not listed in the setting or the defaults above
+const DEFAULT_MAX_SESSIONS_OTHER = 1;
+
+// Fallback lifetimes if the site_settings rows are missing
+const DEFAULT_ABSOLUTE_LIFETIME_HOURS = 168;
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 120;
+
+// Only write last_seen_at once per minute to avoid a write on every request
+const LAST_SEEN_UPDATE_INTERVAL = 60 * 1000;
+
+// Generate a 256-bit session token from the CSPRNG (hex encoded)
+export function generateSessionToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+// Hash a session token for storage (SHA-256, hex encoded)
+export async function hashSessionToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token)
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * Verify a username and password against the database
+ * This is the only place password hashes are read; they never leave the server
+ * @param username - Username as typed by the user
+ * @param password - Plain text password to check
+ * @returns The matching active user, or null if the credentials are invalid
+ */
+export async function verifyCredentials(
+  username: string,
+  password: string
+): Promise<SessionUser | null> {
+  const { data, error } = await supabaseAdmin
+    .from("users")
+    .select(`${SESSION_USER_COLUMNS}, password`)
+    .eq("username", username.toLowerCase().trim())
+    .eq("status", "active")
+    .is("deleted_at", null)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  const isValidPassword = await bcrypt.compare(password, data.password);
+  if (!isValidPassword) {
+    return null;
+  }
+
+  return {
+    id: data.id,
+    username: data.username,
+    name: data.name,
+    department: data.department,
+    role: data.role,
+    twoFactorEnabled: data.totp_enabled,
+    committeeMemberId: data.committee_member_id,
+  };
+}
+
+/**
+ * Look up an active user by ID
+ * Used to finish a login once the second factor is verified
+ */
+export async function getActiveUser(
+  userId: number
+): Promise<SessionUser | null> {
+  const { data, error } = await supabaseAdmin
+    .from("users")
+    .select(SESSION_USER_COLUMNS)
+    .eq("id", userId)
+    .eq("status", "active")
+    .is("deleted_at", null)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return {
+    id: data.id,
+    username: data.username,
+    name: data.name,
+    department: data.department,
+    role: data.role,
+    twoFactorEnabled: data.totp_enabled,
+    committeeMemberId: data.committee_member_id,
+  };
+}
+
+/**
+ * Build a short device description from a user agent string
+ * @example "Chrome on Android", "Safari on iPhone"
+ */
+export function getDeviceLabel(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+
+  let browser = "Browser";
+  if (/Edg\//.test(userAgent)) browser = "Edge";
+  else if (/OPR\/|Opera/.test(userAgent)) browser = "Opera";
+  else if (/SamsungBrowser/.test(userAgent)) browser = "Samsung Internet";
+  else if (/Chrome\/|CriOS/.test(userAgent)) browser = "Chrome";
+  else if (/Firefox\/|FxiOS/.test(userAgent)) browser = "Firefox";
+  else if (/Safari\//.test(userAgent)) browser = "Safari";
+
+  let platform = "Unknown OS";
+  if (/iPhone/.test(userAgent)) platform = "iPhone";
+  else if (/iPad/.test(userAgent)) platform = "iPad";
+  else if (/Android/.test(userAgent)) platform = "Android";
+  else if (/Windows/.test(userAgent)) platform = "Windows";
+  else if (/Mac OS X|Macintosh/.test(userAgent)) platform = "Mac";
+  else if (/Linux/.test(userAgent)) platform = "Linux";
+
+  return `${browser} on ${platform}`;
+}
+
+/**
+ * Get the maximum number of concurrent sessions allowed for a role
+ * Configured by the max_sessions_per_role row in site_settings
+ */
+export async function getMaxSessions(role: UserRole): Promise<number> {
+  const { data } = await supabaseAdmin
+    .from("site_settings")
+    .select("setting_value")
+    .eq("setting_key", "max_sessions_per_role")
+    .single();
+
+  if (data) {
+    try {
+      const limits = JSON.parse(data.setting_value) as Partial<
+        Record<UserRole, number>
+      >;
+      const limit = limits[role];
+      if (typeof limit === "number" && limit > 0) {
+        return limit;
+      }
+    } catch {
+      console.error("Invalid max_sessions_per_role setting");
+    }
+  }
+
+  return DEFAULT_MAX_SESSIONS[role] ?? DEFAULT_MAX_SESSIONS_OTHER;
+}
+
+/**
+ * Get a role's display name, per-page permissions and department scopes
+ * from the roles tables. Unknown roles get no access
+ */
+export async function getRoleAccess(role: UserRole): Promise<RoleAccess> {
+  const [{ data: roleRow }, { data: permissionRows }, { data: scopeRows }] =
+    await Promise.all([
+      supabaseAdmin
+        .from("roles")
+        .select("display_name")
+        .eq("role_key", role)
+        .maybeSingle(),
+      supabaseAdmin
+        .from("role_permissions")
+        .select("page_key, permission")
+        .eq("role_key", role),
+      supabaseAdmin
+        .from("role_department_scopes")
+        .select("page_key, department")
+        .eq("role_key", role),
+    ]);
+
+  return {
+    roleName: roleRow?.display_name || role,
+    permissions: buildPermissions(permissionRows || []),
+    departmentScopes: buildDepartmentScopes(scopeRows || []),
+  };
+}
+
+/**
+ * Get the absolute lifetime and idle timeout for sessions
+ * Configured by session_absolute_lifetime_hours and
+ * session_idle_timeout_minutes in site_settings
+ */
+export async function getSessionSettings(): Promise<SessionSettings> {
+  const { data } = await supabaseAdmin
+    .from("site_settings")
+    .select("setting_key, setting_value")
+    .in("setting_key", [
+      "session_absolute_lifetime_hours",
+      "session_idle_timeout_minutes",
+    ]);
+
+  let lifetimeHours = DEFAULT_ABSOLUTE_LIFETIME_HOURS;
+  let idleMinutes = DEFAULT_IDLE_TIMEOUT_MINUTES;
+
+  (data || []).forEach((setting) => {
+    const value = Number(setting.setting_value);
+    if (!Number.isFinite(value) || value <= 0) return;
+
+    if (setting.setting_key === "session_absolute_lifetime_hours") {
+      lifetimeHours = value;
+    } else if (setting.setting_key === "session_idle_timeout_minutes") {
+      idleMinutes = value;
+    }
+  });
+
+  return {
+    absoluteLifetimeMs: lifetimeHours * 60 * 60 * 1000,
+    idleTimeoutMs: idleMinutes * 60 * 1000,
+  };
+}
+
+/**
+ * Read the session cookie and validate it against the database
+ * @returns The logged in user, or the reason there is none
+ */
+export async function getSession(): Promise<SessionResult> {
+  const cookieStore = await cookies();
+  const payload = await verifySession(
+    cookieStore.get(SESSION_COOKIE_NAME)?.value
+  );
+
+  if (!payload) {
+    return {
+      user: null,
+      payload: null,
+      sessionId: null,
+      viewAs: null,
+      reason: "unauthenticated",
+    };
+  }
+
+  // A missing session row means it was revoked or pushed out by the limit
+  const tokenHash = await hashSessionToken(payload.token);
+  const { data: session } = await supabaseAdmin
+    .from("user_sessions")
+    .select(
+      "id, user_id, last_seen_at, expires_at, view_as_role, view_as_user_id, view_as_started_at"
+    )
+    .eq("token_hash", tokenHash)
+    .single();
+
+  if (!session || session.user_id !== payload.userId) {
+    return {
+      user: null,
+      payload: null,
+      sessionId: null,
+      viewAs: null,
+      reason: "invalidated",
+    };
+  }
+
+  // Reject sessions past their absolute lifetime or idle timeout
+  const { idleTimeoutMs } = await getSessionSettings();
+  const now = Date.now();
+  const lastSeen = new Date(session.last_seen_at).getTime();
+  if (
+    now >= new Date(session.expires_at).getTime() ||
+    now - lastSeen > idleTimeoutMs
+  ) {
+    await supabaseAdmin.from("user_sessions").delete().eq("id", session.id);
+    return {
+      user: null,
+      payload: null,
+      sessionId: null,
+      viewAs: null,
+      reason: "expired",
+    };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("users")
+    .select(SESSION_USER_COLUMNS)
+    .eq("id", payload.userId)
+    .is("deleted_at", null)
+    .single();
+
+  if (error || !data) {
+    return {
+      user: null,
+      payload: null,
+      sessionId: null,
+      viewAs: null,
+      reason: "unauthenticated",
+    };
+  }
+
+  // Deactivated users lose all their sessions
+  if (data.status !== "active") {
+    return {
+      user: null,
+      payload: null,
+      sessionId: null,
+      viewAs: null,
+      reason: "invalidated",
+    };
+  }
+
+  // Slide the idle timeout forward
+  if (now - lastSeen > LAST_SEEN_UPDATE_INTERVAL) {
+    await supabaseAdmin
+      .from("user_sessions")
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq("id", session.id);
+  }
+
+  // Previews only count while the account is still an admin
+  let viewAs: ViewAs | null = null;
+  if (data.role === ADMIN_ROLE && session.view_as_role) {
+    const previewedUser = session.view_as_user_id
+      ? await getActiveUser(session.view_as_user_id)
+      : null;
+    // A previewed user who was deactivated or deleted ends the preview
+    if (!session.view_as_user_id || previewedUser) {
+      viewAs = {
+        role: previewedUser?.role ?? session.view_as_role,
+        user: previewedUser,
+        startedAt: session.view_as_started_at || new Date().toISOString(),
+      };
+    }
+  }
+
+  return {
+    user: {
+      id: data.id,
+      username: data.username,
+      name: data.name,
+      department: data.department,
+      role: data.role,
+      twoFactorEnabled: data.totp_enabled,
+      committeeMemberId: data.committee_member_id,
+    },
+    payload,
+    sessionId: session.id,
+    viewAs,
+  };
+}
+
+/**
+ * Get who the app is shown as: the previewed user or role during a
+ * view-as preview, otherwise the logged in user
+ */
+export function getEffectiveUser(
+  user: SessionUser,
+  viewAs: ViewAs | null
+): SessionUser {
+  if (!viewAs) return user;
+  return viewAs.user ?? { ...user, role: viewAs.role };
+}
+
+/**
+ * Check whether a user still has to enroll in two-factor authentication
+ * before they can use the system
+ */
+export async function isTwoFactorSetupRequired(
+  user: SessionUser
+): Promise<boolean> {
+  return !user.twoFactorEnabled && (await isTwoFactorRequired(user.role));
+}
+
+/**
+ * Check whether a user still has to secure their account before using the
+ * system: enroll in 2FA, or replace a forced or expired password
+ */
+export async function isAccountSetupPending(
+  user: SessionUser
+): Promise<boolean> {
+  return (
+    (await isTwoFactorSetupRequired(user)) ||
+    (await isPasswordChangeRequired(user.id))
+  );
+}
+
+/**
+ * Get the logged in user if they are an admin
+ * Admins who still have to set up 2FA or change their password are
+ * refused, as are admins previewing as another role, who only see what
+ * that role sees
+ * @returns The admin user, or null for anyone else
+ */
+export async function getAdminSession(): Promise<SessionUser | null> {
+  const { user, viewAs } = await getSession();
+  if (!user || user.role !== "admin" || viewAs) {
+    return null;
+  }
+  if (await isAccountSetupPending(user)) {
+    return null;
+  }
+  return user;
+}
+
+/**
+ * Get the logged in user if their role has full permission on a page
+ * Route handlers use this before writing with the service role key, since
+ * the browser's anon key can no longer write to these tables
+ * View-as previews are read-only, so every write during one is refused
+ * @returns The user and their role's access, or null if not allowed
+ */
+export async function getEditorSession(
+  page: PageKey
+): Promise<EditorSession | null> {
+  const { user, viewAs } = await getSession();
+  if (!user) {
+    return null;
+  }
+  if (viewAs) {
+    await recordViewAsWriteBlocked(user, viewAs, `Change on the ${page} page`);
+    return null;
+  }
+  if (await isAccountSetupPending(user)) {
+    return null;
+  }
+
+  const access = await getRoleAccess(user.role);
+  if (access.permissions[page] !== "full") {
+    return null;
+  }
+
+  return { user, access };
+}
+
+/**
+ * Create a session for this device and attach the session cookie
+ * If the user is over their role's session limit, the least recently
+ * used sessions are revoked
+ */
+export async function startSession(
+  response: NextResponse,
+  user: SessionUser,
+  userAgent: string | null
+): Promise<boolean> {
+  const token = generateSessionToken();
+  const { absoluteLifetimeMs } = await getSessionSettings();
+
+  // Only the hash is stored; the plain token lives in the signed cookie
+  const { error } = await supabaseAdmin.from("user_sessions").insert({
+    user_id: user.id,
+    token_hash: await hashSessionToken(token),
+    device_label: getDeviceLabel(userAgent),
+    user_agent: userAgent,
+    expires_at: new Date(Date.now() + absoluteLifetimeMs).toISOString(),
+  });
+
+  if (error) {
+    console.error("Failed to create session:", error);
+    return false;
+  }
+
+  // Enforce the per-role session limit
+  const maxSessions = await getMaxSessions(user.role);
+  const { data: sessions } = await supabaseAdmin
+    .from("user_sessions")
+    .select("id")
+    .eq("user_id", user.id)
+    .order("last_seen_at", { ascending: false });
+
+  const overflow = (sessions || []).slice(maxSessions).map((s) => s.id);
+  if (overflow.length > 0) {
+    await supabaseAdmin.from("user_sessions").delete().in("id", overflow);
+  }
+
+  await setSessionCookie(
+    response,
+    { userId: user.id, role: user.role, token, issuedAt: Date.now() },
+    absoluteLifetimeMs
+  );
+
+  return true;
+}
+
+async function setSessionCookie(
+  response: NextResponse,
+  payload: SessionPayload,
+  maxAgeMs: number
+) {
+  response.cookies.set(SESSION_COOKIE_NAME, await signSession(payload), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: Math.floor(maxAgeMs / 1000),
+  });
+}
+
+/**
+ * Re-issue the session cookie with the user's current role
+ * The middleware guards admin pages by the role in the cookie, so this
+ * runs when an admin has changed the role since the cookie was signed
+ */
+export async function refreshSessionCookieRole(
+  response: NextResponse,
+  payload: SessionPayload,
+  role: UserRole
+) {
+  const { absoluteLifetimeMs } = await getSessionSettings();
+  const remainingMs = payload.issuedAt + absoluteLifetimeMs - Date.now();
+  if (remainingMs <= 0) return;
+
+  await setSessionCookie(response, { ...payload, role }, remainingMs);
+}
+
+/**
+ * Remove the session cookie from the response
+ */
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE_NAME, "", {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,97 @@
+// Matching login users to their committee roster entries by name, shared
+// by the users page and the match route
+import type { Department } from "@/types/database.types";
+
+// A suggested link between a login user and a roster entry
+export interface CommitteeMatch {
+  userId: number;
+  userName: string;
+  username: string;
+  memberId: number;
+  memberName: string;
+  memberDepartment: Department;
+}
+
+interface MatchableUser {
+  id: number;
+  name: string;
+  username: string;
+  department: Department;
+  committee_member_id: number | null;
+}
+
+interface MatchableMember {
+  id: number;
+  name: string;
+  department: Department;
+}
+
+/**
+ * Normalise a name for comparison: case, spacing and punctuation are ignored
+ * @example "Nur  Aisyah binti Rahman." and "nur aisyah binti rahman"
+ */
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Suggest links for unlinked users whose name matches exactly one unlinked
+ * roster entry
+ * When several entries share the name, the one in the user's department is
+ * used; names that stay ambiguous are left for the admin to link by hand
+ */
+export function findCommitteeMatches(
+  users: MatchableUser[],
+  members: MatchableMember[]
+): CommitteeMatch[] {
+  const linkedMemberIds = new Set(
+    users.map((user) => user.committee_member_id).filter((id) => id !== null)
+  );
+
+  const membersByName = new Map<string, MatchableMember[]>();
+  members
+    .filter((member) => !linkedMemberIds.has(member.id))
+    .forEach((member) => {
+      const key = normalizeName(member.name);
+      membersByName.set(key, [...(membersByName.get(key) || []), member]);
+    });
+
+  const matches = users
+    .filter((user) => user.committee_member_id === null)
+    .flatMap((user): CommitteeMatch[] => {
+      const candidates = membersByName.get(normalizeName(user.name)) || [];
+      const sameDepartment = candidates.filter(
+        (member) => member.department === user.department
+      );
+      const member =
+        candidates.length === 1
+          ? candidates[0]
+          : sameDepartment.length === 1
+            ? sameDepartment[0]
+            : null;
+
+      return member
+        ? [
+            {
+              userId: user.id,
+              userName: user.name,
+              username: user.username,
+              memberId: member.id,
+              memberName: member.name,
+              memberDepartment: member.department,
+            },
+          ]
+        : [];
+    });
+
+  // Two users claiming the same entry are ambiguous too
+  const claims = new Map<number, number>();
+  matches.forEach((match) =>
+    claims.set(match.memberId, (claims.get(match.memberId) || 0) + 1)
+  );
+  return matches.filter((match) => claims.get(match.memberId) === 1);
+}
@@ -0,0 +1,95 @@
+// Committee roster CSV import and export, shared by the roster page
+// (reading and writing files) and the import route (validating rows)
+import type { CsvRow } from "@/lib/csv";
+import type {
+  CommitteeMember,
+  CommitteeMemberStatus,
+  Department,
+} from "@/types/database.types";
+
+// Largest file accepted in one import
+export const MAX_ROSTER_IMPORT_ROWS = 500;
+
+// Columns of the roster file, in export order; status is optional and
+// defaults to active
+export const ROSTER_COLUMNS = ["name", "department", "status"] as const;
+
+type RosterColumn = (typeof ROSTER_COLUMNS)[number];
+
+// One data row of the import file, as typed
+export interface RosterImportRow {
+  // Line of the file the row starts on, counting the header as line 1
+  line: number;
+  name: string;
+  department: string;
+  status: string;
+}
+
+// A row after validation; department is resolved to its key
+export interface RosterImportPreviewRow {
+  line: number;
+  name: string;
+  department: Department | null;
+  status: CommitteeMemberStatus;
+  errors: string[];
+}
+
+/**
+ * Read the rows of a roster file
+ * The header row names the columns, in any order and any case
+ * @returns The rows, or an error if the file cannot be used
+ */
+export function readRosterCsv(table: CsvRow[]): {
+  rows: RosterImportRow[];
+  error?: string;
+} {
+  if (table.length < 2) {
+    return { rows: [], error: "The file has no rows to import" };
+  }
+
+  const header = table[0].fields.map((column) => column.trim().toLowerCase());
+  const columnIndex = Object.fromEntries(
+    ROSTER_COLUMNS.map((column) => [column, header.indexOf(column)])
+  ) as Record<RosterColumn, number>;
+
+  const missing = ROSTER_COLUMNS.filter(
+    (column) => column !== "status" && columnIndex[column] === -1
+  );
+  if (missing.length > 0) {
+    return {
+      rows: [],
+      error: `Missing column${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}`,
+    };
+  }
+
+  if (table.length - 1 > MAX_ROSTER_IMPORT_ROWS) {
+    return {
+      rows: [],
+      error: `Import at most ${MAX_ROSTER_IMPORT_ROWS} members at a time`,
+    };
+  }
+
+  const read = (row: string[], column: RosterColumn) =>
+    columnIndex[column] === -1 ? "" : (row[columnIndex[column]] ?? "").trim();
+
+  return {
+    rows: table.slice(1).map(({ line, fields }) => ({
+      line,
+      name: read(fields, "name"),
+      department: read(fields, "department"),
+      status: read(fields, "status"),
+    })),
+  };
+}
+
+/**
+ * Build the rows of a roster export, which can be imported again
+ */
+export function getRosterCsvRows(
+  members: Pick<CommitteeMember, "name" | "department" | "status">[]
+): string[][] {
+  return [
+    [...ROSTER_COLUMNS],
+    ...members.map((member) => [member.name, member.department, member.status]),
+  ];
+}
@@ -0,0 +1,83 @@
+import type { ImportedCredential } from "@/lib/user-import";
+import type { Department } from "@/types/database.types";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Build a printable page with one cut-out login slip per account
+ * The page opens the print dialog as soon as it loads
+ * @param loginUrl - Where users sign in, printed on every slip
+ * @param getDepartmentName - Display name of a department key
+ */
+export function buildCredentialSlipsHtml(
+  credentials: ImportedCredential[],
+  loginUrl: string,
+  getDepartmentName: (department: Department) => string
+): string {
+  const slips = credentials
+    .map(
+      (credential) => `
+    <div class="slip">
+      <p class="name">${escapeHtml(credential.name)}</p>
+      <p class="department">${escapeHtml(
+        getDepartmentName(credential.department)
+      )}</p>
+      <table>
+        <tr><th>Username</th><td>${escapeHtml(credential.username)}</td></tr>
+        <tr><th>Password</th><td>${escapeHtml(credential.password)}</td></tr>
+      </table>
+      <p class="note">Sign in at ${escapeHtml(loginUrl)}. You will be asked to choose a new password.</p>
+    </div>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Login slips</title>
+<style>
+  body { font-family: Arial, sans-serif; margin: 24px; color: #111827; }
+  .slips { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
+  .slip { border: 1px dashed #6b7280; padding: 12px 16px; break-inside: avoid; }
+  .name { font-size: 16px; font-weight: bold; margin: 0; }
+  .department { font-size: 12px; color: #4b5563; margin: 2px 0 8px; }
+  table { border-collapse: collapse; }
+  th { text-align: left; font-size: 12px; color: #4b5563; padding: 2px 12px 2px 0; }
+  td { font-family: "Courier New", monospace; font-size: 15px; font-weight: bold; }
+  .note { font-size: 11px; color: #4b5563; margin: 8px 0 0; }
+</style>
+</head>
+<body onload="window.print()">
+  <div class="slips">${slips}
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * Start a download of the login slips page
+ */
+export function downloadCredentialSlips(
+  credentials: ImportedCredential[],
+  loginUrl: string,
+  getDepartmentName: (department: Department) => string
+) {
+  const blob = new Blob(
+    [buildCredentialSlipsHtml(credentials, loginUrl, getDepartmentName)],
+    { type: "text/html;charset=utf-8" }
+  );
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "login-slips.html";
+  link.click();
+  URL.revokeObjectURL(url);
+}
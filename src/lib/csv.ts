@@ -0,0 +1,102 @@
+// Minimal CSV reading and writing (RFC 4180 quoting) for imports and
+// exports done in the browser
+
+// A record of a CSV file
+export interface CsvRow {
+  // Line of the file the record starts on, counting from 1
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Split CSV text into rows of fields
+ * Handles quoted fields with commas, doubled quotes and line breaks.
+ * Blank lines are skipped, but still counted in each row's line number
+ */
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  // Excel adds a byte order mark to UTF-8 files
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== "")) {
+      rows.push({ line: rowLine, fields: row });
+    }
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+        // A line break inside a quoted field still moves to the next line
+        if (char === "\n" || (char === "\r" && input[i + 1] !== "\n")) {
+          line++;
+        }
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Join rows of fields into CSV text
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows
+    .map((row) =>
+      row.map((value) => escapeCsvField(value == null ? "" : String(value)))
+    )
+    .map((row) => row.join(","))
+    .join("\r\n");
+}
+
+/**
+ * Start a download of CSV text as a file
+ */
+export function downloadCsv(filename: string, csv: string) {
+  // The byte order mark makes Excel read the file as UTF-8
+  const blob = new Blob(["\uFEFF" + csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,40 @@
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { ADMINISTRATOR_DEPARTMENT } from "@/lib/departments";
+import type { DepartmentRecord } from "@/types/database.types";
+
+/**
+ * Get every department in display order
+ */
+export async function getDepartments(): Promise<DepartmentRecord[]> {
+  const { data, error } = await supabaseAdmin
+    .from("departments")
+    .select("*")
+    .order("sort_order", { ascending: true });
+
+  if (error) {
+    console.error("Failed to load departments:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Check whether a department key exists
+ */
+export async function isDepartment(key: string): Promise<boolean> {
+  const { data } = await supabaseAdmin
+    .from("departments")
+    .select("department_key")
+    .eq("department_key", key)
+    .maybeSingle();
+
+  return !!data;
+}
+
+/**
+ * Check whether a committee roster member can belong to a department
+ */
+export async function isRosterDepartment(key: string): Promise<boolean> {
+  return key !== ADMINISTRATOR_DEPARTMENT && (await isDepartment(key));
+}
@@ -0,0 +1,41 @@
+import type { Department, DepartmentRecord } from "@/types/database.types";
+
+// Department of admin accounts; referenced by code, so it cannot be
+// deleted, and never used for committee roster members
+export const ADMINISTRATOR_DEPARTMENT = "administrator";
+
+// Department keys are lower snake_case, e.g. "multimedia"
+export const DEPARTMENT_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+// Badge colours are six-digit hex, e.g. "#2563eb"
+export const DEPARTMENT_COLOR_PATTERN = /^#[0-9a-f]{6}$/;
+
+export const DEFAULT_DEPARTMENT_COLOR = "#2563eb";
+
+/**
+ * Departments a committee roster member can belong to
+ */
+export function getRosterDepartments<
+  T extends Pick<DepartmentRecord, "department_key">,
+>(departments: T[]): T[] {
+  return departments.filter(
+    (department) => department.department_key !== ADMINISTRATOR_DEPARTMENT
+  );
+}
+
+/**
+ * Match a department by key or display name, ignoring case
+ * @example "fnb", "F&B"
+ */
+export function resolveDepartment(
+  value: string,
+  departments: Pick<DepartmentRecord, "department_key" | "display_name">[]
+): Department | null {
+  const lower = value.trim().toLowerCase();
+  const match = departments.find(
+    (department) =>
+      department.department_key === lower ||
+      department.display_name.toLowerCase() === lower
+  );
+  return match ? match.department_key : null;
+}
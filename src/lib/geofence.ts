@@ -0,0 +1,265 @@
+import type { GeofenceStatus } from "@/types/database.types";
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// A venue drawn as a circle around its centre
+export interface CircleVenue extends GeoPoint {
+  type: "circle";
+  name: string;
+  radiusMeters: number;
+}
+
+// A venue drawn as a polygon, for sites a circle fits badly
+export interface PolygonVenue {
+  type: "polygon";
+  name: string;
+  points: GeoPoint[];
+}
+
+export type Venue = CircleVenue | PolygonVenue;
+
+// What happens to a check-in that cannot be placed inside a venue
+// - flag: always record it, flagged on the card and the report
+// - block_outside: refuse check-ins outside every venue
+// - block_unverified: also refuse low-accuracy check-ins and ones with
+//   no location
+export type GeofencePolicy = "flag" | "block_outside" | "block_unverified";
+
+// Venues for an event date and how strictly check-ins are held to them
+export interface GeofenceConfig {
+  venues: Venue[];
+  policy: GeofencePolicy;
+  // Locations less accurate than this are low-accuracy, wherever they fall
+  maxAccuracyMeters: number;
+}
+
+export interface GeofenceResult {
+  status: GeofenceStatus;
+  // The venue the check-in fell inside, if any
+  venue: string | null;
+}
+
+export const GEOFENCE_POLICIES: GeofencePolicy[] = [
+  "flag",
+  "block_outside",
+  "block_unverified",
+];
+
+export const GEOFENCE_POLICY_LABELS: Record<GeofencePolicy, string> = {
+  flag: "Flag only",
+  block_outside: "Block outside check-ins",
+  block_unverified: "Block outside and low-accuracy check-ins",
+};
+
+export const GEOFENCE_STATUS_LABELS: Record<GeofenceStatus, string> = {
+  inside: "Inside venue",
+  outside: "Outside venue",
+  low_accuracy: "Low GPS accuracy",
+};
+
+export const DEFAULT_MAX_ACCURACY_METERS = 100;
+
+export const MAX_VENUES = 10;
+
+export const MIN_VENUE_RADIUS_METERS = 10;
+
+export const MAX_VENUE_RADIUS_METERS = 5000;
+
+export const MAX_POLYGON_POINTS = 50;
+
+export const MIN_ACCURACY_LIMIT_METERS = 10;
+
+export const MAX_ACCURACY_LIMIT_METERS = 1000;
+
+const MAX_VENUE_NAME_LENGTH = 100;
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * site_settings key holding the venue geofences for a date
+ * @example "geofence:2025-01-31"
+ */
+export function getGeofenceKey(date: string): string {
+  return `geofence:${date}`;
+}
+
+function isValidPoint(point: unknown): boolean {
+  const { latitude, longitude } = (point || {}) as Partial<GeoPoint>;
+  return (
+    typeof latitude === "number" &&
+    typeof longitude === "number" &&
+    latitude >= -90 &&
+    latitude <= 90 &&
+    longitude >= -180 &&
+    longitude <= 180
+  );
+}
+
+/**
+ * Check a geofence configuration from an admin or from site_settings
+ * @returns An error message, or null if the configuration is valid
+ */
+export function validateGeofenceConfig(config: unknown): string | null {
+  const { venues, policy, maxAccuracyMeters } = (config ||
+    {}) as Partial<GeofenceConfig>;
+
+  if (!Array.isArray(venues) || venues.length === 0) {
+    return "Add at least one venue";
+  }
+  if (venues.length > MAX_VENUES) {
+    return `A date can have at most ${MAX_VENUES} venues`;
+  }
+  if (!policy || !GEOFENCE_POLICIES.includes(policy)) {
+    return "Invalid geofence policy";
+  }
+  if (
+    typeof maxAccuracyMeters !== "number" ||
+    !Number.isInteger(maxAccuracyMeters) ||
+    maxAccuracyMeters < MIN_ACCURACY_LIMIT_METERS ||
+    maxAccuracyMeters > MAX_ACCURACY_LIMIT_METERS
+  ) {
+    return `Accuracy limit must be between ${MIN_ACCURACY_LIMIT_METERS} and ${MAX_ACCURACY_LIMIT_METERS} metres`;
+  }
+
+  for (const venue of venues as Partial<Venue>[]) {
+    const name = typeof venue.name === "string" ? venue.name.trim() : "";
+    if (!name || name.length > MAX_VENUE_NAME_LENGTH) {
+      return `Venue names must be between 1 and ${MAX_VENUE_NAME_LENGTH} characters`;
+    }
+
+    if (venue.type === "circle") {
+      if (!isValidPoint(venue)) {
+        return `${name} has an invalid centre`;
+      }
+      if (
+        typeof venue.radiusMeters !== "number" ||
+        venue.radiusMeters < MIN_VENUE_RADIUS_METERS ||
+        venue.radiusMeters > MAX_VENUE_RADIUS_METERS
+      ) {
+        return `${name} needs a radius between ${MIN_VENUE_RADIUS_METERS} and ${MAX_VENUE_RADIUS_METERS} metres`;
+      }
+    } else if (venue.type === "polygon") {
+      if (
+        !Array.isArray(venue.points) ||
+        venue.points.length < 3 ||
+        venue.points.length > MAX_POLYGON_POINTS
+      ) {
+        return `${name} needs between 3 and ${MAX_POLYGON_POINTS} points`;
+      }
+      if (!venue.points.every(isValidPoint)) {
+        return `${name} has an invalid point`;
+      }
+    } else {
+      return `${name} must be a circle or a polygon`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse the geofence configuration stored in site_settings
+ * @returns null if the value is missing or malformed, so nothing is checked
+ */
+export function parseGeofenceConfig(
+  value: string | null | undefined
+): GeofenceConfig | null {
+  if (!value) return null;
+
+  try {
+    const parsed = JSON.parse(value) as GeofenceConfig;
+    return validateGeofenceConfig(parsed) ? null : parsed;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Great-circle distance between two points in metres
+ */
+export function getDistanceMeters(from: GeoPoint, to: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Whether a point falls inside a polygon (ray casting)
+ * Treats latitude and longitude as flat, which holds at venue scale
+ */
+function isInsidePolygon(point: GeoPoint, polygon: GeoPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) /
+          (b.latitude - a.latitude) +
+          a.longitude
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function isInsideVenue(point: GeoPoint, venue: Venue): boolean {
+  return venue.type === "circle"
+    ? getDistanceMeters(point, venue) <= venue.radiusMeters
+    : isInsidePolygon(point, venue.points);
+}
+
+/**
+ * Classify a check-in location against a date's venues
+ * A check-in without a location cannot be placed, so it counts as low
+ * accuracy
+ * @param location - null if the device did not share a location
+ */
+export function classifyLocation(
+  config: GeofenceConfig,
+  location: (GeoPoint & { accuracy: number }) | null
+): GeofenceResult {
+  if (!location || location.accuracy > config.maxAccuracyMeters) {
+    return { status: "low_accuracy", venue: null };
+  }
+
+  const venue = config.venues.find((v) => isInsideVenue(location, v));
+  return venue
+    ? { status: "inside", venue: venue.name }
+    : { status: "outside", venue: null };
+}
+
+/**
+ * Whether the policy refuses a check-in with this result
+ */
+export function isCheckInBlocked(
+  policy: GeofencePolicy,
+  status: GeofenceStatus
+): boolean {
+  if (status === "inside" || policy === "flag") return false;
+  return status === "outside" || policy === "block_unverified";
+}
+
+/**
+ * Describe a check-in's result for the attendance card and report
+ * @example "Inside Main Hall", "Outside venue"
+ */
+export function describeGeofence(
+  status: GeofenceStatus,
+  venue: string | null
+): string {
+  return status === "inside" && venue
+    ? `Inside ${venue}`
+    : GEOFENCE_STATUS_LABELS[status];
+}
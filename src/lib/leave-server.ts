@@ -0,0 +1,78 @@
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import type { LeaveRequestView } from "@/lib/leave";
+import type { LeaveRequest } from "@/types/database.types";
+
+export const LEAVE_ATTACHMENT_BUCKET = "leave-attachments";
+
+// Attachment links stay valid long enough to open from the page
+const ATTACHMENT_URL_EXPIRY_SECONDS = 10 * 60;
+
+/**
+ * Add member names, reviewer names and attachment links to leave requests
+ * Requests for members no longer on the roster are left out
+ */
+export async function toLeaveRequestViews(
+  requests: LeaveRequest[]
+): Promise<LeaveRequestView[]> {
+  if (requests.length === 0) return [];
+
+  const memberIds = [...new Set(requests.map((r) => r.committee_member_id))];
+  const reviewerIds = [
+    ...new Set(
+      requests
+        .map((r) => r.reviewed_by)
+        .filter((id): id is number => id !== null)
+    ),
+  ];
+  const attachmentPaths = requests
+    .map((r) => r.attachment_path)
+    .filter((path): path is string => path !== null);
+
+  const [{ data: members }, { data: reviewers }, { data: signedUrls }] =
+    await Promise.all([
+      supabaseAdmin
+        .from("committee_members")
+        .select("id, name, department")
+        .in("id", memberIds),
+      reviewerIds.length > 0
+        ? supabaseAdmin.from("users").select("id, name").in("id", reviewerIds)
+        : Promise.resolve({ data: [] }),
+      attachmentPaths.length > 0
+        ? supabaseAdmin.storage
+            .from(LEAVE_ATTACHMENT_BUCKET)
+            .createSignedUrls(attachmentPaths, ATTACHMENT_URL_EXPIRY_SECONDS)
+        : Promise.resolve({ data: [] }),
+    ]);
+
+  const membersById = new Map((members || []).map((m) => [m.id, m]));
+  const reviewerNames = new Map((reviewers || []).map((u) => [u.id, u.name]));
+  const attachmentUrls = new Map(
+    (signedUrls || []).map((signed) => [signed.path, signed.signedUrl])
+  );
+
+  return requests.flatMap((request) => {
+    const member = membersById.get(request.committee_member_id);
+    if (!member) return [];
+
+    return [
+      {
+        id: request.id,
+        memberId: member.id,
+        memberName: member.name,
+        department: member.department,
+        leaveDate: request.leave_date,
+        reason: request.reason,
+        status: request.status,
+        attachmentUrl: request.attachment_path
+          ? (attachmentUrls.get(request.attachment_path) ?? null)
+          : null,
+        reviewedByName: request.reviewed_by
+          ? (reviewerNames.get(request.reviewed_by) ?? null)
+          : null,
+        reviewedAt: request.reviewed_at,
+        reviewNote: request.review_note,
+        createdAt: request.created_at,
+      },
+    ];
+  });
+}
@@ -0,0 +1,33 @@
+import type { Department, LeaveRequestStatus } from "@/types/database.types";
+
+export const MAX_LEAVE_REASON_LENGTH = 500;
+
+export const MAX_LEAVE_NOTE_LENGTH = 500;
+
+// Matches the leave-attachments bucket's file_size_limit
+export const MAX_LEAVE_ATTACHMENT_SIZE = 5 * 1024 * 1024;
+
+// Attachment types the bucket accepts, with the extension to store them as
+export const LEAVE_ATTACHMENT_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+};
+
+// A leave request as shown on the Leave Requests page
+export interface LeaveRequestView {
+  id: number;
+  memberId: number;
+  memberName: string;
+  department: Department;
+  leaveDate: string;
+  reason: string;
+  status: LeaveRequestStatus;
+  // Short-lived signed URL, null if nothing was attached
+  attachmentUrl: string | null;
+  reviewedByName: string | null;
+  reviewedAt: string | null;
+  reviewNote: string | null;
+  createdAt: string;
+}
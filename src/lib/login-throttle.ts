@@ -0,0 +1,279 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import type { Database, SecurityEventType } from "@/types/database.types";
+
+type InsertSecurityEvent =
+  Database["public"]["Tables"]["security_events"]["Insert"];
+
+// Result of a throttle check
+export interface LoginThrottleStatus {
+  allowed: boolean;
+  // True once the failure count reached the lockout threshold
+  locked: boolean;
+  retryAfterSeconds: number;
+}
+
+// Fallbacks if the site_settings rows are missing
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_LOCKOUT_MINUTES = 15;
+
+// Never lock an account for longer than a day
+const MAX_LOCKOUT_SECONDS = 24 * 60 * 60;
+
+// Failures older than this no longer count towards a lockout
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the caller's IP address from proxy headers
+ * Uses the last X-Forwarded-For entry, which our own proxy appends; earlier
+ * entries come from the client and can be anything
+ */
+export function getClientIp(request: Request): string {
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  if (forwardedFor) {
+    const hops = forwardedFor.split(",");
+    return hops[hops.length - 1].trim();
+  }
+  return request.headers.get("x-real-ip") || "unknown";
+}
+
+async function getThrottleSettings() {
+  const { data } = await supabaseAdmin
+    .from("site_settings")
+    .select("setting_key, setting_value")
+    .in("setting_key", ["login_max_attempts", "login_lockout_minutes"]);
+
+  let maxAttempts = DEFAULT_MAX_ATTEMPTS;
+  let lockoutMinutes = DEFAULT_LOCKOUT_MINUTES;
+
+  (data || []).forEach((setting) => {
+    const value = Number(setting.setting_value);
+    if (!Number.isFinite(value) || value <= 0) return;
+
+    if (setting.setting_key === "login_max_attempts") {
+      maxAttempts = value;
+    } else if (setting.setting_key === "login_lockout_minutes") {
+      lockoutMinutes = value;
+    }
+  });
+
+  return { maxAttempts, lockoutMinutes };
+}
+
+/**
+ * Failure counters for a username from every IP, ignoring stale ones
+ */
+async function getRecentAttempts(username: string) {
+  const { data } = await supabaseAdmin
+    .from("login_attempts")
+    .select("ip_address, failed_count, locked_until")
+    .eq("username", username)
+    .gt(
+      "last_failed_at",
+      new Date(Date.now() - FAILURE_WINDOW_MS).toISOString()
+    );
+
+  return data || [];
+}
+
+/**
+ * Seconds the caller must wait after the given number of failures
+ * Below the threshold: 1s, 2s, 4s, 8s... Past it: the lockout duration,
+ * doubling with every further failure
+ */
+function getBackoffSeconds(
+  failedCount: number,
+  maxAttempts: number,
+  lockoutMinutes: number
+): number {
+  if (failedCount < maxAttempts) {
+    return Math.pow(2, failedCount - 1);
+  }
+  const lockoutSeconds =
+    lockoutMinutes * 60 * Math.pow(2, failedCount - maxAttempts);
+  return Math.min(lockoutSeconds, MAX_LOCKOUT_SECONDS);
+}
+
+/**
+ * Build the response for a throttled or locked login
+ */
+export function throttledResponse(status: LoginThrottleStatus) {
+  const minutes = Math.ceil(status.retryAfterSeconds / 60);
+  const error = status.locked
+    ? `Too many failed attempts. This account is locked for ${minutes} minute${minutes > 1 ? "s" : ""}.`
+    : `Too many attempts. Please wait ${status.retryAfterSeconds} second${status.retryAfterSeconds > 1 ? "s" : ""} and try again.`;
+
+  return NextResponse.json(
+    { error, locked: status.locked },
+    {
+      status: status.locked ? 423 : 429,
+      headers: { "Retry-After": String(status.retryAfterSeconds) },
+    }
+  );
+}
+
+/**
+ * Write an entry to the admin-visible security log
+ */
+export async function logSecurityEvent(event: InsertSecurityEvent) {
+  const { error } = await supabaseAdmin.from("security_events").insert(event);
+  if (error) {
+    console.error("Failed to write security event:", error);
+  }
+}
+
+/**
+ * Check whether a login for this username may be attempted right now
+ * A lockout triggered from any IP applies to the whole account
+ */
+export async function checkLoginAllowed(
+  username: string
+): Promise<LoginThrottleStatus> {
+  const { maxAttempts } = await getThrottleSettings();
+  const attempts = await getRecentAttempts(username);
+
+  const lockedUntil = Math.max(
+    0,
+    ...attempts.map((attempt) =>
+      attempt.locked_until ? new Date(attempt.locked_until).getTime() : 0
+    )
+  );
+  if (lockedUntil <= Date.now()) {
+    return { allowed: true, locked: false, retryAfterSeconds: 0 };
+  }
+
+  const accountFailedCount = attempts.reduce(
+    (total, attempt) => total + attempt.failed_count,
+    0
+  );
+
+  return {
+    allowed: false,
+    locked: accountFailedCount >= maxAttempts,
+    retryAfterSeconds: Math.ceil((lockedUntil - Date.now()) / 1000),
+  };
+}
+
+/**
+ * Record a failed login and apply backoff or lockout
+ * Wrong passwords and wrong second-factor codes share the same counter
+ * The short backoff follows the failures from this IP, but the lockout
+ * counts failures from every IP, so changing address does not reset it
+ * @param failureEvent - Security event to log when this does not lock the account
+ * @returns The throttle state after this failure
+ */
+export async function recordFailedLogin(
+  username: string,
+  ipAddress: string,
+  userAgent: string | null,
+  failureEvent: SecurityEventType = "login_failed"
+): Promise<LoginThrottleStatus> {
+  const { maxAttempts, lockoutMinutes } = await getThrottleSettings();
+
+  // Counters whose last failure was long ago start again from zero
+  const attempts = await getRecentAttempts(username);
+  const existing = attempts.find((attempt) => attempt.ip_address === ipAddress);
+  const failedCount = (existing?.failed_count ?? 0) + 1;
+  const accountFailedCount =
+    attempts.reduce((total, attempt) => total + attempt.failed_count, 0) + 1;
+
+  const locked = accountFailedCount >= maxAttempts;
+  const retryAfterSeconds = getBackoffSeconds(
+    locked ? accountFailedCount : failedCount,
+    maxAttempts,
+    lockoutMinutes
+  );
+  const now = new Date();
+
+  const { error } = await supabaseAdmin.from("login_attempts").upsert(
+    {
+      username,
+      ip_address: ipAddress,
+      failed_count: failedCount,
+      last_failed_at: now.toISOString(),
+      locked_until: new Date(
+        now.getTime() + retryAfterSeconds * 1000
+      ).toISOString(),
+    },
+    { onConflict: "username,ip_address" }
+  );
+
+  if (error) {
+    console.error("Failed to record login attempt:", error);
+  }
+
+  await logSecurityEvent({
+    event_type: locked ? "account_locked" : failureEvent,
+    username,
+    ip_address: ipAddress,
+    user_agent: userAgent,
+    details: locked
+      ? `Locked for ${Math.ceil(retryAfterSeconds / 60)} minute(s) after ${accountFailedCount} failed attempts`
+      : `Failed attempt ${accountFailedCount} of ${maxAttempts}`,
+  });
+
+  return { allowed: false, locked, retryAfterSeconds };
+}
+
+/**
+ * List accounts that are currently locked out
+ * Short backoff delays below the lockout threshold are not included
+ */
+export async function getLockedAccounts(): Promise<
+  { username: string; lockedUntil: string; failedCount: number }[]
+> {
+  const { maxAttempts } = await getThrottleSettings();
+
+  const { data, error } = await supabaseAdmin
+    .from("login_attempts")
+    .select("username, failed_count, locked_until")
+    .gt(
+      "last_failed_at",
+      new Date(Date.now() - FAILURE_WINDOW_MS).toISOString()
+    )
+    .order("locked_until", { ascending: false, nullsFirst: false });
+
+  if (error) {
+    console.error("Failed to fetch locked accounts:", error);
+    return [];
+  }
+
+  // One entry per username, keeping the latest lock and counting failures
+  // from every IP
+  const accounts = new Map<
+    string,
+    { username: string; lockedUntil: string; failedCount: number }
+  >();
+  (data || []).forEach((row) => {
+    const account = accounts.get(row.username);
+    if (account) {
+      account.failedCount += row.failed_count;
+    } else {
+      accounts.set(row.username, {
+        username: row.username,
+        lockedUntil: row.locked_until || "",
+        failedCount: row.failed_count,
+      });
+    }
+  });
+
+  return Array.from(accounts.values()).filter(
+    (account) =>
+      account.failedCount >= maxAttempts &&
+      new Date(account.lockedUntil).getTime() > Date.now()
+  );
+}
+
+/**
+ * Clear all failed attempts for a username (successful login or admin unlock)
+ */
+export async function clearLoginAttempts(username: string) {
+  const { error } = await supabaseAdmin
+    .from("login_attempts")
+    .delete()
+    .eq("username", username);
+
+  if (error) {
+    console.error("Failed to clear login attempts:", error);
+  }
+}
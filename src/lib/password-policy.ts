@@ -0,0 +1,309 @@
+// Password rules shared by the browser (strength meter, form checks) and
+// the route handlers that set passwords. The server always re-checks.
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  // How many previous passwords cannot be used again (0 allows reuse)
+  historyCount: number;
+  // Days before a password must be changed (0 never expires)
+  maxAgeDays: number;
+}
+
+// Used when site_settings has no password_policy row, or for missing keys
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: false,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  historyCount: 5,
+  maxAgeDays: 0,
+};
+
+// Never allow a minimum below this, whatever the setting says
+export const MIN_PASSWORD_LENGTH = 6;
+
+// bcrypt ignores everything after 72 bytes
+export const MAX_PASSWORD_LENGTH = 72;
+
+// Passwords that appear at the top of every breach list. Compared without
+// case, and also after stripping trailing digits and symbols, so
+// "Password123!" is caught as well
+const COMMON_PASSWORDS = new Set([
+  "123456",
+  "1234567",
+  "12345678",
+  "123456789",
+  "1234567890",
+  "111111",
+  "000000",
+  "654321",
+  "123123",
+  "112233",
+  "121212",
+  "666666",
+  "696969",
+  "abc123",
+  "abcd1234",
+  "qwerty",
+  "qwertyuiop",
+  "asdfgh",
+  "asdfghjkl",
+  "zxcvbnm",
+  "1q2w3e4r",
+  "1qaz2wsx",
+  "qazwsx",
+  "password",
+  "passw0rd",
+  "p@ssw0rd",
+  "pass",
+  "letmein",
+  "welcome",
+  "admin",
+  "administrator",
+  "root",
+  "login",
+  "master",
+  "secret",
+  "changeme",
+  "default",
+  "guest",
+  "test",
+  "iloveyou",
+  "sunshine",
+  "princess",
+  "football",
+  "baseball",
+  "dragon",
+  "monkey",
+  "shadow",
+  "superman",
+  "batman",
+  "trustno1",
+  "starwars",
+  "whatever",
+  "freedom",
+  "hello",
+  "charlie",
+  "michael",
+  "jordan",
+  "hunter",
+  "killer",
+  "ninja",
+  "mustang",
+  "access",
+  "flower",
+  "lovely",
+  "computer",
+  "internet",
+  "samsung",
+  "google",
+  "malaysia",
+  "kualalumpur",
+  "selamat",
+  "sayang",
+  "funlish",
+]);
+
+export type PasswordRequirementKey =
+  | "length"
+  | "uppercase"
+  | "lowercase"
+  | "number"
+  | "symbol"
+  | "common"
+  | "personal";
+
+export interface PasswordRequirement {
+  key: PasswordRequirementKey;
+  label: string;
+  met: boolean;
+}
+
+// Details of the account, so the password cannot simply repeat them
+export interface PasswordContext {
+  username?: string;
+  name?: string;
+}
+
+/**
+ * Read a policy from its stored JSON, falling back to the defaults
+ * for anything missing or invalid
+ */
+export function parsePasswordPolicy(value: string | null | undefined) {
+  const policy = { ...DEFAULT_PASSWORD_POLICY };
+  if (!value) return policy;
+
+  try {
+    const stored = JSON.parse(value) as Partial<Record<string, unknown>>;
+    (Object.keys(policy) as (keyof PasswordPolicy)[]).forEach((key) => {
+      const storedValue = stored[key];
+      if (typeof storedValue === typeof policy[key]) {
+        (policy as Record<string, unknown>)[key] = storedValue;
+      }
+    });
+  } catch {
+    console.error("Invalid password_policy setting");
+  }
+
+  policy.minLength = Math.min(
+    Math.max(Math.floor(policy.minLength), MIN_PASSWORD_LENGTH),
+    MAX_PASSWORD_LENGTH
+  );
+  policy.historyCount = Math.max(Math.floor(policy.historyCount), 0);
+  policy.maxAgeDays = Math.max(Math.floor(policy.maxAgeDays), 0);
+  return policy;
+}
+
+function isCommonPassword(password: string): boolean {
+  const lower = password.toLowerCase();
+  return (
+    COMMON_PASSWORDS.has(lower) ||
+    COMMON_PASSWORDS.has(lower.replace(/[^a-z]+$/, ""))
+  );
+}
+
+// True if the password contains the username or any part of the name
+function containsPersonalInfo(password: string, context: PasswordContext) {
+  const lower = password.toLowerCase();
+  const parts = [context.username, ...(context.name?.split(/\s+/) || [])];
+  return parts.some(
+    (part) => part && part.length >= 3 && lower.includes(part.toLowerCase())
+  );
+}
+
+/**
+ * List every rule of the policy and whether the password meets it
+ * Used for the checklist under the strength meter
+ */
+export function getPasswordRequirements(
+  password: string,
+  policy: PasswordPolicy,
+  context: PasswordContext = {}
+): PasswordRequirement[] {
+  const requirements: PasswordRequirement[] = [
+    {
+      key: "length",
+      label: `At least ${policy.minLength} characters`,
+      met:
+        password.length >= policy.minLength &&
+        password.length <= MAX_PASSWORD_LENGTH,
+    },
+  ];
+
+  if (policy.requireUppercase) {
+    requirements.push({
+      key: "uppercase",
+      label: "An uppercase letter",
+      met: /[A-Z]/.test(password),
+    });
+  }
+  if (policy.requireLowercase) {
+    requirements.push({
+      key: "lowercase",
+      label: "A lowercase letter",
+      met: /[a-z]/.test(password),
+    });
+  }
+  if (policy.requireNumber) {
+    requirements.push({
+      key: "number",
+      label: "A number",
+      met: /[0-9]/.test(password),
+    });
+  }
+  if (policy.requireSymbol) {
+    requirements.push({
+      key: "symbol",
+      label: "A symbol such as ! @ # or -",
+      met: /[^A-Za-z0-9]/.test(password),
+    });
+  }
+
+  requirements.push({
+    key: "common",
+    label: "Not a commonly used password",
+    met: password.length > 0 && !isCommonPassword(password),
+  });
+
+  if (context.username || context.name) {
+    requirements.push({
+      key: "personal",
+      label: "Does not contain your name or username",
+      met: password.length > 0 && !containsPersonalInfo(password, context),
+    });
+  }
+
+  return requirements;
+}
+
+/**
+ * Check a password against the policy
+ * Reuse of old passwords can only be checked on the server
+ * @returns The first unmet rule as an error message, or null if it passes
+ */
+export function validatePassword(
+  password: string,
+  policy: PasswordPolicy,
+  context: PasswordContext = {}
+): string | null {
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    return `Password must be at most ${MAX_PASSWORD_LENGTH} characters`;
+  }
+
+  const unmet = getPasswordRequirements(password, policy, context).find(
+    (requirement) => !requirement.met
+  );
+  if (!unmet) return null;
+
+  switch (unmet.key) {
+    case "length":
+      return `Password must be at least ${policy.minLength} characters`;
+    case "common":
+      return "This password is too common. Choose something harder to guess";
+    case "personal":
+      return "Password must not contain your name or username";
+    default:
+      return `Password must contain ${unmet.label.toLowerCase()}`;
+  }
+}
+
+/**
+ * Estimate how hard a password is to guess, from 0 (very weak) to 4
+ * (strong). Length counts most; mixing character types adds a little
+ */
+export function getPasswordStrength(password: string): number {
+  if (!password || isCommonPassword(password)) return 0;
+
+  const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^A-Za-z0-9]/].filter(
+    (pattern) => pattern.test(password)
+  ).length;
+  // Repeated characters such as "aaaaaa" add nothing
+  const uniqueCharacters = new Set(password).size;
+
+  let score = 0;
+  if (password.length >= 8) score++;
+  if (password.length >= 12) score++;
+  if (password.length >= 16) score++;
+  if (classes >= 3) score++;
+  if (classes <= 1 && password.length < 12) score--;
+  if (uniqueCharacters < password.length / 2) score--;
+
+  return Math.min(Math.max(score, 0), 4);
+}
+
+/**
+ * Check whether a password has passed the policy's maximum age
+ */
+export function isPasswordExpired(
+  passwordChangedAt: string | null,
+  policy: PasswordPolicy
+): boolean {
+  if (!policy.maxAgeDays || !passwordChangedAt) return false;
+  const ageMs = Date.now() - new Date(passwordChangedAt).getTime();
+  return ageMs > policy.maxAgeDays * 24 * 60 * 60 * 1000;
+}
@@ -0,0 +1,104 @@
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import {
+  generateSessionToken,
+  getActiveUser,
+  hashSessionToken,
+  type SessionUser,
+} from "@/lib/auth-server";
+
+// How long a reset link can be used for after an admin creates it
+export const RESET_LINK_LIFETIME_HOURS = 24;
+
+// A reset link that can still be used, with the account it belongs to
+export interface PasswordResetTarget {
+  tokenId: number;
+  user: SessionUser;
+  expiresAt: string;
+}
+
+/**
+ * Create a single-use reset token for a user
+ * Any older unused tokens for the user stop working
+ * Tokens use the same format as session tokens; only the hash is stored
+ * @param createdBy - Admin issuing the link
+ * @returns The plain token for the link, or null if it could not be saved
+ */
+export async function createPasswordResetToken(
+  userId: number,
+  createdBy: number
+): Promise<{ token: string; expiresAt: string } | null> {
+  await supabaseAdmin
+    .from("password_reset_tokens")
+    .delete()
+    .eq("user_id", userId)
+    .is("used_at", null);
+
+  const token = generateSessionToken();
+  const expiresAt = new Date(
+    Date.now() + RESET_LINK_LIFETIME_HOURS * 60 * 60 * 1000
+  ).toISOString();
+
+  const { error } = await supabaseAdmin.from("password_reset_tokens").insert({
+    user_id: userId,
+    token_hash: await hashSessionToken(token),
+    created_by: createdBy,
+    expires_at: expiresAt,
+  });
+
+  if (error) {
+    console.error("Failed to create password reset token:", error);
+    return null;
+  }
+
+  return { token, expiresAt };
+}
+
+/**
+ * Look up the account a reset token belongs to
+ * @returns null if the token is unknown, used, expired, or the account is
+ *   no longer active
+ */
+export async function getPasswordResetTarget(
+  token: string
+): Promise<PasswordResetTarget | null> {
+  const { data } = await supabaseAdmin
+    .from("password_reset_tokens")
+    .select("id, user_id, expires_at")
+    .eq("token_hash", await hashSessionToken(token))
+    .is("used_at", null)
+    .maybeSingle();
+
+  if (!data || new Date(data.expires_at).getTime() <= Date.now()) {
+    return null;
+  }
+
+  const user = await getActiveUser(data.user_id);
+  if (!user) {
+    return null;
+  }
+
+  return { tokenId: data.id, user, expiresAt: data.expires_at };
+}
+
+/**
+ * Mark a reset token as used
+ * Only one request can claim a token, even if two arrive together
+ * @returns Whether this call claimed the token
+ */
+export async function claimPasswordResetToken(
+  tokenId: number
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("password_reset_tokens")
+    .update({ used_at: new Date().toISOString() })
+    .eq("id", tokenId)
+    .is("used_at", null)
+    .select("id");
+
+  if (error) {
+    console.error("Failed to claim password reset token:", error);
+    return false;
+  }
+
+  return (data || []).length > 0;
+}
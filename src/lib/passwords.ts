@@ -0,0 +1,234 @@
+import bcrypt from "bcryptjs";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import {
+  isPasswordExpired,
+  parsePasswordPolicy,
+  validatePassword,
+  type PasswordContext,
+  type PasswordPolicy,
+} from "@/lib/password-policy";
+import type { Database } from "@/types/database.types";
+
+const BCRYPT_ROUNDS = 10;
+
+// Characters for generated passwords; leaves out ones that are easy to
+// misread on a printed slip (0/O, 1/l/I)
+const GENERATED_LOWERCASE = "abcdefghijkmnpqrstuvwxyz";
+const GENERATED_UPPERCASE = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+const GENERATED_NUMBERS = "23456789";
+const GENERATED_SYMBOLS = "!@#$%&*-+=?";
+
+// Generated passwords are never shorter than this
+const GENERATED_MIN_LENGTH = 10;
+
+/**
+ * Get the password policy
+ * Configured by the password_policy row in site_settings
+ */
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+  const { data } = await supabaseAdmin
+    .from("site_settings")
+    .select("setting_value")
+    .eq("setting_key", "password_policy")
+    .maybeSingle();
+
+  return parsePasswordPolicy(data?.setting_value);
+}
+
+/**
+ * Save the password policy
+ * @param db - Client to write with, e.g. from createAuditedClient()
+ * @param updatedBy - Admin making the change
+ * @returns Whether the setting was saved
+ */
+export async function savePasswordPolicy(
+  policy: PasswordPolicy,
+  db: SupabaseClient<Database>,
+  updatedBy: number
+): Promise<boolean> {
+  const { error } = await db.from("site_settings").upsert(
+    {
+      setting_key: "password_policy",
+      setting_value: JSON.stringify(policy),
+      updated_by: updatedBy,
+    },
+    { onConflict: "setting_key" }
+  );
+
+  if (error) {
+    console.error("Failed to update password_policy:", error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Check whether a password matches one of the user's recent passwords
+ * The current password always counts, even with history turned off
+ */
+export async function isPasswordReused(
+  userId: number,
+  password: string,
+  policy: PasswordPolicy
+): Promise<boolean> {
+  const { data: user } = await supabaseAdmin
+    .from("users")
+    .select("password")
+    .eq("id", userId)
+    .single();
+
+  const hashes = user ? [user.password] : [];
+
+  if (policy.historyCount > 0) {
+    const { data: history } = await supabaseAdmin
+      .from("password_history")
+      .select("password_hash")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(policy.historyCount);
+
+    (history || []).forEach((entry) => hashes.push(entry.password_hash));
+  }
+
+  for (const hash of hashes) {
+    if (await bcrypt.compare(password, hash)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Set a user's password and record it in their password history
+ * @param db - Client to write the users row with, e.g. from createAuditedClient()
+ * @param mustChange - Make the user pick a new password at next login,
+ *   e.g. when an admin chose this one
+ * @returns Whether the password was saved
+ */
+export async function setUserPassword(
+  db: SupabaseClient<Database>,
+  userId: number,
+  password: string,
+  mustChange = false
+): Promise<boolean> {
+  const passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS);
+
+  const { error } = await db
+    .from("users")
+    .update({
+      password: passwordHash,
+      password_changed_at: new Date().toISOString(),
+      must_change_password: mustChange,
+    })
+    .eq("id", userId);
+
+  if (error) {
+    console.error("Failed to update password:", error);
+    return false;
+  }
+
+  await recordPasswordHistory(userId, passwordHash);
+  return true;
+}
+
+function randomCharacter(characters: string): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return characters[value % characters.length];
+}
+
+/**
+ * Generate a random initial password that meets the policy
+ * Used when an admin creates accounts without choosing passwords
+ */
+export function generatePassword(
+  policy: PasswordPolicy,
+  context: PasswordContext = {}
+): string {
+  const length = Math.max(policy.minLength, GENERATED_MIN_LENGTH);
+  const required = [
+    GENERATED_LOWERCASE,
+    GENERATED_UPPERCASE,
+    GENERATED_NUMBERS,
+    ...(policy.requireSymbol ? [GENERATED_SYMBOLS] : []),
+  ];
+  const all = required.join("");
+
+  for (;;) {
+    // One of each required type, the rest from every type, then shuffled
+    const characters = [
+      ...required.map(randomCharacter),
+      ...Array.from({ length: length - required.length }, () =>
+        randomCharacter(all)
+      ),
+    ];
+    for (let i = characters.length - 1; i > 0; i--) {
+      const [value] = crypto.getRandomValues(new Uint32Array(1));
+      const j = value % (i + 1);
+      [characters[i], characters[j]] = [characters[j], characters[i]];
+    }
+
+    const password = characters.join("");
+    if (!validatePassword(password, policy, context)) {
+      return password;
+    }
+  }
+}
+
+/**
+ * Hash a password for a new account
+ * Call recordPasswordHistory once the account exists
+ */
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+/**
+ * Add a password hash to the user's history and drop entries the policy
+ * no longer needs
+ */
+export async function recordPasswordHistory(
+  userId: number,
+  passwordHash: string
+) {
+  const { error } = await supabaseAdmin
+    .from("password_history")
+    .insert({ user_id: userId, password_hash: passwordHash });
+
+  if (error) {
+    console.error("Failed to record password history:", error);
+    return;
+  }
+
+  const { historyCount } = await getPasswordPolicy();
+  const { data: history } = await supabaseAdmin
+    .from("password_history")
+    .select("id")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  const expired = (history || []).slice(historyCount).map((entry) => entry.id);
+  if (expired.length > 0) {
+    await supabaseAdmin.from("password_history").delete().in("id", expired);
+  }
+}
+
+/**
+ * Check whether a user must choose a new password before using the system
+ * Either an admin asked for it, or the password passed the maximum age
+ */
+export async function isPasswordChangeRequired(
+  userId: number
+): Promise<boolean> {
+  const { data: user } = await supabaseAdmin
+    .from("users")
+    .select("must_change_password, password_changed_at")
+    .eq("id", userId)
+    .single();
+
+  if (!user) return false;
+  if (user.must_change_password) return true;
+
+  return isPasswordExpired(user.password_changed_at, await getPasswordPolicy());
+}
@@ -0,0 +1,92 @@
+import type {
+  Department,
+  Permission,
+  RoleDepartmentScope,
+  RolePermission,
+} from "@/types/database.types";
+
+// Dashboard pages that can be granted per role
+// Admin pages (/dashboard/admin/**) are not listed: they are always limited
+// to the admin role by the middleware and getAdminSession
+export const PAGES = [
+  { key: "dashboard", name: "Dashboard", href: "/dashboard" },
+  { key: "attendance", name: "Attendance", href: "/dashboard/attendance" },
+  { key: "teams", name: "Registration & Team", href: "/dashboard/teams" },
+  { key: "profile", name: "Profile", href: "/dashboard/profile" },
+  { key: "leave", name: "Leave Requests", href: "/dashboard/leave" },
+] as const;
+
+export type PageKey = (typeof PAGES)[number]["key"];
+
+export type Permissions = Record<PageKey, Permission>;
+
+// Departments a role is limited to on a page. Pages without an entry
+// apply to every department.
+export type DepartmentScopes = Partial<Record<PageKey, Department[]>>;
+
+export const PERMISSION_LEVELS: Permission[] = ["full", "view", "none"];
+
+// Pages whose permission can be limited to specific departments
+export const SCOPABLE_PAGES: PageKey[] = ["attendance", "leave"];
+
+// Role that always keeps full access and cannot be edited or deleted
+export const ADMIN_ROLE = "admin";
+
+// Role keys are lower snake_case, e.g. "registration_coordinator"
+export const ROLE_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Build a full permission map from role_permissions rows
+ * Pages without a row get "none"
+ */
+export function buildPermissions(
+  rows: Pick<RolePermission, "page_key" | "permission">[]
+): Permissions {
+  const permissions = Object.fromEntries(
+    PAGES.map((page) => [page.key, "none"])
+  ) as Permissions;
+
+  rows.forEach((row) => {
+    if (row.page_key in permissions) {
+      permissions[row.page_key as PageKey] = row.permission;
+    }
+  });
+
+  return permissions;
+}
+
+/**
+ * Build the department scope map from role_department_scopes rows
+ */
+export function buildDepartmentScopes(
+  rows: Pick<RoleDepartmentScope, "page_key" | "department">[]
+): DepartmentScopes {
+  const scopes: DepartmentScopes = {};
+
+  rows.forEach((row) => {
+    const page = row.page_key as PageKey;
+    if (!SCOPABLE_PAGES.includes(page)) return;
+    scopes[page] = [...(scopes[page] || []), row.department];
+  });
+
+  return scopes;
+}
+
+/**
+ * Check whether a scope map allows a department on a page
+ */
+export function isDepartmentInScope(
+  scopes: DepartmentScopes,
+  page: PageKey,
+  department: Department
+): boolean {
+  const scope = scopes[page];
+  return !scope || scope.includes(department);
+}
+
+/**
+ * Check whether a value is a valid permission level
+ */
+export function isPermission(value: unknown): value is Permission {
+  return PERMISSION_LEVELS.includes(value as Permission);
+}
@@ -0,0 +1,155 @@
+import type { UserRole } from "@/types/database.types";
+
+// Name of the httpOnly cookie that carries the signed session
+export const SESSION_COOKIE_NAME = "funlish_session";
+
+// Name of the short-lived cookie carrying a pending two-factor login
+export const TWO_FACTOR_COOKIE_NAME = "funlish_2fa";
+
+// Data stored inside the signed session cookie
+export interface SessionPayload {
+  userId: number;
+  role: UserRole;
+  token: string;
+  issuedAt: number;
+}
+
+// Data stored inside the signed two-factor challenge cookie
+// Issued after a correct password, exchanged for a session with a valid code
+export interface TwoFactorChallengePayload {
+  purpose: "two_factor";
+  userId: number;
+  expiresAt: number;
+}
+
+const encoder = new TextEncoder();
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("SESSION_SECRET environment variable is not set");
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(getSessionSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+// Sign any JSON payload as <payload>.<signature>
+async function signPayload(payload: object): Promise<string> {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const key = await getSigningKey();
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Check the signature of a signed value and decode its payload
+async function verifyPayload(value: string | undefined): Promise<unknown> {
+  if (!value) return null;
+
+  const [body, signature] = value.split(".");
+  if (!body || !signature) return null;
+
+  try {
+    const key = await getSigningKey();
+    const isValid = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      fromBase64Url(signature) as BufferSource,
+      encoder.encode(body)
+    );
+    if (!isValid) return null;
+
+    return JSON.parse(new TextDecoder().decode(fromBase64Url(body)));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sign a session payload into a cookie value
+ * Uses Web Crypto so it works in both route handlers and middleware
+ * @param payload - Session data to store in the cookie
+ * @returns Cookie value in the form <payload>.<signature>
+ */
+export async function signSession(payload: SessionPayload): Promise<string> {
+  return signPayload(payload);
+}
+
+/**
+ * Verify a session cookie value and return its payload
+ * @param value - Raw cookie value
+ * @returns The session payload, or null if the cookie is missing or tampered with
+ */
+export async function verifySession(
+  value: string | undefined
+): Promise<SessionPayload | null> {
+  const payload = (await verifyPayload(value)) as SessionPayload | null;
+
+  if (!payload || typeof payload.userId !== "number" || !payload.token) {
+    return null;
+  }
+
+  return payload;
+}
+
+/**
+ * Sign a two-factor challenge into a cookie value
+ */
+export async function signTwoFactorChallenge(
+  payload: TwoFactorChallengePayload
+): Promise<string> {
+  return signPayload(payload);
+}
+
+/**
+ * Verify a two-factor challenge cookie value
+ * @returns The challenge, or null if it is missing, tampered with or expired
+ */
+export async function verifyTwoFactorChallenge(
+  value: string | undefined
+): Promise<TwoFactorChallengePayload | null> {
+  const payload = (await verifyPayload(
+    value
+  )) as TwoFactorChallengePayload | null;
+
+  if (
+    !payload ||
+    payload.purpose !== "two_factor" ||
+    typeof payload.userId !== "number" ||
+    Date.now() >= payload.expiresAt
+  ) {
+    return null;
+  }
+
+  return payload;
+}
@@ -2,6 +2,8 @@ import { supabase } from "./supabase";
 
 /**
  * Upload a photo to Supabase Storage and return the public URL
+ * The server checks the user may mark this member and issues a one-time
+ * signed upload URL; the bucket rejects uploads made with the anon key
  * @param base64Photo - Base64 encoded photo data (data:image/jpeg;base64,...)
  * @param memberId - Committee member ID for naming the file
  * @param attendanceDate - Date for organizing photos by date
@@ -9,7 +11,7 @@ import { supabase } from "./supabase";
  */
 export async function uploadAttendancePhoto(
   base64Photo: string,
-  memberId: string,
+  memberId: number,
   attendanceDate: string
 ): Promise<string | null> {
   try {
@@ -23,16 +25,23 @@ export async function uploadAttendancePhoto(
     const byteArray = new Uint8Array(byteNumbers);
     const blob = new Blob([byteArray], { type: "image/jpeg" });
 
-    // Generate unique filename: date/memberId_timestamp.jpg
-    const timestamp = Date.now();
-    const fileName = `${attendanceDate}/${memberId}_${timestamp}.jpg`;
+    // Ask the server for an upload URL (date/memberId_timestamp.jpg)
+    const response = await fetch("/api/attendance/photo", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ memberId, date: attendanceDate }),
+    });
+    const upload = await response.json();
+    if (!response.ok) {
+      console.error("Error preparing photo upload:", upload.error);
+      return null;
+    }
 
     // Upload to Supabase Storage
-    const { data, error } = await supabase.storage
+    const { error } = await supabase.storage
       .from("attendance-photos")
-      .upload(fileName, blob, {
+      .uploadToSignedUrl(upload.path, upload.token, blob, {
         contentType: "image/jpeg",
-        upsert: true, // Replace if exists
       });
 
     if (error) {
@@ -40,12 +49,7 @@ export async function uploadAttendancePhoto(
       return null;
     }
 
-    // Get the public URL
-    const {
-      data: { publicUrl },
-    } = supabase.storage.from("attendance-photos").getPublicUrl(fileName);
-
-    return publicUrl;
+    return upload.publicUrl;
   } catch (error) {
     console.error("Error processing photo upload:", error);
     return null;
@@ -53,34 +57,42 @@ export async function uploadAttendancePhoto(
 }
 
 /**
- * Delete a photo from Supabase Storage
- * @param photoUrl - The public URL of the photo to delete
- * @returns true if deletion was successful, false otherwise
+ * Upload a leave request attachment to the private leave-attachments bucket
+ * The server issues a one-time signed upload URL under the user's own
+ * committee member folder
+ * @param file - Image or PDF chosen by the user
+ * @returns Storage path to submit with the request, or null if upload fails
  */
-export async function deleteAttendancePhoto(
-  photoUrl: string
-): Promise<boolean> {
+export async function uploadLeaveAttachment(
+  file: File
+): Promise<string | null> {
   try {
-    // Extract the file path from the URL
-    // URL format: https://xxx.supabase.co/storage/v1/object/public/attendance-photos/2024-12-19/memberId_timestamp.jpg
-    const urlParts = photoUrl.split("/attendance-photos/");
-    if (urlParts.length < 2) return false;
-
-    const filePath = urlParts[1];
+    const response = await fetch("/api/leave/attachment", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ contentType: file.type }),
+    });
+    const upload = await response.json();
+    if (!response.ok) {
+      console.error("Error preparing attachment upload:", upload.error);
+      return null;
+    }
 
     const { error } = await supabase.storage
-      .from("attendance-photos")
-      .remove([filePath]);
+      .from("leave-attachments")
+      .uploadToSignedUrl(upload.path, upload.token, file, {
+        contentType: file.type,
+      });
 
     if (error) {
-      console.error("Error deleting photo:", error);
-      return false;
+      console.error("Error uploading attachment:", error);
+      return null;
     }
 
-    return true;
+    return upload.path;
   } catch (error) {
-    console.error("Error processing photo deletion:", error);
-    return false;
+    console.error("Error processing attachment upload:", error);
+    return null;
   }
 }
 
@@ -0,0 +1,18 @@
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "@/types/database.types";
+
+// Server-only Supabase client. Uses the service role key, so it must never
+// be imported from client components.
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+export const supabaseAdmin = createClient<Database>(
+  supabaseUrl,
+  supabaseServiceRoleKey,
+  {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  }
+);
@@ -0,0 +1,140 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import type { Database } from "@/types/database.types";
+
+// Fallback if site_settings has no trash_retention_days row
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const MAX_TRASH_RETENTION_DAYS = 365;
+
+// Kinds of item that can be restored from the Trash
+export type TrashItemType = "user" | "team" | "participant";
+
+/**
+ * Get how many days deleted items stay in the Trash
+ * Configured by the trash_retention_days row in site_settings
+ */
+export async function getTrashRetentionDays(): Promise<number> {
+  const { data } = await supabaseAdmin
+    .from("site_settings")
+    .select("setting_value")
+    .eq("setting_key", "trash_retention_days")
+    .maybeSingle();
+
+  const days = Number(data?.setting_value);
+  return Number.isInteger(days) && days > 0
+    ? days
+    : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Save how many days deleted items stay in the Trash
+ * @param db - Client to write with, e.g. from createAuditedClient()
+ * @param updatedBy - Admin making the change
+ * @returns Whether the setting was saved
+ */
+export async function saveTrashRetentionDays(
+  days: number,
+  db: SupabaseClient<Database>,
+  updatedBy: number
+): Promise<boolean> {
+  const { error } = await db.from("site_settings").upsert(
+    {
+      setting_key: "trash_retention_days",
+      setting_value: String(days),
+      updated_by: updatedBy,
+    },
+    { onConflict: "setting_key" }
+  );
+
+  if (error) {
+    console.error("Failed to update trash_retention_days:", error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Anonymise a deleted user so the account row can stay
+ * Attendance, participants and the audit log keep pointing at the row, so
+ * it is emptied instead of deleted: it shows as "Deleted user" and can
+ * never sign in again
+ */
+async function anonymiseUser(userId: number): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("users")
+    .update({
+      username: `deleted_user_${userId}`,
+      name: "Deleted user",
+      // Not a bcrypt hash, so no password matches it
+      password: "",
+      status: "inactive",
+      session_token: null,
+      totp_secret: null,
+      totp_pending_secret: null,
+      totp_enabled: false,
+      totp_last_used_step: null,
+      committee_member_id: null,
+      purged_at: new Date().toISOString(),
+    })
+    .eq("id", userId);
+
+  if (error) {
+    console.error("Failed to anonymise deleted user:", error);
+    return;
+  }
+
+  // What ON DELETE CASCADE removed when users were deleted outright
+  await Promise.all(
+    (
+      [
+        "user_sessions",
+        "user_backup_codes",
+        "password_history",
+        "password_reset_tokens",
+      ] as const
+    ).map((table) => supabaseAdmin.from(table).delete().eq("user_id", userId))
+  );
+}
+
+/**
+ * Clear out everything that has been in the Trash for longer than the
+ * retention period
+ * Teams and participants are deleted for good. Users are anonymised
+ * instead, so who marked attendance or registered participants is kept
+ * There is no scheduler, so this runs whenever the Trash is opened
+ */
+export async function purgeExpiredTrash(): Promise<void> {
+  const retentionDays = await getTrashRetentionDays();
+  const cutoff = new Date(
+    Date.now() - retentionDays * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  // Participants first, so a purged team takes its deleted members with it
+  for (const table of ["participants", "groups"] as const) {
+    const { error } = await supabaseAdmin
+      .from(table)
+      .delete()
+      .lt("deleted_at", cutoff);
+
+    if (error) {
+      console.error(`Failed to purge deleted ${table}:`, error);
+    }
+  }
+
+  const { data: expiredUsers, error } = await supabaseAdmin
+    .from("users")
+    .select("id")
+    .lt("deleted_at", cutoff)
+    .is("purged_at", null);
+
+  if (error) {
+    console.error("Failed to purge deleted users:", error);
+    return;
+  }
+
+  for (const user of expiredUsers || []) {
+    await anonymiseUser(user.id);
+  }
+}
@@ -0,0 +1,227 @@
+import { createHash, randomBytes } from "crypto";
+import { cookies } from "next/headers";
+import type { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import {
+  TWO_FACTOR_COOKIE_NAME,
+  signTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+} from "@/lib/session";
+import { verifyTotp } from "@/lib/totp";
+import type { Database, UserRole } from "@/types/database.types";
+
+// Fallback if site_settings has no two_factor_required_roles row
+const DEFAULT_REQUIRED_ROLES: UserRole[] = ["admin", "chairperson"];
+
+// How long the user has to enter their code after the password step
+const CHALLENGE_LIFETIME_MS = 5 * 60 * 1000;
+
+const BACKUP_CODE_COUNT = 10;
+
+// Backup codes are compared without case or dashes
+function hashBackupCode(code: string): string {
+  return createHash("sha256")
+    .update(code.toLowerCase().replace(/[^a-z0-9]/g, ""))
+    .digest("hex");
+}
+
+/**
+ * Get the roles that must sign in with a second factor
+ * Configured by the two_factor_required_roles row in site_settings
+ */
+export async function getTwoFactorRequiredRoles(): Promise<UserRole[]> {
+  const { data } = await supabaseAdmin
+    .from("site_settings")
+    .select("setting_value")
+    .eq("setting_key", "two_factor_required_roles")
+    .maybeSingle();
+
+  if (data) {
+    try {
+      const roles = JSON.parse(data.setting_value);
+      if (Array.isArray(roles)) {
+        return roles.filter((role) => typeof role === "string");
+      }
+    } catch {
+      console.error("Invalid two_factor_required_roles setting");
+    }
+  }
+
+  return DEFAULT_REQUIRED_ROLES;
+}
+
+/**
+ * Check whether a role must use two-factor authentication
+ */
+export async function isTwoFactorRequired(role: UserRole): Promise<boolean> {
+  const roles = await getTwoFactorRequiredRoles();
+  return roles.includes(role);
+}
+
+/**
+ * Add or remove a role from the two_factor_required_roles setting
+ * @param db - Client to write with, e.g. from createAuditedClient()
+ * @returns Whether the setting was saved
+ */
+export async function setTwoFactorRequired(
+  role: UserRole,
+  required: boolean,
+  db: SupabaseClient<Database> = supabaseAdmin
+): Promise<boolean> {
+  const roles = (await getTwoFactorRequiredRoles()).filter((r) => r !== role);
+  if (required) {
+    roles.push(role);
+  }
+
+  const { error } = await db.from("site_settings").upsert(
+    {
+      setting_key: "two_factor_required_roles",
+      setting_value: JSON.stringify(roles),
+    },
+    { onConflict: "setting_key" }
+  );
+
+  if (error) {
+    console.error("Failed to update two_factor_required_roles:", error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Replace a user's backup codes with a fresh set
+ * @returns The plain codes to show the user once, or null on failure
+ */
+export async function generateBackupCodes(
+  userId: number
+): Promise<string[] | null> {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  await supabaseAdmin.from("user_backup_codes").delete().eq("user_id", userId);
+
+  const { error } = await supabaseAdmin.from("user_backup_codes").insert(
+    codes.map((code) => ({
+      user_id: userId,
+      code_hash: hashBackupCode(code),
+    }))
+  );
+
+  if (error) {
+    console.error("Failed to save backup codes:", error);
+    return null;
+  }
+
+  return codes;
+}
+
+/**
+ * Count a user's unused backup codes
+ */
+export async function countBackupCodes(userId: number): Promise<number> {
+  const { count } = await supabaseAdmin
+    .from("user_backup_codes")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .is("used_at", null);
+
+  return count || 0;
+}
+
+/**
+ * Verify an authenticator code or an unused backup code
+ * Accepted TOTP codes and backup codes cannot be used again
+ * @returns Which kind of code matched, or null if neither did
+ */
+export async function verifySecondFactor(
+  userId: number,
+  code: string
+): Promise<"totp" | "backup" | null> {
+  const { data: user } = await supabaseAdmin
+    .from("users")
+    .select("totp_secret, totp_enabled, totp_last_used_step")
+    .eq("id", userId)
+    .single();
+
+  if (!user?.totp_enabled || !user.totp_secret) {
+    return null;
+  }
+
+  const step = verifyTotp(user.totp_secret, code, user.totp_last_used_step);
+  if (step !== null) {
+    await supabaseAdmin
+      .from("users")
+      .update({ totp_last_used_step: step })
+      .eq("id", userId);
+    return "totp";
+  }
+
+  const { data: backupCode } = await supabaseAdmin
+    .from("user_backup_codes")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("code_hash", hashBackupCode(code))
+    .is("used_at", null)
+    .maybeSingle();
+
+  if (backupCode) {
+    await supabaseAdmin
+      .from("user_backup_codes")
+      .update({ used_at: new Date().toISOString() })
+      .eq("id", backupCode.id);
+    return "backup";
+  }
+
+  return null;
+}
+
+/**
+ * Attach a short-lived cookie recording that the password step passed
+ */
+export async function startTwoFactorChallenge(
+  response: NextResponse,
+  userId: number
+) {
+  const value = await signTwoFactorChallenge({
+    purpose: "two_factor",
+    userId,
+    expiresAt: Date.now() + CHALLENGE_LIFETIME_MS,
+  });
+
+  response.cookies.set(TWO_FACTOR_COOKIE_NAME, value, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/api/auth",
+    maxAge: Math.floor(CHALLENGE_LIFETIME_MS / 1000),
+  });
+}
+
+/**
+ * Read the pending two-factor challenge for this browser
+ * @returns The user ID waiting for a second factor, or null
+ */
+export async function getTwoFactorChallenge(): Promise<number | null> {
+  const cookieStore = await cookies();
+  const challenge = await verifyTwoFactorChallenge(
+    cookieStore.get(TWO_FACTOR_COOKIE_NAME)?.value
+  );
+  return challenge?.userId ?? null;
+}
+
+/**
+ * Remove the two-factor challenge cookie from the response
+ */
+export function clearTwoFactorChallenge(response: NextResponse) {
+  response.cookies.set(TWO_FACTOR_COOKIE_NAME, "", {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/api/auth",
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,125 @@
+// Bulk user import from CSV, shared by the users page (reading the file)
+// and the import route (validating and creating the accounts)
+import type { CsvRow } from "@/lib/csv";
+import type { Department, Role, UserRole } from "@/types/database.types";
+
+// Largest file accepted in one import
+export const MAX_IMPORT_ROWS = 200;
+
+// Columns of the import file, in template order; password is optional
+export const USER_IMPORT_COLUMNS = [
+  "username",
+  "name",
+  "department",
+  "role",
+  "password",
+] as const;
+
+type UserImportColumn = (typeof USER_IMPORT_COLUMNS)[number];
+
+// One data row of the import file, as typed
+export interface UserImportRow {
+  // Line of the file the row starts on, counting the header as line 1
+  line: number;
+  username: string;
+  name: string;
+  department: string;
+  role: string;
+  password: string;
+}
+
+// A row after validation; department and role are resolved to their keys
+export interface UserImportPreviewRow {
+  line: number;
+  username: string;
+  name: string;
+  department: Department | null;
+  role: UserRole | null;
+  // Whether a password will be generated because the row had none
+  generatePassword: boolean;
+  errors: string[];
+}
+
+// Login details of an imported account, shown once after the import
+export interface ImportedCredential {
+  username: string;
+  name: string;
+  department: Department;
+  role: UserRole;
+  password: string;
+}
+
+/**
+ * Read the rows of an import file
+ * The header row names the columns, in any order and any case
+ * @returns The rows, or an error if the file cannot be used
+ */
+export function readUserImportCsv(table: CsvRow[]): {
+  rows: UserImportRow[];
+  error?: string;
+} {
+  if (table.length < 2) {
+    return { rows: [], error: "The file has no rows to import" };
+  }
+
+  const header = table[0].fields.map((column) => column.trim().toLowerCase());
+  const columnIndex = Object.fromEntries(
+    USER_IMPORT_COLUMNS.map((column) => [column, header.indexOf(column)])
+  ) as Record<UserImportColumn, number>;
+
+  const missing = USER_IMPORT_COLUMNS.filter(
+    (column) => column !== "password" && columnIndex[column] === -1
+  );
+  if (missing.length > 0) {
+    return {
+      rows: [],
+      error: `Missing column${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}`,
+    };
+  }
+
+  if (table.length - 1 > MAX_IMPORT_ROWS) {
+    return {
+      rows: [],
+      error: `Import at most ${MAX_IMPORT_ROWS} users at a time`,
+    };
+  }
+
+  const read = (row: string[], column: UserImportColumn) =>
+    columnIndex[column] === -1 ? "" : (row[columnIndex[column]] ?? "").trim();
+
+  return {
+    rows: table.slice(1).map(({ line, fields }) => ({
+      line,
+      username: read(fields, "username").toLowerCase(),
+      name: read(fields, "name"),
+      department: read(fields, "department"),
+      role: read(fields, "role"),
+      password: read(fields, "password"),
+    })),
+  };
+}
+
+/**
+ * Match a role by key or display name, ignoring case
+ */
+export function resolveRole(
+  value: string,
+  roles: Pick<Role, "role_key" | "display_name">[]
+): UserRole | null {
+  const lower = value.trim().toLowerCase();
+  const match = roles.find(
+    (role) =>
+      role.role_key === lower || role.display_name.toLowerCase() === lower
+  );
+  return match ? match.role_key : null;
+}
+
+/**
+ * Build a CSV template with the import columns and an example row
+ */
+export function getUserImportTemplate(): string[][] {
+  return [
+    [...USER_IMPORT_COLUMNS],
+    ["aisyah", "Aisyah Rahman", "logistics_operations", "committee", ""],
+  ];
+}
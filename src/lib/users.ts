@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import type { SessionUser } from "@/lib/auth-server";
+
+/**
+ * Load the user named by a route's [userId] param and check the admin may
+ * change them
+ * Nobody can change their own account here
+ * @returns The target user, or an error response to send back
+ */
+export async function getEditableUser(admin: SessionUser, userIdParam: string) {
+  const userId = Number(userIdParam);
+  if (!Number.isInteger(userId)) {
+    return {
+      error: NextResponse.json({ error: "Invalid user" }, { status: 400 }),
+    };
+  }
+
+  if (userId === admin.id) {
+    return {
+      error: NextResponse.json(
+        { error: "You cannot change your own account here" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const { data: target } = await supabaseAdmin
+    .from("users")
+    .select("id, username, role, status")
+    .eq("id", userId)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (!target) {
+    return {
+      error: NextResponse.json({ error: "User not found" }, { status: 404 }),
+    };
+  }
+
+  return { target };
+}
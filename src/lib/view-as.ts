@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { logSecurityEvent } from "@/lib/login-throttle";
+import type { SessionUser, ViewAs } from "@/lib/auth-server";
+import type { UserRole } from "@/types/database.types";
+
+// The role or user an admin is previewing
+export type ViewAsTarget = Pick<ViewAs, "role" | "user">;
+
+/**
+ * Describe what an admin is previewing, for the security log
+ * @example "role committee", "user aisyah (committee)"
+ */
+export function describeViewAs(viewAs: ViewAsTarget) {
+  return viewAs.user
+    ? `user ${viewAs.user.username} (${viewAs.role})`
+    : `role ${viewAs.role}`;
+}
+
+/**
+ * Start previewing the app as a role or user in this login session
+ * @param userId - User to preview, or null to preview the role as a whole
+ * @returns Whether the preview was saved
+ */
+export async function startViewAs(
+  sessionId: number,
+  role: UserRole,
+  userId: number | null
+): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from("user_sessions")
+    .update({
+      view_as_role: role,
+      view_as_user_id: userId,
+      view_as_started_at: new Date().toISOString(),
+    })
+    .eq("id", sessionId);
+
+  if (error) {
+    console.error("Failed to start view-as preview:", error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * End the preview in this login session
+ * @returns Whether the preview was cleared
+ */
+export async function endViewAs(sessionId: number): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from("user_sessions")
+    .update({
+      view_as_role: null,
+      view_as_user_id: null,
+      view_as_started_at: null,
+    })
+    .eq("id", sessionId);
+
+  if (error) {
+    console.error("Failed to end view-as preview:", error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Record a change that was refused because the admin is previewing
+ * @param attempted - What the admin tried to do
+ */
+export async function recordViewAsWriteBlocked(
+  admin: SessionUser,
+  viewAs: ViewAs,
+  attempted: string
+) {
+  await logSecurityEvent({
+    event_type: "view_as_write_blocked",
+    username: admin.username,
+    user_id: viewAs.user?.id ?? null,
+    details: `${attempted} while viewing as ${describeViewAs(viewAs)}`,
+    performed_by: admin.id,
+  });
+}
+
+/**
+ * Refuse a change to the admin's own account during a preview
+ * Used by the account routes, which act on the real logged in user
+ */
+export async function viewAsBlockedResponse(
+  admin: SessionUser,
+  viewAs: ViewAs,
+  attempted: string
+) {
+  await recordViewAsWriteBlocked(admin, viewAs, attempted);
+  return NextResponse.json(
+    { error: "Changes are disabled while viewing as another role" },
+    { status: 403 }
+  );
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { SESSION_COOKIE_NAME, verifySession } from "@/lib/session";
 
 // Create a Supabase client for middleware
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
@@ -22,6 +23,27 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // Protect dashboard routes using the signed session cookie
+  if (pathname === "/dashboard" || pathname.startsWith("/dashboard/")) {
+    const session = await verifySession(
+      request.cookies.get(SESSION_COOKIE_NAME)?.value
+    );
+
+    if (!session) {
+      const loginUrl = new URL("/login", request.url);
+      return NextResponse.redirect(loginUrl);
+    }
+
+    // Admin pages require the admin role
+    if (
+      (pathname === "/dashboard/admin" ||
+        pathname.startsWith("/dashboard/admin/")) &&
+      session.role !== "admin"
+    ) {
+      return NextResponse.redirect(new URL("/dashboard", request.url));
+    }
+  }
+
   try {
     // Create Supabase client
     const supabase = createClient(supabaseUrl, supabaseAnonKey);
@@ -42,8 +64,6 @@ export async function middleware(request: NextRequest) {
     const isMaintenanceMode = data?.setting_value === "true";
 
     if (isMaintenanceMode) {
-      // Check if user is admin by looking at the session in cookies/headers
-      // Since we use localStorage for auth, we need to check differently
       // The client-side MaintenanceGuard will handle the actual redirection
       // But we can add a header to indicate maintenance mode
       const response = NextResponse.next();
@@ -1,26 +1,64 @@
-export type UserRole =
-  | "admin"
-  | "chairperson"
-  | "protocol"
-  | "registration_coordinator"
-  | "committee";
+// Role key from the roles table (e.g. "admin", "committee")
+export type UserRole = string;
 
-export type Department =
-  | "administrator"
-  | "pr_communication"
-  | "protocol_ceremonial"
-  | "fnb"
-  | "sponsorship_finance"
-  | "logistics_operations"
-  | "technical_it_support"
-  | "evaluation_research_documentation"
-  | "health_safety_welfare"
-  | "executive"
-  | "program_activities";
+// Access level a role has on a dashboard page
+export type Permission = "full" | "view" | "none";
+
+// Department key from the departments table (e.g. "fnb", "executive")
+export type Department = string;
 
 export type UserStatus = "active" | "inactive";
 
-export type AttendanceStatus = "attend" | "absent";
+// Inactive members left the committee; their attendance history is kept
+export type CommitteeMemberStatus = "active" | "inactive";
+
+// "late" is a check-in after the date's reporting time and grace period;
+// "excused" comes from an approved leave request
+export type AttendanceStatus = "attend" | "late" | "excused" | "absent";
+
+export type LeaveRequestStatus = "pending" | "approved" | "rejected";
+
+// Where a check-in was made relative to the date's venue geofences
+export type GeofenceStatus = "inside" | "outside" | "low_accuracy";
+
+export type SecurityEventType =
+  | "login_failed"
+  | "login_blocked"
+  | "account_locked"
+  | "account_unlocked"
+  | "two_factor_failed"
+  | "two_factor_enabled"
+  | "two_factor_disabled"
+  | "backup_code_used"
+  | "view_as_started"
+  | "view_as_ended"
+  | "view_as_write_blocked"
+  | "password_reset_issued"
+  | "password_reset_completed";
+
+// Tables whose changes are recorded in audit_log
+export type AuditedTable =
+  | "attendance"
+  | "participants"
+  | "groups"
+  | "users"
+  | "committee_members"
+  | "site_settings"
+  | "leave_requests"
+  | "roles"
+  | "role_permissions"
+  | "role_department_scopes"
+  | "departments";
+
+export type AuditAction = "insert" | "update" | "delete";
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
 
 export interface Database {
   public: {
@@ -37,6 +75,17 @@ export interface Database {
           status: UserStatus;
           session_token: string | null;
           session_updated_at: string | null;
+          totp_secret: string | null;
+          totp_pending_secret: string | null;
+          totp_enabled: boolean;
+          totp_last_used_step: number | null;
+          password_changed_at: string | null;
+          must_change_password: boolean;
+          committee_member_id: number | null;
+          deleted_at: string | null;
+          deleted_by: number | null;
+          // Set once the account is anonymised by the Trash purge
+          purged_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -50,6 +99,16 @@ export interface Database {
           status?: UserStatus;
           session_token?: string | null;
           session_updated_at?: string | null;
+          totp_secret?: string | null;
+          totp_pending_secret?: string | null;
+          totp_enabled?: boolean;
+          totp_last_used_step?: number | null;
+          password_changed_at?: string | null;
+          must_change_password?: boolean;
+          committee_member_id?: number | null;
+          deleted_at?: string | null;
+          deleted_by?: number | null;
+          purged_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -63,25 +122,465 @@ export interface Database {
           status?: UserStatus;
           session_token?: string | null;
           session_updated_at?: string | null;
+          totp_secret?: string | null;
+          totp_pending_secret?: string | null;
+          totp_enabled?: boolean;
+          totp_last_used_step?: number | null;
+          password_changed_at?: string | null;
+          must_change_password?: boolean;
+          committee_member_id?: number | null;
+          deleted_at?: string | null;
+          deleted_by?: number | null;
+          purged_at?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "users_role_fkey";
+            columns: ["role"];
+            isOneToOne: false;
+            referencedRelation: "roles";
+            referencedColumns: ["role_key"];
+          },
+          {
+            foreignKeyName: "users_committee_member_id_fkey";
+            columns: ["committee_member_id"];
+            isOneToOne: true;
+            referencedRelation: "committee_members";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "users_department_fkey";
+            columns: ["department"];
+            isOneToOne: false;
+            referencedRelation: "departments";
+            referencedColumns: ["department_key"];
+          }
+        ];
+      };
+      // Logged in devices - one row per active session
+      user_sessions: {
+        Row: {
+          id: number;
+          user_id: number;
+          token_hash: string;
+          device_label: string | null;
+          user_agent: string | null;
+          created_at: string;
+          last_seen_at: string;
+          expires_at: string;
+          // Set while an admin is previewing as another role or user
+          view_as_role: UserRole | null;
+          view_as_user_id: number | null;
+          view_as_started_at: string | null;
+        };
+        Insert: {
+          id?: number;
+          user_id: number;
+          token_hash: string;
+          device_label?: string | null;
+          user_agent?: string | null;
+          created_at?: string;
+          last_seen_at?: string;
+          expires_at: string;
+          view_as_role?: UserRole | null;
+          view_as_user_id?: number | null;
+          view_as_started_at?: string | null;
+        };
+        Update: {
+          id?: number;
+          user_id?: number;
+          token_hash?: string;
+          device_label?: string | null;
+          user_agent?: string | null;
+          last_seen_at?: string;
+          expires_at?: string;
+          view_as_role?: UserRole | null;
+          view_as_user_id?: number | null;
+          view_as_started_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "user_sessions_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "user_sessions_view_as_user_id_fkey";
+            columns: ["view_as_user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "user_sessions_view_as_role_fkey";
+            columns: ["view_as_role"];
+            isOneToOne: false;
+            referencedRelation: "roles";
+            referencedColumns: ["role_key"];
+          }
+        ];
+      };
+      // Recent password hashes per user, to prevent reuse (server-only)
+      password_history: {
+        Row: {
+          id: number;
+          user_id: number;
+          password_hash: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          user_id: number;
+          password_hash: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          user_id?: number;
+          password_hash?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "password_history_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      // Single-use password reset links issued by admins (server-only)
+      password_reset_tokens: {
+        Row: {
+          id: number;
+          user_id: number;
+          token_hash: string;
+          created_by: number | null;
+          expires_at: string;
+          used_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          user_id: number;
+          token_hash: string;
+          created_by?: number | null;
+          expires_at: string;
+          used_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          user_id?: number;
+          token_hash?: string;
+          created_by?: number | null;
+          expires_at?: string;
+          used_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "password_reset_tokens_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "password_reset_tokens_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      // One-time 2FA backup codes (hashed)
+      user_backup_codes: {
+        Row: {
+          id: number;
+          user_id: number;
+          code_hash: string;
+          used_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          user_id: number;
+          code_hash: string;
+          used_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          user_id?: number;
+          code_hash?: string;
+          used_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "user_backup_codes_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      // Failed login counters per username + IP
+      login_attempts: {
+        Row: {
+          id: number;
+          username: string;
+          ip_address: string;
+          failed_count: number;
+          last_failed_at: string;
+          locked_until: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          username: string;
+          ip_address: string;
+          failed_count?: number;
+          last_failed_at?: string;
+          locked_until?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          username?: string;
+          ip_address?: string;
+          failed_count?: number;
+          last_failed_at?: string;
+          locked_until?: string | null;
+        };
+        Relationships: [];
+      };
+      // Admin-visible security log
+      security_events: {
+        Row: {
+          id: number;
+          event_type: SecurityEventType;
+          username: string | null;
+          user_id: number | null;
+          ip_address: string | null;
+          user_agent: string | null;
+          details: string | null;
+          performed_by: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          event_type: SecurityEventType;
+          username?: string | null;
+          user_id?: number | null;
+          ip_address?: string | null;
+          user_agent?: string | null;
+          details?: string | null;
+          performed_by?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          event_type?: SecurityEventType;
+          username?: string | null;
+          user_id?: number | null;
+          ip_address?: string | null;
+          user_agent?: string | null;
+          details?: string | null;
+          performed_by?: number | null;
+        };
+        Relationships: [];
+      };
+      // Every insert, update and delete on the audited tables (server-only)
+      audit_log: {
+        Row: {
+          id: number;
+          table_name: AuditedTable;
+          record_id: string | null;
+          action: AuditAction;
+          actor_id: number | null;
+          actor_username: string | null;
+          source: string | null;
+          before_data: Json | null;
+          after_data: Json | null;
+          changed_fields: string[] | null;
+          search_text: string;
+          created_at: string;
+        };
+        // Rows are only written by the write_audit_log() trigger
+        Insert: {
+          id?: number;
+          table_name: AuditedTable;
+          record_id?: string | null;
+          action: AuditAction;
+          actor_id?: number | null;
+          actor_username?: string | null;
+          source?: string | null;
+          before_data?: Json | null;
+          after_data?: Json | null;
+          changed_fields?: string[] | null;
+          created_at?: string;
+        };
+        Update: {
+          [_ in never]: never;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_actor_id_fkey";
+            columns: ["actor_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      // Departments of users and committee members
+      departments: {
+        Row: {
+          department_key: string;
+          display_name: string;
+          color: string;
+          sort_order: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          department_key: string;
+          display_name: string;
+          color?: string;
+          sort_order?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          department_key?: string;
+          display_name?: string;
+          color?: string;
+          sort_order?: number;
           updated_at?: string;
         };
         Relationships: [];
       };
+      // User roles (admin and committee are system roles)
+      roles: {
+        Row: {
+          role_key: string;
+          display_name: string;
+          is_system: boolean;
+          sort_order: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          role_key: string;
+          display_name: string;
+          is_system?: boolean;
+          sort_order?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          role_key?: string;
+          display_name?: string;
+          is_system?: boolean;
+          sort_order?: number;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      // Per-page permission level for each role
+      role_permissions: {
+        Row: {
+          role_key: string;
+          page_key: string;
+          permission: Permission;
+          updated_at: string;
+        };
+        Insert: {
+          role_key: string;
+          page_key: string;
+          permission?: Permission;
+          updated_at?: string;
+        };
+        Update: {
+          role_key?: string;
+          page_key?: string;
+          permission?: Permission;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "role_permissions_role_key_fkey";
+            columns: ["role_key"];
+            isOneToOne: false;
+            referencedRelation: "roles";
+            referencedColumns: ["role_key"];
+          }
+        ];
+      };
+      // Departments a role's page permission is limited to
+      role_department_scopes: {
+        Row: {
+          role_key: string;
+          page_key: string;
+          department: Department;
+          created_at: string;
+        };
+        Insert: {
+          role_key: string;
+          page_key: string;
+          department: Department;
+          created_at?: string;
+        };
+        Update: {
+          role_key?: string;
+          page_key?: string;
+          department?: Department;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "role_department_scopes_role_key_fkey";
+            columns: ["role_key"];
+            isOneToOne: false;
+            referencedRelation: "roles";
+            referencedColumns: ["role_key"];
+          },
+          {
+            foreignKeyName: "role_department_scopes_department_fkey";
+            columns: ["department"];
+            isOneToOne: false;
+            referencedRelation: "departments";
+            referencedColumns: ["department_key"];
+          }
+        ];
+      };
       // Groups for participant team assignment (Team A, B, C...)
       groups: {
         Row: {
           id: number;
           name: string;
+          deleted_at: string | null;
+          deleted_by: number | null;
           created_at: string;
         };
         Insert: {
           id?: number;
           name: string;
+          deleted_at?: string | null;
+          deleted_by?: number | null;
           created_at?: string;
         };
         Update: {
           id?: number;
           name?: string;
+          deleted_at?: string | null;
+          deleted_by?: number | null;
         };
         Relationships: [];
       };
@@ -92,6 +591,8 @@ export interface Database {
           name: string;
           group_id: number | null;
           registered_at: string;
+          deleted_at: string | null;
+          deleted_by: number | null;
           created_at: string;
         };
         Insert: {
@@ -99,6 +600,8 @@ export interface Database {
           name: string;
           group_id?: number | null;
           registered_at?: string;
+          deleted_at?: string | null;
+          deleted_by?: number | null;
           created_at?: string;
         };
         Update: {
@@ -106,6 +609,8 @@ export interface Database {
           name?: string;
           group_id?: number | null;
           registered_at?: string;
+          deleted_at?: string | null;
+          deleted_by?: number | null;
         };
         Relationships: [
           {
@@ -123,20 +628,34 @@ export interface Database {
           id: number;
           name: string;
           department: Department;
+          status: CommitteeMemberStatus;
           created_at: string;
+          updated_at: string;
         };
         Insert: {
           id?: number;
           name: string;
           department: Department;
+          status?: CommitteeMemberStatus;
           created_at?: string;
+          updated_at?: string;
         };
         Update: {
           id?: number;
           name?: string;
           department?: Department;
+          status?: CommitteeMemberStatus;
+          updated_at?: string;
         };
-        Relationships: [];
+        Relationships: [
+          {
+            foreignKeyName: "committee_members_department_fkey";
+            columns: ["department"];
+            isOneToOne: false;
+            referencedRelation: "departments";
+            referencedColumns: ["department_key"];
+          }
+        ];
       };
       // Attendance table - tracks attendance status per date (synced with committee_members)
       attendance: {
@@ -151,6 +670,17 @@ export interface Database {
           accuracy: number | null;
           address: string | null;
           check_in_time: string | null;
+          check_out_time: string | null;
+          check_out_photo_url: string | null;
+          check_out_latitude: number | null;
+          check_out_longitude: number | null;
+          check_out_accuracy: number | null;
+          check_out_address: string | null;
+          checked_out_by: number | null;
+          // Null when the date has no venues set
+          geofence_status: GeofenceStatus | null;
+          geofence_venue: string | null;
+          marked_by: number | null;
           created_at: string;
           updated_at: string;
         };
@@ -165,6 +695,16 @@ export interface Database {
           accuracy?: number | null;
           address?: string | null;
           check_in_time?: string | null;
+          check_out_time?: string | null;
+          check_out_photo_url?: string | null;
+          check_out_latitude?: number | null;
+          check_out_longitude?: number | null;
+          check_out_accuracy?: number | null;
+          check_out_address?: string | null;
+          checked_out_by?: number | null;
+          geofence_status?: GeofenceStatus | null;
+          geofence_venue?: string | null;
+          marked_by?: number | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -179,6 +719,16 @@ export interface Database {
           accuracy?: number | null;
           address?: string | null;
           check_in_time?: string | null;
+          check_out_time?: string | null;
+          check_out_photo_url?: string | null;
+          check_out_latitude?: number | null;
+          check_out_longitude?: number | null;
+          check_out_accuracy?: number | null;
+          check_out_address?: string | null;
+          checked_out_by?: number | null;
+          geofence_status?: GeofenceStatus | null;
+          geofence_venue?: string | null;
+          marked_by?: number | null;
           updated_at?: string;
         };
         Relationships: [
@@ -191,6 +741,59 @@ export interface Database {
           }
         ];
       };
+      // Leave asked for by committee members, reviewed by chairpersons
+      leave_requests: {
+        Row: {
+          id: number;
+          committee_member_id: number;
+          leave_date: string;
+          reason: string;
+          attachment_path: string | null;
+          status: LeaveRequestStatus;
+          requested_by: number | null;
+          reviewed_by: number | null;
+          reviewed_at: string | null;
+          review_note: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: number;
+          committee_member_id: number;
+          leave_date: string;
+          reason: string;
+          attachment_path?: string | null;
+          status?: LeaveRequestStatus;
+          requested_by?: number | null;
+          reviewed_by?: number | null;
+          reviewed_at?: string | null;
+          review_note?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: number;
+          committee_member_id?: number;
+          leave_date?: string;
+          reason?: string;
+          attachment_path?: string | null;
+          status?: LeaveRequestStatus;
+          requested_by?: number | null;
+          reviewed_by?: number | null;
+          reviewed_at?: string | null;
+          review_note?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "leave_requests_committee_member_id_fkey";
+            columns: ["committee_member_id"];
+            isOneToOne: false;
+            referencedRelation: "committee_members";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       // Site settings table - stores maintenance mode and other settings
       site_settings: {
         Row: {
@@ -250,6 +853,22 @@ export type CommitteeMember =
   Database["public"]["Tables"]["committee_members"]["Row"];
 export type Attendance = Database["public"]["Tables"]["attendance"]["Row"];
 export type SiteSetting = Database["public"]["Tables"]["site_settings"]["Row"];
+export type UserSession =
+  Database["public"]["Tables"]["user_sessions"]["Row"];
+export type LoginAttempt =
+  Database["public"]["Tables"]["login_attempts"]["Row"];
+export type SecurityEvent =
+  Database["public"]["Tables"]["security_events"]["Row"];
+export type AuditLogEntry = Database["public"]["Tables"]["audit_log"]["Row"];
+export type Role = Database["public"]["Tables"]["roles"]["Row"];
+export type DepartmentRecord =
+  Database["public"]["Tables"]["departments"]["Row"];
+export type RolePermission =
+  Database["public"]["Tables"]["role_permissions"]["Row"];
+export type RoleDepartmentScope =
+  Database["public"]["Tables"]["role_department_scopes"]["Row"];
+export type LeaveRequest =
+  Database["public"]["Tables"]["leave_requests"]["Row"];
 
 export type InsertUser = Database["public"]["Tables"]["users"]["Insert"];
 export type InsertGroup = Database["public"]["Tables"]["groups"]["Insert"];
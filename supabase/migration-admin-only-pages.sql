@@ -0,0 +1,11 @@
+-- =============================================
+-- Migration: User Management is admin-only
+-- The roles editor used to offer a "User Management" permission, but the
+-- admin pages are always limited to the admin role, so granting it to
+-- another role had no effect in the UI. It is no longer part of the
+-- permission matrix; remove the stored grants.
+--
+-- Run this in Supabase SQL Editor AFTER migration-checked-out-by.sql
+-- =============================================
+
+DELETE FROM role_permissions WHERE page_key = 'userManagement';
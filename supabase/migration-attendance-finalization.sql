@@ -0,0 +1,21 @@
+-- =============================================
+-- Migration: Finalizing a day's attendance
+-- Members with no attendance record on a date are now shown as 'not
+-- marked' instead of absent. At the end of the day a marker covering every
+-- department finalizes the date, which records the remaining unmarked
+-- members as absent and notes who closed the day off.
+--
+-- Run this in Supabase SQL Editor AFTER migration-leave-requests.sql
+-- =============================================
+
+-- Finalizations are stored as one site_settings row per date, e.g.
+--   setting_key   = 'attendance_finalized:2025-01-31'
+--   setting_value = '{"finalizedAt":"...","finalizedBy":3,
+--                     "finalizedByName":"Aisyah","markedAbsent":4}'
+-- The attendance page shows whether the selected date was finalized
+DROP POLICY IF EXISTS "Browser can read attendance finalizations" ON site_settings;
+CREATE POLICY "Browser can read attendance finalizations" ON site_settings
+    FOR SELECT TO anon, authenticated
+    USING (setting_key LIKE 'attendance_finalized:%');
+
+COMMENT ON COLUMN attendance.status IS 'attend, late (checked in after the reporting time and grace period), excused (approved leave) or absent. Members with no row for a date are not marked yet.';
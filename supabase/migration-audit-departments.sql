@@ -0,0 +1,14 @@
+-- =============================================
+-- Migration: Audit department changes
+-- Departments are now written by /api/admin/departments with the audited
+-- client, so record them in audit_log with the admin who made the change.
+-- The table has no id column, so record_id is NULL; the department_key is
+-- in before_data and after_data.
+--
+-- Run this in Supabase SQL Editor AFTER migration-audit-roles.sql
+-- =============================================
+
+DROP TRIGGER IF EXISTS trigger_audit_departments ON departments;
+CREATE TRIGGER trigger_audit_departments
+    AFTER INSERT OR UPDATE OR DELETE ON departments
+    FOR EACH ROW EXECUTE FUNCTION write_audit_log();
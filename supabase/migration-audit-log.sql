@@ -0,0 +1,132 @@
+-- =============================================
+-- Migration: Audit log for every data mutation
+-- A trigger on each audited table records inserts, updates and deletes
+-- with the row before and after the change.
+--
+-- Writes come from our route handlers using the service role key (see
+-- migration-rls.sql), so the database cannot tell who is logged in. The
+-- route handlers send the actor and the page the change was made from as
+-- request headers, which PostgREST exposes to the trigger through
+-- request.headers. The headers are only trusted on service role requests.
+--
+-- Run this in Supabase SQL Editor AFTER migration-rls.sql
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    table_name VARCHAR(50) NOT NULL,
+    record_id VARCHAR(100),
+    action VARCHAR(10) NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+    actor_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    -- Kept so entries stay readable after the actor's account is deleted
+    actor_username VARCHAR(100),
+    -- Dashboard page the change was made from, or the API path
+    source VARCHAR(255),
+    before_data JSONB,
+    after_data JSONB,
+    changed_fields TEXT[],
+    search_text TEXT GENERATED ALWAYS AS (
+        lower(coalesce(before_data::text, '') || ' ' || coalesce(after_data::text, ''))
+    ) STORED,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_table_record ON audit_log(table_name, record_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_id ON audit_log(actor_id);
+
+-- Only the server reads or writes the audit log
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON audit_log FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION write_audit_log()
+RETURNS TRIGGER AS $$
+DECLARE
+    -- Never copied into the log
+    secret_fields TEXT[] := ARRAY['password', 'session_token', 'totp_secret', 'totp_pending_secret'];
+    -- Updates that only touch these are bookkeeping, not changes
+    ignored_fields TEXT[] := ARRAY['totp_last_used_step', 'session_updated_at', 'updated_at'];
+    headers JSON := NULLIF(current_setting('request.headers', true), '')::json;
+    claims JSON := NULLIF(current_setting('request.jwt.claims', true), '')::json;
+    before_row JSONB;
+    after_row JSONB;
+    changed TEXT[];
+    actor INTEGER;
+    actor_name VARCHAR(100);
+    change_source VARCHAR(255);
+BEGIN
+    IF TG_OP <> 'INSERT' THEN
+        before_row := to_jsonb(OLD);
+    END IF;
+    IF TG_OP <> 'DELETE' THEN
+        after_row := to_jsonb(NEW);
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        SELECT array_agg(after_fields.key ORDER BY after_fields.key) INTO changed
+        FROM jsonb_each(after_row) AS after_fields
+        WHERE before_row -> after_fields.key IS DISTINCT FROM after_fields.value;
+
+        IF changed IS NULL OR changed <@ ignored_fields THEN
+            RETURN NULL;
+        END IF;
+    END IF;
+
+    IF headers IS NOT NULL AND claims ->> 'role' = 'service_role' THEN
+        actor := NULLIF(headers ->> 'x-audit-actor-id', '')::INTEGER;
+        actor_name := NULLIF(headers ->> 'x-audit-actor', '');
+        change_source := NULLIF(headers ->> 'x-audit-source', '');
+    END IF;
+
+    INSERT INTO audit_log (
+        table_name, record_id, action, actor_id, actor_username, source,
+        before_data, after_data, changed_fields
+    )
+    VALUES (
+        TG_TABLE_NAME,
+        COALESCE(after_row, before_row) ->> 'id',
+        lower(TG_OP),
+        actor,
+        actor_name,
+        change_source,
+        before_row - secret_fields,
+        after_row - secret_fields,
+        changed
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_audit_attendance ON attendance;
+CREATE TRIGGER trigger_audit_attendance
+    AFTER INSERT OR UPDATE OR DELETE ON attendance
+    FOR EACH ROW EXECUTE FUNCTION write_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_audit_participants ON participants;
+CREATE TRIGGER trigger_audit_participants
+    AFTER INSERT OR UPDATE OR DELETE ON participants
+    FOR EACH ROW EXECUTE FUNCTION write_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_audit_groups ON groups;
+CREATE TRIGGER trigger_audit_groups
+    AFTER INSERT OR UPDATE OR DELETE ON groups
+    FOR EACH ROW EXECUTE FUNCTION write_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_audit_users ON users;
+CREATE TRIGGER trigger_audit_users
+    AFTER INSERT OR UPDATE OR DELETE ON users
+    FOR EACH ROW EXECUTE FUNCTION write_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_audit_committee_members ON committee_members;
+CREATE TRIGGER trigger_audit_committee_members
+    AFTER INSERT OR UPDATE OR DELETE ON committee_members
+    FOR EACH ROW EXECUTE FUNCTION write_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_audit_site_settings ON site_settings;
+CREATE TRIGGER trigger_audit_site_settings
+    AFTER INSERT OR UPDATE OR DELETE ON site_settings
+    FOR EACH ROW EXECUTE FUNCTION write_audit_log();
+
+COMMENT ON TABLE audit_log IS 'Every insert, update and delete on the audited tables. Written by write_audit_log(); secrets are stripped.';
+COMMENT ON COLUMN audit_log.source IS 'Page the change was made from (Referer), the API path, or NULL for changes made directly in the database.';
@@ -0,0 +1,25 @@
+-- =============================================
+-- Migration: Audit role and permission changes
+-- Roles, their page permissions and their department scopes are now
+-- written by /api/admin/roles with the audited client, so record them in
+-- audit_log with the admin who made the change.
+-- These tables have no id column, so record_id is NULL; the role_key is in
+-- before_data and after_data.
+--
+-- Run this in Supabase SQL Editor AFTER migration-admin-only-pages.sql
+-- =============================================
+
+DROP TRIGGER IF EXISTS trigger_audit_roles ON roles;
+CREATE TRIGGER trigger_audit_roles
+    AFTER INSERT OR UPDATE OR DELETE ON roles
+    FOR EACH ROW EXECUTE FUNCTION write_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_audit_role_permissions ON role_permissions;
+CREATE TRIGGER trigger_audit_role_permissions
+    AFTER INSERT OR UPDATE OR DELETE ON role_permissions
+    FOR EACH ROW EXECUTE FUNCTION write_audit_log();
+
+DROP TRIGGER IF EXISTS trigger_audit_role_department_scopes ON role_department_scopes;
+CREATE TRIGGER trigger_audit_role_department_scopes
+    AFTER INSERT OR UPDATE OR DELETE ON role_department_scopes
+    FOR EACH ROW EXECUTE FUNCTION write_audit_log();
@@ -0,0 +1,30 @@
+-- =============================================
+-- Migration: Check-out tracking for attendance
+-- A member who attended can now be checked out with its own photo and
+-- location, captured the same way as the check-in. The time between
+-- check_in_time and check_out_time is shown as on-duty hours in the report.
+--
+-- Run this in Supabase SQL Editor AFTER migration-trash.sql
+-- =============================================
+
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS check_out_time TIMESTAMP WITH TIME ZONE;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS check_out_photo_url TEXT;
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS check_out_latitude DECIMAL(10, 8);
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS check_out_longitude DECIMAL(11, 8);
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS check_out_accuracy DECIMAL(10, 2);
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS check_out_address TEXT;
+
+-- A check-out can only follow a check-in
+ALTER TABLE attendance DROP CONSTRAINT IF EXISTS attendance_check_out_after_check_in;
+ALTER TABLE attendance ADD CONSTRAINT attendance_check_out_after_check_in
+    CHECK (
+        check_out_time IS NULL
+        OR (check_in_time IS NOT NULL AND check_out_time >= check_in_time)
+    );
+
+-- The browser already reads every attendance column (migration-rls.sql);
+-- check-outs are written by /api/attendance/check-out with the service role
+
+COMMENT ON COLUMN attendance.check_out_time IS 'When the member was checked out; NULL while still on duty.';
+COMMENT ON COLUMN attendance.check_out_photo_url IS 'Verification photo taken at check-out.';
+COMMENT ON COLUMN attendance.check_out_address IS 'Address where the member was checked out.';
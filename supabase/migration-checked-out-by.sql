@@ -0,0 +1,85 @@
+-- =============================================
+-- Migration: Record who checked a member out
+-- Check-outs now store the user who did them in checked_out_by, and
+-- enforce_attendance_scope() checks that user (not the original marker)
+-- when the check-out fields are set. Previously a check-out failed once the
+-- original marker was deactivated or lost the department, and the user
+-- checking out was never scope-checked in the database.
+--
+-- Run this in Supabase SQL Editor AFTER migration-venue-geofences.sql
+-- =============================================
+
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS checked_out_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+-- Reject attendance writes by users who may not mark this member
+-- The acting user is marked_by, or checked_out_by for a check-out
+CREATE OR REPLACE FUNCTION enforce_attendance_scope()
+RETURNS TRIGGER AS $$
+DECLARE
+    actor_id INTEGER;
+    actor_role VARCHAR(50);
+    actor_permission VARCHAR(10);
+    member_department VARCHAR(100);
+BEGIN
+    -- Deleting the marker's account clears marked_by (ON DELETE SET NULL);
+    -- that is not a new marking, so let it through
+    IF TG_OP = 'UPDATE' AND NEW.marked_by IS NULL AND OLD.marked_by IS NOT NULL
+       AND NOT EXISTS (SELECT 1 FROM users WHERE id = OLD.marked_by) THEN
+        RETURN NEW;
+    END IF;
+
+    -- Likewise for deleting the account that did the check-out
+    IF TG_OP = 'UPDATE' AND NEW.checked_out_by IS NULL AND OLD.checked_out_by IS NOT NULL
+       AND NOT EXISTS (SELECT 1 FROM users WHERE id = OLD.checked_out_by) THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND OLD.check_out_time IS NULL AND NEW.check_out_time IS NOT NULL THEN
+        IF NEW.checked_out_by IS NULL THEN
+            RAISE EXCEPTION 'A check-out must record who did it'
+                USING ERRCODE = 'insufficient_privilege';
+        END IF;
+        actor_id := NEW.checked_out_by;
+    ELSE
+        IF NEW.marked_by IS NULL THEN
+            RAISE EXCEPTION 'Attendance must record who marked it'
+                USING ERRCODE = 'insufficient_privilege';
+        END IF;
+        actor_id := NEW.marked_by;
+    END IF;
+
+    SELECT role INTO actor_role
+    FROM users
+    WHERE id = actor_id AND status = 'active';
+
+    SELECT permission INTO actor_permission
+    FROM role_permissions
+    WHERE role_key = actor_role AND page_key = 'attendance';
+
+    IF actor_permission IS DISTINCT FROM 'full' THEN
+        RAISE EXCEPTION 'User % may not mark attendance', actor_id
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT department INTO member_department
+    FROM committee_members
+    WHERE id = NEW.committee_member_id;
+
+    IF EXISTS (
+        SELECT 1 FROM role_department_scopes
+        WHERE role_key = actor_role AND page_key = 'attendance'
+    ) AND NOT EXISTS (
+        SELECT 1 FROM role_department_scopes
+        WHERE role_key = actor_role
+          AND page_key = 'attendance'
+          AND department = member_department
+    ) THEN
+        RAISE EXCEPTION 'User % may not mark attendance for department %', actor_id, member_department
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON COLUMN attendance.checked_out_by IS 'User who checked the member out; NULL while still on duty.';
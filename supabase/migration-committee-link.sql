@@ -0,0 +1,44 @@
+-- =============================================
+-- Migration: Link login users to their committee roster entry
+-- users and committee_members were unrelated, so the same person existed
+-- twice with separately typed names. Admins link the two from User
+-- Management (by hand or by matching names), and the profile page shows
+-- the linked member's attendance.
+--
+-- Run this in Supabase SQL Editor AFTER migration-user-edit-broadcast.sql
+-- =============================================
+
+-- The roster entry for this login; unlinked when the member is removed
+ALTER TABLE users ADD COLUMN IF NOT EXISTS committee_member_id INTEGER
+    REFERENCES committee_members(id) ON DELETE SET NULL;
+
+-- A roster entry belongs to at most one login
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_committee_member_id
+    ON users(committee_member_id)
+    WHERE committee_member_id IS NOT NULL;
+
+-- The admin user list shows which users are linked
+GRANT SELECT (committee_member_id) ON users TO anon, authenticated;
+
+-- Push link changes to the user's open sessions too, so "My attendance"
+-- follows the new link without signing in again
+CREATE OR REPLACE FUNCTION notify_user_status_changed()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'active')
+        OR NEW.role IS DISTINCT FROM OLD.role
+        OR NEW.department IS DISTINCT FROM OLD.department
+        OR NEW.name IS DISTINCT FROM OLD.name
+        OR NEW.username IS DISTINCT FROM OLD.username
+        OR NEW.committee_member_id IS DISTINCT FROM OLD.committee_member_id THEN
+        PERFORM broadcast_session_changed(NEW.id);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_user_status_changed ON users;
+CREATE TRIGGER trigger_user_status_changed
+    AFTER UPDATE OF status, role, department, name, username, committee_member_id ON users
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_user_status_changed();
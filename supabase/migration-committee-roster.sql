@@ -0,0 +1,30 @@
+-- =============================================
+-- Migration: Committee roster management
+-- The roster is now edited from the Committee Roster admin page instead of
+-- schema-v3.sql. Members who leave are marked inactive rather than deleted,
+-- so their attendance history is kept; inactive members are left out of
+-- each day's attendance totals and cannot be marked.
+--
+-- Run this in Supabase SQL Editor AFTER migration-committee-link.sql
+-- =============================================
+
+ALTER TABLE committee_members ADD COLUMN IF NOT EXISTS status VARCHAR(20)
+    NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive'));
+ALTER TABLE committee_members ADD COLUMN IF NOT EXISTS updated_at
+    TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_committee_members_status ON committee_members(status);
+
+CREATE OR REPLACE FUNCTION update_committee_members_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_committee_members_updated_at ON committee_members;
+CREATE TRIGGER trigger_committee_members_updated_at
+    BEFORE UPDATE ON committee_members
+    FOR EACH ROW
+    EXECUTE FUNCTION update_committee_members_updated_at();
@@ -0,0 +1,11 @@
+-- =============================================
+-- Migration: Realtime updates for the attendance day settings
+-- The attendance page loads the selected date's reporting time and
+-- finalization once, then reloads them when site_settings changes, instead
+-- of querying them on every refresh. RLS still applies to realtime, so
+-- browsers only receive changes to rows they can already read.
+--
+-- Run this in Supabase SQL Editor AFTER migration-purged-users.sql
+-- =============================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE site_settings;
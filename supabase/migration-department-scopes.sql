@@ -0,0 +1,92 @@
+-- =============================================
+-- Migration: Department-scoped permissions
+-- Lets a role's page permission be limited to one or more departments,
+-- e.g. a logistics head who may only mark logistics_operations members.
+-- Attendance writes now go through the server and are checked again by
+-- a trigger, so the limit holds even if the UI is bypassed.
+-- Run this in Supabase SQL Editor AFTER migration-roles.sql
+-- =============================================
+
+-- A role with no rows for a page is not limited on that page
+CREATE TABLE IF NOT EXISTS role_department_scopes (
+    role_key VARCHAR(50) NOT NULL REFERENCES roles(role_key) ON UPDATE CASCADE ON DELETE CASCADE,
+    page_key VARCHAR(50) NOT NULL,
+    department VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (role_key, page_key, department)
+);
+
+ALTER TABLE role_department_scopes ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON role_department_scopes FROM anon, authenticated;
+GRANT SELECT ON role_department_scopes TO anon, authenticated;
+
+DROP POLICY IF EXISTS "Role department scopes are readable" ON role_department_scopes;
+CREATE POLICY "Role department scopes are readable" ON role_department_scopes FOR SELECT USING (true);
+
+-- Logged in clients refresh their scopes when they change
+ALTER PUBLICATION supabase_realtime ADD TABLE role_department_scopes;
+
+-- Reject attendance writes by users who may not mark this member
+CREATE OR REPLACE FUNCTION enforce_attendance_scope()
+RETURNS TRIGGER AS $$
+DECLARE
+    marker_role VARCHAR(50);
+    marker_permission VARCHAR(10);
+    member_department VARCHAR(100);
+BEGIN
+    -- Deleting the marker's account clears marked_by (ON DELETE SET NULL);
+    -- that is not a new marking, so let it through
+    IF TG_OP = 'UPDATE' AND NEW.marked_by IS NULL AND OLD.marked_by IS NOT NULL
+       AND NOT EXISTS (SELECT 1 FROM users WHERE id = OLD.marked_by) THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.marked_by IS NULL THEN
+        RAISE EXCEPTION 'Attendance must record who marked it'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT role INTO marker_role
+    FROM users
+    WHERE id = NEW.marked_by AND status = 'active';
+
+    SELECT permission INTO marker_permission
+    FROM role_permissions
+    WHERE role_key = marker_role AND page_key = 'attendance';
+
+    IF marker_permission IS DISTINCT FROM 'full' THEN
+        RAISE EXCEPTION 'User % may not mark attendance', NEW.marked_by
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT department INTO member_department
+    FROM committee_members
+    WHERE id = NEW.committee_member_id;
+
+    IF EXISTS (
+        SELECT 1 FROM role_department_scopes
+        WHERE role_key = marker_role AND page_key = 'attendance'
+    ) AND NOT EXISTS (
+        SELECT 1 FROM role_department_scopes
+        WHERE role_key = marker_role
+          AND page_key = 'attendance'
+          AND department = member_department
+    ) THEN
+        RAISE EXCEPTION 'User % may not mark attendance for department %', NEW.marked_by, member_department
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_enforce_attendance_scope ON attendance;
+CREATE TRIGGER trigger_enforce_attendance_scope
+    BEFORE INSERT OR UPDATE ON attendance
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_attendance_scope();
+
+-- The browser can still read attendance but can no longer write it directly
+REVOKE INSERT, UPDATE, DELETE ON attendance FROM anon, authenticated;
+
+COMMENT ON TABLE role_department_scopes IS 'Limits a role''s permission on a page to the listed departments. No rows means all departments.';
@@ -0,0 +1,73 @@
+-- =============================================
+-- Migration: Database-driven departments
+-- Moves the hard-coded department list (CHECK constraints in the schema
+-- and display-name maps in the app) into a table, so admins can add,
+-- rename, recolour and reorder departments without a deploy
+--
+-- Run this in Supabase SQL Editor AFTER migration-committee-roster.sql
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS departments (
+    department_key VARCHAR(100) PRIMARY KEY CHECK (department_key ~ '^[a-z][a-z0-9_]*$'),
+    display_name VARCHAR(100) NOT NULL,
+    -- Hex colour of the department's badges, e.g. #2563eb
+    color VARCHAR(7) NOT NULL DEFAULT '#2563eb' CHECK (color ~ '^#[0-9a-f]{6}$'),
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Seed the existing departments
+INSERT INTO departments (department_key, display_name, color, sort_order) VALUES
+('administrator', 'Administrator', '#db2777', 1),
+('executive', 'Executive', '#7c3aed', 2),
+('program_activities', 'Program & Activities', '#2563eb', 3),
+('protocol_ceremonial', 'Protocol & Ceremonial', '#4f46e5', 4),
+('pr_communication', 'PR & Communication', '#0891b2', 5),
+('logistics_operations', 'Logistics & Operations', '#059669', 6),
+('technical_it_support', 'Technical & IT Support', '#475569', 7),
+('fnb', 'F&B', '#ea580c', 8),
+('sponsorship_finance', 'Sponsorship & Finance', '#ca8a04', 9),
+('health_safety_welfare', 'Health, Safety & Welfare', '#dc2626', 10),
+('evaluation_research_documentation', 'Evaluation, Research & Documentation', '#0d9488', 11)
+ON CONFLICT (department_key) DO NOTHING;
+
+-- Department columns now reference the table instead of a fixed list.
+-- The administrator department is only for login accounts, never the roster
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_department_check;
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_department_fkey;
+ALTER TABLE users
+    ADD CONSTRAINT users_department_fkey FOREIGN KEY (department)
+    REFERENCES departments(department_key) ON UPDATE CASCADE ON DELETE RESTRICT;
+
+ALTER TABLE committee_members DROP CONSTRAINT IF EXISTS committee_members_department_check;
+ALTER TABLE committee_members DROP CONSTRAINT IF EXISTS committee_members_department_fkey;
+ALTER TABLE committee_members
+    ADD CONSTRAINT committee_members_department_check CHECK (department <> 'administrator');
+ALTER TABLE committee_members
+    ADD CONSTRAINT committee_members_department_fkey FOREIGN KEY (department)
+    REFERENCES departments(department_key) ON UPDATE CASCADE ON DELETE RESTRICT;
+
+ALTER TABLE role_department_scopes DROP CONSTRAINT IF EXISTS role_department_scopes_department_fkey;
+ALTER TABLE role_department_scopes
+    ADD CONSTRAINT role_department_scopes_department_fkey FOREIGN KEY (department)
+    REFERENCES departments(department_key) ON UPDATE CASCADE ON DELETE CASCADE;
+
+DROP TRIGGER IF EXISTS update_departments_updated_at ON departments;
+CREATE TRIGGER update_departments_updated_at
+    BEFORE UPDATE ON departments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Anyone may read departments; changes go through the admin API
+ALTER TABLE departments ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON departments FROM anon, authenticated;
+GRANT SELECT ON departments TO anon, authenticated;
+
+DROP POLICY IF EXISTS "Departments are readable" ON departments;
+CREATE POLICY "Departments are readable" ON departments FOR SELECT USING (true);
+
+-- Open pages refresh their department lists when one changes
+ALTER PUBLICATION supabase_realtime ADD TABLE departments;
+
+COMMENT ON TABLE departments IS 'Departments of users and committee members. administrator is referenced by code and cannot be deleted.';
@@ -0,0 +1,23 @@
+-- =============================================
+-- Migration: Late arrivals
+-- Admins can set a reporting time and grace period for each date. A
+-- check-in after both have passed is recorded with the new 'late' status,
+-- which still counts as present but is reported separately.
+--
+-- Run this in Supabase SQL Editor AFTER migration-check-out.sql
+-- =============================================
+
+ALTER TABLE attendance DROP CONSTRAINT IF EXISTS attendance_status_check;
+ALTER TABLE attendance ADD CONSTRAINT attendance_status_check
+    CHECK (status IN ('attend', 'late', 'absent'));
+
+-- Schedules are stored as one site_settings row per date, e.g.
+--   setting_key   = 'reporting_time:2025-01-31'
+--   setting_value = '{"reportingTime":"08:00","graceMinutes":15}'
+-- The attendance pages show the schedule for the selected date
+DROP POLICY IF EXISTS "Browser can read reporting times" ON site_settings;
+CREATE POLICY "Browser can read reporting times" ON site_settings
+    FOR SELECT TO anon, authenticated
+    USING (setting_key LIKE 'reporting_time:%');
+
+COMMENT ON COLUMN attendance.status IS 'attend, late (checked in after the reporting time and grace period) or absent.';
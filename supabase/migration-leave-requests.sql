@@ -0,0 +1,83 @@
+-- =============================================
+-- Migration: Leave requests and excused absences
+-- Committee members linked to a login can ask for leave on a date with a
+-- reason and an optional attachment (e.g. a medical certificate).
+-- Chairpersons approve or reject requests from the Leave Requests page;
+-- approving one records the member as 'excused' for that date instead of
+-- 'absent'.
+--
+-- Run this in Supabase SQL Editor AFTER migration-late-status.sql
+-- =============================================
+
+ALTER TABLE attendance DROP CONSTRAINT IF EXISTS attendance_status_check;
+ALTER TABLE attendance ADD CONSTRAINT attendance_status_check
+    CHECK (status IN ('attend', 'late', 'excused', 'absent'));
+
+CREATE TABLE IF NOT EXISTS leave_requests (
+    id SERIAL PRIMARY KEY,
+    committee_member_id INTEGER NOT NULL REFERENCES committee_members(id) ON DELETE CASCADE,
+    leave_date DATE NOT NULL,
+    reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+    -- Object path in the private leave-attachments bucket
+    attachment_path TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'rejected')),
+    requested_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- A member can have one open or approved request per date; rejected
+-- requests can be followed by a new one
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leave_requests_member_date
+    ON leave_requests(committee_member_id, leave_date)
+    WHERE status IN ('pending', 'approved');
+CREATE INDEX IF NOT EXISTS idx_leave_requests_status ON leave_requests(status);
+
+DROP TRIGGER IF EXISTS update_leave_requests_updated_at ON leave_requests;
+CREATE TRIGGER update_leave_requests_updated_at
+    BEFORE UPDATE ON leave_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS trigger_audit_leave_requests ON leave_requests;
+CREATE TRIGGER trigger_audit_leave_requests
+    AFTER INSERT OR UPDATE OR DELETE ON leave_requests
+    FOR EACH ROW EXECUTE FUNCTION write_audit_log();
+
+-- Reasons can be personal, so requests are only read through the
+-- /api/leave routes, which check who is asking
+ALTER TABLE leave_requests ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON leave_requests FROM anon, authenticated;
+
+-- New Leave Requests page: chairpersons review requests, everyone else
+-- can submit their own
+INSERT INTO role_permissions (role_key, page_key, permission)
+SELECT role_key,
+       'leave',
+       CASE WHEN role_key IN ('admin', 'chairperson') THEN 'full' ELSE 'view' END
+FROM roles
+ON CONFLICT (role_key, page_key) DO NOTHING;
+
+-- =============================================
+-- Storage: leave-attachments bucket
+-- Private, unlike attendance-photos. Uploads use a one-time signed upload
+-- URL from /api/leave/attachment and files are viewed through short-lived
+-- signed URLs handed out by /api/leave
+-- =============================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'leave-attachments',
+    'leave-attachments',
+    false,
+    5242880,  -- 5MB max file size
+    ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE leave_requests IS 'Leave asked for by committee members. Approving a request records the member as excused on leave_date.';
+COMMENT ON COLUMN leave_requests.requested_by IS 'Login that submitted the request, linked to the committee member.';
@@ -0,0 +1,60 @@
+-- =============================================
+-- Migration: Login brute-force protection
+-- Tracks failed logins per username and IP, applies exponential backoff
+-- and a temporary lockout, and records security events for admins
+-- Run this in Supabase SQL Editor
+-- =============================================
+
+-- Failed login attempts, one row per username + IP address
+CREATE TABLE IF NOT EXISTS login_attempts (
+    id SERIAL PRIMARY KEY,
+    username VARCHAR(50) NOT NULL,
+    ip_address VARCHAR(64) NOT NULL,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    last_failed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    locked_until TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(username, ip_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_attempts_username ON login_attempts(username);
+
+-- Security log (failed logins, lockouts, unlocks)
+CREATE TABLE IF NOT EXISTS security_events (
+    id SERIAL PRIMARY KEY,
+    event_type VARCHAR(50) NOT NULL CHECK (event_type IN (
+        'login_failed',
+        'login_blocked',
+        'account_locked',
+        'account_unlocked'
+    )),
+    username VARCHAR(50),
+    user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    ip_address VARCHAR(64),
+    user_agent TEXT,
+    details TEXT,
+    performed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_events_created_at ON security_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_security_events_username ON security_events(username);
+
+-- Both tables are only accessed by the server (service role key)
+ALTER TABLE login_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE security_events ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON login_attempts FROM anon, authenticated;
+REVOKE ALL ON security_events FROM anon, authenticated;
+
+-- Failed attempts allowed before the account is locked
+INSERT INTO site_settings (setting_key, setting_value)
+VALUES ('login_max_attempts', '5')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- First lockout duration in minutes (doubles with each further failure)
+INSERT INTO site_settings (setting_key, setting_value)
+VALUES ('login_lockout_minutes', '15')
+ON CONFLICT (setting_key) DO NOTHING;
+
+COMMENT ON TABLE login_attempts IS 'Failed login counters per username and IP. Cleared on successful login or admin unlock.';
+COMMENT ON TABLE security_events IS 'Admin-visible log of failed, blocked and locked login attempts.';
@@ -0,0 +1,26 @@
+-- =============================================
+-- Migration: Hide password hashes from the browser
+-- Credentials are now verified by the server (service role key) only
+-- Run this in Supabase SQL Editor
+-- =============================================
+
+-- Remove table-wide read access for the public (anon) and authenticated roles
+REVOKE SELECT ON users FROM anon, authenticated;
+
+-- Re-grant read access to every column except password and session_token
+GRANT SELECT (
+    id,
+    username,
+    name,
+    department,
+    role,
+    status,
+    session_updated_at,
+    created_at,
+    updated_at
+) ON users TO anon, authenticated;
+
+-- The service role keeps full access for the /api route handlers
+GRANT ALL ON users TO service_role;
+
+COMMENT ON COLUMN users.password IS 'bcrypt hash. Readable only with the service role key (server-side route handlers).';
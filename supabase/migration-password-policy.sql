@@ -0,0 +1,46 @@
+-- =============================================
+-- Migration: Password policy, reuse history and forced changes
+-- The policy itself (length, character classes, history size, maximum
+-- age) is a JSON row in site_settings, edited from User Management.
+--
+-- Run this in Supabase SQL Editor AFTER migration-view-as.sql
+-- =============================================
+
+-- When the password was last set, for the optional maximum age
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+-- Set by an admin; the user must pick a new password before doing anything else
+ALTER TABLE users ADD COLUMN IF NOT EXISTS must_change_password BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Existing accounts start their password age from now
+UPDATE users SET password_changed_at = NOW() WHERE password_changed_at IS NULL;
+
+-- The admin user list shows who has to change their password
+GRANT SELECT (must_change_password, password_changed_at) ON users TO anon, authenticated;
+
+-- Hashes of previous passwords, so they cannot be reused
+CREATE TABLE IF NOT EXISTS password_history (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    password_hash VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_history_user_id ON password_history(user_id, created_at DESC);
+
+ALTER TABLE password_history ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON password_history FROM anon, authenticated;
+
+-- Seed history with the current passwords so the first change is checked too
+INSERT INTO password_history (user_id, password_hash)
+SELECT u.id, u.password FROM users u
+WHERE NOT EXISTS (SELECT 1 FROM password_history h WHERE h.user_id = u.id);
+
+INSERT INTO site_settings (setting_key, setting_value)
+VALUES (
+    'password_policy',
+    '{"minLength": 8, "requireUppercase": false, "requireLowercase": true, "requireNumber": true, "requireSymbol": false, "historyCount": 5, "maxAgeDays": 0}'
+)
+ON CONFLICT (setting_key) DO NOTHING;
+
+COMMENT ON COLUMN users.must_change_password IS 'User must choose a new password at next login. Cleared when they do.';
+COMMENT ON TABLE password_history IS 'bcrypt hashes of recent passwords. Pruned to the policy''s historyCount.';
@@ -0,0 +1,43 @@
+-- =============================================
+-- Migration: Admin-issued password reset links
+-- An admin creates a single-use link for a user who forgot their password,
+-- instead of deleting and recreating the account. Using the link sets a new
+-- password and signs the user out everywhere.
+--
+-- Run this in Supabase SQL Editor AFTER migration-password-policy.sql
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    -- SHA-256 of the token; the plain token is only ever in the link
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
+
+ALTER TABLE password_reset_tokens ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON password_reset_tokens FROM anon, authenticated;
+
+ALTER TABLE security_events DROP CONSTRAINT IF EXISTS security_events_event_type_check;
+ALTER TABLE security_events ADD CONSTRAINT security_events_event_type_check CHECK (event_type IN (
+    'login_failed',
+    'login_blocked',
+    'account_locked',
+    'account_unlocked',
+    'two_factor_failed',
+    'two_factor_enabled',
+    'two_factor_disabled',
+    'backup_code_used',
+    'view_as_started',
+    'view_as_ended',
+    'view_as_write_blocked',
+    'password_reset_issued',
+    'password_reset_completed'
+));
+
+COMMENT ON TABLE password_reset_tokens IS 'Single-use password reset links issued by admins. Issuing a new link cancels older unused ones.';
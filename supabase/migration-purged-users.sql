@@ -0,0 +1,15 @@
+-- =============================================
+-- Migration: Anonymise purged users instead of deleting them
+-- Purging the Trash used to hard-delete users, which cleared marked_by,
+-- registered_by and the other references to them (ON DELETE SET NULL), so
+-- records no longer showed who made them. Expired users are now kept as
+-- an anonymous "Deleted user" account that cannot sign in, and purged_at
+-- records when that happened. References to them are kept on purpose.
+-- Teams and participants are still deleted for good.
+--
+-- Run this in Supabase SQL Editor AFTER migration-audit-departments.sql
+-- =============================================
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS purged_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN users.purged_at IS 'Set when a user left in the Trash past the retention period is anonymised. Purged users cannot be restored.';
@@ -0,0 +1,102 @@
+-- =============================================
+-- Migration: Row Level Security matching the app's role model
+-- The original schema shipped "USING (true)" policies, so anyone holding
+-- the public anon key could write to every table and the photo bucket.
+--
+-- Sessions and roles are issued by our own server (the funlish_session
+-- cookie), not by Supabase Auth, so the database cannot see who is
+-- calling with the anon key. The model is therefore:
+--   * anon / authenticated: read only, limited to what the UI displays
+--   * all writes go through the Next.js route handlers, which check the
+--     session, the role's page permission and department scope, then
+--     write with the service role key (which bypasses RLS)
+--   * attendance is additionally checked by enforce_attendance_scope()
+--
+-- Run this in Supabase SQL Editor AFTER migration-two-factor.sql
+-- =============================================
+
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE attendance ENABLE ROW LEVEL SECURITY;
+ALTER TABLE participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE committee_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE site_settings ENABLE ROW LEVEL SECURITY;
+
+-- Remove the permissive policies from schema.sql, schema-v2.sql and
+-- migration-maintenance.sql
+DROP POLICY IF EXISTS "Users can view all users" ON users;
+DROP POLICY IF EXISTS "Only admins can insert users" ON users;
+DROP POLICY IF EXISTS "Only admins can update users" ON users;
+DROP POLICY IF EXISTS "Only admins can delete users" ON users;
+DROP POLICY IF EXISTS "Anyone can view groups" ON groups;
+DROP POLICY IF EXISTS "Only admins can manage groups" ON groups;
+DROP POLICY IF EXISTS "Anyone can view participants" ON participants;
+DROP POLICY IF EXISTS "Anyone can manage participants" ON participants;
+DROP POLICY IF EXISTS "Anyone can view committee members" ON committee_members;
+DROP POLICY IF EXISTS "Anyone can manage committee members" ON committee_members;
+DROP POLICY IF EXISTS "Anyone can view attendance" ON attendance;
+DROP POLICY IF EXISTS "Anyone can insert attendance" ON attendance;
+DROP POLICY IF EXISTS "Anyone can update attendance" ON attendance;
+DROP POLICY IF EXISTS "Anyone can delete attendance" ON attendance;
+DROP POLICY IF EXISTS "Anyone can read site settings" ON site_settings;
+DROP POLICY IF EXISTS "Allow updates to site settings" ON site_settings;
+
+-- Read policies
+-- users is further limited by the column-level grant in
+-- migration-password-column.sql (no password, token or TOTP secret)
+DROP POLICY IF EXISTS "Browser can read users" ON users;
+CREATE POLICY "Browser can read users" ON users
+    FOR SELECT TO anon, authenticated USING (true);
+
+DROP POLICY IF EXISTS "Browser can read attendance" ON attendance;
+CREATE POLICY "Browser can read attendance" ON attendance
+    FOR SELECT TO anon, authenticated USING (true);
+
+DROP POLICY IF EXISTS "Browser can read participants" ON participants;
+CREATE POLICY "Browser can read participants" ON participants
+    FOR SELECT TO anon, authenticated USING (true);
+
+DROP POLICY IF EXISTS "Browser can read groups" ON groups;
+CREATE POLICY "Browser can read groups" ON groups
+    FOR SELECT TO anon, authenticated USING (true);
+
+DROP POLICY IF EXISTS "Browser can read committee members" ON committee_members;
+CREATE POLICY "Browser can read committee members" ON committee_members
+    FOR SELECT TO anon, authenticated USING (true);
+
+-- Only the maintenance settings are needed before login (middleware and
+-- the maintenance page); session, lockout and 2FA settings stay server-side
+DROP POLICY IF EXISTS "Browser can read maintenance settings" ON site_settings;
+CREATE POLICY "Browser can read maintenance settings" ON site_settings
+    FOR SELECT TO anon, authenticated
+    USING (setting_key IN ('maintenance_mode', 'maintenance_message'));
+
+-- No INSERT, UPDATE or DELETE policies exist, so RLS already denies
+-- browser writes; revoking the privileges as well makes the failure
+-- explicit and survives a policy being added by mistake
+REVOKE INSERT, UPDATE, DELETE ON users FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON attendance FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON participants FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON groups FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON committee_members FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON site_settings FROM anon, authenticated;
+
+GRANT SELECT ON attendance, participants, groups, committee_members, site_settings
+    TO anon, authenticated;
+
+-- =============================================
+-- Storage: attendance-photos bucket
+-- Photos stay publicly viewable. Uploads use a one-time signed upload URL
+-- from /api/attendance/photo, which checks the attendance permission and
+-- department scope first; nobody can replace or delete photos with the
+-- anon key
+-- =============================================
+
+DROP POLICY IF EXISTS "Anyone can upload attendance photos" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can update attendance photos" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can delete attendance photos" ON storage.objects;
+
+DROP POLICY IF EXISTS "Anyone can view attendance photos" ON storage.objects;
+CREATE POLICY "Anyone can view attendance photos"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'attendance-photos');
@@ -0,0 +1,103 @@
+-- =============================================
+-- Migration: Database-driven roles and permissions
+-- Moves the hard-coded role list and per-page permission matrix into
+-- tables so admins can add roles and change access without a deploy
+-- Run this in Supabase SQL Editor
+-- =============================================
+
+-- Roles users can be assigned
+CREATE TABLE IF NOT EXISTS roles (
+    role_key VARCHAR(50) PRIMARY KEY CHECK (role_key ~ '^[a-z][a-z0-9_]*$'),
+    display_name VARCHAR(100) NOT NULL,
+    -- System roles are referenced by code and cannot be deleted
+    is_system BOOLEAN NOT NULL DEFAULT FALSE,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Permission level for each role on each dashboard page
+CREATE TABLE IF NOT EXISTS role_permissions (
+    role_key VARCHAR(50) NOT NULL REFERENCES roles(role_key) ON UPDATE CASCADE ON DELETE CASCADE,
+    page_key VARCHAR(50) NOT NULL,
+    permission VARCHAR(10) NOT NULL DEFAULT 'none' CHECK (permission IN ('full', 'view', 'none')),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (role_key, page_key)
+);
+
+-- Seed the existing roles
+INSERT INTO roles (role_key, display_name, is_system, sort_order) VALUES
+('admin', 'Admin', TRUE, 1),
+('chairperson', 'Chairperson', FALSE, 2),
+('protocol', 'Protocol', FALSE, 3),
+('registration_coordinator', 'Registration Coordinator', FALSE, 4),
+('committee', 'Committee', TRUE, 5)
+ON CONFLICT (role_key) DO NOTHING;
+
+-- Seed the existing permission matrix
+INSERT INTO role_permissions (role_key, page_key, permission) VALUES
+('admin', 'dashboard', 'full'),
+('admin', 'attendance', 'full'),
+('admin', 'teams', 'full'),
+('admin', 'profile', 'full'),
+('admin', 'userManagement', 'full'),
+('chairperson', 'dashboard', 'full'),
+('chairperson', 'attendance', 'full'),
+('chairperson', 'teams', 'full'),
+('chairperson', 'profile', 'full'),
+('chairperson', 'userManagement', 'none'),
+('protocol', 'dashboard', 'full'),
+('protocol', 'attendance', 'full'),
+('protocol', 'teams', 'full'),
+('protocol', 'profile', 'full'),
+('protocol', 'userManagement', 'none'),
+('registration_coordinator', 'dashboard', 'full'),
+('registration_coordinator', 'attendance', 'view'),
+('registration_coordinator', 'teams', 'full'),
+('registration_coordinator', 'profile', 'full'),
+('registration_coordinator', 'userManagement', 'none'),
+('committee', 'dashboard', 'full'),
+('committee', 'attendance', 'view'),
+('committee', 'teams', 'view'),
+('committee', 'profile', 'full'),
+('committee', 'userManagement', 'none')
+ON CONFLICT (role_key, page_key) DO NOTHING;
+
+-- users.role now references the roles table instead of a fixed list
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_fkey;
+ALTER TABLE users
+    ADD CONSTRAINT users_role_fkey FOREIGN KEY (role)
+    REFERENCES roles(role_key) ON UPDATE CASCADE ON DELETE RESTRICT;
+
+DROP TRIGGER IF EXISTS update_roles_updated_at ON roles;
+CREATE TRIGGER update_roles_updated_at
+    BEFORE UPDATE ON roles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_role_permissions_updated_at ON role_permissions;
+CREATE TRIGGER update_role_permissions_updated_at
+    BEFORE UPDATE ON role_permissions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Anyone may read roles and permissions; changes go through the admin API
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON roles FROM anon, authenticated;
+REVOKE ALL ON role_permissions FROM anon, authenticated;
+GRANT SELECT ON roles TO anon, authenticated;
+GRANT SELECT ON role_permissions TO anon, authenticated;
+
+DROP POLICY IF EXISTS "Roles are readable" ON roles;
+CREATE POLICY "Roles are readable" ON roles FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Role permissions are readable" ON role_permissions;
+CREATE POLICY "Role permissions are readable" ON role_permissions FOR SELECT USING (true);
+
+-- Logged in clients refresh their permissions when the matrix changes
+ALTER PUBLICATION supabase_realtime ADD TABLE role_permissions;
+
+COMMENT ON TABLE roles IS 'User roles. admin and committee are system roles and cannot be deleted.';
+COMMENT ON TABLE role_permissions IS 'Per-page permission level (full, view, none) for each role. Missing rows mean none.';
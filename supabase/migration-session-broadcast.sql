@@ -0,0 +1,52 @@
+-- =============================================
+-- Migration: Push session invalidation over Supabase Realtime
+-- Broadcasts a "session_changed" event on the "user-sessions:<user id>"
+-- channel whenever a session is revoked or a user is deactivated.
+-- Clients re-validate their session with the server when they receive it,
+-- so the broadcast itself carries no authority.
+-- Run this in Supabase SQL Editor AFTER migration-user-sessions.sql
+-- =============================================
+
+CREATE OR REPLACE FUNCTION broadcast_session_changed(target_user_id INTEGER)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM realtime.send(
+        jsonb_build_object('user_id', target_user_id),
+        'session_changed',
+        'user-sessions:' || target_user_id,
+        false
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Session revoked, logged out, expired or pushed out by the session limit
+CREATE OR REPLACE FUNCTION notify_user_session_deleted()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM broadcast_session_changed(OLD.user_id);
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_user_session_deleted ON user_sessions;
+CREATE TRIGGER trigger_user_session_deleted
+    AFTER DELETE ON user_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_user_session_deleted();
+
+-- User deactivated
+CREATE OR REPLACE FUNCTION notify_user_status_changed()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'active' THEN
+        PERFORM broadcast_session_changed(NEW.id);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_user_status_changed ON users;
+CREATE TRIGGER trigger_user_status_changed
+    AFTER UPDATE OF status ON users
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_user_status_changed();
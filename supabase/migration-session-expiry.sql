@@ -0,0 +1,43 @@
+-- =============================================
+-- Migration: Hashed session tokens with expiry
+-- Session tokens are stored as SHA-256 hashes and expire after an
+-- absolute lifetime or a period of inactivity
+-- Run this in Supabase SQL Editor AFTER migration-user-sessions.sql
+-- =============================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Store only the hash of each session token
+ALTER TABLE user_sessions RENAME COLUMN token TO token_hash;
+
+-- Hash any existing plain text tokens so current sessions stay valid
+UPDATE user_sessions
+SET token_hash = encode(digest(token_hash, 'sha256'), 'hex');
+
+-- Absolute expiry time for each session
+ALTER TABLE user_sessions
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE user_sessions
+SET expires_at = created_at + INTERVAL '7 days'
+WHERE expires_at IS NULL;
+
+ALTER TABLE user_sessions
+ALTER COLUMN expires_at SET NOT NULL;
+
+DROP INDEX IF EXISTS idx_user_sessions_token;
+CREATE INDEX IF NOT EXISTS idx_user_sessions_token_hash ON user_sessions(token_hash);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_expires_at ON user_sessions(expires_at);
+
+-- Absolute session lifetime in hours (from login)
+INSERT INTO site_settings (setting_key, setting_value)
+VALUES ('session_absolute_lifetime_hours', '168')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- Sliding idle timeout in minutes (from last activity)
+INSERT INTO site_settings (setting_key, setting_value)
+VALUES ('session_idle_timeout_minutes', '120')
+ON CONFLICT (setting_key) DO NOTHING;
+
+COMMENT ON COLUMN user_sessions.token_hash IS 'SHA-256 hex digest of the session token. The plain token only exists in the signed cookie.';
+COMMENT ON COLUMN user_sessions.expires_at IS 'Absolute expiry; the session is rejected after this time even if active.';
@@ -0,0 +1,45 @@
+-- =============================================
+-- Migration: Soft deletion (Trash) for users, teams and participants
+-- Deleting one of these now only stamps deleted_at/deleted_by, so admins
+-- can restore it from the Trash page. A team and the participants deleted
+-- with it share the same deleted_at, which is how they are restored
+-- together. Items older than the trash_retention_days setting are purged
+-- for good whenever the Trash is opened.
+--
+-- Run this in Supabase SQL Editor AFTER migration-departments.sql
+-- =============================================
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deleted_by INTEGER
+    REFERENCES users(id) ON DELETE SET NULL;
+
+ALTER TABLE groups ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE groups ADD COLUMN IF NOT EXISTS deleted_by INTEGER
+    REFERENCES users(id) ON DELETE SET NULL;
+
+ALTER TABLE participants ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE participants ADD COLUMN IF NOT EXISTS deleted_by INTEGER
+    REFERENCES users(id) ON DELETE SET NULL;
+
+-- The Trash page and the purge look up deleted rows
+CREATE INDEX IF NOT EXISTS idx_users_deleted_at
+    ON users(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_groups_deleted_at
+    ON groups(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_participants_deleted_at
+    ON participants(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Pages filter deleted users out of their lists
+GRANT SELECT (deleted_at) ON users TO anon, authenticated;
+
+-- Days an item stays in the Trash before it is purged
+INSERT INTO site_settings (setting_key, setting_value)
+VALUES ('trash_retention_days', '30')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- Signing a deleted user out is done by deleting their sessions, which
+-- already broadcasts session_changed (migration-session-broadcast.sql)
+
+COMMENT ON COLUMN users.deleted_at IS 'Set when the user is moved to the Trash; deleted users cannot sign in.';
+COMMENT ON COLUMN groups.deleted_at IS 'Set when the team is moved to the Trash; participants deleted with it share this timestamp.';
+COMMENT ON COLUMN participants.deleted_at IS 'Set when the participant is moved to the Trash.';
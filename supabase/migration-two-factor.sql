@@ -0,0 +1,54 @@
+-- =============================================
+-- Migration: TOTP two-factor authentication
+-- Adds authenticator app enrollment, one-time backup codes and a
+-- setting listing the roles that must use a second factor
+-- Run this in Supabase SQL Editor AFTER migration-login-attempts.sql
+-- =============================================
+
+-- TOTP secret and replay protection per user
+-- These columns are not in the column-level SELECT grant from
+-- migration-password-column.sql, so the browser can never read them
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_secret VARCHAR(64);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_pending_secret VARCHAR(64);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_last_used_step BIGINT;
+
+-- Whether 2FA is on is not secret; the admin user list shows it
+GRANT SELECT (totp_enabled) ON users TO anon, authenticated;
+
+-- One-time backup codes (SHA-256 hashed)
+CREATE TABLE IF NOT EXISTS user_backup_codes (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code_hash VARCHAR(64) NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_backup_codes_user_id ON user_backup_codes(user_id);
+
+ALTER TABLE user_backup_codes ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON user_backup_codes FROM anon, authenticated;
+
+-- New security log entries for the second factor
+ALTER TABLE security_events DROP CONSTRAINT IF EXISTS security_events_event_type_check;
+ALTER TABLE security_events ADD CONSTRAINT security_events_event_type_check CHECK (event_type IN (
+    'login_failed',
+    'login_blocked',
+    'account_locked',
+    'account_unlocked',
+    'two_factor_failed',
+    'two_factor_enabled',
+    'two_factor_disabled',
+    'backup_code_used'
+));
+
+-- Roles that must sign in with a second factor (JSON array of role keys)
+INSERT INTO site_settings (setting_key, setting_value)
+VALUES ('two_factor_required_roles', '["admin", "chairperson"]')
+ON CONFLICT (setting_key) DO NOTHING;
+
+COMMENT ON COLUMN users.totp_secret IS 'Base32 TOTP secret. Readable only with the service role key.';
+COMMENT ON COLUMN users.totp_pending_secret IS 'Secret shown during enrollment, moved to totp_secret once a code is confirmed.';
+COMMENT ON COLUMN users.totp_last_used_step IS 'Time step of the last accepted code, so a code cannot be used twice.';
+COMMENT ON TABLE user_backup_codes IS 'One-time 2FA backup codes. Regenerating replaces all of a user''s codes.';
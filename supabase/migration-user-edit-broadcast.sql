@@ -0,0 +1,29 @@
+-- =============================================
+-- Migration: Push user edits to the user's open sessions
+-- Admins can now change a user's name, username, department and role from
+-- User Management. Broadcast "session_changed" for those edits as well as
+-- deactivation, so the user's browser reloads its session and picks up the
+-- new role and permissions straight away.
+--
+-- Run this in Supabase SQL Editor AFTER migration-password-reset.sql
+-- =============================================
+
+CREATE OR REPLACE FUNCTION notify_user_status_changed()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'active')
+        OR NEW.role IS DISTINCT FROM OLD.role
+        OR NEW.department IS DISTINCT FROM OLD.department
+        OR NEW.name IS DISTINCT FROM OLD.name
+        OR NEW.username IS DISTINCT FROM OLD.username THEN
+        PERFORM broadcast_session_changed(NEW.id);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_user_status_changed ON users;
+CREATE TRIGGER trigger_user_status_changed
+    AFTER UPDATE OF status, role, department, name, username ON users
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_user_status_changed();
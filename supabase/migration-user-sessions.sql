@@ -0,0 +1,36 @@
+-- =============================================
+-- Migration: Multi-device sessions
+-- Replaces the single users.session_token with one row per logged in device
+-- Run this in Supabase SQL Editor
+-- =============================================
+
+-- Create user_sessions table
+CREATE TABLE IF NOT EXISTS user_sessions (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token VARCHAR(255) UNIQUE NOT NULL,
+    device_label VARCHAR(100),
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for session lookups
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_token ON user_sessions(token);
+
+-- Sessions are managed only by the server (service role key)
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON user_sessions FROM anon, authenticated;
+
+-- Maximum concurrent sessions per role (JSON map of role -> count)
+-- When a new login exceeds the limit, the least recently used session is revoked
+INSERT INTO site_settings (setting_key, setting_value)
+VALUES ('max_sessions_per_role', '{"admin": 3, "chairperson": 2, "protocol": 2, "registration_coordinator": 2, "committee": 1}')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- The old single-session column is no longer used
+UPDATE users SET session_token = NULL, session_updated_at = NULL;
+
+COMMENT ON TABLE user_sessions IS 'One row per logged in device. Deleting a row revokes that session.';
+COMMENT ON COLUMN user_sessions.device_label IS 'Human readable device description derived from the user agent, e.g. "Chrome on Android"';
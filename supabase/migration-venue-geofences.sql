@@ -0,0 +1,24 @@
+-- =============================================
+-- Migration: Venue geofences
+-- Admins can set one or more venues (a centre and radius, or a polygon)
+-- for each event date. Check-ins on that date are classified as inside,
+-- outside or low-accuracy, flagged on the attendance card and report, and
+-- refused if the date's policy says so.
+--
+-- Run this in Supabase SQL Editor AFTER migration-attendance-finalization.sql
+-- =============================================
+
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS geofence_status VARCHAR(20)
+    CHECK (geofence_status IN ('inside', 'outside', 'low_accuracy'));
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS geofence_venue TEXT;
+
+-- Venues are stored as one site_settings row per date, e.g.
+--   setting_key   = 'geofence:2025-01-31'
+--   setting_value = '{"venues":[{"type":"circle","name":"Main Hall",
+--                     "latitude":3.1390,"longitude":101.6869,
+--                     "radiusMeters":150}],
+--                     "policy":"flag","maxAccuracyMeters":100}'
+-- Only the server reads them; the browser is not given a read policy
+
+COMMENT ON COLUMN attendance.geofence_status IS 'inside, outside or low_accuracy against the venues set for attendance_date when the member checked in. NULL if the date had no venues.';
+COMMENT ON COLUMN attendance.geofence_venue IS 'Name of the venue the check-in fell inside.';
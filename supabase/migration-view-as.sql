@@ -0,0 +1,34 @@
+-- =============================================
+-- Migration: Admin "view as" previews
+-- Lets an admin see the app as another role or a specific user, read-only.
+-- The preview belongs to one login session, so logging out or revoking
+-- the session ends it. Starting, ending and blocked changes are recorded
+-- in the security log.
+--
+-- Run this in Supabase SQL Editor AFTER migration-audit-log.sql
+-- =============================================
+
+ALTER TABLE user_sessions
+    ADD COLUMN IF NOT EXISTS view_as_role VARCHAR(50) REFERENCES roles(role_key) ON DELETE SET NULL;
+ALTER TABLE user_sessions
+    ADD COLUMN IF NOT EXISTS view_as_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE user_sessions
+    ADD COLUMN IF NOT EXISTS view_as_started_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE security_events DROP CONSTRAINT IF EXISTS security_events_event_type_check;
+ALTER TABLE security_events ADD CONSTRAINT security_events_event_type_check CHECK (event_type IN (
+    'login_failed',
+    'login_blocked',
+    'account_locked',
+    'account_unlocked',
+    'two_factor_failed',
+    'two_factor_enabled',
+    'two_factor_disabled',
+    'backup_code_used',
+    'view_as_started',
+    'view_as_ended',
+    'view_as_write_blocked'
+));
+
+COMMENT ON COLUMN user_sessions.view_as_role IS 'Role an admin is previewing in this session. Writes are refused while set.';
+COMMENT ON COLUMN user_sessions.view_as_user_id IS 'User an admin is previewing, when previewing a specific user rather than a role.';
@@ -19,17 +19,6 @@ CREATE POLICY "Anyone can view attendance photos"
 ON storage.objects FOR SELECT
 USING (bucket_id = 'attendance-photos');
 
--- Allow authenticated users to upload photos
-CREATE POLICY "Anyone can upload attendance photos"
-ON storage.objects FOR INSERT
-WITH CHECK (bucket_id = 'attendance-photos');
-
--- Allow authenticated users to update/replace their photos
-CREATE POLICY "Anyone can update attendance photos"
-ON storage.objects FOR UPDATE
-USING (bucket_id = 'attendance-photos');
-
--- Allow authenticated users to delete photos
-CREATE POLICY "Anyone can delete attendance photos"
-ON storage.objects FOR DELETE
-USING (bucket_id = 'attendance-photos');
+-- There are no upload, update or delete policies: photos are uploaded
+-- with signed upload URLs issued by /api/attendance/photo
+-- (see migration-rls.sql)